@@ -0,0 +1,78 @@
+// Enemy affixes for Stick & Shift
+// Elite traits rolled onto ordinary enemies in the later moments of a run
+
+import * as TUNING from './tuning';
+
+export type AffixType = 'swift' | 'ironclad' | 'stickyStick' | 'sniper' | 'shadow' | 'enraged';
+
+export interface AffixDefinition {
+  id: AffixType;
+  name: string;
+  icon: string;
+  description: string;
+}
+
+export const AFFIXES: Record<AffixType, AffixDefinition> = {
+  swift: {
+    id: 'swift',
+    name: 'Swift',
+    icon: '💨',
+    description: 'Runs faster'
+  },
+  ironclad: {
+    id: 'ironclad',
+    name: 'Ironclad',
+    icon: '🛡️',
+    description: 'Tackles never knock it back'
+  },
+  stickyStick: {
+    id: 'stickyStick',
+    name: 'Sticky Stick',
+    icon: '🧲',
+    description: 'Wins the ball more often in the tackle'
+  },
+  sniper: {
+    id: 'sniper',
+    name: 'Sniper',
+    icon: '🎯',
+    description: 'Shoots from the top of the D, hard and true'
+  },
+  shadow: {
+    id: 'shadow',
+    name: 'Shadow',
+    icon: '👤',
+    description: 'Hidden from the radar'
+  },
+  enraged: {
+    id: 'enraged',
+    name: 'Enraged',
+    icon: '😡',
+    description: 'Stunning it spurs its teammates on'
+  }
+};
+
+const AFFIX_TYPES = Object.keys(AFFIXES) as AffixType[];
+
+/**
+ * Affixes for one ordinary enemy in the given moment of a run (1-based).
+ * None before AFFIX_FIRST_MOMENT, then a growing chance of one, and from
+ * AFFIX_SECOND_MOMENT a chance of a second.
+ */
+export function rollAffixes(momentNumber: number, random: () => number = Math.random): AffixType[] {
+  if (momentNumber < TUNING.AFFIX_FIRST_MOMENT) return [];
+  
+  const chance = Math.min(
+    TUNING.AFFIX_MAX_CHANCE,
+    TUNING.AFFIX_CHANCE + (momentNumber - TUNING.AFFIX_FIRST_MOMENT) * TUNING.AFFIX_CHANCE_PER_MOMENT
+  );
+  const count = random() >= chance ? 0
+    : momentNumber >= TUNING.AFFIX_SECOND_MOMENT && random() < chance / 2 ? 2
+    : 1;
+  
+  const pool = [...AFFIX_TYPES];
+  const affixes: AffixType[] = [];
+  for (let i = 0; i < count; i++) {
+    affixes.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+  }
+  return affixes;
+}
@@ -3,6 +3,11 @@
 
 export type ChallengeCategory = 'scoring' | 'defense' | 'skill' | 'special';
 export type ChallengeRewardType = 'upgrade' | 'character' | 'cosmetic' | 'xp';
+export type ChallengeStat = 'goals' | 'reboundGoals' | 'assists' | 'tackles' | 'dodges' |
+                            'cleanSheets' | 'perfectMoments' | 'noDashWins' | 'comebacks';
+
+// lifetime: counts add up across runs; match: best single-run count
+export type ChallengeScope = 'lifetime' | 'match';
 
 export interface ChallengeReward {
   gems: number;
@@ -16,6 +21,8 @@ export interface Challenge {
   description: string;
   category: ChallengeCategory;
   target: number;  // Number to reach for completion
+  stat: ChallengeStat;  // Counter that ChallengeTracker feeds
+  scope: ChallengeScope;
   reward: ChallengeReward;
   icon: string;
   difficulty: 'easy' | 'medium' | 'hard';
@@ -38,6 +45,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Score your first goal',
     category: 'scoring',
     target: 1,
+    stat: 'goals',
+    scope: 'lifetime',
     reward: { gems: 50 },
     icon: '⚽',
     difficulty: 'easy'
@@ -48,6 +57,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Score 3 goals in a single match',
     category: 'scoring',
     target: 3,
+    stat: 'goals',
+    scope: 'match',
     reward: { gems: 150 },
     icon: '🎩',
     difficulty: 'medium'
@@ -58,6 +69,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Score 5 goals in a single match',
     category: 'scoring',
     target: 5,
+    stat: 'goals',
+    scope: 'match',
     reward: { gems: 300, upgradeId: 'slap_shot_boost' },
     icon: '⭐',
     difficulty: 'hard'
@@ -68,6 +81,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Score 10 total goals',
     category: 'scoring',
     target: 10,
+    stat: 'goals',
+    scope: 'lifetime',
     reward: { gems: 100 },
     icon: '🥅',
     difficulty: 'easy'
@@ -78,6 +93,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Score 50 total goals',
     category: 'scoring',
     target: 50,
+    stat: 'goals',
+    scope: 'lifetime',
     reward: { gems: 500 },
     icon: '🏆',
     difficulty: 'medium'
@@ -90,6 +107,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Win your first tackle',
     category: 'defense',
     target: 1,
+    stat: 'tackles',
+    scope: 'lifetime',
     reward: { gems: 30 },
     icon: '⚔️',
     difficulty: 'easy'
@@ -100,6 +119,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Win 5 tackles in a single match',
     category: 'defense',
     target: 5,
+    stat: 'tackles',
+    scope: 'match',
     reward: { gems: 100 },
     icon: '🛡️',
     difficulty: 'medium'
@@ -110,6 +131,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Win 25 total tackles',
     category: 'defense',
     target: 25,
+    stat: 'tackles',
+    scope: 'lifetime',
     reward: { gems: 200, upgradeId: 'crunch_tackle' },
     icon: '💪',
     difficulty: 'medium'
@@ -120,6 +143,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Complete a moment without conceding',
     category: 'defense',
     target: 1,
+    stat: 'cleanSheets',
+    scope: 'lifetime',
     reward: { gems: 100 },
     icon: '🧤',
     difficulty: 'medium'
@@ -132,6 +157,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Get your first assist',
     category: 'skill',
     target: 1,
+    stat: 'assists',
+    scope: 'lifetime',
     reward: { gems: 50 },
     icon: '🤝',
     difficulty: 'easy'
@@ -142,6 +169,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Get 10 total assists',
     category: 'skill',
     target: 10,
+    stat: 'assists',
+    scope: 'lifetime',
     reward: { gems: 200 },
     icon: '📐',
     difficulty: 'medium'
@@ -152,6 +181,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Dodge 10 times in a single match',
     category: 'skill',
     target: 10,
+    stat: 'dodges',
+    scope: 'match',
     reward: { gems: 100 },
     icon: '💨',
     difficulty: 'medium'
@@ -162,6 +193,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Win a moment without dashing',
     category: 'skill',
     target: 1,
+    stat: 'noDashWins',
+    scope: 'lifetime',
     reward: { gems: 150 },
     icon: '🚶',
     difficulty: 'hard'
@@ -174,6 +207,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Score a rebound goal',
     category: 'special',
     target: 1,
+    stat: 'reboundGoals',
+    scope: 'lifetime',
     reward: { gems: 100 },
     icon: '🔄',
     difficulty: 'medium'
@@ -184,6 +219,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Win after being 2 goals down',
     category: 'special',
     target: 1,
+    stat: 'comebacks',
+    scope: 'lifetime',
     reward: { gems: 200 },
     icon: '🔥',
     difficulty: 'hard'
@@ -194,6 +231,8 @@ export const CHALLENGES: Challenge[] = [
     description: 'Complete a moment with 3+ goals and 0 conceded',
     category: 'special',
     target: 1,
+    stat: 'perfectMoments',
+    scope: 'lifetime',
     reward: { gems: 300, upgradeId: 'fragile_genius' },
     icon: '✨',
     difficulty: 'hard'
@@ -220,3 +259,10 @@ export function getChallengesByCategory(category: ChallengeCategory): Challenge[
 export function getChallengesByDifficulty(difficulty: 'easy' | 'medium' | 'hard'): Challenge[] {
   return CHALLENGES.filter(c => c.difficulty === difficulty);
 }
+
+/**
+ * Get challenges that track a given stat
+ */
+export function getChallengesByStat(stat: ChallengeStat): Challenge[] {
+  return CHALLENGES.filter(c => c.stat === stat);
+}
@@ -173,7 +173,7 @@ export const CHARACTERS: Character[] = [
     role: 'forward',
     description: 'Quick thinker with exceptional awareness.',
     stats: { speed: 7, stamina: 5, control: 7, shotPower: 6, passPower: 7, tackle: 4, dodge: 7 },
-    trait: { name: 'Sixth Sense', description: 'See enemy positions on minimap', effect: 'minimap' },
+    trait: { name: 'Sixth Sense', description: 'Minimap shows even hidden enemies', effect: 'minimap' },
     downside: { name: 'Fragile', description: 'Stunned 25% longer from tackles', effect: 'longStun' },
     unlockCost: 275,
     color: 0xd35400
@@ -3,6 +3,7 @@
 // Triggered when player is down by 2+ points in Cup Run
 
 import { UpgradeModifier } from './upgrades';
+import { EnemyModifier } from './enemyStats';
 
 export interface CurseHook {
   event: string;
@@ -19,6 +20,9 @@ export interface CurseDefinition {
   // Effects applied through UpgradeSystem
   modifiers?: UpgradeModifier[];
   hooks?: CurseHook[];
+  
+  // Downsides applied to the enemy team through EnemyModifierSystem
+  enemyModifiers?: EnemyModifier[];
 }
 
 export const CURSES: CurseDefinition[] = [
@@ -31,6 +35,9 @@ export const CURSES: CurseDefinition[] = [
     icon: '💥',
     modifiers: [
       { stat: 'shotPower', value: 40, isPercent: true }
+    ],
+    enemyModifiers: [
+      { stat: 'tackleStun', value: 50 }
     ]
   },
   {
@@ -77,6 +84,9 @@ export const CURSES: CurseDefinition[] = [
     icon: '🛡️',
     modifiers: [
       { stat: 'stunImmunityAfterTackle', value: 1000 }
+    ],
+    enemyModifiers: [
+      { stat: 'aggression', value: 30 }
     ]
   },
   {
@@ -110,8 +120,10 @@ export const CURSES: CurseDefinition[] = [
     curseDescription: 'Enemies move 15% faster',
     icon: '⏰',
     modifiers: [
-      { stat: 'momentDuration', value: 10 },
-      { stat: 'enemySpeed', value: 15, isPercent: true }
+      { stat: 'momentDuration', value: 10 }
+    ],
+    enemyModifiers: [
+      { stat: 'speed', value: 15 }
     ]
   },
   {
@@ -132,8 +144,10 @@ export const CURSES: CurseDefinition[] = [
     curseDescription: 'Enemies target you more aggressively',
     icon: '🧲',
     modifiers: [
-      { stat: 'ballMagnet', value: 30 },
-      { stat: 'enemyTargetPriority', value: 50, isPercent: true }
+      { stat: 'ballMagnet', value: 30 }
+    ],
+    enemyModifiers: [
+      { stat: 'aggression', value: 50 }
     ]
   },
   {
@@ -222,9 +236,17 @@ export const CURSES: CurseDefinition[] = [
 /**
  * Get random curse options (no duplicates)
  */
-export function getRandomCurseOptions(count: number = 2, excludeIds: string[] = []): CurseDefinition[] {
-  const available = CURSES.filter(c => !excludeIds.includes(c.id));
-  const shuffled = [...available].sort(() => Math.random() - 0.5);
+export function getRandomCurseOptions(
+  count: number = 2,
+  excludeIds: string[] = [],
+  random: () => number = Math.random
+): CurseDefinition[] {
+  // Fisher-Yates: a sort() comparator shuffle isn't reproducible from a seed
+  const shuffled = CURSES.filter(c => !excludeIds.includes(c.id));
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
   return shuffled.slice(0, count);
 }
 
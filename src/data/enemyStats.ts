@@ -0,0 +1,15 @@
+// Enemy stat modifiers for Stick & Shift
+// The enemy team's half of curses, moment modifiers and boss auras
+
+export type EnemyStat =
+  | 'speed'        // Run speed
+  | 'tackleRange'  // How far away a tackle is tried and lands
+  | 'aggression'   // How readily a presser goes in for the tackle
+  | 'shotPower'
+  | 'tackleStun';  // How long a won tackle stuns the player's team
+
+export interface EnemyModifier {
+  stat: EnemyStat;
+  value: number;       // Percent, like an UpgradeModifier with isPercent
+  starOnly?: boolean;  // Only the moment's star player
+}
@@ -1,16 +1,27 @@
 // Moment definitions for Stick & Shift
 // Each moment is a 30-60s gameplay segment with a specific objective
 
+import { WeatherType } from './weather';
+import { EnemyModifier } from './enemyStats';
+
 export type MomentObjective = 'score' | 'defend' | 'survive' | 'penaltyCorner' | 
                                'turnover' | 'reboundGoal' | 'multiGoal' | 'assist' |
                                'giveAndGo' | 'possession' | 'pressWin' | 'protectInjector' | 'pcBattle' |
-                               'pc_score' | 'pc_defend';
+                               'pc_score' | 'pc_defend' | 'shootout';
+
+/** Shootouts are 8-second 1v1 runs from the 23m line; strokes are one shot from the spot */
+export type ShootoutFormat = 'shootout' | 'stroke';
+
+export type BossType = 'pressMachine' | 'pcMonster' | 'starForward' | 'rainGame' | 'strokeMaster' |
+                       'wall' | 'twinStrikers' | 'sweeperKeeper' | 'captain' | 'aerialAce' | 'enforcer';
 
 export interface MomentModifier {
   id: string;
   name: string;
   description: string;
   effect: string;
+  weather?: WeatherType;  // Sets the pitch conditions for the moment
+  enemyModifiers?: EnemyModifier[];  // Enemy stat changes for the moment
 }
 
 export interface MomentDefinition {
@@ -22,8 +33,12 @@ export interface MomentDefinition {
   targetScore?: number;  // Goals to score
   defendScore?: number;  // Goals to prevent
   pcAttempts?: number;  // Number of PC attempts for PC moments
+  holdSeconds?: number;  // Possession needed for possession moments
+  shootoutRounds?: number;  // Attempts each side for shootout moments
+  shootoutFormat?: ShootoutFormat;
   isBoss: boolean;
-  bossType?: 'pressMachine' | 'pcMonster' | 'starForward' | 'rainGame';
+  bossType?: BossType;
+  bossCount?: number;  // Enemies played as the boss (default 1)
   difficulty: 1 | 2 | 3 | 4 | 5;
   teamSize: { player: number; enemy: number };
   modifiers: MomentModifier[];
@@ -35,13 +50,39 @@ export const MOMENT_MODIFIERS: Record<string, MomentModifier> = {
     id: 'wetTurf',
     name: 'Wet Turf',
     description: 'Slippery surface, reduced control',
-    effect: 'reducedControl'
+    effect: 'reducedControl',
+    weather: 'rain'
+  },
+  gustyWind: {
+    id: 'gustyWind',
+    name: 'Gusty Wind',
+    description: 'Wind pushes the loose ball around',
+    effect: 'windDrift',
+    weather: 'wind'
+  },
+  frozenPitch: {
+    id: 'frozenPitch',
+    name: 'Frozen Pitch',
+    description: 'Ice underfoot, the ball skids and nobody can stop',
+    effect: 'iceTurf',
+    weather: 'ice'
+  },
+  heatwave: {
+    id: 'heatwave',
+    name: 'Heatwave',
+    description: 'Heavy air, every sprint costs more stamina',
+    effect: 'staminaDrain',
+    weather: 'heat'
   },
   pressIntense: {
     id: 'pressIntense',
     name: 'Intense Press',
     description: 'Enemies press aggressively',
-    effect: 'aggressiveAI'
+    effect: 'aggressiveAI',
+    enemyModifiers: [
+      { stat: 'aggression', value: 40 },
+      { stat: 'speed', value: 10 }
+    ]
   },
   pcExpert: {
     id: 'pcExpert',
@@ -53,7 +94,12 @@ export const MOMENT_MODIFIERS: Record<string, MomentModifier> = {
     id: 'starPlayer',
     name: 'Star Player',
     description: 'One elite enemy with enhanced abilities',
-    effect: 'eliteEnemy'
+    effect: 'eliteEnemy',
+    enemyModifiers: [
+      { stat: 'speed', value: 20, starOnly: true },
+      { stat: 'shotPower', value: 20, starOnly: true },
+      { stat: 'tackleRange', value: 25, starOnly: true }
+    ]
   },
   shortTime: {
     id: 'shortTime',
@@ -137,6 +183,7 @@ export const MOMENTS: MomentDefinition[] = [
     objective: 'penaltyCorner',
     duration: 45,
     targetScore: 1,
+    pcAttempts: 3,
     isBoss: false,
     difficulty: 2,
     teamSize: { player: 5, enemy: 5 },
@@ -201,6 +248,42 @@ export const MOMENTS: MomentDefinition[] = [
     teamSize: { player: 4, enemy: 4 },
     modifiers: [MOMENT_MODIFIERS.wetTurf]
   },
+  {
+    id: 'windyScore',
+    name: 'Crosswind',
+    description: 'Score 2 goals with the wind pushing the ball',
+    objective: 'multiGoal',
+    duration: 60,
+    targetScore: 2,
+    isBoss: false,
+    difficulty: 3,
+    teamSize: { player: 4, enemy: 4 },
+    modifiers: [MOMENT_MODIFIERS.gustyWind]
+  },
+  {
+    id: 'frostScore',
+    name: 'Frost Derby',
+    description: 'Score a goal on a frozen pitch',
+    objective: 'score',
+    duration: 45,
+    targetScore: 1,
+    isBoss: false,
+    difficulty: 3,
+    teamSize: { player: 4, enemy: 4 },
+    modifiers: [MOMENT_MODIFIERS.frozenPitch]
+  },
+  {
+    id: 'heatwaveHold',
+    name: 'Heatwave',
+    description: 'Hold possession for 12 seconds total in the heat',
+    objective: 'possession',
+    duration: 60,
+    holdSeconds: 12,
+    isBoss: false,
+    difficulty: 4,
+    teamSize: { player: 4, enemy: 3 },
+    modifiers: [MOMENT_MODIFIERS.heatwave]
+  },
   {
     id: 'threeGoals',
     name: 'Hat Trick',
@@ -224,7 +307,7 @@ export const MOMENTS: MomentDefinition[] = [
     teamSize: { player: 3, enemy: 4 },
     modifiers: [MOMENT_MODIFIERS.noSaves]
   },
-
+  
   // ========== NEW MOMENT TYPES ==========
   {
     id: 'giveAndGo',
@@ -278,12 +361,13 @@ export const MOMENTS: MomentDefinition[] = [
     objective: 'pcBattle',
     duration: 60,
     targetScore: 1,
+    pcAttempts: 3,
     isBoss: false,
     difficulty: 3,
     teamSize: { player: 5, enemy: 5 },
     modifiers: []
   },
-
+  
   // ========== PENALTY CORNER MOMENTS (Part D) ==========
   {
     id: 'pcScore',
@@ -311,7 +395,22 @@ export const MOMENTS: MomentDefinition[] = [
     teamSize: { player: 5, enemy: 5 },
     modifiers: []
   },
-
+  
+  // ========== SHOOTOUT MOMENTS ==========
+  {
+    id: 'shootout',
+    name: 'Shootout',
+    description: 'Win a 5-round shootout: 8 seconds 1v1 from the 23m line, then keep theirs out',
+    objective: 'shootout',
+    duration: 60,
+    shootoutRounds: 5,
+    shootoutFormat: 'shootout',
+    isBoss: false,
+    difficulty: 3,
+    teamSize: { player: 4, enemy: 4 },
+    modifiers: []
+  },
+  
   // ========== BOSS MOMENTS ==========
   {
     id: 'bossPressMachine',
@@ -363,6 +462,98 @@ export const MOMENTS: MomentDefinition[] = [
     difficulty: 4,
     teamSize: { player: 4, enemy: 4 },
     modifiers: [MOMENT_MODIFIERS.wetTurf]
+  },
+  {
+    id: 'bossStrokeMaster',
+    name: 'Stroke Master',
+    description: 'Out-duel a penalty specialist in a stroke showdown',
+    objective: 'shootout',
+    duration: 60,
+    shootoutRounds: 5,
+    shootoutFormat: 'stroke',
+    isBoss: true,
+    bossType: 'strokeMaster',
+    difficulty: 4,
+    teamSize: { player: 4, enemy: 4 },
+    modifiers: []
+  },
+  {
+    id: 'bossTheWall',
+    name: 'The Wall',
+    description: 'A keeper who stops every clean shot - only rebounds and deflections beat him',
+    objective: 'score',
+    duration: 55,
+    targetScore: 1,
+    isBoss: true,
+    bossType: 'wall',
+    difficulty: 4,
+    teamSize: { player: 4, enemy: 4 },
+    modifiers: []
+  },
+  {
+    id: 'bossTwinStrikers',
+    name: 'Twin Strikers',
+    description: 'Two elite forwards who play one-twos round anyone who closes them down',
+    objective: 'survive',
+    duration: 45,
+    isBoss: true,
+    bossType: 'twinStrikers',
+    bossCount: 2,
+    difficulty: 5,
+    teamSize: { player: 4, enemy: 4 },
+    modifiers: []
+  },
+  {
+    id: 'bossSweeperKeeper',
+    name: 'Sweeper Keeper',
+    description: 'Their keeper charges off the line - beat him to the ball or shoot from range',
+    objective: 'score',
+    duration: 50,
+    targetScore: 1,
+    isBoss: true,
+    bossType: 'sweeperKeeper',
+    difficulty: 4,
+    teamSize: { player: 4, enemy: 4 },
+    modifiers: []
+  },
+  {
+    id: 'bossCaptain',
+    name: 'The Captain',
+    description: 'Score 2 while the Captain drives on every teammate near him',
+    objective: 'multiGoal',
+    duration: 65,
+    targetScore: 2,
+    isBoss: true,
+    bossType: 'captain',
+    difficulty: 4,
+    teamSize: { player: 4, enemy: 5 },
+    modifiers: [MOMENT_MODIFIERS.pressIntense]
+  },
+  {
+    id: 'bossAerialAce',
+    name: 'Aerial Ace',
+    description: 'Hold the lead against a playmaker who lifts every pass over your defence',
+    objective: 'defend',
+    duration: 50,
+    defendScore: 1,
+    isBoss: true,
+    bossType: 'aerialAce',
+    difficulty: 4,
+    teamSize: { player: 4, enemy: 4 },
+    modifiers: [MOMENT_MODIFIERS.gustyWind]
+  },
+  {
+    id: 'bossEnforcer',
+    name: 'The Enforcer',
+    description: 'Score past a bruiser whose tackles leave you on the turf',
+    objective: 'score',
+    duration: 50,
+    targetScore: 1,
+    isBoss: true,
+    bossType: 'enforcer',
+    difficulty: 5,
+    teamSize: { player: 4, enemy: 4 },
+    modifiers: []
   }
 ];
 
@@ -378,7 +569,7 @@ export function getBossMoments(): MomentDefinition[] {
   return MOMENTS.filter(m => m.isBoss);
 }
 
-export function generateRunMoments(momentCount: number = 10): MomentDefinition[] {
+export function generateRunMoments(momentCount: number = 10, random: () => number = Math.random): MomentDefinition[] {
   const standardMoments = getStandardMoments();
   const bossMoments = getBossMoments();
   const run: MomentDefinition[] = [];
@@ -386,7 +577,7 @@ export function generateRunMoments(momentCount: number = 10): MomentDefinition[]
   for (let i = 0; i < momentCount; i++) {
     // Every 3rd moment (index 2, 5, 8, 11) is a boss moment
     if ((i + 1) % 3 === 0 && bossMoments.length > 0) {
-      const bossIndex = Math.floor(Math.random() * bossMoments.length);
+      const bossIndex = Math.floor(random() * bossMoments.length);
       run.push(bossMoments[bossIndex]);
     } else {
       // Pick a standard moment based on difficulty progression
@@ -395,10 +586,10 @@ export function generateRunMoments(momentCount: number = 10): MomentDefinition[]
         m.difficulty <= targetDifficulty + 1 && m.difficulty >= targetDifficulty - 1
       );
       if (candidates.length > 0) {
-        const index = Math.floor(Math.random() * candidates.length);
+        const index = Math.floor(random() * candidates.length);
         run.push(candidates[index]);
       } else {
-        run.push(standardMoments[Math.floor(Math.random() * standardMoments.length)]);
+        run.push(standardMoments[Math.floor(random() * standardMoments.length)]);
       }
     }
   }
@@ -64,6 +64,16 @@ export const DODGE_DISTANCE_BASE = 85;
 export const DODGE_DISTANCE_SCALE = 8;
 /** Dodge duration in ms */
 export const DODGE_DURATION = 180;
+/** Tackle immunity granted by a dodge (ms) */
+export const DODGE_IFRAME_MS = 180;
+/** Cooldown between chained dodges when extra dodge charges are available (ms) */
+export const DODGE_CHAIN_COOLDOWN = 220;
+/** Window after a dodge in which the next one still counts as part of the chain (ms) */
+export const DODGE_CHAIN_WINDOW = 700;
+/** Facing rotation speed when a trait changes it (radians per second; facing snaps otherwise) */
+export const PLAYER_TURN_RATE = 18;
+/** Distance at which the player can scoop up a loose ball */
+export const PLAYER_PICKUP_REACH = 30;
 
 // ============================================================
 // TACKLE IMPACT (MORE PUNISHING)
@@ -279,6 +289,8 @@ export const PLAYER_MAX_HEALTH = 100;
 export const TACKLE_DAMAGE_BASE = 18;
 /** Health regen per second (0 = no passive regen) */
 export const HEALTH_REGEN_PER_SEC = 0;
+/** Percent of max health recovered between moments (health otherwise carries over) */
+export const MOMENT_RECOVERY_PERCENT = 50;
 
 // ============================================================
 // STAMINA SYSTEM
@@ -421,3 +433,494 @@ export const SUPPORT_MIN_SEPARATION = 70;
 export const SHOT_SPIN_BASE = 0.08;
 /** Spin decay per frame */
 export const SHOT_SPIN_DECAY = 0.97;
+
+// ============================================================
+// CHARACTER TRAITS & DOWNSIDES
+// ============================================================
+
+/** Duration of the speed burst after a won tackle (Ball Hunter) */
+export const TRAIT_TACKLE_SPEED_MS = 2000;
+/** Stun applied to the player when a tackle is called as a foul (ms) */
+export const TRAIT_FOUL_STUN_MS = 400;
+/** Max angle error (radians) on a bobbled pass */
+export const TRAIT_PASS_BOBBLE_ANGLE = 0.35;
+/** Speed multiplier on a bobbled pass */
+export const TRAIT_PASS_BOBBLE_SPEED_MULT = 0.7;
+/** Half-angle of the cone searched for an auto-targeted pass (radians) */
+export const TRAIT_AUTO_PASS_CONE = Math.PI / 3;
+/** Duration of the speed buff a forward gets from a Playmaker pass (ms) */
+export const TRAIT_FORWARD_BUFF_MS = 2500;
+/** Speed multiplier for a buffed forward */
+export const TRAIT_FORWARD_BUFF_MULT = 1.25;
+/** Push applied to the enemy GK by a Cannon Foot shot */
+export const TRAIT_GK_KNOCKBACK_FORCE = 260;
+/** How long a knocked-back GK can't track or lunge (ms) */
+export const TRAIT_GK_STAGGER_MS = 600;
+/** Speed of a lucky deflection redirected toward goal */
+export const TRAIT_LUCKY_DEFLECT_SPEED = 520;
+/** Minimum enemy shot speed that can slip past the player in goal */
+export const TRAIT_SAVE_SLIP_SPEED = 250;
+/** How long a slipped shot ignores the player's pickup (ms) */
+export const TRAIT_SAVE_SLIP_MS = 250;
+/** Max per-stat swing rolled each moment (percent, Inconsistent) */
+export const TRAIT_STAT_VARIANCE = 15;
+
+// ============================================================
+// COMEBACK CURSES
+// ============================================================
+
+/** Max angle error (radians) on a shot at -100% shotAccuracy; smaller penalties scale it down */
+export const CURSE_SHOT_SCATTER_ANGLE = 0.6;
+/** How far a shot that goes wide is pulled off its line (radians, Gambler's Curse) */
+export const CURSE_WILD_SHOT_ANGLE = 0.5;
+/** Stun added to the tackle stun when the player is dispossessed (ms, Momentum Curse) */
+export const CURSE_TURNOVER_STUN_MS = 500;
+
+// ============================================================
+// CHALLENGES
+// ============================================================
+
+/** A teammate goal counts as the player's assist if they scored this soon after receiving the player's pass (ms) */
+export const CHALLENGE_ASSIST_WINDOW_MS = 5000;
+/** Gap between queued achievement popups (ms) */
+export const CHALLENGE_POPUP_SPACING_MS = 4500;
+/** Minimum goal deficit a won moment must recover from to count as a comeback */
+export const CHALLENGE_COMEBACK_DEFICIT = 2;
+/** Goals needed in a clean-sheet win for a perfect moment */
+export const CHALLENGE_PERFECT_GOALS = 3;
+
+// ============================================================
+// PASS UPGRADES
+// ============================================================
+
+/** Flight time of a lobbed pass (ms) */
+export const LOB_PASS_AIR_MS = 550;
+/** Flight time of a chipped pass, which clears one defender (ms) */
+export const CHIP_PASS_AIR_MS = 350;
+/** Teammates a Pass Network pass is relayed through before it stops */
+export const PASS_RELAY_COUNT = 2;
+/** Delay before a teammate relays the pass on (ms) */
+export const PASS_RELAY_DELAY_MS = 120;
+/** Furthest a relay will look for the next teammate */
+export const PASS_RELAY_MAX_DIST = 420;
+/** How hard a homing pass turns toward its receiver each frame (0-1) */
+export const PASS_HOMING_TURN = 0.2;
+/** Side length under which the player and two teammates make a passing triangle */
+export const PASS_TRIANGLE_MAX_SIDE = 320;
+/** Metronome: ideal gap between the player's passes (ms) */
+export const METRONOME_BEAT_MS = 1500;
+/** Metronome: how far off the beat still counts (ms) */
+export const METRONOME_WINDOW_MS = 250;
+/** A return pass within this long of the player's pass is a give-and-go (ms) */
+export const GIVE_AND_GO_WINDOW_MS = 3500;
+
+// ============================================================
+// TRICKSTER UPGRADES
+// ============================================================
+
+/** Decoy run speed (px/s) */
+export const DECOY_SPEED = 200;
+/** Enemies within this distance of a decoy chase it instead of the carrier */
+export const DECOY_LURE_RADIUS = 260;
+/** Angle between decoys when several spawn at once (radians) */
+export const DECOY_SPREAD = 0.7;
+/** Fake shots only fool the GK from within this distance of the goal */
+export const FAKE_SHOT_RANGE = 420;
+/** How long the GK is out of position after biting on a fake (ms) */
+export const GK_FAKE_RECOVERY_MS = 900;
+/** Minimum player speed for Bull Rush to carry through a tackle */
+export const SPRINT_THROUGH_MIN_SPEED = 180;
+/** Minimum player speed for Juggernaut's stun immunity */
+export const JUGGERNAUT_MIN_SPEED = 60;
+
+// ============================================================
+// PRESS UPGRADES
+// ============================================================
+
+/** Press Machine: the player is pressing within this distance of the enemy carrier */
+export const PRESS_MACHINE_RANGE = 160;
+/** Press Machine: how long teammates keep pressing once the player stops (ms) */
+export const PRESS_MACHINE_HOLD_MS = 600;
+
+// ============================================================
+// REBOUND UPGRADES
+// ============================================================
+
+/** A shot taken within this long of a save or deflection counts as a rebound finish (ms) */
+export const REBOUND_WINDOW_MS = 1500;
+/** Loose rebounds slower than this are dead (px/s) */
+export const REBOUND_DEAD_SPEED = 30;
+/** Slowest ball that clangs off a post instead of trickling past it (px/s) */
+export const POST_MIN_SPEED = 150;
+/** Speed kept after hitting a post (0-1) */
+export const POST_RESTITUTION = 0.7;
+/** Perfect Rebound: how far in front of the goal line the ball is steered */
+export const GUIDED_REBOUND_DIST = 90;
+/** Perfect Rebound: speed of the steered rebound (px/s) */
+export const GUIDED_REBOUND_SPEED = 260;
+/** Ricochets: speed of a shot bouncing off a defender toward goal (px/s) */
+export const RICOCHET_SPEED = 420;
+/** Slowest ball that still counts as a shot when it reaches a defender (px/s) */
+export const BLOCK_MIN_SPEED = 250;
+/** How long a defender the ball bounced off is kept from trapping it (ms) */
+export const BLOCK_PICKUP_GRACE_MS = 250;
+/** Deflector: enemy shots passing within this distance of the player can be deflected */
+export const DEFLECT_RADIUS = 60;
+/** Deflector: share of the shot's speed kept after the deflection (0-1) */
+export const DEFLECT_SPEED_SCALE = 0.6;
+/** Poaching Instinct: how far ahead the landing spot is predicted (ms) */
+export const POACH_PREDICT_MS = 350;
+/** Poaching Instinct: minimum time between teleports (ms) */
+export const POACH_TELEPORT_COOLDOWN_MS = 4000;
+
+
+// ============================================================
+// WEATHER
+// ============================================================
+
+/** Rain Game boss: how far past a normal rain moment the conditions go */
+export const RAIN_GAME_INTENSITY = 1.4;
+/** Rain Game boss: gusts on top of the rain (px/s²) */
+export const RAIN_GAME_WIND = 70;
+/** How fast the wind direction swings (radians/s) */
+export const WEATHER_WIND_DRIFT = 0.4;
+/** Aerial balls catch this much more wind */
+export const WEATHER_AERIAL_WIND_SCALE = 2;
+/** Rain streaks on the pitch at normal intensity */
+export const WEATHER_STREAK_COUNT = 80;
+/** Rain streak fall speed (px/s) */
+export const WEATHER_RAIN_FALL_SPEED = 520;
+/** How long a slipped enemy is down (ms) */
+export const ENEMY_SLIP_MS = 700;
+/** Speed a slipping carrier's ball rolls away at (px/s) */
+export const ENEMY_SLIP_BALL_SPEED = 140;
+/** Mud Runner: enemies this close to the player slip more often */
+export const SLIP_AURA_RADIUS = 150;
+/** Weather Master: radius of the slippery zone around the player */
+export const SLIP_ZONE_RADIUS = 110;
+/** Weather Master: extra slip chance per second inside the zone (%) */
+export const SLIP_ZONE_CHANCE = 40;
+
+
+// ============================================================
+// PENALTY CORNERS
+// ============================================================
+
+/** How long everyone holds their marks before the push-out (ms) */
+export const PC_SETUP_MS = 1500;
+/** Injector's distance from the goal center along the backline */
+export const PC_INJECT_OFFSET = 200;
+/** Push-out speed (px/s) */
+export const PC_INJECTION_SPEED = 600;
+/** Attackers line up this far outside the D */
+export const PC_TOP_OF_D_GAP = 25;
+/** Defenders allowed on the goal line; the rest start at halfway */
+export const PC_GOAL_LINE_DEFENDERS = 4;
+/** How long a corner stays live before it is called off (ms) */
+export const PC_ATTEMPT_MS = 8000;
+/** Ball further than this from the goal ends the corner */
+export const PC_END_DISTANCE = 320;
+/** Pause between one corner ending and the next setup (ms) */
+export const PC_RESET_DELAY_MS = 1500;
+/** Chance the stopper fumbles the injection (%); PC Injector control takes it down */
+export const PC_STOP_FUMBLE_CHANCE = 20;
+/** Speed a fumbled stop bounces away at (px/s) */
+export const PC_FUMBLE_BALL_SPEED = 120;
+/** How long the fumbling stopper can't re-trap the ball (ms) */
+export const PC_FUMBLE_GRACE_MS = 400;
+
+
+// ============================================================
+// OUT OF PLAY & RESTARTS
+// ============================================================
+
+/** Sidelines and backlines are drawn this far in from the edge of the world */
+export const PITCH_LINE_INSET = 20;
+/** How far past a line the ball's center must go to be out (px) */
+export const OUT_OF_PLAY_MARGIN = 6;
+/** Restart spots on a line sit this far inside it */
+export const RESTART_LINE_GAP = 4;
+/** 16-yard hit: distance out from the backline, clear of the D */
+export const RESTART_16YD_DIST = 170;
+/** Long corner: distance out from the backline to the 23m line */
+export const RESTART_23M_DIST = 230;
+/** 5m: opponents stand off this far, and the ball must go this far before the taking team can score */
+export const RESTART_5M_DIST = 50;
+/** How long everyone holds position before a restart is played (ms) */
+export const RESTART_SETUP_MS = 900;
+/** Taker stands this far behind the ball */
+export const RESTART_TAKER_OFFSET = 20;
+
+
+// ============================================================
+// UMPIRE & CARDS
+// ============================================================
+
+/** Chance a tackle from behind is whistled (%) */
+export const UMPIRE_BACK_TACKLE_CHANCE = 30;
+/** Tackler flying in at least this fast (px/s, a lunge or dash) risks dangerous play */
+export const UMPIRE_DANGEROUS_SPEED = 420;
+/** Chance a tackle at that speed is called dangerous (%) */
+export const UMPIRE_DANGEROUS_CHANCE = 25;
+/** Opponent within this range of a shielding carrier counts as obstructed */
+export const UMPIRE_OBSTRUCTION_RANGE = 40;
+/** Carrier slower than this (px/s) is standing still */
+export const UMPIRE_OBSTRUCTION_MAX_SPEED = 30;
+/** How long a carrier can shield before obstruction is called (ms) */
+export const UMPIRE_OBSTRUCTION_MS = 1200;
+/** Offense count in a moment that earns a green card */
+export const UMPIRE_GREEN_AFTER = 2;
+/** Offense count in a moment that earns a yellow card */
+export const UMPIRE_YELLOW_AFTER = 3;
+/** Green card sin-bin time (ms) */
+export const UMPIRE_GREEN_CARD_MS = 6000;
+/** Yellow card sin-bin time (ms) */
+export const UMPIRE_YELLOW_CARD_MS = 12000;
+/** Attacking free hits are taken at least this far from the center of the D (outside it, plus 5m) */
+export const FREE_HIT_D_CLEARANCE = 200;
+
+
+// ============================================================
+// PENALTY STROKES & SHOOTOUTS
+// ============================================================
+
+/** How long a shootout attempt lasts from the whistle (ms) */
+export const SHOOTOUT_ROUND_MS = 8000;
+/** How long a stroke taker has to get the shot away (ms) */
+export const STROKE_ROUND_MS = 4000;
+/** How long both sides hold before an attempt starts (ms) */
+export const SHOOTOUT_SETUP_MS = 1500;
+/** Pause between one attempt ending and the next setup (ms) */
+export const SHOOTOUT_RESET_DELAY_MS = 1500;
+/** Attempts each side when a shootout settles a level Cup decider */
+export const SHOOTOUT_DECIDER_ROUNDS = 3;
+/** Ball further than this from the attacked backline ends the attempt */
+export const SHOOTOUT_AREA_DIST = 290;
+/** Stroke spot: distance out from the backline */
+export const PENALTY_SPOT_DIST = 65;
+/** A stroke is over once the shot has slowed below this (px/s) */
+export const STROKE_DEAD_BALL_SPEED = 40;
+
+
+// ============================================================
+// AERIAL BALL
+// ============================================================
+
+/** Pull on a lifted ball (px/s²) */
+export const BALL_GRAVITY = 1400;
+/** Nobody but a keeper may play the ball above this height (px) */
+export const BALL_SHOULDER_HEIGHT = 32;
+/** A ball higher than this over the goal line has gone over the bar (px) */
+export const GOAL_CROSSBAR_HEIGHT = 48;
+/** Share of its falling speed a landing ball bounces back up with */
+export const BALL_LANDING_BOUNCE = 0.35;
+/** Share of its ground speed a ball keeps each time it lands */
+export const BALL_LANDING_SPEED_KEEP = 0.8;
+/** Bounces slower than this die and the ball rolls (px/s) */
+export const BALL_MIN_BOUNCE_SPEED = 90;
+/** Extra ball scale per px of height */
+export const BALL_HEIGHT_SCALE = 0.012;
+/** Upward speed of a scooped aerial pass (px/s) */
+export const AERIAL_PASS_LIFT_SPEED = 520;
+/** Aerial passes are struck softer than flat ones */
+export const AERIAL_PASS_SPEED_MULT = 0.85;
+/** Most upward speed a Lofted Shot is given to dip under the bar (px/s) */
+export const DIPPING_SHOT_MAX_LIFT = 420;
+/** Players this close to the landing spot contest a dropping ball */
+export const AERIAL_CONTEST_RADIUS = 70;
+/** Base chance the player team wins an aerial contest (%) */
+export const AERIAL_CONTEST_CHANCE = 50;
+/** A shot this soon after taking the ball out of the air is a volley (ms) */
+export const VOLLEY_WINDOW_MS = 600;
+
+
+// ============================================================
+// SIMULATION
+// ============================================================
+
+/** Simulation steps per second, physics included */
+export const SIM_FPS = 60;
+/** Length of one simulation step (ms) */
+export const SIM_STEP_MS = 1000 / SIM_FPS;
+/** Longest frame fed to the simulation; a stall beyond this is dropped, not caught up (ms) */
+export const SIM_MAX_FRAME_MS = 250;
+/** Moves longer than this in one step are drawn as a jump, not smoothed */
+export const SIM_SNAP_DIST = 60;
+
+
+// ============================================================
+// GOAL REPLAYS
+// ============================================================
+
+/** How much play is kept for the replay after a goal (s) */
+export const GOAL_REPLAY_SECONDS = 6;
+/** The build-up plays at this speed... */
+export const GOAL_REPLAY_BUILDUP_SPEED = 1.5;
+/** ...and the last moments before the goal in slow motion */
+export const GOAL_REPLAY_SLOWMO_SPEED = 0.35;
+/** How much of the end of the replay is slowed down (s) */
+export const GOAL_REPLAY_SLOWMO_SECONDS = 1.5;
+/** Pause on the final frame before play resumes (ms) */
+export const GOAL_REPLAY_HOLD_MS = 600;
+/** Broadcast camera zoom */
+export const GOAL_REPLAY_ZOOM = 1.6;
+/** How quickly the broadcast camera catches up with the ball, per step */
+export const GOAL_REPLAY_CAMERA_LERP = 0.08;
+/** Recorded steps the ball trail reaches back */
+export const GOAL_REPLAY_TRAIL_STEPS = 40;
+
+
+// ============================================================
+// BOSSES
+// ============================================================
+
+/** Boss health at which phase 2 starts (share of full) */
+export const BOSS_PHASE_2_HEALTH = 0.66;
+/** ...and phase 3 */
+export const BOSS_PHASE_3_HEALTH = 0.33;
+/** In moments won on goals, the share of boss health the clock wears down; goals take the rest */
+export const BOSS_CLOCK_SHARE = 0.3;
+/** Each phase past the first multiplies a boss's cooldowns and wind-ups by this */
+export const BOSS_PHASE_TEMPO = 0.8;
+/** Press Machine: time between pressing waves (ms) */
+export const PRESS_WAVE_INTERVAL_MS = 9000;
+/** Trap circles show this long before a wave springs them (ms) */
+export const PRESS_TRAP_TELEGRAPH_MS = 1200;
+/** How long the whole team presses flat out once a wave goes (ms) */
+export const PRESS_WAVE_MS = 3000;
+/** Run speed while a wave is on */
+export const PRESS_WAVE_SPEED_MULT = 1.35;
+/** Trap circle size (px) */
+export const PRESS_TRAP_RADIUS = 70;
+/** How far ahead of the carrier's run traps are laid (px) */
+export const PRESS_TRAP_LEAD = 120;
+/** A carrier caught in a sprung trap is stunned this long (ms) */
+export const PRESS_TRAP_STUN_MS = 600;
+/** The ball squirts from a trapped carrier toward the nearest presser at this speed (px/s) */
+export const PRESS_TRAP_BALL_SPEED = 260;
+/** PC Monster: carrying the ball in your D this long earns a corner (ms) */
+export const PC_MONSTER_EARN_MS = 1500;
+/** Shortest gap between earned corners (ms) */
+export const PC_MONSTER_CORNER_COOLDOWN_MS = 8000;
+/** The monster's drag flick is struck this much harder */
+export const PC_MONSTER_FLICK_POWER_MULT = 1.25;
+/** Upward speed of the drag flick; under the shoulder, over a flat stick (px/s) */
+export const PC_MONSTER_FLICK_LIFT = 280;
+/** Star Forward: starts the combo with the ball this close to goal (px) */
+export const STAR_COMBO_RANGE = 420;
+/** Wind-up before the dodge, shown on the pitch; a tackle here stops it (ms) */
+export const STAR_COMBO_WINDUP_MS = 700;
+/** Sidestep speed (px/s) */
+export const STAR_COMBO_DODGE_SPEED = 520;
+/** Sidestep length; tackle-proof throughout (ms) */
+export const STAR_COMBO_DODGE_MS = 250;
+/** Shortest gap between combos (ms) */
+export const STAR_COMBO_COOLDOWN_MS = 7000;
+/** The combo's finish is struck this much harder */
+export const STAR_COMBO_SHOT_MULT = 1.3;
+/** Rain Game: time between puddle surges (ms) */
+export const RAIN_SURGE_INTERVAL_MS = 10000;
+/** Puddles show this long before they go slick (ms) */
+export const RAIN_PUDDLE_TELEGRAPH_MS = 1000;
+/** How long a puddle stays slick (ms) */
+export const RAIN_PUDDLE_MS = 5000;
+/** Puddle size (px) */
+export const RAIN_PUDDLE_RADIUS = 80;
+/** The player team loses its footing this long in a slick puddle (ms) */
+export const RAIN_PUDDLE_SLIP_MS = 700;
+/** The boss runs this much faster through a slick puddle */
+export const RAIN_PUDDLE_SURGE_MULT = 1.3;
+/** The Wall: keeper speed across the line to a clean shot's crossing point (px/s) */
+export const WALL_KEEPER_SPEED = 900;
+/** Sweeper Keeper: how far off the goal line it comes for the ball (px) */
+export const SWEEPER_KEEPER_RANGE = 320;
+/** Sweeper Keeper: rushing speed (px/s) */
+export const SWEEPER_KEEPER_SPEED = 260;
+/** Twin Strikers: a twin with a defender this close plays the one-two (px) */
+export const TWIN_PRESSURE_RADIUS = 90;
+/** Twin Strikers: shortest gap between one-twos (ms) */
+export const TWIN_ONE_TWO_COOLDOWN_MS = 3000;
+/** Captain: enemies this close to the Captain are lifted by the aura (px) */
+export const CAPTAIN_AURA_RADIUS = 150;
+/** Captain: the aura reaches this much further each phase (px) */
+export const CAPTAIN_AURA_GROWTH = 50;
+/** Captain: enemies in the aura run this much faster (%) */
+export const CAPTAIN_AURA_SPEED_BONUS = 20;
+/** Captain: and go in for tackles this much more readily (%) */
+export const CAPTAIN_AURA_AGGRESSION_BONUS = 30;
+/** Aerial Ace: players its lofted passes carry over in phase 1, one more each phase after */
+export const AERIAL_ACE_CLEARS = 1;
+/** Enforcer: its tackles stun and knock back this much harder in phase 1 */
+export const ENFORCER_TACKLE_MULT = 1.4;
+/** Enforcer: extra stun and knockback added each phase */
+export const ENFORCER_TACKLE_MULT_GROWTH = 0.2;
+
+
+// ============================================================
+// ENEMY AFFIXES
+// ============================================================
+
+/** Ordinary enemies can roll affixes from this moment of a run */
+export const AFFIX_FIRST_MOMENT = 4;
+/** Chance an enemy rolls an affix in AFFIX_FIRST_MOMENT */
+export const AFFIX_CHANCE = 0.2;
+/** Extra chance for each moment after that */
+export const AFFIX_CHANCE_PER_MOMENT = 0.08;
+/** Highest chance an enemy rolls an affix */
+export const AFFIX_MAX_CHANCE = 0.65;
+/** From this moment an affixed enemy can roll a second */
+export const AFFIX_SECOND_MOMENT = 8;
+/** Swift: run speed multiplier */
+export const AFFIX_SWIFT_SPEED_MULT = 1.2;
+/** Sticky Stick: added to its tackle success chance */
+export const AFFIX_STICKY_TACKLE_BONUS = 0.15;
+/** Sniper: shot power multiplier */
+export const AFFIX_SNIPER_POWER_MULT = 1.15;
+/** Sniper: defenders it will shoot through from inside the D (others need a clear lane) */
+export const AFFIX_SNIPER_BLOCKERS = 2;
+/** Enraged: teammates this close when it's stunned are spurred on (px) */
+export const AFFIX_ENRAGED_RADIUS = 220;
+/** Enraged: their speed multiplier */
+export const AFFIX_ENRAGED_SPEED_MULT = 1.25;
+/** Enraged: how long it lasts (ms) */
+export const AFFIX_ENRAGED_MS = 3000;
+
+
+// ============================================================
+// UTILITY AI (carrier decisions)
+// ============================================================
+
+/** Base weight of a shot (scaled by its considerations, each 0-1) */
+export const UTILITY_SHOOT_WEIGHT = 1.0;
+/** Base weight of a pass to one teammate */
+export const UTILITY_PASS_WEIGHT = 0.9;
+/** Base weight of a dribble */
+export const UTILITY_DRIBBLE_WEIGHT = 0.5;
+/** Base weight of holding the ball */
+export const UTILITY_HOLD_WEIGHT = 0.4;
+/** Base weight of clearing the ball out of danger */
+export const UTILITY_CLEAR_WEIGHT = 0.8;
+/** Weight of the finish-state shot or pass, high enough to outscore every other candidate */
+export const UTILITY_FINISH_WEIGHT = 10;
+/** Shot consideration when the angle to goal is poor */
+export const UTILITY_POOR_ANGLE = 0.3;
+/** Shot consideration when defenders are in the way */
+export const UTILITY_BLOCKED_SHOT = 0.2;
+/** Shot consideration outside the finish state (finishing forces the shot) */
+export const UTILITY_UNFORCED_SHOT = 0.85;
+/** Pass consideration when isPassLaneBlocked says the lane is shut */
+export const UTILITY_BLOCKED_LANE = 0.15;
+/** Pass consideration for a ball backwards, away from goal */
+export const UTILITY_BACK_PASS = 0.35;
+/** Pass consideration when the carrier isn't under pressure */
+export const UTILITY_UNPRESSURED_PASS = 0.5;
+/** A receiver with no defender this close is fully open (px) */
+export const UTILITY_OPEN_DIST = 100;
+/** How far a clear carries the ball upfield (px) */
+export const UTILITY_CLEAR_DIST = 120;
+/** How much objective urgency can swing a consideration (0-1) */
+export const UTILITY_URGENCY_WEIGHT = 0.3;
+/** Rows of each entity's score table in the F9 overlay */
+export const UTILITY_DEBUG_ROWS = 4;
+/** Score tables older than this are hidden from the F9 overlay (ms) */
+export const UTILITY_DEBUG_TTL_MS = 1500;
@@ -0,0 +1,96 @@
+// Upgrade unlocks for Stick & Shift
+// Upgrades that start outside the draft pool and what adds them to it
+
+import { CHALLENGES } from './challenges';
+
+export type MilestoneStat = 'totalRuns' | 'totalMomentsWon' | 'totalGoals' | 'totalSteals' | 'totalBossWins' | 'uniqueBossesDefeated';
+
+export type UpgradeUnlockCondition =
+  | { type: 'challenge'; challengeId: string }
+  | { type: 'milestone'; stat: MilestoneStat; target: number };
+
+export interface UpgradeUnlock {
+  upgradeId: string;
+  condition: UpgradeUnlockCondition;
+  description: string;  // Shown on the Store's Upgrades tab while locked
+}
+
+// Lifetime stat milestones
+const MILESTONE_UNLOCKS: UpgradeUnlock[] = [
+  {
+    upgradeId: 'timeDilation',
+    condition: { type: 'milestone', stat: 'totalRuns', target: 10 },
+    description: 'Play 10 runs'
+  },
+  {
+    upgradeId: 'triangleMastery',
+    condition: { type: 'milestone', stat: 'totalMomentsWon', target: 25 },
+    description: 'Win 25 moments'
+  },
+  {
+    upgradeId: 'bloodlust',
+    condition: { type: 'milestone', stat: 'totalSteals', target: 50 },
+    description: 'Win 50 tackles'
+  },
+  {
+    upgradeId: 'goldenStick',
+    condition: { type: 'milestone', stat: 'totalGoals', target: 100 },
+    description: 'Score 100 goals'
+  },
+  {
+    upgradeId: 'infiniteStamina',
+    condition: { type: 'milestone', stat: 'totalBossWins', target: 3 },
+    description: 'Beat 3 bosses'
+  },
+  {
+    upgradeId: 'juggernaut',
+    condition: { type: 'milestone', stat: 'uniqueBossesDefeated', target: 3 },
+    description: 'Beat 3 different bosses'
+  },
+  {
+    upgradeId: 'dragFlickKing',
+    condition: { type: 'milestone', stat: 'uniqueBossesDefeated', target: 6 },
+    description: 'Beat 6 different bosses'
+  },
+  {
+    upgradeId: 'avatarState',
+    condition: { type: 'milestone', stat: 'uniqueBossesDefeated', target: 10 },
+    description: 'Beat 10 different bosses'
+  }
+];
+
+// Every challenge that names an upgrade reward locks that upgrade until it's done
+const CHALLENGE_UNLOCKS: UpgradeUnlock[] = CHALLENGES
+  .filter(c => c.reward.upgradeId !== undefined)
+  .map(c => ({
+    upgradeId: c.reward.upgradeId!,
+    condition: { type: 'challenge', challengeId: c.id },
+    description: `Complete "${c.name}"`
+  }));
+
+export const UPGRADE_UNLOCKS: UpgradeUnlock[] = [...CHALLENGE_UNLOCKS, ...MILESTONE_UNLOCKS];
+
+/**
+ * Get the unlock entry for an upgrade (undefined = in the pool from the start)
+ */
+export function getUpgradeUnlock(upgradeId: string): UpgradeUnlock | undefined {
+  return UPGRADE_UNLOCKS.find(u => u.upgradeId === upgradeId);
+}
+
+/**
+ * Get upgrade IDs still locked out of the draft
+ */
+export function getLockedUpgradeIds(unlockedUpgradeIds: string[]): string[] {
+  return UPGRADE_UNLOCKS
+    .map(u => u.upgradeId)
+    .filter(id => !unlockedUpgradeIds.includes(id));
+}
+
+/**
+ * Get milestone unlocks whose condition is met by the given stat lookup
+ */
+export function getReachedMilestones(getStat: (stat: MilestoneStat) => number): UpgradeUnlock[] {
+  return MILESTONE_UNLOCKS.filter(u =>
+    u.condition.type === 'milestone' && getStat(u.condition.stat) >= u.condition.target
+  );
+}
@@ -4,7 +4,7 @@
 export type Rarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
 export type UpgradeHook = 'onShot' | 'onPass' | 'onTackle' | 'onSteal' | 'onGoal' | 'onReceive' | 
                           'onDodge' | 'onTick' | 'onMomentStart' | 'onMomentEnd' | 'onDamage' | 
-                          'onHit' | 'passive';
+                          'onHit' | 'onPassComplete' | 'onRebound' | 'passive';
 export type SynergySet = 'dragFlick' | 'press' | 'trianglePassing' | 'rebound' | 'trickster' | 
                          'tank' | 'speedster' | 'vampire' | 'chaos' | 'precision' | 'guardian' | 
                          'berserker' | 'counterPress' | 'possession' | 'sweeper' | 'weather' | 
@@ -16,6 +16,52 @@ export interface UpgradeModifier {
   isPercent?: boolean;
 }
 
+// ========== DECLARATIVE EFFECTS ==========
+// Simple upgrades describe their effect as data instead of a case in UpgradeSystem.createCallback
+
+export type EffectTrigger = 'tick' | 'shot' | 'pass' | 'passComplete' | 'rebound' | 'tackle' | 'steal' | 'receive' | 'goal' |
+                            'dodge' | 'momentStart' | 'momentEnd';
+
+// UpgradeContext fields an effect can test (kept in sync with UpgradeContext by the type-check in UpgradeSystem)
+export type EffectFlag = 'playerHasBall' | 'playerInAttackingD' | 'playerInDefendingD' | 'playerCanShoot' |
+                         'playerCanPass' | 'playerIsStationary' | 'isLosing' | 'isWinning' | 'isSetPiece' |
+                         'weatherActive' | 'slipperyTurf';
+export type EffectValue = 'momentTimeRemaining' | 'possessionTime';
+
+export type EffectCondition =
+  | { flag: EffectFlag; is?: boolean }  // is defaults to true
+  | { value: EffectValue; below?: number; above?: number };
+
+export type EffectCooldown = 'shoot' | 'pass' | 'tackle' | 'dodge' | 'all';
+
+// How the player's next pass leaves the stick (consumed by Ball.pass)
+export type PassEffect =
+  | 'lob'        // Sails over every defender until it lands
+  | 'chip'       // Clears the first defender in its path
+  | 'scoop'      // Scooped high, over everyone's sticks
+  | 'lead'       // Aimed at where the receiver is running to
+  | 'boomerang'  // Comes back to the passer if nobody takes it
+  | 'teleport'   // Appears at the receiver's stick
+  | 'relay'      // Receiver plays it straight on to the next teammate
+  | 'homing';    // Bends onto the receiver and can't be intercepted
+
+export type EffectAction =
+  | { type: 'tempBuff'; stat: string; value: number; durationMs: number }
+  | { type: 'statStack'; stat: string; valuePerStack: number; maxStacks: number; durationMs: number }
+  | { type: 'emitEvent'; event: string; payload?: unknown }
+  | { type: 'resetCooldown'; cooldown: EffectCooldown }
+  | { type: 'restoreStamina'; amount: number }
+  | { type: 'passEffect'; effect: PassEffect };
+
+export interface UpgradeEffect {
+  trigger: EffectTrigger;
+  conditions?: EffectCondition[];  // All must hold
+  chance?: number;                 // 0-1 roll after conditions (default always)
+  cooldownMs?: number;             // Internal cooldown between procs
+  actions: EffectAction[];
+  procIntensity?: number;          // Proc feedback strength; 0 = silent (default 1)
+}
+
 export interface Upgrade {
   id: string;
   name: string;
@@ -25,6 +71,7 @@ export interface Upgrade {
   hooks: UpgradeHook[];
   modifiers: UpgradeModifier[];
   effectId: string;  // Used by UpgradeSystem to apply effects
+  effects?: UpgradeEffect[];  // Declarative effects; registered instead of the effectId callback
   icon: string;      // Emoji icon for display
   maxStacks?: number; // How many times this can be picked (default 1)
 }
@@ -193,6 +240,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onMomentStart', 'onTick'],
     modifiers: [],
     effectId: 'warmUpBuff',
+    effects: [
+      { trigger: 'tick', conditions: [{ value: 'momentTimeRemaining', above: 50 }], actions: [{ type: 'tempBuff', stat: 'all', value: 10, durationMs: 200 }], procIntensity: 0 }
+    ],
     icon: '🔥'
   },
   {
@@ -204,6 +254,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onTick'],
     modifiers: [],
     effectId: 'coolDownBuff',
+    effects: [
+      { trigger: 'tick', conditions: [{ value: 'momentTimeRemaining', above: 0, below: 10 }], actions: [{ type: 'tempBuff', stat: 'all', value: 10, durationMs: 200 }], procIntensity: 0 }
+    ],
     icon: '❄️'
   },
   {
@@ -215,6 +268,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onShot'],
     modifiers: [],
     effectId: 'reboundShotPower',
+    effects: [
+      { trigger: 'shot', actions: [{ type: 'tempBuff', stat: 'shotPower', value: 20, durationMs: 500 }], procIntensity: 0.8 }
+    ],
     icon: '🔄'
   },
   {
@@ -226,6 +282,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onTick'],
     modifiers: [],
     effectId: 'pressSpeed',
+    effects: [
+      { trigger: 'tick', conditions: [{ flag: 'playerHasBall', is: false }], actions: [{ type: 'tempBuff', stat: 'speed', value: 5, durationMs: 200 }], procIntensity: 0 }
+    ],
     icon: '🎯',
     maxStacks: 3
   },
@@ -235,8 +294,8 @@ export const UPGRADES: Upgrade[] = [
     description: '-10% stun duration from tackles',
     rarity: 'common',
     synergies: ['tank'],
-    hooks: ['onDamage'],
-    modifiers: [],
+    hooks: ['passive'],
+    modifiers: [{ stat: 'stunDuration', value: -10, isPercent: true }],
     effectId: 'reducedStun10',
     icon: '🛡️',
     maxStacks: 3
@@ -262,6 +321,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onReceive'],
     modifiers: [],
     effectId: 'receiveControl',
+    effects: [
+      { trigger: 'receive', actions: [{ type: 'tempBuff', stat: 'control', value: 20, durationMs: 1000 }], procIntensity: 0.8 }
+    ],
     icon: '✋'
   },
   {
@@ -307,6 +369,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onDodge'],
     modifiers: [],
     effectId: 'dodgeSpeedBurst',
+    effects: [
+      { trigger: 'dodge', actions: [{ type: 'tempBuff', stat: 'speed', value: 15, durationMs: 2000 }] }
+    ],
     icon: '⚡'
   },
   {
@@ -353,6 +418,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onPass'],
     modifiers: [],
     effectId: 'trianglePassBoost',
+    effects: [
+      { trigger: 'pass', actions: [{ type: 'tempBuff', stat: 'passPower', value: 25, durationMs: 500 }], procIntensity: 0.8 }
+    ],
     icon: '🔺'
   },
   {
@@ -364,6 +432,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onShot'],
     modifiers: [],
     effectId: 'circleShotBoost',
+    effects: [
+      { trigger: 'shot', conditions: [{ flag: 'playerInAttackingD' }], actions: [{ type: 'tempBuff', stat: 'shotPower', value: 30, durationMs: 500 }], procIntensity: 0.8 }
+    ],
     icon: '⭕'
   },
   {
@@ -375,6 +446,14 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onTick'],
     modifiers: [],
     effectId: 'autoHitInD',
+    effects: [
+      {
+        trigger: 'tick',
+        conditions: [{ flag: 'playerHasBall' }, { flag: 'playerInAttackingD' }, { flag: 'playerCanShoot' }],
+        cooldownMs: 700,
+        actions: [{ type: 'emitEvent', event: 'autoShot', payload: { source: 'autoHitInD' } }]
+      }
+    ],
     icon: '🎯'
   },
   {
@@ -405,9 +484,17 @@ export const UPGRADES: Upgrade[] = [
     description: '+50% speed toward loose balls after shots',
     rarity: 'uncommon',
     synergies: ['rebound'],
-    hooks: ['onShot'],
+    hooks: ['onRebound'],
     modifiers: [],
     effectId: 'reboundSpeed',
+    effects: [
+      {
+        trigger: 'rebound',
+        conditions: [{ flag: 'playerHasBall', is: false }],
+        actions: [{ type: 'tempBuff', stat: 'speed', value: 50, durationMs: 1500 }],
+        procIntensity: 0.5
+      }
+    ],
     icon: '🎯'
   },
   {
@@ -430,6 +517,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onPass'],
     modifiers: [],
     effectId: 'fastPass',
+    effects: [
+      { trigger: 'pass', actions: [{ type: 'tempBuff', stat: 'passSpeed', value: 30, durationMs: 500 }], procIntensity: 0.6 }
+    ],
     icon: '💨'
   },
   {
@@ -452,6 +542,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onSteal'],
     modifiers: [],
     effectId: 'tackleStaminaRestore',
+    effects: [
+      { trigger: 'steal', actions: [{ type: 'restoreStamina', amount: 20 }] }
+    ],
     icon: '🧛'
   },
   {
@@ -463,6 +556,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onTick'],
     modifiers: [],
     effectId: 'losingBuff',
+    effects: [
+      { trigger: 'tick', conditions: [{ flag: 'isLosing' }], actions: [{ type: 'tempBuff', stat: 'all', value: 30, durationMs: 200 }], procIntensity: 0 }
+    ],
     icon: '🛡️'
   },
   {
@@ -474,6 +570,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onGoal'],
     modifiers: [],
     effectId: 'goalSpeedStack',
+    effects: [
+      { trigger: 'goal', actions: [{ type: 'statStack', stat: 'speed', valuePerStack: 5, maxStacks: 3, durationMs: 60000 }] }
+    ],
     icon: '📈'
   },
   {
@@ -485,6 +584,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onSteal'],
     modifiers: [],
     effectId: 'stealDodgeReset',
+    effects: [
+      { trigger: 'steal', actions: [{ type: 'resetCooldown', cooldown: 'dodge' }] }
+    ],
     icon: '🎭'
   },
   {
@@ -529,6 +631,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onPass'],
     modifiers: [],
     effectId: 'predictivePass',
+    effects: [
+      { trigger: 'pass', actions: [{ type: 'passEffect', effect: 'lead' }], procIntensity: 0.3 }
+    ],
     icon: '🎯'
   },
   {
@@ -537,8 +642,8 @@ export const UPGRADES: Upgrade[] = [
     description: '+20% chance to deflect enemy shots when nearby',
     rarity: 'uncommon',
     synergies: ['guardian', 'rebound'],
-    hooks: ['onTick'],
-    modifiers: [],
+    hooks: ['passive'],
+    modifiers: [{ stat: 'shotDeflectChance', value: 20 }],
     effectId: 'shotDeflection',
     icon: '🪃'
   },
@@ -551,6 +656,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onReceive'],
     modifiers: [],
     effectId: 'receiveAccel',
+    effects: [
+      { trigger: 'receive', actions: [{ type: 'tempBuff', stat: 'speed', value: 50, durationMs: 1000 }] }
+    ],
     icon: '🚀'
   },
 
@@ -564,6 +672,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onPass'],
     modifiers: [],
     effectId: 'boomerangPass',
+    effects: [
+      { trigger: 'pass', actions: [{ type: 'passEffect', effect: 'boomerang' }], procIntensity: 0.3 }
+    ],
     icon: '🪃'
   },
   {
@@ -572,8 +683,8 @@ export const UPGRADES: Upgrade[] = [
     description: 'Enemies slip occasionally; you slide faster',
     rarity: 'rare',
     synergies: ['chaos', 'speedster'],
-    hooks: ['onTick'],
-    modifiers: [],
+    hooks: ['passive'],
+    modifiers: [{ stat: 'enemySlipChance', value: 5 }, { stat: 'speed', value: 10 }],
     effectId: 'iceTurfEffect',
     icon: '🧊'
   },
@@ -583,8 +694,8 @@ export const UPGRADES: Upgrade[] = [
     description: '15% chance blocked shots redirect to goal',
     rarity: 'rare',
     synergies: ['chaos', 'rebound'],
-    hooks: ['onShot'],
-    modifiers: [],
+    hooks: ['passive'],
+    modifiers: [{ stat: 'luckyDeflectChance', value: 15 }],
     effectId: 'luckyDeflect',
     icon: '🍀'
   },
@@ -597,6 +708,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onShot'],
     modifiers: [],
     effectId: 'stationaryShotBoost',
+    effects: [
+      { trigger: 'shot', conditions: [{ flag: 'playerIsStationary' }], actions: [{ type: 'tempBuff', stat: 'shotPower', value: 50, durationMs: 500 }] }
+    ],
     icon: '🏑'
   },
   {
@@ -616,9 +730,18 @@ export const UPGRADES: Upgrade[] = [
     description: 'Rebounds deal +100% damage and move faster',
     rarity: 'rare',
     synergies: ['rebound'],
-    hooks: ['onShot'],
+    hooks: ['onRebound'],
     modifiers: [],
     effectId: 'superRebound',
+    effects: [
+      {
+        trigger: 'rebound',
+        actions: [
+          { type: 'tempBuff', stat: 'shotPower', value: 100, durationMs: 1500 },
+          { type: 'tempBuff', stat: 'speed', value: 20, durationMs: 1500 }
+        ]
+      }
+    ],
     icon: '💫'
   },
   {
@@ -630,6 +753,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onDodge'],
     modifiers: [],
     effectId: 'dodgeDecoy',
+    effects: [
+      { trigger: 'dodge', actions: [{ type: 'emitEvent', event: 'spawnDecoy', payload: { count: 1, durationMs: 1500 } }], procIntensity: 0.6 }
+    ],
     icon: '👻'
   },
   {
@@ -641,6 +767,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onGoal'],
     modifiers: [],
     effectId: 'goalFullRestore',
+    effects: [
+      { trigger: 'goal', actions: [{ type: 'restoreStamina', amount: 100 }, { type: 'resetCooldown', cooldown: 'all' }] }
+    ],
     icon: '🩸'
   },
   {
@@ -685,6 +814,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onSteal'],
     modifiers: [],
     effectId: 'tackleReset',
+    effects: [
+      { trigger: 'steal', actions: [{ type: 'resetCooldown', cooldown: 'tackle' }] }
+    ],
     icon: '⛓️'
   },
   {
@@ -693,9 +825,12 @@ export const UPGRADES: Upgrade[] = [
     description: 'Instant pass after receive is 30% faster',
     rarity: 'rare',
     synergies: ['trianglePassing', 'speedster'],
-    hooks: ['onReceive', 'onPass'],
+    hooks: ['onReceive'],
     modifiers: [],
     effectId: 'oneTouchPass',
+    effects: [
+      { trigger: 'receive', actions: [{ type: 'tempBuff', stat: 'passSpeed', value: 30, durationMs: 600 }], procIntensity: 0 }
+    ],
     icon: '☝️'
   },
   {
@@ -707,6 +842,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onPass'],
     modifiers: [],
     effectId: 'lobPass',
+    effects: [
+      { trigger: 'pass', actions: [{ type: 'passEffect', effect: 'lob' }], procIntensity: 0.6 }
+    ],
     icon: '🎈'
   },
   {
@@ -819,6 +957,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onTick'],
     modifiers: [],
     effectId: 'teamPress',
+    effects: [
+      { trigger: 'tick', conditions: [{ flag: 'playerHasBall', is: false }], actions: [{ type: 'emitEvent', event: 'teammatesPress' }], procIntensity: 0 }
+    ],
     icon: '🤖'
   },
   {
@@ -860,8 +1001,8 @@ export const UPGRADES: Upgrade[] = [
     description: 'Rebounds always go toward goal',
     rarity: 'epic',
     synergies: ['rebound', 'precision'],
-    hooks: ['onShot'],
-    modifiers: [],
+    hooks: ['passive'],
+    modifiers: [{ stat: 'guidedRebound', value: 1 }],
     effectId: 'guidedRebound',
     icon: '🎯'
   },
@@ -893,8 +1034,8 @@ export const UPGRADES: Upgrade[] = [
     description: 'PC shots are unblockable',
     rarity: 'epic',
     synergies: ['dragFlick'],
-    hooks: ['onShot'],
-    modifiers: [],
+    hooks: ['passive'],
+    modifiers: [{ stat: 'unblockablePC', value: 1 }],
     effectId: 'unblockablePC',
     icon: '👑'
   },
@@ -919,7 +1060,7 @@ export const UPGRADES: Upgrade[] = [
     rarity: 'epic',
     synergies: ['trickster'],
     hooks: ['passive'],
-    modifiers: [],
+    modifiers: [{ stat: 'dodgeCharges', value: 2 }],
     effectId: 'tripleDodge',
     icon: '🃏'
   },
@@ -943,6 +1084,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onPass'],
     modifiers: [],
     effectId: 'chainPass',
+    effects: [
+      { trigger: 'pass', actions: [{ type: 'passEffect', effect: 'relay' }], procIntensity: 0.5 }
+    ],
     icon: '🔗'
   },
 
@@ -956,6 +1100,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onTick'],
     modifiers: [],
     effectId: 'avatarMode',
+    effects: [
+      { trigger: 'tick', conditions: [{ flag: 'isLosing' }], actions: [{ type: 'tempBuff', stat: 'all', value: 100, durationMs: 200 }], procIntensity: 0.5 }
+    ],
     icon: '🌟'
   },
   {
@@ -987,7 +1134,7 @@ export const UPGRADES: Upgrade[] = [
     rarity: 'legendary',
     synergies: ['speedster', 'vampire'],
     hooks: ['passive'],
-    modifiers: [],
+    modifiers: [{ stat: 'staminaDrain', value: -100, isPercent: true }, { stat: 'dashCost', value: -100, isPercent: true }],
     effectId: 'unlimitedStamina',
     icon: '♾️'
   },
@@ -1043,6 +1190,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onSteal'],
     modifiers: [],
     effectId: 'stealStaminaRestore',
+    effects: [
+      { trigger: 'steal', actions: [{ type: 'restoreStamina', amount: 30 }] }
+    ],
     icon: '🎭'
   },
   {
@@ -1067,6 +1217,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onTick'],
     modifiers: [],
     effectId: 'stationaryControl',
+    effects: [
+      { trigger: 'tick', conditions: [{ flag: 'playerIsStationary' }], actions: [{ type: 'tempBuff', stat: 'control', value: 20, durationMs: 200 }], procIntensity: 0 }
+    ],
     icon: '🧘',
     maxStacks: 2
   },
@@ -1090,6 +1243,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onPass'],
     modifiers: [],
     effectId: 'passCooldownReset',
+    effects: [
+      { trigger: 'pass', chance: 0.2, actions: [{ type: 'resetCooldown', cooldown: 'all' }] }
+    ],
     icon: '🔁'
   },
   {
@@ -1098,9 +1254,12 @@ export const UPGRADES: Upgrade[] = [
     description: 'Back-to-back passes increase speed by 10% each',
     rarity: 'rare',
     synergies: ['possession', 'speedster'],
-    hooks: ['onPass', 'onReceive'],
+    hooks: ['onPass'],
     modifiers: [],
     effectId: 'passingMomentum',
+    effects: [
+      { trigger: 'pass', actions: [{ type: 'statStack', stat: 'speed', valuePerStack: 10, maxStacks: 5, durationMs: 2500 }], procIntensity: 0.5 }
+    ],
     icon: '⚽'
   },
   {
@@ -1170,6 +1329,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onTick'],
     modifiers: [],
     effectId: 'dCircleRush',
+    effects: [
+      { trigger: 'tick', conditions: [{ flag: 'playerInDefendingD' }], actions: [{ type: 'tempBuff', stat: 'speed', value: 80, durationMs: 200 }], procIntensity: 0 }
+    ],
     icon: '🏃'
   },
   {
@@ -1192,7 +1354,7 @@ export const UPGRADES: Upgrade[] = [
     rarity: 'uncommon',
     synergies: ['weather', 'trickster'],
     hooks: ['passive'],
-    modifiers: [],
+    modifiers: [{ stat: 'wetTurfImmune', value: 1 }],
     effectId: 'wetTurfImmune',
     icon: '🌧️'
   },
@@ -1205,6 +1367,14 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onTick'],
     modifiers: [],
     effectId: 'slipSpeedBoost',
+    effects: [
+      {
+        trigger: 'tick',
+        conditions: [{ flag: 'slipperyTurf' }],
+        actions: [{ type: 'tempBuff', stat: 'speed', value: 20, durationMs: 200 }],
+        procIntensity: 0
+      }
+    ],
     icon: '⛸️'
   },
   {
@@ -1213,8 +1383,8 @@ export const UPGRADES: Upgrade[] = [
     description: 'Enemies slip 30% more often near you',
     rarity: 'rare',
     synergies: ['weather', 'chaos'],
-    hooks: ['onTick'],
-    modifiers: [],
+    hooks: ['passive'],
+    modifiers: [{ stat: 'enemySlipAura', value: 30 }],
     effectId: 'enemySlipAura',
     icon: '🦶'
   },
@@ -1224,9 +1394,17 @@ export const UPGRADES: Upgrade[] = [
     description: '+15% all stats during weather modifiers',
     rarity: 'rare',
     synergies: ['weather'],
-    hooks: ['onMomentStart', 'onTick'],
+    hooks: ['onTick'],
     modifiers: [],
     effectId: 'weatherStatsBoost',
+    effects: [
+      {
+        trigger: 'tick',
+        conditions: [{ flag: 'weatherActive' }],
+        actions: [{ type: 'tempBuff', stat: 'all', value: 15, durationMs: 200 }],
+        procIntensity: 0
+      }
+    ],
     icon: '⛈️'
   },
   {
@@ -1235,8 +1413,8 @@ export const UPGRADES: Upgrade[] = [
     description: 'Create slippery zone around you that affects enemies',
     rarity: 'epic',
     synergies: ['weather', 'chaos'],
-    hooks: ['onTick'],
-    modifiers: [],
+    hooks: ['passive'],
+    modifiers: [{ stat: 'slipZone', value: 1 }],
     effectId: 'slipZoneAura',
     icon: '🌀'
   },
@@ -1251,6 +1429,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onShot'],
     modifiers: [],
     effectId: 'enemyDShotPower',
+    effects: [
+      { trigger: 'shot', conditions: [{ flag: 'playerInAttackingD' }], actions: [{ type: 'tempBuff', stat: 'shotPower', value: 20, durationMs: 500 }], procIntensity: 0.8 }
+    ],
     icon: '📦',
     maxStacks: 2
   },
@@ -1282,8 +1463,8 @@ export const UPGRADES: Upgrade[] = [
     description: '+60% chance to reach rebounds first',
     rarity: 'rare',
     synergies: ['poacher', 'rebound'],
-    hooks: ['onShot'],
-    modifiers: [],
+    hooks: ['passive'],
+    modifiers: [{ stat: 'reboundReach', value: 60 }],
     effectId: 'reboundPriority',
     icon: '2️⃣'
   },
@@ -1296,6 +1477,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onGoal'],
     modifiers: [],
     effectId: 'dGoalCooldownReset',
+    effects: [
+      { trigger: 'goal', conditions: [{ flag: 'playerInAttackingD' }], actions: [{ type: 'resetCooldown', cooldown: 'all' }] }
+    ],
     icon: '🎯'
   },
   {
@@ -1304,8 +1488,8 @@ export const UPGRADES: Upgrade[] = [
     description: 'Teleport to rebound position after teammate shots',
     rarity: 'epic',
     synergies: ['poacher', 'chaos'],
-    hooks: ['onTick'],
-    modifiers: [],
+    hooks: ['passive'],
+    modifiers: [{ stat: 'reboundTeleport', value: 1 }],
     effectId: 'reboundTeleport',
     icon: '✨'
   },
@@ -1320,6 +1504,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onPass'],
     modifiers: [],
     effectId: 'chipPassDefender',
+    effects: [
+      { trigger: 'pass', actions: [{ type: 'passEffect', effect: 'chip' }], procIntensity: 0.4 }
+    ],
     icon: '🎈'
   },
   {
@@ -1329,7 +1516,7 @@ export const UPGRADES: Upgrade[] = [
     rarity: 'rare',
     synergies: ['aerial', 'dragFlick'],
     hooks: ['onShot'],
-    modifiers: [],
+    modifiers: [{ stat: 'dippingShot', value: 1 }],
     effectId: 'dippingShot',
     icon: '🌈'
   },
@@ -1340,7 +1527,7 @@ export const UPGRADES: Upgrade[] = [
     rarity: 'rare',
     synergies: ['aerial', 'precision'],
     hooks: ['onReceive', 'onShot'],
-    modifiers: [],
+    modifiers: [{ stat: 'volleyPower', value: 40 }],
     effectId: 'volleyPowerBoost',
     icon: '🦶'
   },
@@ -1351,7 +1538,7 @@ export const UPGRADES: Upgrade[] = [
     rarity: 'epic',
     synergies: ['aerial', 'tank'],
     hooks: ['passive'],
-    modifiers: [],
+    modifiers: [{ stat: 'winAerials', value: 1 }],
     effectId: 'winAerials',
     icon: '🏆'
   },
@@ -1366,6 +1553,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onShot'],
     modifiers: [],
     effectId: 'pcShotPower',
+    effects: [
+      { trigger: 'tick', conditions: [{ flag: 'isSetPiece' }, { flag: 'playerHasBall' }], actions: [{ type: 'tempBuff', stat: 'shotPower', value: 30, durationMs: 200 }], procIntensity: 0 }
+    ],
     icon: '🎯'
   },
   {
@@ -1434,6 +1624,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onTick'],
     modifiers: [],
     effectId: 'freePressing',
+    effects: [
+      { trigger: 'tick', conditions: [{ flag: 'playerHasBall', is: false }], actions: [{ type: 'tempBuff', stat: 'staminaDrain', value: -100, durationMs: 200 }], procIntensity: 0 }
+    ],
     icon: '♾️'
   },
   {
@@ -1458,6 +1651,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onDodge'],
     modifiers: [],
     effectId: 'dodgeFakeShot',
+    effects: [
+      { trigger: 'dodge', conditions: [{ flag: 'playerHasBall' }], actions: [{ type: 'emitEvent', event: 'fakeShot' }], procIntensity: 0.5 }
+    ],
     icon: '🎭'
   },
   {
@@ -1467,7 +1663,7 @@ export const UPGRADES: Upgrade[] = [
     rarity: 'rare',
     synergies: ['trickster', 'tank'],
     hooks: ['passive'],
-    modifiers: [],
+    modifiers: [{ stat: 'tacklePhaseChance', value: 15 }],
     effectId: 'tacklePhase',
     icon: '🥜'
   },
@@ -1480,16 +1676,19 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onDodge'],
     modifiers: [],
     effectId: 'dodgeConfuse',
+    effects: [
+      { trigger: 'dodge', actions: [{ type: 'emitEvent', event: 'confuseNearby', payload: { radius: 140, durationMs: 1000 } }], procIntensity: 0.7 }
+    ],
     icon: '💫'
   },
   {
     id: 'elastico',
     name: 'Elastico',
-    description: 'Double-tap dodge for quick direction change',
+    description: 'Chain a second dodge straight after the first to change direction',
     rarity: 'epic',
     synergies: ['trickster', 'speedster'],
-    hooks: ['onDodge'],
-    modifiers: [],
+    hooks: ['passive'],
+    modifiers: [{ stat: 'dodgeCharges', value: 1 }],
     effectId: 'doubleDodge',
     icon: '🔀'
   },
@@ -1523,8 +1722,8 @@ export const UPGRADES: Upgrade[] = [
     description: 'Shots bounce off players toward goal',
     rarity: 'epic',
     synergies: ['rebound', 'chaos'],
-    hooks: ['onShot'],
-    modifiers: [],
+    hooks: ['passive'],
+    modifiers: [{ stat: 'shotRicochet', value: 1 }],
     effectId: 'playerBounceToGoal',
     icon: '🔄'
   },
@@ -1585,6 +1784,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onSteal'],
     modifiers: [],
     effectId: 'stealSpeedBurst',
+    effects: [
+      { trigger: 'steal', actions: [{ type: 'tempBuff', stat: 'speed', value: 50, durationMs: 3000 }] }
+    ],
     icon: '💨'
   },
   {
@@ -1640,7 +1842,7 @@ export const UPGRADES: Upgrade[] = [
     rarity: 'rare',
     synergies: ['tank', 'speedster'],
     hooks: ['passive'],
-    modifiers: [],
+    modifiers: [{ stat: 'sprintThroughChance', value: 30 }],
     effectId: 'sprintThroughTackle',
     icon: '🐂'
   },
@@ -1651,7 +1853,7 @@ export const UPGRADES: Upgrade[] = [
     rarity: 'epic',
     synergies: ['tank', 'berserker'],
     hooks: ['passive'],
-    modifiers: [],
+    modifiers: [{ stat: 'movingStunImmune', value: 1 }],
     effectId: 'movingStunImmune',
     icon: '🦏'
   },
@@ -1666,6 +1868,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onTackle'],
     modifiers: [],
     effectId: 'tackleStaminaGain',
+    effects: [
+      { trigger: 'steal', actions: [{ type: 'restoreStamina', amount: 10 }], procIntensity: 0.6 }
+    ],
     icon: '🩸',
     maxStacks: 2
   },
@@ -1700,6 +1905,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onSteal'],
     modifiers: [],
     effectId: 'stealSpeedStacking',
+    effects: [
+      { trigger: 'steal', actions: [{ type: 'statStack', stat: 'speed', valuePerStack: 10, maxStacks: 5, durationMs: 30000 }] }
+    ],
     icon: '🩸'
   },
 
@@ -1735,6 +1943,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onShot'],
     modifiers: [],
     effectId: 'losingShotPower',
+    effects: [
+      { trigger: 'tick', conditions: [{ flag: 'isLosing' }, { flag: 'playerHasBall' }], actions: [{ type: 'tempBuff', stat: 'shotPower', value: 50, durationMs: 200 }], procIntensity: 0 }
+    ],
     icon: '😤'
   },
   {
@@ -1770,6 +1981,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onPass'],
     modifiers: [],
     effectId: 'instantPass',
+    effects: [
+      { trigger: 'pass', chance: 0.1, actions: [{ type: 'passEffect', effect: 'teleport' }] }
+    ],
     icon: '✨'
   },
   {
@@ -1781,6 +1995,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onDodge'],
     modifiers: [],
     effectId: 'createDecoy',
+    effects: [
+      { trigger: 'dodge', cooldownMs: 3000, actions: [{ type: 'emitEvent', event: 'spawnDecoy', payload: { count: 2, durationMs: 3000 } }] }
+    ],
     icon: '👥'
   },
 
@@ -1791,9 +2008,12 @@ export const UPGRADES: Upgrade[] = [
     description: 'Passes that hit targets exactly give +10% speed',
     rarity: 'uncommon',
     synergies: ['precision', 'trianglePassing'],
-    hooks: ['onPass'],
+    hooks: ['onPassComplete'],
     modifiers: [],
     effectId: 'accuratePassBonus',
+    effects: [
+      { trigger: 'passComplete', actions: [{ type: 'tempBuff', stat: 'speed', value: 10, durationMs: 2000 }], procIntensity: 0.6 }
+    ],
     icon: '🎯'
   },
   {
@@ -1816,6 +2036,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onTick'],
     modifiers: [],
     effectId: 'finalSecondsBoost',
+    effects: [
+      { trigger: 'tick', conditions: [{ value: 'momentTimeRemaining', above: 0, below: 15 }], actions: [{ type: 'tempBuff', stat: 'all', value: 30, durationMs: 200 }], procIntensity: 0 }
+    ],
     icon: '⏰'
   },
   {
@@ -1856,6 +2079,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onShot'],
     modifiers: [],
     effectId: 'quickReleaseBuff',
+    effects: [
+      { trigger: 'shot', actions: [{ type: 'tempBuff', stat: 'shootCooldown', value: -25, durationMs: 2000 }] }
+    ],
     icon: '⚡'
   },
   
@@ -1882,6 +2108,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onReceive', 'onShot'],
     modifiers: [],
     effectId: 'oneTouchFinishBuff',
+    effects: [
+      { trigger: 'receive', conditions: [{ flag: 'playerInAttackingD' }], actions: [{ type: 'tempBuff', stat: 'shotPower', value: 20, durationMs: 1200 }] }
+    ],
     icon: '☝️'
   },
   
@@ -1919,8 +2148,11 @@ export const UPGRADES: Upgrade[] = [
     description: 'Give-and-go window extended + stronger speed buff',
     rarity: 'rare',
     synergies: ['trianglePassing', 'speedster'],
-    hooks: ['onPass', 'onReceive'],
-    modifiers: [],
+    hooks: ['passive'],
+    modifiers: [
+      { stat: 'giveGoWindow', value: 50, isPercent: true },
+      { stat: 'giveGoSpeed', value: 50, isPercent: true }
+    ],
     effectId: 'giveGoMasterBuff',
     icon: '🔄'
   },
@@ -1935,6 +2167,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onReceive'],
     modifiers: [],
     effectId: 'magneticFirstTouch',
+    effects: [
+      { trigger: 'receive', actions: [{ type: 'tempBuff', stat: 'control', value: 30, durationMs: 2000 }] }
+    ],
     icon: '🧲'
   },
   
@@ -1988,6 +2223,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onMomentStart'],
     modifiers: [],
     effectId: 'secondWindMoment',
+    effects: [
+      { trigger: 'momentStart', actions: [{ type: 'restoreStamina', amount: 100 }] }
+    ],
     icon: '🌬️'
   },
   
@@ -2015,6 +2253,16 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onSteal'],
     modifiers: [],
     effectId: 'adrenalineAdvantageBuff',
+    effects: [
+      {
+        trigger: 'steal',
+        actions: [
+          { type: 'tempBuff', stat: 'speed', value: 20, durationMs: 3000 },
+          { type: 'tempBuff', stat: 'passPower', value: 20, durationMs: 3000 },
+          { type: 'tempBuff', stat: 'shotPower', value: 20, durationMs: 3000 }
+        ]
+      }
+    ],
     icon: '🔥'
   },
   
@@ -2028,6 +2276,9 @@ export const UPGRADES: Upgrade[] = [
     hooks: ['onShot'],
     modifiers: [],
     effectId: 'pcDragFlickPower',
+    effects: [
+      { trigger: 'tick', conditions: [{ flag: 'isSetPiece' }, { flag: 'playerHasBall' }], actions: [{ type: 'tempBuff', stat: 'shotPower', value: 35, durationMs: 200 }], procIntensity: 0 }
+    ],
     icon: '🏑'
   },
   
@@ -2116,7 +2367,14 @@ export function getUpgradesBySynergy(synergy: SynergySet): Upgrade[] {
   return UPGRADES.filter(u => u.synergies.includes(synergy));
 }
 
-export function getRandomUpgrades(count: number, momentNumber: number, ownedUpgradeIds: string[]): Upgrade[] {
+export function getRandomUpgrades(
+  count: number,
+  momentNumber: number,
+  ownedUpgradeIds: string[],
+  random: () => number = Math.random,
+  rarityBonus: number = 0,  // Lucky Rolls meta upgrade: weight points moved from common to rare+
+  lockedUpgradeIds: string[] = []  // Challenge rewards not yet earned
+): Upgrade[] {
   // Adjust weights based on moment number (later = more rare)
   const adjustedWeights = { ...RARITY_WEIGHTS };
   if (momentNumber >= 3) {
@@ -2132,9 +2390,17 @@ export function getRandomUpgrades(count: number, momentNumber: number, ownedUpgr
     adjustedWeights.epic += 5;
     adjustedWeights.legendary += 2;
   }
+  if (rarityBonus > 0) {
+    const shift = Math.min(rarityBonus, adjustedWeights.common - 10);
+    adjustedWeights.common -= shift;
+    adjustedWeights.rare += shift * 0.6;
+    adjustedWeights.epic += shift * 0.3;
+    adjustedWeights.legendary += shift * 0.1;
+  }
   
-  // Filter available upgrades (not already owned unless stackable)
+  // Filter available upgrades (not locked, not already owned unless stackable)
   const available = UPGRADES.filter(u => {
+    if (lockedUpgradeIds.includes(u.id)) return false;
     const ownedCount = ownedUpgradeIds.filter(id => id === u.id).length;
     const maxStacks = u.maxStacks || 1;
     return ownedCount < maxStacks;
@@ -2148,7 +2414,7 @@ export function getRandomUpgrades(count: number, momentNumber: number, ownedUpgr
   const usedIds = new Set<string>();
   
   while (selected.length < count && usedIds.size < available.length) {
-    const roll = Math.random() * totalWeight;
+    const roll = random() * totalWeight;
     let cumulative = 0;
     let targetRarity: Rarity = 'common';
     
@@ -2162,14 +2428,14 @@ export function getRandomUpgrades(count: number, momentNumber: number, ownedUpgr
     
     const candidates = available.filter(u => u.rarity === targetRarity && !usedIds.has(u.id));
     if (candidates.length > 0) {
-      const pick = candidates[Math.floor(Math.random() * candidates.length)];
+      const pick = candidates[Math.floor(random() * candidates.length)];
       selected.push(pick);
       usedIds.add(pick.id);
     } else {
       // Fallback: pick any available
       const fallback = available.filter(u => !usedIds.has(u.id));
       if (fallback.length > 0) {
-        const pick = fallback[Math.floor(Math.random() * fallback.length)];
+        const pick = fallback[Math.floor(random() * fallback.length)];
         selected.push(pick);
         usedIds.add(pick.id);
       }
@@ -0,0 +1,74 @@
+// Weather for Stick & Shift
+// Pitch conditions set by moment modifiers, and what each does to the ball and the players
+
+export type WeatherType = 'clear' | 'rain' | 'wind' | 'ice' | 'heat';
+
+export interface WeatherDefinition {
+  id: WeatherType;
+  name: string;
+  icon: string;
+  ballDrag: number;         // Scales how fast a rolling ball loses speed (1 = dry pitch)
+  windStrength: number;     // Push on the loose ball (px/s²)
+  traction: number;         // Scales player acceleration and stopping (1 = full grip)
+  staminaDrain: number;     // Scales stamina costs, divides regen
+  enemySlipChance: number;  // % per second an enemy loses footing
+  slippery: boolean;        // Counts as a slippery surface for upgrades
+}
+
+export const WEATHER: Record<WeatherType, WeatherDefinition> = {
+  clear: {
+    id: 'clear',
+    name: 'Clear',
+    icon: '☀️',
+    ballDrag: 1,
+    windStrength: 0,
+    traction: 1,
+    staminaDrain: 1,
+    enemySlipChance: 0,
+    slippery: false
+  },
+  rain: {
+    id: 'rain',
+    name: 'Rain',
+    icon: '🌧️',
+    ballDrag: 0.6,
+    windStrength: 0,
+    traction: 0.7,
+    staminaDrain: 1.1,
+    enemySlipChance: 3,
+    slippery: true
+  },
+  wind: {
+    id: 'wind',
+    name: 'High Wind',
+    icon: '🌬️',
+    ballDrag: 1,
+    windStrength: 120,
+    traction: 1,
+    staminaDrain: 1.1,
+    enemySlipChance: 0,
+    slippery: false
+  },
+  ice: {
+    id: 'ice',
+    name: 'Frost',
+    icon: '🧊',
+    ballDrag: 0.4,
+    windStrength: 0,
+    traction: 0.45,
+    staminaDrain: 1,
+    enemySlipChance: 8,
+    slippery: true
+  },
+  heat: {
+    id: 'heat',
+    name: 'Heatwave',
+    icon: '🔥',
+    ballDrag: 1.3,
+    windStrength: 0,
+    traction: 1,
+    staminaDrain: 1.5,
+    enemySlipChance: 0,
+    slippery: false
+  }
+};
@@ -4,6 +4,8 @@
 
 import Phaser from 'phaser';
 import * as TUNING from '../data/tuning';
+import { PassEffect } from '../data/upgrades';
+import { RandomSource } from '../systems/RandomSystem';
 
 export type PossessionTeam = 'player' | 'enemy' | 'none';
 export type PossessionReason = 'tackle' | 'intercept' | 'pickup' | 'passReceive' | 'kickoff' | 'goal';
@@ -17,11 +19,15 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
   public isAerial: boolean = false;
   public lastOwner: any = null;
   public lastShooter: any = null;
-  public isRebound: boolean = false;
+  public isRebound: boolean = false;  // Came back off a keeper, post or defender and nobody has it yet
+  private reboundUntil: number = 0;   // Shots before this are rebound finishes
   
   // Possession tracking for steal detection
   public lastPossessingTeam: PossessionTeam = 'none';
   
+  // Last team to play the ball, keepers included (out-of-play calls)
+  public lastTouchTeam: PossessionTeam = 'none';
+  
   // Shot origin tracking (for D-circle scoring rule) - LEGACY
   public lastShotTeam: PossessionTeam = 'none';
   public lastShotFromInsideD: boolean = false;
@@ -56,9 +62,37 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
   private speedMultiplier: number = 1;
   private magnetTarget?: { x: number; y: number };
   
+  // Weather: set each frame by WeatherSystem through RunScene
+  private weatherDragScale: number = 1;
+  private windX: number = 0;
+  private windY: number = 0;
+  
+  // Height off the turf (px) and its rate of change (px/s, up is positive)
+  private altitude: number = 0;
+  private verticalSpeed: number = 0;
+  private aerialWinner: PossessionTeam = 'none';  // Side that won the aerial contest
+  private aerialContested: boolean = false;
+  private aerialReceivedAt: number = 0;  // When the current owner took it out of the air
+  
+  // Pass upgrades: queued by the 'pass' event, applied by the next pass()
+  private pendingPassEffects: Set<PassEffect> = new Set();
+  private liftClears: number = 0;  // Opponents the lifted ball can still sail over
+  private clearedDefenders: Set<any> = new Set();
+  private isHoming: boolean = false;
+  public relaysLeft: number = 0;  // Pass Network relays still to come
+  
+  // A defender the ball just bounced off can't trap it straight away
+  private pickupBlockedEntity: any = null;
+  private pickupBlockedUntil: number = 0;
+  
+  // Spin and kick scatter
+  private randomSource: RandomSource = Math.random;
+  
   // Visual
   private trail: Phaser.GameObjects.Graphics;
   private trailPoints: { x: number; y: number; alpha: number }[] = [];
+  private shadow: Phaser.GameObjects.Ellipse;
+  private airborneImage: Phaser.GameObjects.Image;  // Drawn in place of the sprite while off the ground
   
   constructor(scene: Phaser.Scene, x: number, y: number) {
     super(scene, x, y, 'ball');
@@ -82,6 +116,19 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     // Trail effect
     this.trail = scene.add.graphics();
     this.trail.setDepth(14);
+    
+    // The sprite stays on the turf for physics; a lifted ball is drawn above its shadow
+    this.shadow = scene.add.ellipse(x, y, 14, 6, 0x000000, 0.35);
+    this.shadow.setDepth(13);
+    this.shadow.setVisible(false);
+    this.airborneImage = scene.add.image(x, y, 'ball');
+    this.airborneImage.setDepth(16);
+    this.airborneImage.setVisible(false);
+  }
+  
+  /** RunScene hands over the run's seeded stream so replays scatter the same way */
+  setRandomSource(random: RandomSource): void {
+    this.randomSource = random;
   }
   
   update(delta: number): void {
@@ -93,11 +140,13 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     if (this.owner) {
       this.followOwner();
     } else {
+      this.updateHeight(delta);
       this.updatePhysics(delta);
       
       // Apply pass receive assist
       this.applyReceiveAssist();
     }
+    this.updateAirborneVisual();
     
     // Update trail
     this.updateTrail();
@@ -141,8 +190,12 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     if (speed > TUNING.BALL_STOP_THRESHOLD) {
       // Passes have more friction (PASS_DRAG) for "receiving" feel
       // Shots have less friction (SHOT_DRAG) for power feel
-      const drag = this.lastKickType === 'pass' ? TUNING.PASS_DRAG : TUNING.BALL_DRAG;
-      this.setVelocity(vel.x * drag, vel.y * drag);
+      const baseDrag = this.lastKickType === 'pass' ? TUNING.PASS_DRAG : TUNING.BALL_DRAG;
+      const drag = 1 - (1 - baseDrag) * this.weatherDragScale;
+      
+      // Wind pushes a rolling ball, a lifted one more
+      const windScale = (this.isAerial ? TUNING.WEATHER_AERIAL_WIND_SCALE : 1) * delta / 1000;
+      this.setVelocity(vel.x * drag + this.windX * windScale, vel.y * drag + this.windY * windScale);
     }
     
     // Apply spin/curve if set
@@ -188,7 +241,7 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     
     // Only show trail when moving fast
     if (speed > 150) {
-      this.trailPoints.unshift({ x: this.x, y: this.y, alpha: 1 });
+      this.trailPoints.unshift({ x: this.x, y: this.y - this.altitude, alpha: 1 });
     }
     
     // Limit trail length
@@ -214,19 +267,40 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
   }
   
   private checkRebound(): void {
-    const vel = this.body!.velocity;
-    if (this.lastShooter && vel.length() > 50) {
-      this.isRebound = true;
-    }
-    
-    if (vel.length() < 30) {
-      this.scene.time.delayedCall(500, () => {
-        this.isRebound = false;
-        this.lastShooter = null;
-      });
+    // A loose ball that has stopped rolling is nobody's shot any more
+    if (this.isLoose && this.body!.velocity.length() < TUNING.REBOUND_DEAD_SPEED) {
+      this.isRebound = false;
+      this.lastShooter = null;
     }
   }
   
+  /**
+   * Ball came back off a keeper, post or defender.
+   * Emits 'rebound' with the shooter so RunScene can redirect it.
+   */
+  markRebound(): void {
+    this.isRebound = true;
+    this.reboundUntil = this.scene.time.now + TUNING.REBOUND_WINDOW_MS;
+    this.emit('rebound', this.lastShooter);
+  }
+  
+  /**
+   * Pitch conditions: dragScale scales the per-frame speed loss, wind is px/s²
+   */
+  setWeather(dragScale: number, wind: { x: number; y: number }): void {
+    this.weatherDragScale = dragScale;
+    this.windX = wind.x;
+    this.windY = wind.y;
+  }
+  
+  /**
+   * Keep one entity from picking the ball up for a moment
+   */
+  blockPickup(entity: any, durationMs: number): void {
+    this.pickupBlockedEntity = entity;
+    this.pickupBlockedUntil = this.scene.time.now + durationMs;
+  }
+  
   private handleBoomerang(): void {
     if (!this.boomerangOrigin) return;
     
@@ -307,7 +381,7 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     this.isLoose = true;
     
     const direction = { x: Math.cos(angle), y: Math.sin(angle) };
-    const spin = TUNING.SHOT_SPIN_BASE * (Math.random() - 0.5) * 2;
+    const spin = TUNING.SHOT_SPIN_BASE * (this.randomSource() - 0.5) * 2;
     
     this.kick(direction, power, spin, 'shot');
   }
@@ -323,6 +397,10 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     this.lastShotX = shooterX;
     this.lastShotY = shooterY;
     
+    // Following up a save or deflection in time makes this a rebound finish
+    this.isRebound = this.lastShotTime < this.reboundUntil;
+    this.reboundUntil = 0;
+    
     // Debug log
     console.log(`[SHOT_ORIGIN] Team: ${team}, InD: ${isInsideD}, Pos: (${Math.round(shooterX)}, ${Math.round(shooterY)})`);
   }
@@ -424,14 +502,200 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     this.passStartTime = this.scene.time.now;
     this.noRecaptureUntil = this.scene.time.now + TUNING.PASS_NO_RECAPTURE_MS;
     
+    // Upgrade effects queued for this pass
+    const effects = this.pendingPassEffects;
+    this.pendingPassEffects = new Set();
+    
+    if (intendedReceiver && (effects.has('lead') || this.isPredictive)) {
+      angle = this.getLeadAngle(intendedReceiver, power);
+    }
+    
     const direction = { x: Math.cos(angle), y: Math.sin(angle) };
     
     this.kick(direction, power, 0, 'pass');
     
     // Set boomerang if enabled
+    if (effects.has('boomerang')) {
+      this.isBoomerang = true;
+    }
     if (this.isBoomerang) {
       this.boomerangOrigin = { x: passer.x, y: passer.y };
     }
+    
+    if (effects.has('scoop')) {
+      this.loft(TUNING.AERIAL_PASS_LIFT_SPEED, effects.has('lob') ? Infinity : (effects.has('chip') ? 1 : 0));
+    } else if (effects.has('lob')) {
+      this.lift(TUNING.LOB_PASS_AIR_MS, Infinity);
+    } else if (effects.has('chip')) {
+      this.lift(TUNING.CHIP_PASS_AIR_MS, 1);
+    }
+    
+    this.isHoming = effects.has('homing') && !!intendedReceiver;
+    
+    if (effects.has('relay')) {
+      this.relaysLeft = TUNING.PASS_RELAY_COUNT;
+    }
+    
+    if (effects.has('teleport') && intendedReceiver) {
+      this.teleportTo(intendedReceiver, passer);
+    }
+  }
+  
+  /**
+   * Queue an upgrade effect for the next pass
+   */
+  applyPassEffect(effect: PassEffect): void {
+    this.pendingPassEffects.add(effect);
+  }
+  
+  /**
+   * Angle that meets a moving receiver, assuming the pass holds its speed
+   */
+  private getLeadAngle(receiver: any, speed: number): number {
+    const vel = receiver.body?.velocity || { x: 0, y: 0 };
+    const travelSec = Phaser.Math.Distance.Between(this.x, this.y, receiver.x, receiver.y) / Math.max(speed, 1);
+    return Math.atan2(
+      receiver.y + vel.y * travelSec - this.y,
+      receiver.x + vel.x * travelSec - this.x
+    );
+  }
+  
+  /** Lift the ball so it stays up for roughly this long (ms) */
+  private lift(duration: number, clears: number): void {
+    this.loft(TUNING.BALL_GRAVITY * duration / 2000, clears);
+  }
+  
+  // ========================================
+  // HEIGHT
+  // ========================================
+  
+  /**
+   * Send the loose ball upward. clears is how many opponents it can pass
+   * over before it first lands, on top of anything above shoulder height.
+   */
+  loft(verticalSpeed: number, clears: number = 0): void {
+    this.verticalSpeed = verticalSpeed;
+    this.altitude = Math.max(this.altitude, 1);
+    this.liftClears = clears;
+    this.clearedDefenders.clear();
+    this.aerialWinner = 'none';
+    this.aerialContested = false;
+    this.isAerial = true;
+  }
+  
+  /** Gravity, then a damped bounce each time it comes down */
+  private updateHeight(delta: number): void {
+    if (!this.isAerial) return;
+    
+    const dt = delta / 1000;
+    this.verticalSpeed -= TUNING.BALL_GRAVITY * dt;
+    this.altitude += this.verticalSpeed * dt;
+    if (this.altitude > 0) return;
+    
+    // Touchdown: lifted passes are done clearing, contests are settled
+    this.altitude = 0;
+    this.liftClears = 0;
+    this.clearedDefenders.clear();
+    this.aerialWinner = 'none';
+    
+    const vel = this.body!.velocity;
+    this.setVelocity(vel.x * TUNING.BALL_LANDING_SPEED_KEEP, vel.y * TUNING.BALL_LANDING_SPEED_KEEP);
+    
+    const bounceSpeed = -this.verticalSpeed * TUNING.BALL_LANDING_BOUNCE;
+    if (bounceSpeed >= TUNING.BALL_MIN_BOUNCE_SPEED) {
+      this.verticalSpeed = bounceSpeed;
+      this.aerialContested = true;  // Bounces aren't contested again
+    } else {
+      this.land();
+    }
+    this.emit('landed', this.x, this.y);
+  }
+  
+  /** Back on the turf */
+  private land(): void {
+    this.altitude = 0;
+    this.verticalSpeed = 0;
+    this.liftClears = 0;
+    this.clearedDefenders.clear();
+    this.aerialWinner = 'none';
+    this.aerialContested = false;
+    this.isAerial = false;
+  }
+  
+  private updateAirborneVisual(): void {
+    const airborne = this.altitude > 0;
+    this.setVisible(!airborne);
+    this.shadow.setVisible(airborne);
+    this.airborneImage.setVisible(airborne);
+    if (!airborne) return;
+    
+    // Shadow shrinks and fades as the ball climbs
+    const shadowScale = Math.max(0.5, 1 - this.altitude / 120);
+    this.shadow.setPosition(this.x, this.y);
+    this.shadow.setScale(shadowScale);
+    this.shadow.setAlpha(0.35 * shadowScale);
+    
+    this.airborneImage.setPosition(this.x, this.y - this.altitude);
+    this.airborneImage.setScale(1 + this.altitude * TUNING.BALL_HEIGHT_SCALE);
+  }
+  
+  getHeight(): number {
+    return this.altitude;
+  }
+  
+  /** A goal replay draws its own ball; this one and its trail stay out of sight meanwhile */
+  setReplayHidden(hidden: boolean): void {
+    this.trail.setVisible(!hidden);
+    if (hidden) {
+      this.setVisible(false);
+      this.shadow.setVisible(false);
+      this.airborneImage.setVisible(false);
+    } else {
+      this.updateAirborneVisual();
+    }
+  }
+  
+  /** Too high for anyone but a keeper to play */
+  isAboveShoulder(): boolean {
+    return this.altitude > TUNING.BALL_SHOULDER_HEIGHT;
+  }
+  
+  /** Coming down and nobody has claimed it yet */
+  isAwaitingAerialContest(): boolean {
+    return this.isAerial && !this.owner && !this.aerialContested && this.verticalSpeed <= 0;
+  }
+  
+  /** Only this side can take it until it lands ('none' leaves it open) */
+  awardAerial(team: PossessionTeam): void {
+    this.aerialContested = true;
+    this.aerialWinner = team;
+  }
+  
+  /**
+   * Where the ball will come down, ignoring drag and wind
+   */
+  getLandingSpot(): { x: number; y: number } {
+    const g = TUNING.BALL_GRAVITY;
+    const t = (this.verticalSpeed + Math.sqrt(this.verticalSpeed * this.verticalSpeed + 2 * g * this.altitude)) / g;
+    const vel = this.body!.velocity;
+    return { x: this.x + vel.x * t, y: this.y + vel.y * t };
+  }
+  
+  /** The owner took it out of the air and hasn't played it since */
+  isFirstTouchFromAerial(): boolean {
+    return this.aerialReceivedAt > 0 && this.scene.time.now - this.aerialReceivedAt < TUNING.VOLLEY_WINDOW_MS;
+  }
+  
+  private teleportTo(receiver: any, passer: any): void {
+    // Drop it on the receiver's passer-facing side, rolling onto their stick
+    const back = Math.atan2(passer.y - receiver.y, passer.x - receiver.x);
+    this.setPosition(receiver.x + Math.cos(back) * 20, receiver.y + Math.sin(back) * 20);
+    this.setVelocity(-Math.cos(back) * 80, -Math.sin(back) * 80);
+    
+    // Not a line crossing
+    this.prevX = this.x;
+    this.prevY = this.y;
+    this.trailPoints = [];
   }
   
   /**
@@ -442,6 +706,38 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     if (this.scene.time.now < this.noRecaptureUntil && entity === this.lastOwner) {
       return false;
     }
+    
+    if (this.scene.time.now < this.pickupBlockedUntil && entity === this.pickupBlockedEntity) {
+      return false;
+    }
+    
+    // Nobody plays it above the shoulder
+    if (this.isAboveShoulder()) {
+      return false;
+    }
+    
+    // The side that lost the aerial contest waits for it to land
+    if (this.aerialWinner !== 'none' && this.getTeamOf(entity) !== this.aerialWinner) {
+      return false;
+    }
+    
+    const isOpponent = this.getTeamOf(entity) !== this.getTeamOf(this.lastOwner);
+    
+    // Lifted ball sails over opponents while it has clears left
+    if (isOpponent && this.isAerial) {
+      if (this.clearedDefenders.has(entity)) return false;
+      if (this.liftClears > 0) {
+        this.clearedDefenders.add(entity);
+        this.liftClears--;
+        return false;
+      }
+    }
+    
+    // Homing pass can't be cut out
+    if (isOpponent && this.isHoming) {
+      return false;
+    }
+    
     return true;
   }
   
@@ -452,6 +748,11 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
   applyReceiveAssist(): void {
     if (!this.intendedReceiver || !this.isLoose) return;
     
+    if (this.isHoming) {
+      this.steerToReceiver();
+      return;
+    }
+    
     const timeSincePass = this.scene.time.now - this.passStartTime;
     if (timeSincePass > TUNING.PASS_RECEIVE_ASSIST_MS) {
       // Assist window expired
@@ -475,6 +776,25 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     }
   }
   
+  /**
+   * Homing pass: turn toward the receiver at the current speed
+   */
+  private steerToReceiver(): void {
+    const vel = this.body!.velocity;
+    const speed = vel.length();
+    
+    // Died out before arriving - back to a normal loose ball
+    if (speed < 100) {
+      this.isHoming = false;
+      return;
+    }
+    
+    const angle = Math.atan2(this.intendedReceiver.y - this.y, this.intendedReceiver.x - this.x);
+    const newVelX = Phaser.Math.Linear(vel.x, Math.cos(angle) * speed, TUNING.PASS_HOMING_TURN);
+    const newVelY = Phaser.Math.Linear(vel.y, Math.sin(angle) * speed, TUNING.PASS_HOMING_TURN);
+    this.setVelocity(newVelX, newVelY);
+  }
+  
   // Attach to new owner
   /**
    * Attach ball to a new owner
@@ -492,12 +812,17 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     // Update possession team tracking
     if (newOwner) {
       this.lastPossessingTeam = this.getTeamOf(newOwner);
+      this.lastTouchTeam = this.lastPossessingTeam;
     }
     
     // Clear pass targeting
     this.intendedReceiver = null;
     this.noRecaptureUntil = 0;
     
+    // Taken out of the air: a first-time shot is a volley
+    this.aerialReceivedAt = this.isAerial ? this.scene.time.now : 0;
+    this.land();
+    
     // Reset special effects
     this.curveAmount = 0;
     this.spinAmount = 0;
@@ -505,6 +830,7 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     this.boomerangOrigin = undefined;
     this.isPredictive = false;
     this.magnetTarget = undefined;
+    this.clearPassEffects();
     
     return prevTeam;
   }
@@ -540,6 +866,13 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     return prevTeam === 'enemy' && newTeam === 'player';
   }
   
+  /**
+   * A keeper or defender played the ball without taking it
+   */
+  setLastTouch(team: PossessionTeam): void {
+    this.lastTouchTeam = team;
+  }
+  
   /**
    * Set the last possessing team (for initialization)
    */
@@ -554,8 +887,8 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     this.isLoose = true;
     
     // Small random velocity
-    const randomAngle = Math.random() * Math.PI * 2;
-    const randomSpeed = TUNING.KICK_IMPULSE_MIN + Math.random() * (TUNING.KICK_IMPULSE_MAX - TUNING.KICK_IMPULSE_MIN);
+    const randomAngle = this.randomSource() * Math.PI * 2;
+    const randomSpeed = TUNING.KICK_IMPULSE_MIN + this.randomSource() * (TUNING.KICK_IMPULSE_MAX - TUNING.KICK_IMPULSE_MIN);
     this.setVelocity(
       Math.cos(randomAngle) * randomSpeed,
       Math.sin(randomAngle) * randomSpeed
@@ -571,11 +904,13 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     this.lastShooter = null;
     this.isLoose = true;
     this.isRebound = false;
+    this.reboundUntil = 0;
     this.prevX = 600;
     this.prevY = 350;
     
     // Reset possession tracking (ball is neutral until kickoff)
     this.lastPossessingTeam = 'none';
+    this.lastTouchTeam = 'none';
     
     // Clear shot origin tracking
     this.clearShotOrigin();
@@ -587,6 +922,10 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     this.trailPoints = [];
     this.trail.clear();
     
+    this.land();
+    this.aerialReceivedAt = 0;
+    this.updateAirborneVisual();
+    
     // Reset special effects
     this.curveAmount = 0;
     this.spinAmount = 0;
@@ -595,6 +934,13 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
     this.isPredictive = false;
     this.magnetTarget = undefined;
     this.speedMultiplier = 1;
+    this.clearPassEffects();
+  }
+  
+  private clearPassEffects(): void {
+    this.pendingPassEffects.clear();
+    this.isHoming = false;
+    this.relaysLeft = 0;
   }
   
   // Special effect setters
@@ -668,6 +1014,8 @@ export class Ball extends Phaser.Physics.Arcade.Sprite {
   
   destroy(fromScene?: boolean): void {
     this.trail.destroy();
+    this.shadow.destroy();
+    this.airborneImage.destroy();
     super.destroy(fromScene);
   }
 }
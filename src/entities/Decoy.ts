@@ -0,0 +1,48 @@
+// Decoy entity for Stick & Shift
+// Phantom copy of the player that enemy defenders chase (Phantom Dodge, Mirror Image)
+
+import Phaser from 'phaser';
+
+export class Decoy extends Phaser.GameObjects.Sprite {
+  public expiresAt: number;
+  
+  constructor(
+    scene: Phaser.Scene,
+    fromX: number,
+    fromY: number,
+    toX: number,
+    toY: number,
+    texture: string,
+    duration: number
+  ) {
+    super(scene, fromX, fromY, texture);
+    
+    // Add to scene
+    scene.add.existing(this);
+    this.setAlpha(0.55);
+    this.setTint(0xb388ff);
+    this.setDepth(9);
+    
+    this.expiresAt = scene.time.now + duration;
+    
+    // Keeps running, then fades out
+    scene.tweens.add({
+      targets: this,
+      x: toX,
+      y: toY,
+      duration,
+      ease: 'Linear'
+    });
+    scene.tweens.add({
+      targets: this,
+      alpha: 0,
+      delay: Math.max(0, duration - 250),
+      duration: 250,
+      onComplete: () => this.destroy()
+    });
+  }
+  
+  isActive(): boolean {
+    return this.active && this.scene.time.now < this.expiresAt;
+  }
+}
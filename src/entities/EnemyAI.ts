@@ -3,6 +3,11 @@
 
 import Phaser from 'phaser';
 import { AISystem, AIConfig, AIDecision, AIRole } from '../systems/AISystem';
+import { BossType } from '../data/moments';
+import { AffixType, AFFIXES } from '../data/affixes';
+import { EnemyStat } from '../data/enemyStats';
+import { EnemyModifierSystem } from '../systems/EnemyModifierSystem';
+import * as TUNING from '../data/tuning';
 
 export type EnemyType = 'normal' | 'boss' | 'orange';
 
@@ -10,6 +15,7 @@ export class EnemyAI extends Phaser.Physics.Arcade.Sprite {
   // AI
   public aiConfig: AIConfig;
   public aiSystem!: AISystem;  // Will be set externally from RunScene
+  public modifiers?: EnemyModifierSystem;  // Curses, moment modifiers and auras (set by RunScene)
   private currentDecision?: AIDecision;
   private decisionTimer: number = 0;
   public currentState: string = 'idle';  // For debug display
@@ -23,10 +29,20 @@ export class EnemyAI extends Phaser.Physics.Arcade.Sprite {
   // Type
   public enemyType: EnemyType;
   public role: AIRole;
+  public affixes: AffixType[] = [];
+  private affixIcons?: Phaser.GameObjects.Text;
   
   // State
   public hasBall: boolean = false;
   public isStunned: boolean = false;
+  private confusedUntil: number = 0;
+  private slippedUntil: number = 0;
+  
+  // Boss encounter moves (driven by BossSystem)
+  private heldUntil: number = 0;
+  private dodgingUntil: number = 0;
+  private surgeUntil: number = 0;
+  private surgeMult: number = 1;
   
   // Stats
   public speed: number = 180;
@@ -46,6 +62,7 @@ export class EnemyAI extends Phaser.Physics.Arcade.Sprite {
   public onShoot?: (power: number, angle: number) => void;
   public onPass?: (angle: number, target: any) => void;
   public onTackle?: (target: any) => void;
+  public onEnraged?: () => void;
   
   constructor(
     scene: Phaser.Scene,
@@ -54,7 +71,8 @@ export class EnemyAI extends Phaser.Physics.Arcade.Sprite {
     role: AIRole,
     enemyType: EnemyType = 'normal',
     difficulty: number = 0.5,
-    sharedAISystem?: AISystem
+    sharedAISystem?: AISystem,
+    bossType?: BossType
   ) {
     // Choose texture based on type
     let textureKey = 'enemy_mid';
@@ -77,9 +95,10 @@ export class EnemyAI extends Phaser.Physics.Arcade.Sprite {
     this.enemyType = enemyType;
     this.role = role;
     
-    // Create AI config based on role and type
+    // Create AI config based on role and type; a boss plays the role its config gives it
     if (enemyType === 'boss') {
-      this.aiConfig = AISystem.createBossConfig('starForward');
+      this.aiConfig = AISystem.createBossConfig(bossType ?? 'starForward');
+      this.role = this.aiConfig.role;
     } else {
       switch (role) {
         case 'defender':
@@ -129,11 +148,33 @@ export class EnemyAI extends Phaser.Physics.Arcade.Sprite {
   }
   
   update(delta: number): void {
+    this.affixIcons?.setPosition(this.x, this.y - 34);
+    
     if (this.isStunned) {
       this.setVelocity(this.body!.velocity.x * 0.9, this.body!.velocity.y * 0.9);
       return;
     }
     
+    // Confused (Step Over): drift to a stop, no decisions
+    if (this.scene.time.now < this.confusedUntil) {
+      this.setVelocity(this.body!.velocity.x * 0.92, this.body!.velocity.y * 0.92);
+      this.currentState = 'CONFUSED';
+      return;
+    }
+    
+    // Slipped (weather): slide on with no grip
+    if (this.scene.time.now < this.slippedUntil) {
+      this.setVelocity(this.body!.velocity.x * 0.97, this.body!.velocity.y * 0.97);
+      this.currentState = 'SLIPPED';
+      return;
+    }
+    
+    // Boss wind-up or dodge: keep still (or keep sliding) until it plays out
+    if (this.scene.time.now < this.heldUntil) {
+      this.updateVisuals();
+      return;
+    }
+    
     // Stuck detection - if AI is barely moving for too long, force new decision
     const speed = Math.sqrt(this.body!.velocity.x ** 2 + this.body!.velocity.y ** 2);
     const distMoved = Phaser.Math.Distance.Between(this.x, this.y, this.lastPosition.x, this.lastPosition.y);
@@ -239,9 +280,11 @@ export class EnemyAI extends Phaser.Physics.Arcade.Sprite {
     const dist = Math.sqrt(dx * dx + dy * dy);
     
     if (dist > 5) {
+      const baseSpeed = this.speed * this.getStatMultiplier('speed');
+      const speed = this.scene.time.now < this.surgeUntil ? baseSpeed * this.surgeMult : baseSpeed;
       this.setVelocity(
-        (dx / dist) * this.speed,
-        (dy / dist) * this.speed
+        (dx / dist) * speed,
+        (dy / dist) * speed
       );
       this.facingAngle = Math.atan2(dy, dx);
     } else {
@@ -254,18 +297,21 @@ export class EnemyAI extends Phaser.Physics.Arcade.Sprite {
     
     const angle = Math.atan2(targetY - this.y, targetX - this.x);
     
-    // Add some inaccuracy based on skill (less at close range)
+    // Add some inaccuracy based on skill (less at close range; a Sniper is as accurate from anywhere)
     const distToTarget = Phaser.Math.Distance.Between(this.x, this.y, targetX, targetY);
     const closeRange = distToTarget < 150;
-    const inaccuracy = closeRange 
+    const inaccuracy = closeRange || this.hasAffix('sniper')
       ? (1 - this.aiConfig.skill) * 0.15  // More accurate at close range
       : (1 - this.aiConfig.skill) * 0.3;
-    const finalAngle = angle + (Math.random() - 0.5) * inaccuracy;
+    const finalAngle = angle + (this.aiSystem.random() - 0.5) * inaccuracy;
     
     this.hasBall = false;
     
     // Use tap shot power for close range, full power otherwise
-    const power = closeRange ? this.shotPower * 0.85 : this.shotPower;
+    let power = closeRange ? this.getShotPower() * 0.85 : this.getShotPower();
+    if (this.hasAffix('sniper')) {
+      power *= TUNING.AFFIX_SNIPER_POWER_MULT;
+    }
     
     console.log(`[AI SHOOT] range=${closeRange ? 'close' : 'normal'} power=${Math.round(power)} angle=${finalAngle.toFixed(2)}`);
     
@@ -291,7 +337,7 @@ export class EnemyAI extends Phaser.Physics.Arcade.Sprite {
     
     const dist = Phaser.Math.Distance.Between(this.x, this.y, target.x, target.y);
     
-    if (dist < this.tackleRange + 20) {
+    if (dist < this.tackleRange * this.getStatMultiplier('tackleRange') + 20) {
       if (this.onTackle) {
         this.onTackle(target);
       }
@@ -328,6 +374,11 @@ export class EnemyAI extends Phaser.Physics.Arcade.Sprite {
     // Orange monsters have even more stun resistance
     const finalDuration = this.enemyType === 'orange' ? actualDuration * 0.3 : actualDuration;
     
+    // Enraged: going down spurs the team on
+    if (!this.isStunned && this.hasAffix('enraged') && this.onEnraged) {
+      this.onEnraged();
+    }
+    
     this.isStunned = true;
     
     this.scene.time.delayedCall(finalDuration, () => {
@@ -357,9 +408,31 @@ export class EnemyAI extends Phaser.Physics.Arcade.Sprite {
       this.scene.time.delayedCall(duration, () => {
         this.clearTint();
       });
+    } else if (type === 'confuse') {
+      // Bosses shake it off faster
+      const actualDuration = this.enemyType === 'boss' ? duration * 0.5 : duration;
+      this.confusedUntil = this.scene.time.now + actualDuration;
+      this.currentDecision = undefined;
+      
+      this.setTint(0xb388ff);
+      this.scene.time.delayedCall(actualDuration, () => {
+        this.clearTint();
+      });
+    } else if (type === 'slip') {
+      this.slippedUntil = this.scene.time.now + duration;
+      this.currentDecision = undefined;
+      
+      this.setTint(0x81ecec);
+      this.scene.time.delayedCall(duration, () => {
+        this.clearTint();
+      });
     }
   }
   
+  isSlipped(): boolean {
+    return this.scene.time.now < this.slippedUntil;
+  }
+  
   drainStamina(amount: number): void {
     // Enemies slow down briefly
     const originalSpeed = this.speed;
@@ -380,6 +453,11 @@ export class EnemyAI extends Phaser.Physics.Arcade.Sprite {
     return this.facingAngle;
   }
   
+  /** Turn straight to a point (lining up a restart) */
+  faceTowards(x: number, y: number): void {
+    this.facingAngle = Math.atan2(y - this.y, x - this.x);
+  }
+  
   setReferences(player: any, playerTeammates: any[], enemyTeammates: EnemyAI[], ball: any): void {
     this.player = player;
     this.playerTeammates = playerTeammates;
@@ -387,25 +465,98 @@ export class EnemyAI extends Phaser.Physics.Arcade.Sprite {
     this.ball = ball;
   }
   
-  // Boss special abilities
-  bossAbility(): void {
-    if (this.enemyType !== 'boss') return;
+  // Boss moves (BossSystem decides when)
+  
+  /** Stand still with no decisions for a telegraphed wind-up */
+  holdStill(duration: number): void {
+    this.heldUntil = this.scene.time.now + duration;
+    this.currentDecision = undefined;
+    this.currentState = 'WIND-UP';
+    this.setVelocity(0, 0);
+  }
+  
+  /** Sidestep at speed; nothing can tackle it mid-dodge */
+  dodge(dirX: number, dirY: number, speed: number, duration: number): void {
+    const len = Math.sqrt(dirX * dirX + dirY * dirY) || 1;
+    this.heldUntil = this.scene.time.now + duration;
+    this.dodgingUntil = this.heldUntil;
+    this.currentDecision = undefined;
+    this.currentState = 'DODGE';
+    this.setVelocity((dirX / len) * speed, (dirY / len) * speed);
+    this.facingAngle = Math.atan2(dirY, dirX);
+  }
+  
+  /** Run faster than usual for a while */
+  surge(multiplier: number, duration: number): void {
+    this.surgeMult = multiplier;
+    this.surgeUntil = this.scene.time.now + duration;
+  }
+  
+  /** Let go of a wind-up early (the ball was lost) */
+  release(): void {
+    this.heldUntil = 0;
+    this.dodgingUntil = 0;
+  }
+  
+  hasIframes(): boolean {
+    return this.scene.time.now < this.dodgingUntil;
+  }
+  
+  /** A shot exactly where it's aimed, at the given power */
+  strike(angle: number, power: number): void {
+    if (!this.hasBall) return;
     
-    // Example: burst of speed
-    const originalSpeed = this.speed;
-    this.speed *= 1.5;
+    this.hasBall = false;
+    this.release();
+    this.facingAngle = angle;
     
-    this.scene.time.delayedCall(1000, () => {
-      this.speed = originalSpeed;
-    });
+    if (this.onShoot) {
+      this.onShoot(power, angle);
+    }
+  }
+  
+  /** A pass played on the boss's cue rather than the AI's */
+  passTo(target: any): void {
+    this.release();
+    this.pass(target);
+  }
+  
+  getShotPower(): number {
+    return this.shotPower * this.getStatMultiplier('shotPower');
+  }
+  
+  /** Curses, moment modifiers and auras on one of this enemy's stats */
+  getStatMultiplier(stat: EnemyStat): number {
+    return this.modifiers?.getMultiplier(this, stat) ?? 1;
+  }
+  
+  // Affixes (rolled by RunScene in the later moments of a run)
+  
+  setAffixes(affixes: AffixType[]): void {
+    this.affixes = affixes;
+    if (affixes.length === 0) return;
     
-    // Visual
-    this.scene.tweens.add({
-      targets: this,
-      alpha: 0.5,
-      duration: 100,
-      yoyo: true,
-      repeat: 4
-    });
+    if (this.hasAffix('swift')) {
+      this.speed *= TUNING.AFFIX_SWIFT_SPEED_MULT;
+    }
+    
+    this.affixIcons = this.scene.add.text(this.x, this.y - 34, affixes.map(affix => AFFIXES[affix].icon).join(''), {
+      fontSize: '14px'
+    }).setOrigin(0.5).setDepth(10);
+  }
+  
+  hasAffix(affix: AffixType): boolean {
+    return this.affixes.includes(affix);
+  }
+  
+  /** The icons hide with the sprite (goal replays) */
+  setVisible(value: boolean): this {
+    this.affixIcons?.setVisible(value);
+    return super.setVisible(value);
+  }
+  
+  destroy(fromScene?: boolean): void {
+    this.affixIcons?.destroy();
+    super.destroy(fromScene);
   }
 }
@@ -6,6 +6,7 @@
 
 import Phaser from 'phaser';
 import * as TUNING from '../data/tuning';
+import { RandomSource } from '../systems/RandomSystem';
 
 // GK-specific constants
 const GK_SCALE = 0.85;  // Smaller than outfield players
@@ -17,6 +18,9 @@ const GK_SPRITE_SIZE = 40;  // Base sprite size before scaling
 // ENEMY attacks LEFT goal (x = 0), defends RIGHT goal (x = fieldWidth)
 const ENEMY_DEFENDS_RIGHT = true;
 
+/** Boss keepers: The Wall stops every clean shot, the Sweeper Keeper comes off the line */
+export type KeeperStyle = 'standard' | 'wall' | 'sweeper';
+
 export class EnemyGoalkeeper extends Phaser.Physics.Arcade.Sprite {
   // References
   private ball?: any;
@@ -27,7 +31,11 @@ export class EnemyGoalkeeper extends Phaser.Physics.Arcade.Sprite {
   private isLunging: boolean = false;
   private lungeEndTime: number = 0;
   private lungeCooldownUntil: number = 0;
+  private staggeredUntil: number = 0;  // Knocked back: no tracking, lunging or saves
+  private fakedUntil: number = 0;  // Bit on a fake shot: still on the ground, can save only what hits them
   private lastReactionTime: number = 0;
+  private style: KeeperStyle = 'standard';
+  private sweeping: boolean = false;
   
   // Goal area bounds (GK_BOX) - positioned at RIGHT goal
   private goalY: number;
@@ -41,6 +49,9 @@ export class EnemyGoalkeeper extends Phaser.Physics.Arcade.Sprite {
   public saveCount: number = 0;
   public lungeAttempts: number = 0;
   
+  // Deflection spread
+  private randomSource: RandomSource = Math.random;
+  
   // Visual elements
   private helmetGraphic?: Phaser.GameObjects.Graphics;
   private idleTimer: number = 0;
@@ -174,6 +185,11 @@ export class EnemyGoalkeeper extends Phaser.Physics.Arcade.Sprite {
     });
   }
   
+  /** RunScene hands over the run's seeded stream so replays deflect the same way */
+  setRandomSource(random: RandomSource): void {
+    this.randomSource = random;
+  }
+  
   setBall(ball: any): void {
     this.ball = ball;
   }
@@ -190,14 +206,28 @@ export class EnemyGoalkeeper extends Phaser.Physics.Arcade.Sprite {
       this.setScale(GK_SCALE);
     }
     
+    // Staggered or sold a dummy - drift, no decisions
+    if (now < this.staggeredUntil || (!this.isLunging && now < this.fakedUntil)) {
+      this.setVelocity(this.body!.velocity.x * 0.9, this.body!.velocity.y * 0.9);
+      this.constrainPosition();
+      return;
+    }
+    
     // Get ball info
     const ballSpeed = this.ball.getSpeed();
     const ballVel = this.ball.body?.velocity || { x: 0, y: 0 };
     // Ball moving toward RIGHT goal = positive X velocity (player shooting at enemy GK)
     const ballMovingTowardGoal = ballVel.x > 50;
     
+    // Sweeper Keeper: off the line after anything in range that isn't ours
+    this.sweeping = this.style === 'sweeper' && !this.isLunging && this.shouldSweep(ballMovingTowardGoal);
+    
     // Decide behavior
-    if (this.shouldLunge(ballSpeed, ballMovingTowardGoal, now)) {
+    if (this.sweeping) {
+      this.sweep();
+    } else if (this.style === 'wall' && ballMovingTowardGoal && !this.ball.isRebound) {
+      this.wallOff(ballVel);
+    } else if (this.shouldLunge(ballSpeed, ballMovingTowardGoal, now)) {
       this.performLunge();
     } else if (!this.isLunging) {
       this.trackBall(delta);
@@ -244,9 +274,37 @@ export class EnemyGoalkeeper extends Phaser.Physics.Arcade.Sprite {
     const predX = this.ball.x + this.ball.body.velocity.x * predictTime;
     const predY = this.ball.y + this.ball.body.velocity.y * predictTime;
     
-    // Clamp prediction to GK_BOX
-    const targetX = Phaser.Math.Clamp(predX, this.gkBoxMinX, this.gkBoxMaxX);
-    const targetY = Phaser.Math.Clamp(predY, this.goalTopY, this.goalBottomY);
+    this.lungeToward(predX, predY);
+  }
+  
+  /**
+   * Bite on a fake shot: dive at where the shot would have gone and stay
+   * committed long enough for the attacker to walk round
+   */
+  commitToFake(fromX: number, fromY: number, angle: number): void {
+    if (this.isStaggered() || this.isLunging) return;
+    
+    // Where the dummy shot crosses the goal line
+    const cos = Math.cos(angle);
+    const projectedY = cos > 0.1
+      ? fromY + Math.tan(angle) * (this.goalLineX - fromX)
+      : this.goalY;
+    
+    this.isLunging = true;
+    this.lungeAttempts++;
+    this.lungeEndTime = this.scene.time.now + TUNING.GK_LUNGE_DURATION;
+    this.lungeCooldownUntil = this.scene.time.now + TUNING.GK_FAKE_RECOVERY_MS;
+    this.fakedUntil = this.lungeCooldownUntil;
+    this.lastReactionTime = this.scene.time.now;
+    
+    this.lungeToward(this.gkBoxMaxX, projectedY);
+    console.log(`[GK] Bit on fake shot toward y=${Math.round(projectedY)}`);
+  }
+  
+  private lungeToward(x: number, y: number): void {
+    // Clamp target to GK_BOX
+    const targetX = Phaser.Math.Clamp(x, this.gkBoxMinX, this.gkBoxMaxX);
+    const targetY = Phaser.Math.Clamp(y, this.goalTopY, this.goalBottomY);
     
     // Calculate lunge direction
     const dx = targetX - this.x;
@@ -325,19 +383,89 @@ export class EnemyGoalkeeper extends Phaser.Physics.Arcade.Sprite {
   }
   
   private constrainPosition(): void {
+    // A sweeper off its line is only kept out of the other half; it walks back into the box
+    if (this.style === 'sweeper' && (this.sweeping || this.x < this.gkBoxMinX - 10)) {
+      this.x = Phaser.Math.Clamp(this.x, this.goalLineX - TUNING.SWEEPER_KEEPER_RANGE, this.gkBoxMaxX);
+      this.y = Phaser.Math.Clamp(this.y, 40, this.fieldHeight - 40);
+      return;
+    }
+    
     // Keep GK strictly within GK_BOX (right side of field)
     this.x = Phaser.Math.Clamp(this.x, this.gkBoxMinX - 10, this.gkBoxMaxX);
     this.y = Phaser.Math.Clamp(this.y, this.goalTopY, this.goalBottomY);
   }
   
+  // ========================================
+  // BOSS KEEPERS
+  // ========================================
+  
+  setStyle(style: KeeperStyle): void {
+    this.style = style;
+    this.sweeping = false;
+  }
+  
+  isSweeping(): boolean {
+    return this.sweeping;
+  }
+  
+  /** A loose ball or a player-team carrier in range, and not a shot already on its way in */
+  private shouldSweep(ballMovingTowardGoal: boolean): boolean {
+    if (ballMovingTowardGoal && this.ball.getSpeed() > TUNING.GK_LUNGE_SPEED_THRESHOLD) return false;
+    if (this.ball.x < this.goalLineX - TUNING.SWEEPER_KEEPER_RANGE) return false;
+    return this.ball.isLoose || this.ball.lastPossessingTeam === 'player';
+  }
+  
+  private sweep(): void {
+    const dx = this.ball.x - this.x;
+    const dy = this.ball.y - this.y;
+    const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+    this.setVelocity((dx / dist) * TUNING.SWEEPER_KEEPER_SPEED, (dy / dist) * TUNING.SWEEPER_KEEPER_SPEED);
+  }
+  
+  /** The Wall: straight to where the shot crosses the line, quicker than any shot */
+  private wallOff(ballVel: { x: number; y: number }): void {
+    const crossingY = this.ball.y + ballVel.y * (this.goalLineX - this.ball.x) / ballVel.x;
+    const targetY = Phaser.Math.Clamp(crossingY, this.goalTopY, this.goalBottomY);
+    const dy = targetY - this.y;
+    
+    this.setVelocity(
+      (this.gkBoxMaxX - 10 - this.x) * 8,
+      Math.abs(dy) > 2 ? Math.sign(dy) * Math.min(TUNING.WALL_KEEPER_SPEED, Math.abs(dy) * 30) : 0
+    );
+  }
+  
+  /**
+   * Sweeper Keeper: clear the ball off a carrier's stick or out of its path
+   */
+  clearBall(ball: any): void {
+    ball.drop();
+    const angle = Math.PI + (this.randomSource() - 0.5) * 1.2;
+    ball.setVelocity(
+      -Math.abs(Math.cos(angle)) * TUNING.GK_DEFLECT_SPEED,
+      Math.sin(angle) * TUNING.GK_DEFLECT_SPEED * 0.8
+    );
+    ball.setLastTouch('enemy');
+    this.sweeping = false;
+    this.showSaveEffect();
+    console.log('[GK] Sweeper keeper cleared the ball');
+  }
+  
   /**
    * Handle ball collision - deflect the ball away from RIGHT goal
    */
   onBallContact(ball: any): void {
+    if (this.isStaggered()) return;
+    
+    // The Wall: a rebound or deflection is the one thing that gets past
+    if (this.style === 'wall' && ball.isRebound) return;
+    
     // Only deflect if ball was moving fast (a shot)
     const ballSpeed = ball.getSpeed();
     if (ballSpeed < 100) return;
     
+    // Already saved and on its way out (the ball overlaps for a few frames)
+    if (ball.body.velocity.x < 0) return;
+    
     this.saveCount++;
     
     // Calculate deflection direction (away from RIGHT goal = toward LEFT)
@@ -345,7 +473,7 @@ export class EnemyGoalkeeper extends Phaser.Physics.Arcade.Sprite {
     const baseAngle = Math.atan2(ball.y - this.y, ball.x - this.x);
     // Bias deflection to push ball LEFT (away from goal) with some randomness
     // Add PI to flip direction (away from goal), then add random vertical spread
-    const deflectAngle = Math.PI + (Math.random() - 0.5) * 1.2;  // Points left with spread
+    const deflectAngle = Math.PI + (this.randomSource() - 0.5) * 1.2;  // Points left with spread
     
     // Apply deflection - always push ball away from goal (negative X = left)
     ball.setVelocity(
@@ -356,6 +484,7 @@ export class EnemyGoalkeeper extends Phaser.Physics.Arcade.Sprite {
     // Prevent ball from sticking - brief immunity
     ball.isLoose = true;
     ball.owner = null;
+    ball.markRebound();
     
     // Visual/audio feedback
     this.showSaveEffect();
@@ -363,6 +492,31 @@ export class EnemyGoalkeeper extends Phaser.Physics.Arcade.Sprite {
     console.log(`[GK] SAVE at RIGHT goal! Ball deflected LEFT. Total saves: ${this.saveCount}`);
   }
   
+  /**
+   * Shoved back toward the goal line by a heavy shot
+   */
+  knockBack(force: number): void {
+    this.setVelocity(force, 0);  // Goal line is to the RIGHT
+    this.stagger(TUNING.TRAIT_GK_STAGGER_MS);
+  }
+  
+  /**
+   * Beaten for a moment - the ball gets past while the GK recovers
+   */
+  stagger(duration: number): void {
+    const now = this.scene.time.now;
+    this.staggeredUntil = now + duration;
+    this.lungeCooldownUntil = Math.max(this.lungeCooldownUntil, this.staggeredUntil);
+    this.isLunging = false;
+    this.setScale(GK_SCALE);
+    this.setTint(0x888888);
+    this.scene.time.delayedCall(duration, () => this.clearTint());
+  }
+  
+  isStaggered(): boolean {
+    return this.scene.time.now < this.staggeredUntil;
+  }
+  
   private showSaveEffect(): void {
     // Flash GK bright
     this.setTint(0x00ff00);
@@ -423,6 +577,8 @@ export class EnemyGoalkeeper extends Phaser.Physics.Arcade.Sprite {
     this.isLunging = false;
     this.lungeEndTime = 0;
     this.lungeCooldownUntil = 0;
+    this.fakedUntil = 0;
+    this.sweeping = false;
     this.clearTint();
     this.setScale(GK_SCALE);
   }
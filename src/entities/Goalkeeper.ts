@@ -4,6 +4,7 @@
 
 import Phaser from 'phaser';
 import * as TUNING from '../data/tuning';
+import { RandomSource } from '../systems/RandomSystem';
 
 // GK-specific constants
 const GK_SCALE = 0.85;
@@ -40,6 +41,14 @@ export class Goalkeeper extends Phaser.Physics.Arcade.Sprite {
   public saveCount: number = 0;
   public lungeAttempts: number = 0;
   
+  // Manual control (shootout keeper rounds)
+  private isManual: boolean = false;
+  private manualMove = { x: 0, y: 0 };
+  private manualDive: boolean = false;
+  
+  // Deflection spread
+  private randomSource: RandomSource = Math.random;
+  
   constructor(scene: Phaser.Scene, fieldWidth: number, fieldHeight: number, team: GoalkeeperTeam) {
     // Determine which goal to defend based on team
     // PLAYER attacks RIGHT, defends LEFT => Player GK at LEFT goal
@@ -182,6 +191,11 @@ export class Goalkeeper extends Phaser.Physics.Arcade.Sprite {
     });
   }
   
+  /** RunScene hands over the run's seeded stream so replays deflect the same way */
+  setRandomSource(random: RandomSource): void {
+    this.randomSource = random;
+  }
+  
   setBall(ball: any): void {
     this.ball = ball;
   }
@@ -198,6 +212,12 @@ export class Goalkeeper extends Phaser.Physics.Arcade.Sprite {
       this.setScale(GK_SCALE);
     }
     
+    if (this.isManual) {
+      this.updateManual(now);
+      this.constrainPosition();
+      return;
+    }
+    
     // Get ball velocity
     const ballVel = this.ball.body?.velocity || { x: 0, y: 0 };
     
@@ -242,19 +262,23 @@ export class Goalkeeper extends Phaser.Physics.Arcade.Sprite {
   private performLunge(): void {
     if (!this.ball) return;
     
-    this.isLunging = true;
-    this.lungeAttempts++;
-    this.lungeEndTime = this.scene.time.now + TUNING.GK_LUNGE_DURATION;
-    this.lungeCooldownUntil = this.scene.time.now + TUNING.GK_LUNGE_COOLDOWN;
-    
     // Calculate predicted intercept point
     const predictTime = TUNING.GK_PREDICT_MULT;
     const predX = this.ball.x + this.ball.body.velocity.x * predictTime;
     const predY = this.ball.y + this.ball.body.velocity.y * predictTime;
     
+    this.lungeTo(predX, predY);
+  }
+  
+  private lungeTo(x: number, y: number): void {
+    this.isLunging = true;
+    this.lungeAttempts++;
+    this.lungeEndTime = this.scene.time.now + TUNING.GK_LUNGE_DURATION;
+    this.lungeCooldownUntil = this.scene.time.now + TUNING.GK_LUNGE_COOLDOWN;
+    
     // Clamp to GK_BOX
-    const targetX = Phaser.Math.Clamp(predX, this.gkBoxMinX, this.gkBoxMaxX);
-    const targetY = Phaser.Math.Clamp(predY, this.goalTopY, this.goalBottomY);
+    const targetX = Phaser.Math.Clamp(x, this.gkBoxMinX, this.gkBoxMaxX);
+    const targetY = Phaser.Math.Clamp(y, this.goalTopY, this.goalBottomY);
     
     // Calculate lunge direction
     const dx = targetX - this.x;
@@ -281,6 +305,45 @@ export class Goalkeeper extends Phaser.Physics.Arcade.Sprite {
     console.log(`[GK] ${this.team} lunge toward (${Math.round(targetX)}, ${Math.round(targetY)})`);
   }
   
+  // ========================================
+  // MANUAL CONTROL
+  // ========================================
+  
+  /** Hand the keeper to the player's input (or back to the AI) */
+  setManualControl(enabled: boolean): void {
+    this.isManual = enabled;
+    this.manualMove = { x: 0, y: 0 };
+    this.manualDive = false;
+    if (!enabled) {
+      this.setVelocity(0, 0);
+    }
+  }
+  
+  /** Movement input for this frame; dive goes the way the stick points, or at the ball */
+  steer(moveX: number, moveY: number, dive: boolean): void {
+    this.manualMove = { x: moveX, y: moveY };
+    this.manualDive = this.manualDive || dive;
+  }
+  
+  isManualControl(): boolean {
+    return this.isManual;
+  }
+  
+  private updateManual(now: number): void {
+    if (this.manualDive && !this.isLunging && now >= this.lungeCooldownUntil && this.ball) {
+      const hasDirection = this.manualMove.x !== 0 || this.manualMove.y !== 0;
+      this.lungeTo(
+        hasDirection ? this.x + this.manualMove.x * 100 : this.ball.x,
+        hasDirection ? this.y + this.manualMove.y * 100 : this.ball.y
+      );
+    }
+    this.manualDive = false;
+    
+    if (!this.isLunging) {
+      this.setVelocity(this.manualMove.x * TUNING.GK_SPEED * 0.5, this.manualMove.y * TUNING.GK_SPEED);
+    }
+  }
+  
   private trackBall(delta: number): void {
     if (!this.ball) return;
     
@@ -346,10 +409,14 @@ export class Goalkeeper extends Phaser.Physics.Arcade.Sprite {
     
     if (ballSpeed < 100) return;
     
+    // Already saved and on its way out (the ball overlaps for a few frames)
+    const movingAway = this.defendsRightGoal ? ball.body.velocity.x < 0 : ball.body.velocity.x > 0;
+    if (movingAway) return;
+    
     this.saveCount++;
     
     // Deflection direction depends on which goal
-    const deflectAngle = Math.PI + (Math.random() - 0.5) * 1.2;
+    const deflectAngle = Math.PI + (this.randomSource() - 0.5) * 1.2;
     
     if (this.defendsRightGoal) {
       // Deflect left (away from right goal)
@@ -367,6 +434,7 @@ export class Goalkeeper extends Phaser.Physics.Arcade.Sprite {
     
     ball.isLoose = true;
     ball.owner = null;
+    ball.markRebound();
     
     this.showSaveEffect();
     
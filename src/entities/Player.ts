@@ -25,6 +25,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
   public isHitstop: boolean = false;
   public isCallingForPass: boolean = false;
   public isInvulnerable: boolean = false;  // Recovery invulnerability (Part 2)
+  private iframesUntil: number = 0;  // Dodge tackle immunity
   private callingForPassUntil: number = 0;
   
   // HEALTH SYSTEM (Part C)
@@ -44,6 +45,10 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
   private tackleCooldown: number = 0;
   private dodgeCooldown: number = 0;
   
+  // Dodge chaining (extra dodge charges)
+  private dodgeChain: number = 0;
+  private lastDodgeTime: number = 0;
+  
   // Callbacks for new systems
   public onHealthChange?: (health: number, maxHealth: number, damage: number) => void;
   public onStaminaChange?: (stamina: number, maxStamina: number) => void;
@@ -66,9 +71,13 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
   // Systems
   private upgradeSystem?: UpgradeSystem;
   
+  // Weather (set per moment)
+  private traction: number = 1;
+  private staminaDrainScale: number = 1;
+  
   // Callbacks
-  public onShoot?: (power: number, angle: number) => void;
-  public onPass?: (angle: number, passSpeed: number, targetPos?: { x: number; y: number }) => void;
+  public onShoot?: (power: number, angle: number, isCharged: boolean) => void;
+  public onPass?: (angle: number, passSpeed: number, targetPos?: { x: number; y: number }, isAerial?: boolean) => void;
   public onTackle?: () => void;
   public onDodge?: () => void;
   public onShootFailed?: () => void;
@@ -123,6 +132,14 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     this.upgradeSystem = system;
   }
   
+  /**
+   * Pitch conditions for the moment: traction below 1 slides, staminaDrain above 1 tires faster
+   */
+  setWeather(traction: number, staminaDrain: number): void {
+    this.traction = traction;
+    this.staminaDrainScale = staminaDrain;
+  }
+  
   private getModifiedStat(statName: keyof CharacterStats): number {
     const baseStat = this.stats[statName];
     if (this.upgradeSystem) {
@@ -131,6 +148,21 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     return baseStat;
   }
   
+  /** Scale a tuning value by a trait/upgrade effect stat (dashCost, turnRate, ...) */
+  private getEffectValue(baseValue: number, statName: string): number {
+    return this.upgradeSystem ? this.upgradeSystem.getEffectValue(baseValue, statName) : baseValue;
+  }
+  
+  /** A skill cooldown after blanket ('cooldowns') and per-skill reductions */
+  private getCooldown(baseMs: number, skillStat?: string): number {
+    const cooldown = this.getEffectValue(baseMs, 'cooldowns');
+    return skillStat ? this.getEffectValue(cooldown, skillStat) : cooldown;
+  }
+  
+  private getEffectBonus(statName: string): number {
+    return this.upgradeSystem ? this.upgradeSystem.getStatBonus(statName) : 0;
+  }
+  
   update(delta: number, input: InputState): void {
     this.updateCooldowns(delta);
     
@@ -165,29 +197,41 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     
     const currentVelX = this.body!.velocity.x;
     const currentVelY = this.body!.velocity.y;
+    const acceleration = Math.min(1, this.getEffectValue(TUNING.PLAYER_ACCELERATION, 'acceleration')) * this.traction;
+    // Slippery Turf's curse cuts the drag, so the player slides on
+    const friction = 1 - this.getEffectValue((1 - TUNING.PLAYER_FRICTION) * this.traction, 'friction');
     
     let newVelX = currentVelX;
     let newVelY = currentVelY;
     
     if (this.targetVelocityX !== 0) {
-      newVelX += (this.targetVelocityX - currentVelX) * TUNING.PLAYER_ACCELERATION;
+      newVelX += (this.targetVelocityX - currentVelX) * acceleration;
     } else {
-      newVelX *= TUNING.PLAYER_FRICTION;
+      newVelX *= friction;
     }
     
     if (this.targetVelocityY !== 0) {
-      newVelY += (this.targetVelocityY - currentVelY) * TUNING.PLAYER_ACCELERATION;
+      newVelY += (this.targetVelocityY - currentVelY) * acceleration;
     } else {
-      newVelY *= TUNING.PLAYER_FRICTION;
+      newVelY *= friction;
     }
     
     this.setVelocity(newVelX, newVelY);
     this.isMoving = input.isMoving;
     
+    let targetFacing: number | null = null;
     if (input.isMoving) {
-      this.facingAngle = Math.atan2(input.moveY, input.moveX);
+      targetFacing = Math.atan2(input.moveY, input.moveX);
     } else if (input.hasMouseMoved) {
-      this.facingAngle = input.aimAngle;
+      targetFacing = input.aimAngle;
+    }
+    
+    // Facing snaps round, unless a trait or downside changes the turn rate
+    if (targetFacing !== null && this.getEffectBonus('turnRate') === 0) {
+      this.facingAngle = targetFacing;
+    } else if (targetFacing !== null) {
+      const turnStep = this.getEffectValue(TUNING.PLAYER_TURN_RATE, 'turnRate') * (delta / 1000);
+      this.facingAngle = Phaser.Math.Angle.RotateTo(this.facingAngle, targetFacing, turnStep);
     }
   }
   
@@ -243,6 +287,11 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         this.tryPass(input.aimAngle);
       }
       
+      // Aerial pass: scooped up over the defense
+      if (input.aerialPass && this.passCooldown <= 0 && !this.isCharging) {
+        this.tryPass(input.aimAngle, true);
+      }
+      
     } else {
       // === WITHOUT BALL: TACKLE (tap) ===
       
@@ -253,7 +302,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     }
     
     // === DODGE (always available) ===
-    if (input.dodge && this.dodgeCooldown <= 0 && this.stamina >= 20) {
+    if (input.dodge && this.dodgeCooldown <= 0 && this.stamina >= this.getDashCost()) {
       this.dodge(input.moveX || Math.cos(input.aimAngle), input.moveY || Math.sin(input.aimAngle));
     }
   }
@@ -269,8 +318,10 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
   private getChargePercent(): number {
     if (!this.isCharging) return 0;
     const elapsed = this.scene.time.now - this.chargeStartTime;
+    const chargeMin = this.getEffectValue(TUNING.CHARGE_MIN_MS, 'chargeTime');
+    const chargeMax = this.getEffectValue(TUNING.CHARGE_MAX_MS, 'chargeTime');
     const t = Phaser.Math.Clamp(
-      (elapsed - TUNING.CHARGE_MIN_MS) / (TUNING.CHARGE_MAX_MS - TUNING.CHARGE_MIN_MS),
+      (elapsed - chargeMin) / (chargeMax - chargeMin),
       0, 1
     );
     return t;
@@ -358,8 +409,9 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
   private shoot(power: number, angle: number, isCharged: boolean = false): void {
     this.isShooting = true;
     this.hasBall = false;
-    this.shootCooldown = TUNING.COOLDOWN_SHOOT;  // LONGER cooldown than pass
+    this.shootCooldown = this.getCooldown(TUNING.COOLDOWN_SHOOT, 'shootCooldown');  // LONGER cooldown than pass
     
+    const shotPowerBefore = this.getModifiedStat('shotPower');
     this.upgradeSystem?.emitEvent('shot', {
       player: this,
       position: { x: this.x, y: this.y },
@@ -367,7 +419,12 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
       time: this.scene.time.now
     });
     
-    this.onShoot?.(power, angle);
+    // Shot hooks can buff shotPower for this very shot (Tap In, Keeper Nerves)
+    if (shotPowerBefore > 0) {
+      power *= this.getModifiedStat('shotPower') / shotPowerBefore;
+    }
+    
+    this.onShoot?.(power, angle, isCharged);
     
     // === SHOT VISUAL: Powerful, big backswing, impact feel ===
     this.playStickSwing(angle);
@@ -407,7 +464,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
   
   // === PASSING ===
   
-  tryPass(aimAngle: number): boolean {
+  tryPass(aimAngle: number, isAerial: boolean = false): boolean {
     if (this.passCooldown > 0) return false;
     
     if (!this.hasBall) {
@@ -415,20 +472,15 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
       return false;
     }
     
-    this.performPass(aimAngle);
+    this.performPass(aimAngle, isAerial);
     return true;
   }
   
-  private performPass(angle: number): void {
+  private performPass(angle: number, isAerial: boolean = false): void {
     this.hasBall = false;
-    this.passCooldown = TUNING.COOLDOWN_PASS;  // SHORT cooldown
-    
-    const passPower = this.getModifiedStat('passPower');
-    const speed = Math.min(
-      TUNING.PASS_SPEED_BASE + passPower * TUNING.PASS_SPEED_SCALE,
-      TUNING.PASS_SPEED_MAX
-    );
+    this.passCooldown = this.getCooldown(TUNING.COOLDOWN_PASS);  // SHORT cooldown
     
+    // Pass upgrades fire first so their buffs and ball effects shape this pass
     this.upgradeSystem?.emitEvent('pass', {
       player: this,
       position: { x: this.x, y: this.y },
@@ -436,8 +488,14 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
       time: this.scene.time.now
     });
     
+    const passPower = this.getModifiedStat('passPower');
+    const speed = this.getEffectValue(this.getEffectValue(Math.min(
+      TUNING.PASS_SPEED_BASE + passPower * TUNING.PASS_SPEED_SCALE,
+      TUNING.PASS_SPEED_MAX
+    ), 'passRange'), 'passSpeed');
+    
     // Pass callback with "pass" type for different ball physics
-    this.onPass?.(angle, speed);
+    this.onPass?.(angle, isAerial ? speed * TUNING.AERIAL_PASS_SPEED_MULT : speed, undefined, isAerial);
     
     // === PASS VISUAL: Quick, snappy, thin line indicator ===
     this.playPassLine(angle);
@@ -462,7 +520,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
   // === TACKLE ===
   
   private tackle(): void {
-    this.tackleCooldown = TUNING.COOLDOWN_TACKLE;
+    this.tackleCooldown = this.getCooldown(TUNING.COOLDOWN_TACKLE);
     this.stamina -= 15;
     
     this.upgradeSystem?.emitEvent('tackle', {
@@ -492,19 +550,37 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
   
   private dodge(dirX: number, dirY: number): void {
     // Check stamina before dashing (Part C)
-    if (!this.consumeStamina(TUNING.DASH_STAMINA_COST)) {
+    if (!this.consumeStamina(this.getDashCost())) {
       console.log('[STAMINA] Cannot dash - not enough stamina');
       return;
     }
     
     this.isDodging = true;
-    this.dodgeCooldown = TUNING.COOLDOWN_DODGE;
+    this.iframesUntil = this.scene.time.now + this.getEffectValue(TUNING.DODGE_IFRAME_MS, 'dodgeIframes');
+    
+    // Extra dodge charges let the next dodge follow quickly; the last one in a chain pays full cooldown
+    const now = this.scene.time.now;
+    if (now - this.lastDodgeTime > TUNING.DODGE_CHAIN_WINDOW) {
+      this.dodgeChain = 0;
+    }
+    this.lastDodgeTime = now;
+    this.dodgeChain++;
+    
+    if (this.dodgeChain <= this.getEffectBonus('dodgeCharges')) {
+      this.dodgeCooldown = this.getCooldown(TUNING.DODGE_CHAIN_COOLDOWN);
+    } else {
+      this.dodgeCooldown = this.getCooldown(TUNING.COOLDOWN_DODGE);
+      this.dodgeChain = 0;
+    }
     
     const len = Math.sqrt(dirX * dirX + dirY * dirY) || 1;
     dirX /= len;
     dirY /= len;
     
-    const dodgeDistance = TUNING.DODGE_DISTANCE_BASE + this.getModifiedStat('dodge') * TUNING.DODGE_DISTANCE_SCALE;
+    const dodgeDistance = this.getEffectValue(
+      TUNING.DODGE_DISTANCE_BASE + this.getModifiedStat('dodge') * TUNING.DODGE_DISTANCE_SCALE,
+      'dodgeDistance'
+    );
     
     this.upgradeSystem?.emitEvent('dodge', {
       player: this,
@@ -723,13 +799,15 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
   }
   
   applyStun(duration: number): void {
+    // Juggernaut: can't be stopped while on the move
+    if (this.getEffectBonus('movingStunImmune') > 0 && this.body!.velocity.length() >= TUNING.JUGGERNAUT_MIN_SPEED) {
+      return;
+    }
+    
     this.isStunned = true;
     this.cancelCharge();
     
-    let actualDuration = duration;
-    if (this.upgradeSystem) {
-      actualDuration = this.upgradeSystem.getModifiedStat(duration, 'stunDuration');
-    }
+    const actualDuration = this.getEffectValue(duration, 'stunDuration');
     
     this.scene.time.delayedCall(actualDuration, () => {
       this.isStunned = false;
@@ -756,8 +834,13 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     // Apply any damage reduction from upgrades
     let finalDamage = amount;
     if (this.upgradeSystem) {
+      // Iron Body takes less from tackles, Fragile Genius more
+      if (source === 'tackle') {
+        const tackleBonus = this.getEffectBonus('tackleDamageTaken') - this.getEffectBonus('tackleDamageReduction');
+        finalDamage = Math.max(0, finalDamage * (1 + tackleBonus / 100));
+      }
       const reduction = this.upgradeSystem.getModifiedStat(0, 'damageReduction');
-      finalDamage = Math.max(1, amount - reduction);
+      finalDamage = Math.max(1, finalDamage - reduction);
     }
     
     this.health = Math.max(0, this.health - finalDamage);
@@ -816,6 +899,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
    * Returns true if consumption was successful
    */
   consumeStamina(amount: number): boolean {
+    amount = this.getEffectValue(amount, 'staminaDrain') * this.staminaDrainScale;
     if (this.stamina < amount) {
       return false;
     }
@@ -833,7 +917,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     if (this.stamina >= this.maxStamina) return;
     if (this.isDodging) return;  // No regen while dashing
     
-    let regenRate = TUNING.STAMINA_REGEN_PER_SEC;
+    let regenRate = this.getEffectValue(TUNING.STAMINA_REGEN_PER_SEC, 'staminaRegen') / this.staminaDrainScale;
     
     // Slower regen while holding ball
     if (this.hasBall) {
@@ -850,7 +934,12 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
    * Update whether dash is available
    */
   private updateCanDash(): void {
-    this.canDash = this.stamina >= TUNING.DASH_STAMINA_COST;
+    this.canDash = this.stamina >= this.getDashCost();
+  }
+  
+  /** Stamina a dash costs after effects (before stamina drain) */
+  private getDashCost(): number {
+    return Math.max(0, this.getEffectValue(TUNING.DASH_STAMINA_COST, 'dashCost'));
   }
   
   /**
@@ -870,6 +959,8 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
    * Reset stamina to full
    */
   resetStamina(): void {
+    // Stamina stat bonuses (upgrades, meta) raise the pool
+    this.maxStamina = TUNING.PLAYER_MAX_STAMINA * this.getModifiedStat('stamina') / this.stats.stamina;
     this.stamina = this.maxStamina;
     this.updateCanDash();
     this.onStaminaChange?.(this.stamina, this.maxStamina);
@@ -883,6 +974,11 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
   }
   
   applyKnockback(dirX: number, dirY: number, force: number): void {
+    // Tank: planted while winding up or taking a shot
+    if ((this.isCharging || this.isShooting) && this.getEffectBonus('shotKnockbackImmune') > 0) {
+      return;
+    }
+    
     const len = Math.sqrt(dirX * dirX + dirY * dirY) || 1;
     const vel = this.body!.velocity;
     this.setVelocity(
@@ -915,6 +1011,28 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     });
   }
   
+  /**
+   * Lengthen the current tackle cooldown (e.g. after a missed tackle)
+   */
+  addTackleCooldown(ms: number): void {
+    this.tackleCooldown += ms;
+  }
+  
+  /**
+   * Clear an action cooldown (upgrade effects)
+   */
+  resetCooldown(type: 'shoot' | 'pass' | 'tackle' | 'dodge' | 'all'): void {
+    if (type === 'shoot' || type === 'all') this.shootCooldown = 0;
+    if (type === 'pass' || type === 'all') this.passCooldown = 0;
+    if (type === 'tackle' || type === 'all') this.tackleCooldown = 0;
+    if (type === 'dodge' || type === 'all') this.dodgeCooldown = 0;
+  }
+  
+  /** Dodge i-frames: true while tackles can't land */
+  hasIframes(): boolean {
+    return this.scene.time.now < this.iframesUntil;
+  }
+  
   getCooldowns(): { shoot: number; pass: number; tackle: number; dodge: number } {
     return {
       shoot: this.shootCooldown / TUNING.COOLDOWN_SHOOT,
@@ -944,6 +1062,11 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     return this.facingAngle;
   }
   
+  /** Turn straight to a point (lining up a restart) */
+  faceTowards(x: number, y: number): void {
+    this.facingAngle = Math.atan2(y - this.y, x - this.x);
+  }
+  
   getChargePercentage(): number {
     return this.getChargePercent();
   }
@@ -3,6 +3,7 @@
 
 import Phaser from 'phaser';
 import { AISystem, AIConfig, AIDecision, AIRole } from '../systems/AISystem';
+import * as TUNING from '../data/tuning';
 
 export class TeammateAI extends Phaser.Physics.Arcade.Sprite {
   // AI
@@ -209,7 +210,7 @@ export class TeammateAI extends Phaser.Physics.Arcade.Sprite {
     
     // Less inaccuracy at close range
     const inaccuracy = closeRange ? 0.1 : 0.2;
-    const finalAngle = angle + (Math.random() - 0.5) * inaccuracy;
+    const finalAngle = angle + (this.aiSystem.random() - 0.5) * inaccuracy;
     
     this.hasBall = false;
     
@@ -232,6 +233,13 @@ export class TeammateAI extends Phaser.Physics.Arcade.Sprite {
     }
   }
   
+  /**
+   * Pass on immediately, skipping the AI's decision (Pass Network relays)
+   */
+  relayTo(target: any): void {
+    this.pass(target);
+  }
+  
   private tackle(target: any): void {
     if (!target) return;
     
@@ -289,6 +297,27 @@ export class TeammateAI extends Phaser.Physics.Arcade.Sprite {
     }
   }
   
+  /**
+   * Permanent percent boost for the run (Team Spirit meta upgrade)
+   */
+  applyStatBoost(percent: number): void {
+    const mult = 1 + percent / 100;
+    this.speed *= mult;
+    this.aiConfig.skill = Math.min(1, this.aiConfig.skill * mult);
+  }
+  
+  applyBuff(type: string, duration: number): void {
+    if (type === 'speed') {
+      const originalSpeed = this.speed;
+      this.speed *= TUNING.TRAIT_FORWARD_BUFF_MULT;
+      this.setTint(0x2ecc71);
+      this.scene.time.delayedCall(duration, () => {
+        this.speed = originalSpeed;
+        this.clearTint();
+      });
+    }
+  }
+  
   drainStamina(amount: number): void {
     // Teammates don't have stamina, but slow them briefly
     const originalSpeed = this.speed;
@@ -309,6 +338,11 @@ export class TeammateAI extends Phaser.Physics.Arcade.Sprite {
     return this.facingAngle;
   }
   
+  /** Turn straight to a point (lining up a restart) */
+  faceTowards(x: number, y: number): void {
+    this.facingAngle = Math.atan2(y - this.y, x - this.x);
+  }
+  
   setReferences(player: any, teammates: TeammateAI[], enemies: any[], ball: any): void {
     this.player = player;
     this.teammates = teammates.filter(t => t !== this);
@@ -8,6 +8,7 @@ import { StoreScene } from './scenes/StoreScene';
 import { CharacterSelectScene } from './scenes/CharacterSelectScene';
 import { RunScene } from './scenes/RunScene';
 import { EndRunScene } from './scenes/EndRunScene';
+import { ReplayScene } from './scenes/ReplayScene';
 
 // Setup early global error catching
 function showCriticalError(message: string, details?: string): void {
@@ -114,7 +115,8 @@ try {
       StoreScene,
       CharacterSelectScene,
       RunScene,
-      EndRunScene
+      EndRunScene,
+      ReplayScene
     ],
     // Phaser callbacks for additional error handling
     callbacks: {
@@ -3,6 +3,9 @@
 
 import Phaser from 'phaser';
 import { TextureFactory } from '../gfx/TextureFactory';
+import { UpgradeSystem } from '../systems/UpgradeSystem';
+import { getUpgradeById } from '../data/upgrades';
+import { UPGRADE_UNLOCKS } from '../data/unlocks';
 
 export class BootScene extends Phaser.Scene {
   // UI elements
@@ -110,6 +113,30 @@ export class BootScene extends Phaser.Scene {
       this.createFallbackTextures();
     }
     
+    // Flag upgrades that would do nothing when picked
+    const upgradeValidator = new UpgradeSystem(this);
+    const upgradeIssues = upgradeValidator.validateUpgrades();
+    if (upgradeIssues.length > 0) {
+      console.warn(`[UPGRADE_VALIDATE] ${upgradeIssues.length} unresolved upgrade effects:\n  ${upgradeIssues.join('\n  ')}`);
+    } else {
+      console.log('[UPGRADE_VALIDATE] All upgrade effects resolved');
+    }
+    
+    const curseIssues = upgradeValidator.validateCurses();
+    if (curseIssues.length > 0) {
+      console.warn(`[UPGRADE_VALIDATE] ${curseIssues.length} unread curse stats:\n  ${curseIssues.join('\n  ')}`);
+    }
+    
+    // Unlock rewards have to work, or earning one is an empty prize
+    const unlockIssues = UPGRADE_UNLOCKS.flatMap(unlock => {
+      const upgrade = getUpgradeById(unlock.upgradeId);
+      return upgrade ? upgradeValidator.validateUpgrades([upgrade]) : [`${unlock.upgradeId}: unlock reward is not an upgrade`];
+    });
+    if (unlockIssues.length > 0) {
+      console.error(`[UPGRADE_VALIDATE] ${unlockIssues.length} unlock rewards would do nothing:\n  ${unlockIssues.join('\n  ')}`);
+      this.addError(`${unlockIssues.length} unlock rewards would do nothing`);
+    }
+    
     // Complete and transition
     this.updateBar(1.0);
     this.updateStatus('Ready!');
@@ -6,6 +6,7 @@ import { Button } from '../ui/Button';
 import { SaveSystem } from '../systems/SaveSystem';
 import { AudioSystem } from '../systems/AudioSystem';
 import { CHARACTERS, Character, getCharacterById } from '../data/characters';
+import { formatSeed, parseSeed } from '../systems/RandomSystem';
 
 export class CharacterSelectScene extends Phaser.Scene {
   private audioSystem!: AudioSystem;
@@ -13,6 +14,8 @@ export class CharacterSelectScene extends Phaser.Scene {
   private characterCards: Map<string, Phaser.GameObjects.Container> = new Map();
   private detailsPanel?: Phaser.GameObjects.Container;
   private playButton?: Button;
+  private seedButton?: Button;
+  private seed?: number;  // undefined = random seed
   
   constructor() {
     super({ key: 'CharacterSelectScene' });
@@ -296,6 +299,48 @@ export class CharacterSelectScene extends Phaser.Scene {
         }
       }
     });
+    
+    // Seed entry - lets players replay or share a specific run
+    this.seedButton = new Button(this, {
+      x: panelX + panelWidth / 2,
+      y: panelY + panelHeight + 92,
+      width: 200,
+      height: 34,
+      text: this.getSeedLabel(),
+      fontSize: 14,
+      style: 'secondary',
+      onClick: () => {
+        this.audioSystem.playClick();
+        this.promptForSeed();
+      }
+    });
+  }
+  
+  private getSeedLabel(): string {
+    return this.seed === undefined ? '🎲 Seed: Random' : `🎲 Seed: ${formatSeed(this.seed)}`;
+  }
+  
+  /**
+   * Ask for a seed code. Blank input goes back to a random seed;
+   * anything that isn't a valid code is rejected.
+   */
+  private promptForSeed(): void {
+    const current = this.seed === undefined ? '' : formatSeed(this.seed);
+    const input = window.prompt('Enter a run seed (blank for random):', current);
+    if (input === null) return;
+    
+    if (input.trim() === '') {
+      this.seed = undefined;
+    } else {
+      const parsed = parseSeed(input);
+      if (parsed === null) {
+        this.seedButton?.shake();
+        return;
+      }
+      this.seed = parsed;
+    }
+    
+    this.seedButton?.setText(this.getSeedLabel());
   }
   
   private updateDetailsPanel(character: Character): void {
@@ -450,7 +495,7 @@ export class CharacterSelectScene extends Phaser.Scene {
     
     this.cameras.main.fadeOut(300);
     this.cameras.main.once('camerafadeoutcomplete', () => {
-      this.scene.start('RunScene', { character: this.selectedCharacter });
+      this.scene.start('RunScene', { character: this.selectedCharacter, seed: this.seed });
     });
   }
 }
@@ -7,6 +7,8 @@ import { AudioSystem } from '../systems/AudioSystem';
 import { Character } from '../data/characters';
 import { Upgrade, RARITY_COLORS, SYNERGY_NAMES } from '../data/upgrades';
 import { SaveSystem } from '../systems/SaveSystem';
+import { formatSeed } from '../systems/RandomSystem';
+import { ReplayFile, downloadReplay } from '../systems/ReplaySystem';
 
 interface EndRunData {
   stats: {
@@ -28,6 +30,7 @@ interface EndRunData {
     bonus: number;
   };
   upgrades: Upgrade[];
+  unlockedUpgrades?: Upgrade[];  // Added to the draft pool during this run
   character: Character;
   cupRun?: {
     playerPoints: number;
@@ -35,6 +38,8 @@ interface EndRunData {
     winner: 'player' | 'enemy' | null;
   };
   activeCurse?: string;
+  seed?: number;
+  replay?: ReplayFile;
 }
 
 export class EndRunScene extends Phaser.Scene {
@@ -70,6 +75,12 @@ export class EndRunScene extends Phaser.Scene {
     // Upgrades collected
     this.createUpgradesPanel();
     
+    // Run seed (shareable)
+    this.createSeedLabel();
+    
+    // Upgrades unlocked this run
+    this.createUnlocksLabel();
+    
     // Action buttons
     this.createButtons();
     
@@ -384,6 +395,30 @@ export class EndRunScene extends Phaser.Scene {
     }
   }
   
+  private createSeedLabel(): void {
+    if (this.runData.seed === undefined) return;
+    
+    this.add.text(this.cameras.main.centerX, 597, `🎲 Seed: ${formatSeed(this.runData.seed)}`, {
+      fontFamily: 'monospace',
+      fontSize: '14px',
+      color: '#95a5a6'
+    }).setOrigin(0.5);
+  }
+  
+  private createUnlocksLabel(): void {
+    const unlocked = this.runData.unlockedUpgrades || [];
+    if (unlocked.length === 0) return;
+    
+    // Right of the upgrades panel, under rewards
+    this.add.text(this.cameras.main.width - 110, 450, `🔓 NEW IN DRAFT POOL\n${unlocked.map(u => `${u.icon} ${u.name}`).join('\n')}`, {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '14px',
+      color: '#2ecc71',
+      align: 'center',
+      lineSpacing: 4
+    }).setOrigin(0.5, 0);
+  }
+  
   private tooltipContainer?: Phaser.GameObjects.Container;
   
   private showUpgradeTooltip(x: number, y: number, upgrade: Upgrade): void {
@@ -466,5 +501,40 @@ export class EndRunScene extends Phaser.Scene {
         });
       }
     });
+    
+    const replay = this.runData.replay;
+    if (!replay) return;
+    
+    // Watch the run again, or save it to share / attach to a bug report
+    new Button(this, {
+      x: centerX - 330,
+      y: y,
+      width: 180,
+      height: 50,
+      text: '📼 Watch Replay',
+      fontSize: 18,
+      style: 'secondary',
+      onClick: () => {
+        this.audioSystem.playClick();
+        this.cameras.main.fadeOut(300);
+        this.cameras.main.once('camerafadeoutcomplete', () => {
+          this.scene.start('ReplayScene', { replay });
+        });
+      }
+    });
+    
+    new Button(this, {
+      x: centerX + 330,
+      y: y,
+      width: 180,
+      height: 50,
+      text: '💾 Save Replay',
+      fontSize: 18,
+      style: 'secondary',
+      onClick: () => {
+        this.audioSystem.playClick();
+        downloadReplay(replay);
+      }
+    });
   }
 }
@@ -6,10 +6,14 @@ import { Button } from '../ui/Button';
 import { SaveSystem } from '../systems/SaveSystem';
 import { AudioSystem } from '../systems/AudioSystem';
 import { CHALLENGES } from '../data/challenges';
+import { getCharacterById } from '../data/characters';
+import { ToastManager } from '../ui/Toast';
+import { pickReplayFile } from '../systems/ReplaySystem';
 
 export class MenuScene extends Phaser.Scene {
   private audioSystem!: AudioSystem;
   private gemDisplay?: Phaser.GameObjects.Container;
+  private toastManager!: ToastManager;
   
   constructor() {
     super({ key: 'MenuScene' });
@@ -18,6 +22,7 @@ export class MenuScene extends Phaser.Scene {
   create(): void {
     // Initialize audio
     this.audioSystem = new AudioSystem(this);
+    this.toastManager = new ToastManager(this);
     
     // Resume audio context on first interaction
     this.input.once('pointerdown', () => {
@@ -133,8 +138,31 @@ export class MenuScene extends Phaser.Scene {
   
   private createMenuButtons(): void {
     const centerX = this.cameras.main.centerX;
-    const startY = 240;
     const spacing = 60;
+    let startY = 240;
+    
+    // Continue button - only when a suspended run can be rebuilt
+    const suspendedRun = SaveSystem.getInstance().getSuspendedRun();
+    const suspendedCharacter = suspendedRun ? getCharacterById(suspendedRun.characterId) : undefined;
+    if (suspendedRun && suspendedCharacter) {
+      new Button(this, {
+        x: centerX,
+        y: startY,
+        width: 250,
+        height: 55,
+        text: `⏯ CONTINUE RUN (${suspendedRun.momentIndex + 1}/${suspendedRun.momentIds.length})`,
+        fontSize: 18,
+        style: 'success',
+        onClick: () => {
+          this.audioSystem.playClick();
+          this.cameras.main.fadeOut(300);
+          this.cameras.main.once('camerafadeoutcomplete', () => {
+            this.scene.start('RunScene', { character: suspendedCharacter, resume: suspendedRun });
+          });
+        }
+      });
+      startY += spacing;
+    }
     
     // Play button
     new Button(this, {
@@ -216,6 +244,27 @@ export class MenuScene extends Phaser.Scene {
         this.showSettings();
       }
     });
+    
+    // Replay button - plays a saved .replay.json (shared runs, bug reports)
+    new Button(this, {
+      x: centerX,
+      y: startY + spacing * 5,
+      width: 250,
+      height: 50,
+      text: '📼 LOAD REPLAY',
+      fontSize: 20,
+      style: 'secondary',
+      onClick: () => {
+        this.audioSystem.playClick();
+        pickReplayFile().then(replay => {
+          if (!replay) {
+            this.toastManager.error('Not a replay this version can play');
+            return;
+          }
+          this.scene.start('ReplayScene', { replay });
+        });
+      }
+    });
   }
   
   private createGemDisplay(): void {
@@ -320,6 +369,18 @@ export class MenuScene extends Phaser.Scene {
       });
       reward.setOrigin(1, 0.5);
       panel.add(reward);
+      
+      // Progress (match challenges show the best single run)
+      const current = isCompleted
+        ? challenge.target
+        : SaveSystem.getInstance().getChallengeProgress(challenge.id)?.currentValue ?? 0;
+      const progress = this.add.text(250, y + 18, `${current}/${challenge.target}`, {
+        fontFamily: 'Arial, sans-serif',
+        fontSize: '12px',
+        color: isCompleted ? '#27ae60' : '#7f8c8d'
+      });
+      progress.setOrigin(1, 0.5);
+      panel.add(progress);
     });
     
     // Close button
@@ -378,6 +439,7 @@ export class MenuScene extends Phaser.Scene {
       { key: 'WASD / Arrow Keys', action: 'Move your player' },
       { key: 'SPACE / Left Click', action: 'Shoot the ball (with possession)' },
       { key: 'E', action: 'Pass to nearest teammate' },
+      { key: 'F', action: 'Aerial pass over defenders' },
       { key: 'Q', action: 'Tackle (lunge to steal ball)' },
       { key: 'SHIFT', action: 'Dodge / Sidestep with i-frames' },
       { key: 'Mouse', action: 'Aim direction' },
@@ -387,7 +449,7 @@ export class MenuScene extends Phaser.Scene {
     
     const startY = -130;
     controls.forEach((control, i) => {
-      const y = startY + i * 40;
+      const y = startY + i * 32;
       
       // Key box
       const keyBg = this.add.graphics();
@@ -461,9 +523,9 @@ export class MenuScene extends Phaser.Scene {
     // Panel background
     const bg = this.add.graphics();
     bg.fillStyle(0x1a1a2e, 1);
-    bg.fillRoundedRect(-200, -180, 400, 360, 20);
+    bg.fillRoundedRect(-200, -180, 400, 425, 20);
     bg.lineStyle(3, 0x3498db, 0.8);
-    bg.strokeRoundedRect(-200, -180, 400, 360, 20);
+    bg.strokeRoundedRect(-200, -180, 400, 425, 20);
     panel.add(bg);
     
     // Title
@@ -528,8 +590,30 @@ export class MenuScene extends Phaser.Scene {
     });
     panel.add(shakeValue);
     
+    // Goal replays toggle
+    const replayLabel = this.add.text(-150, 55, 'Goal Replays:', {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '18px',
+      color: '#ffffff'
+    });
+    panel.add(replayLabel);
+    
+    const replayValue = this.add.text(120, 55, settings.goalReplays ? 'ON' : 'OFF', {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '18px',
+      color: settings.goalReplays ? '#27ae60' : '#e74c3c'
+    });
+    replayValue.setInteractive({ useHandCursor: true });
+    replayValue.on('pointerdown', () => {
+      const newValue = !SaveSystem.getInstance().getSettings().goalReplays;
+      SaveSystem.getInstance().updateSettings({ goalReplays: newValue });
+      replayValue.setText(newValue ? 'ON' : 'OFF');
+      replayValue.setColor(newValue ? '#27ae60' : '#e74c3c');
+    });
+    panel.add(replayValue);
+    
     // Controls info
-    const controlsTitle = this.add.text(0, 80, 'CONTROLS', {
+    const controlsTitle = this.add.text(0, 95, 'CONTROLS', {
       fontFamily: 'Arial, sans-serif',
       fontSize: '16px',
       color: '#bdc3c7',
@@ -538,7 +622,7 @@ export class MenuScene extends Phaser.Scene {
     controlsTitle.setOrigin(0.5);
     panel.add(controlsTitle);
     
-    const controlsText = this.add.text(0, 120, 
+    const controlsText = this.add.text(0, 148, 
       'WASD/Arrows - Move\n' +
       'SPACE - Shoot\n' +
       'E - Pass\n' +
@@ -557,7 +641,7 @@ export class MenuScene extends Phaser.Scene {
     // Close button
     const closeBtn = new Button(this, {
       x: this.cameras.main.centerX,
-      y: this.cameras.main.centerY + 155,
+      y: this.cameras.main.centerY + 215,
       width: 150,
       height: 45,
       text: 'Close',
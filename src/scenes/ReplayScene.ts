@@ -0,0 +1,122 @@
+// ReplayScene for Stick & Shift
+// Plays a recorded run back through RunScene with speed, pause and frame-step controls
+
+import Phaser from 'phaser';
+import { getCharacterById } from '../data/characters';
+import { SaveSystem } from '../systems/SaveSystem';
+import { ReplayFile, ReplayPlayer } from '../systems/ReplaySystem';
+import { formatSeed } from '../systems/RandomSystem';
+import * as TUNING from '../data/tuning';
+
+interface ReplaySceneData {
+  replay: ReplayFile;
+}
+
+const REPLAY_SPEEDS = [1, 2, 4];
+
+export class ReplayScene extends Phaser.Scene {
+  private replay!: ReplayPlayer;
+  private statusText?: Phaser.GameObjects.Text;
+  
+  constructor() {
+    super({ key: 'ReplayScene' });
+  }
+  
+  init(data: ReplaySceneData): void {
+    this.replay = new ReplayPlayer(data.replay);
+  }
+  
+  create(): void {
+    const character = getCharacterById(this.replay.file.characterId);
+    if (!character) {
+      console.error(`[REPLAY] Unknown character: ${this.replay.file.characterId}`);
+      this.scene.start('MenuScene');
+      return;
+    }
+    
+    // The run plays on the save it was recorded with; the real one is put back on exit
+    SaveSystem.getInstance().beginReplay(this.replay.file.save);
+    
+    this.scene.launch('RunScene', {
+      character,
+      seed: this.replay.file.seed,
+      resume: this.replay.file.resume,
+      replay: this.replay
+    });
+    this.scene.bringToTop();
+    
+    // Clicks stop here so nothing reaches the run underneath
+    const blocker = this.add.zone(0, 0, this.cameras.main.width, this.cameras.main.height);
+    blocker.setOrigin(0);
+    blocker.setInteractive();
+    
+    this.createControlBar();
+    this.setupKeys();
+    
+    console.log(`[REPLAY] Playing ${formatSeed(this.replay.file.seed)} (${this.replay.file.steps} steps)`);
+  }
+  
+  private createControlBar(): void {
+    const width = this.cameras.main.width;
+    const height = this.cameras.main.height;
+    
+    const bar = this.add.rectangle(width / 2, height - 18, width, 36, 0x000000, 0.7);
+    bar.setDepth(1000);
+    
+    this.statusText = this.add.text(16, height - 18, '', {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '16px',
+      color: '#f1c40f',
+      fontStyle: 'bold'
+    });
+    this.statusText.setOrigin(0, 0.5);
+    this.statusText.setDepth(1001);
+    
+    const hint = this.add.text(width - 16, height - 18, 'SPACE pause · → step · 1/2/4 speed · ESC exit', {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '14px',
+      color: '#bdc3c7'
+    });
+    hint.setOrigin(1, 0.5);
+    hint.setDepth(1001);
+  }
+  
+  private setupKeys(): void {
+    const keyboard = this.input.keyboard;
+    if (!keyboard) return;
+    
+    keyboard.on('keydown-SPACE', () => this.replay.togglePause());
+    keyboard.on('keydown-RIGHT', () => this.replay.stepOnce());
+    keyboard.on('keydown-ONE', () => this.replay.setSpeed(REPLAY_SPEEDS[0]));
+    keyboard.on('keydown-TWO', () => this.replay.setSpeed(REPLAY_SPEEDS[1]));
+    keyboard.on('keydown-FOUR', () => this.replay.setSpeed(REPLAY_SPEEDS[2]));
+    keyboard.on('keydown-ESC', () => this.exit());
+  }
+  
+  update(): void {
+    if (!this.statusText) return;
+    
+    const elapsed = this.formatTime(this.replay.getStep());
+    const total = this.formatTime(this.replay.file.steps);
+    
+    let state = `▶ ${this.replay.getSpeed()}x`;
+    if (this.replay.isFinished()) {
+      state = '■ END';
+    } else if (this.replay.isPaused()) {
+      state = '❚❚ PAUSED';
+    }
+    
+    this.statusText.setText(`REPLAY  ${state}   ${elapsed} / ${total}   step ${this.replay.getStep()}`);
+  }
+  
+  private formatTime(steps: number): string {
+    const seconds = Math.floor(steps * TUNING.SIM_STEP_MS / 1000);
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+  }
+  
+  private exit(): void {
+    this.scene.stop('RunScene');
+    SaveSystem.getInstance().endReplay();
+    this.scene.start('MenuScene');
+  }
+}
@@ -10,9 +10,21 @@ import { TeammateAI } from '../entities/TeammateAI';
 import { EnemyAI } from '../entities/EnemyAI';
 import { EnemyGoalkeeper } from '../entities/EnemyGoalkeeper';
 import { Goalkeeper } from '../entities/Goalkeeper';
-import { InputSystem } from '../systems/InputSystem';
+import { Decoy } from '../entities/Decoy';
+import { InputSystem, InputState } from '../systems/InputSystem';
+import { FixedStepSystem } from '../systems/FixedStepSystem';
 import { UpgradeSystem } from '../systems/UpgradeSystem';
+import { CharacterEffectSystem } from '../systems/CharacterEffectSystem';
 import { MomentSystem } from '../systems/MomentSystem';
+import { ChallengeTracker } from '../systems/ChallengeTracker';
+import { WeatherSystem } from '../systems/WeatherSystem';
+import { PenaltyCornerSystem, PenaltyCornerSetup, PenaltyCornerEndReason } from '../systems/PenaltyCornerSystem';
+import { BossSystem, BossPhase } from '../systems/BossSystem';
+import { EnemyModifierSystem } from '../systems/EnemyModifierSystem';
+import { RestartSystem, Restart, OutOfPlayLine, RESTART_NAMES } from '../systems/RestartSystem';
+import { UmpireSystem, Foul, CardColor, FOUL_NAMES } from '../systems/UmpireSystem';
+import { ShootoutSystem, ShootoutRoundSetup, ShootoutRoundKind, ShootoutResult, ShootoutWinner } from '../systems/ShootoutSystem';
+import { GoalReplaySystem } from '../systems/GoalReplaySystem';
 import { UISystem, MomentRecapStats } from '../systems/UISystem';
 import { AudioSystem } from '../systems/AudioSystem';
 import { AISystem } from '../systems/AISystem';
@@ -21,17 +33,39 @@ import { TrailManager } from '../entities/TrailSegment';
 import { UpgradeDraftOverlay } from '../ui/UpgradeDraftOverlay';
 import { BuildScreenOverlay } from '../ui/BuildScreenOverlay';
 import { ToastManager } from '../ui/Toast';
-import { SaveSystem } from '../systems/SaveSystem';
+import { SaveSystem, SuspendedRun } from '../systems/SaveSystem';
+import { SeededRandom, generateSeed, formatSeed } from '../systems/RandomSystem';
+import { ReplayRecorder, ReplayPlayer, ReplayChoice, ReplayChoiceKind, ReplayFile, storeLastReplay } from '../systems/ReplaySystem';
+import { getCurseById, getRandomCurseOptions } from '../data/curses';
+import { getRandomUpgrades, EffectCooldown } from '../data/upgrades';
+import { getLockedUpgradeIds } from '../data/unlocks';
+import { rollAffixes, AFFIXES } from '../data/affixes';
+import { META_UPGRADES, getMetaUpgradeById, getMetaUpgradeEffect } from '../data/meta';
 import * as TUNING from '../data/tuning';
+import { SimulationRequest, AutopilotView } from '../sim/Autopilot';
 
 interface RunSceneData {
   character: Character;
+  seed?: number;  // Entered on CharacterSelect; random when omitted
+  resume?: SuspendedRun;  // "Continue Run" from the menu
+  replay?: ReplayPlayer;  // Play a recording back instead of reading input
+  simulation?: SimulationRequest;  // Headless balance run: one moment, played by the autopilot
 }
 
 export class RunScene extends Phaser.Scene {
   // Character
   private character!: Character;
   
+  // Seeded run randomness - one stream per consumer so they don't perturb each other
+  private runRandom!: SeededRandom;
+  private draftRandom!: SeededRandom;
+  private curseRandom!: SeededRandom;
+  private affixRandom!: SeededRandom;
+  private playRandom!: SeededRandom;  // Rolls made during play (tackles, deflections, fumbles)
+  
+  // Checkpoint to rebuild from (set when continuing a suspended run)
+  private pendingResume?: SuspendedRun;
+  
   // Entities
   private player!: Player;
   private ball!: Ball;
@@ -43,6 +77,16 @@ export class RunScene extends Phaser.Scene {
   // Systems
   private inputSystem!: InputSystem;
   private upgradeSystem!: UpgradeSystem;
+  private characterEffects!: CharacterEffectSystem;
+  private challengeTracker!: ChallengeTracker;
+  private weatherSystem!: WeatherSystem;
+  private penaltyCorners!: PenaltyCornerSystem;
+  private bossSystem!: BossSystem;
+  private enemyModifiers!: EnemyModifierSystem;
+  private restarts!: RestartSystem;
+  private umpire!: UmpireSystem;
+  private shootout!: ShootoutSystem;
+  private goalReplay!: GoalReplaySystem;
   private momentSystem!: MomentSystem;
   private uiSystem!: UISystem;
   private audioSystem!: AudioSystem;
@@ -97,6 +141,15 @@ export class RunScene extends Phaser.Scene {
   
   init(data: RunSceneData): void {
     this.character = data.character;
+    this.pendingResume = data.resume;
+    this.replay = data.replay;
+    this.simulation = data.simulation;
+    this.runRandom = new SeededRandom(data.resume?.seed ?? data.seed ?? generateSeed());
+    this.draftRandom = this.runRandom.fork('draft');
+    this.curseRandom = this.runRandom.fork('curses');
+    this.affixRandom = this.runRandom.fork('affixes');
+    this.playRandom = this.runRandom.fork('play');
+    console.log(`[RUN_SEED] ${formatSeed(this.runRandom.seed)}`);
     this.resetMomentStats();
   }
   
@@ -104,6 +157,19 @@ export class RunScene extends Phaser.Scene {
     // Set world bounds
     this.physics.world.setBounds(0, 0, this.fieldWidth, this.fieldHeight);
     
+    // Physics steps from the fixed-step loop in update(), not the game loop
+    this.physics.disableUpdate();
+    this.physics.world.setFPS(TUNING.SIM_FPS);
+    
+    // The clock and tweens too (timers, dodges, lunges), so every step plays out the same in a replay.
+    // Both stay paused for the game loop; runStep advances them by the step.
+    this.time.paused = true;
+    this.tweens.pauseAll();
+    this.time.timeScale = 1;  // The clock outlives a restart, slow-mo left over from a goal included
+    this.simTime = this.replay?.getStartTime() ?? this.time.now;
+    this.time.now = this.simTime;
+    this.startRecording();
+    
     // Initialize systems
     this.initializeSystems();
     
@@ -134,8 +200,16 @@ export class RunScene extends Phaser.Scene {
     // Initialize particles
     this.particleManager.init();
     
-    // Start the run
-    this.momentSystem.startRun(10);
+    // Start the run (or rebuild it from a suspended checkpoint)
+    const resumed = this.pendingResume !== undefined && this.resumeSuspendedRun(this.pendingResume);
+    this.applyMetaStatModifiers();
+    if (this.simulation) {
+      this.momentSystem.startFixedRun([this.simulation.moment]);
+    } else if (!resumed) {
+      SaveSystem.getInstance().clearSuspendedRun();
+      this.momentSystem.startRun(10, this.runRandom.fork('moments').next);
+      this.grantStartingUpgrades();
+    }
     
     // Initialize Cup Run HUD display
     const cupState = this.momentSystem.getCupState();
@@ -146,8 +220,19 @@ export class RunScene extends Phaser.Scene {
     const saveSystem = SaveSystem.getInstance();
     const hasSeenTutorial = saveSystem.getStat('hasSeenTutorial');
     
-    if (!hasSeenTutorial) {
-      this.uiSystem.showFirstRunTutorial(() => {
+    if (resumed) {
+      const pendingCurseChoice = this.pendingResume!.pendingCurseChoice;
+      this.time.delayedCall(500, () => {
+        if (pendingCurseChoice) {
+          this.showComebackCursesOverlay(() => this.continueAfterCurses());
+        } else {
+          this.continueAfterCurses();
+        }
+      });
+    } else if (!hasSeenTutorial && !this.simulation) {
+      const tutorial = this.uiSystem.showFirstRunTutorial(() => this.makeChoice('tutorial'));
+      this.offerChoice('tutorial', () => {
+        tutorial.destroy();
         saveSystem.incrementStat('hasSeenTutorial');
         this.startMoment();
       });
@@ -172,10 +257,25 @@ export class RunScene extends Phaser.Scene {
   private initializeSystems(): void {
     this.inputSystem = new InputSystem(this);
     this.upgradeSystem = new UpgradeSystem(this);
+    this.upgradeSystem.setRandomSource(this.runRandom.fork('procs').next);
+    this.characterEffects = new CharacterEffectSystem(this, this.upgradeSystem, this.character, this.runRandom.fork('character').next);
+    this.characterEffects.apply();
     this.momentSystem = new MomentSystem(this);
+    this.challengeTracker = new ChallengeTracker(this, this.momentSystem, this.upgradeSystem);
+    this.weatherSystem = new WeatherSystem(this, this.upgradeSystem, this.runRandom.fork('weather').next);
+    this.penaltyCorners = new PenaltyCornerSystem(this);
+    this.enemyModifiers = new EnemyModifierSystem();
+    this.bossSystem = new BossSystem(this, this.momentSystem, this.enemyModifiers, this.runRandom.fork('boss').next);
+    this.restarts = new RestartSystem(this.fieldWidth, this.fieldHeight);
+    this.umpire = new UmpireSystem(this, this.runRandom.fork('umpire').next);
+    this.shootout = new ShootoutSystem(this);
+    this.goalReplay = new GoalReplaySystem(this);
+    this.fixedStep = new FixedStepSystem();
+    this.carriedInput = null;
     this.uiSystem = new UISystem(this);
     this.audioSystem = new AudioSystem(this);
     this.aiSystem = new AISystem(this);
+    this.aiSystem.setRandomSource(this.runRandom.fork('ai').next);
     this.particleManager = new ParticleManager(this);
     this.trailManager = new TrailManager(this);
     this.toastManager = new ToastManager(this);
@@ -538,8 +638,9 @@ export class RunScene extends Phaser.Scene {
     });
     
     // F7 toggles sandbox test (places player in D with ball)
+    this.offerChoice('sandbox', () => this.toggleSandboxTest());
     this.input.keyboard?.on('keydown-F7', () => {
-      this.toggleSandboxTest();
+      this.makeChoice('sandbox');
     });
     
     // F8 toggles upgrade debug overlay
@@ -563,15 +664,25 @@ export class RunScene extends Phaser.Scene {
     });
     
     // TAB toggles Build Screen
+    this.offerChoice('buildScreen', (value) => value === 'open' ? this.openBuildScreen() : this.closeBuildScreen());
     this.input.keyboard?.on('keydown-TAB', (event: KeyboardEvent) => {
       event.preventDefault();
-      this.toggleBuildScreen();
+      this.makeChoice('buildScreen', this.buildScreenOpen ? 'close' : 'open');
     });
     
     // 1/2/3 for Play Calling
-    this.input.keyboard?.on('keydown-ONE', () => this.callPlay('press'));
-    this.input.keyboard?.on('keydown-TWO', () => this.callPlay('hold'));
-    this.input.keyboard?.on('keydown-THREE', () => this.callPlay('counter'));
+    this.offerChoice('play', (value) => this.callPlay(value as 'press' | 'hold' | 'counter'));
+    this.input.keyboard?.on('keydown-ONE', () => this.makeChoice('play', 'press'));
+    this.input.keyboard?.on('keydown-TWO', () => this.makeChoice('play', 'hold'));
+    this.input.keyboard?.on('keydown-THREE', () => this.makeChoice('play', 'counter'));
+    
+    // ENTER/SPACE skip a goal replay
+    this.offerChoice('goalReplaySkip', () => this.goalReplay.skip());
+    const skipGoalReplay = () => {
+      if (this.goalReplay.isPlaying() && !this.isPaused) this.makeChoice('goalReplaySkip');
+    };
+    this.input.keyboard?.on('keydown-ENTER', skipGoalReplay);
+    this.input.keyboard?.on('keydown-SPACE', skipGoalReplay);
   }
   
   // ========================================
@@ -692,16 +803,39 @@ export class RunScene extends Phaser.Scene {
         }
       }
       
-      const label = this.add.text(ai.x, ai.y - 45, displayRole, {
+      // Affixes and enemy modifier sources on a second line
+      const affixes: string[] = isEnemy ? (ai as EnemyAI).affixes.map(affix => `${AFFIXES[affix].icon}${AFFIXES[affix].name}`) : [];
+      if (isEnemy && this.enemyModifiers.isStar(ai as EnemyAI)) {
+        affixes.unshift('⭐STAR');
+      }
+      const sources = isEnemy ? this.enemyModifiers.getSources(ai as EnemyAI) : [];
+      if (sources.length > 0) {
+        affixes.push(`[${sources.map(source => source.split(':')[1]).join(',')}]`);
+      }
+      if (affixes.length > 0) {
+        displayRole += `\n${affixes.join(' ')}`;
+      }
+      
+      // Utility score table for the carrier: best candidates and what scored them
+      const table = this.aiSystem.getUtilityTable(ai);
+      if (table) {
+        const format = (value: number) => value.toFixed(2).replace(/\.00$/, '').replace(/^0(?=\.)/, '');
+        table.candidates.slice(0, TUNING.UTILITY_DEBUG_ROWS).forEach((candidate, row) => {
+          const considerations = candidate.considerations.map(c => `${c.name}${format(c.value)}`).join(' ');
+          displayRole += `\n${row === 0 ? '>' : ' '}${candidate.label.padEnd(15)}${format(candidate.score).padStart(4)}  ${considerations}`;
+        });
+      }
+      
+      const label = this.add.text(ai.x, ai.y - 30, displayRole, {
         fontFamily: 'monospace',
         fontSize: '10px',
         color: displayColor,
         backgroundColor: '#000000cc',
         padding: { x: 3, y: 2 },
-        align: 'center',
+        align: table ? 'left' : 'center',
         fontStyle: 'bold'
       });
-      label.setOrigin(0.5);
+      label.setOrigin(0.5, 1);
       label.setDepth(300);
       this.aiDebugLabels.push(label);
     });
@@ -1064,14 +1198,6 @@ export class RunScene extends Phaser.Scene {
   // BUILD SCREEN (TAB)
   // ========================================
   
-  private toggleBuildScreen(): void {
-    if (this.buildScreenOpen) {
-      this.closeBuildScreen();
-    } else {
-      this.openBuildScreen();
-    }
-  }
-  
   private openBuildScreen(): void {
     if (this.buildScreenOpen) return;
     
@@ -1084,19 +1210,7 @@ export class RunScene extends Phaser.Scene {
     const curseName = this.uiSystem.getActiveCurseName();
     
     // Get curse details if active
-    let activeCurse = null;
-    if (curseName && cupState.activeCurseId) {
-      import('../data/curses').then(({ getCurseById }) => {
-        const curse = getCurseById(cupState.activeCurseId!);
-        if (curse) {
-          activeCurse = {
-            name: curse.name,
-            boonDescription: curse.boonDescription,
-            curseDescription: curse.curseDescription
-          };
-        }
-      });
-    }
+    const curse = curseName && cupState.activeCurseId ? getCurseById(cupState.activeCurseId) : undefined;
     
     this.buildScreenOverlay = new BuildScreenOverlay(this, {
       upgradeSystem: this.upgradeSystem,
@@ -1106,12 +1220,14 @@ export class RunScene extends Phaser.Scene {
       cupEnemyPoints: cupState.enemyPoints,
       currentMoment: progress.current,
       objectiveText: moment?.description || 'Score!',
-      activeCurse: curseName ? {
-        name: curseName,
-        boonDescription: 'Active curse effect',
-        curseDescription: 'Curse penalty active'
+      activeCurse: curse ? {
+        name: curse.name,
+        boonDescription: curse.boonDescription,
+        curseDescription: curse.curseDescription
       } : null,
-      onClose: () => this.closeBuildScreen()
+      traitActive: this.characterEffects.isActive('trait'),
+      downsideActive: this.characterEffects.isActive('downside'),
+      onClose: () => this.makeChoice('buildScreen', 'close')
     });
   }
   
@@ -1386,7 +1502,7 @@ export class RunScene extends Phaser.Scene {
     this.player.setUpgradeSystem(this.upgradeSystem);
     
     // Player action callbacks
-    this.player.onShoot = (power, angle) => {
+    this.player.onShoot = (power, angle, isCharged) => {
       this.audioSystem.playShoot();
       
       // Record shot origin BEFORE the kick (Part B: D-circle scoring rule)
@@ -1396,14 +1512,38 @@ export class RunScene extends Phaser.Scene {
       // === REGISTER TOUCH IN D (Part A FIX) - CRITICAL FOR GOAL VALIDATION ===
       this.ball.registerTouch('player', 'player', this.player.x, this.player.y, 'shot', isInsideD);
       
+      // Volley Master: first-time shots out of the air
+      const volleyBonus = this.upgradeSystem.getStatBonus('volleyPower');
+      if (volleyBonus > 0 && this.ball.isFirstTouchFromAerial()) {
+        power *= 1 + volleyBonus / 100;
+        this.showFloatingText(this.player.x, this.player.y - 30, '🦶 VOLLEY!', '#a29bfe', 16);
+      }
+      
+      // Curses: shots stray off line, or go wide altogether
+      const accuracyLoss = -this.upgradeSystem.getStatBonus('shotAccuracy');
+      if (accuracyLoss > 0) {
+        angle += (this.playRandom.next() * 2 - 1) * TUNING.CURSE_SHOT_SCATTER_ANGLE * Math.min(accuracyLoss, 100) / 100;
+      }
+      if (this.playRandom.next() * 100 < this.upgradeSystem.getStatBonus('shotWildChance')) {
+        angle += (this.playRandom.next() < 0.5 ? -1 : 1) * TUNING.CURSE_WILD_SHOT_ANGLE;
+        this.showFloatingText(this.player.x, this.player.y - 30, '🎲 WIDE!', '#e74c3c', 16);
+      }
+      
       // Use the Ball's kick method with the calculated power
       const direction = { x: Math.cos(angle), y: Math.sin(angle) };
-      this.ball.kick(direction, power, TUNING.SHOT_SPIN_BASE * (Math.random() - 0.5), 'shot');
+      this.ball.kick(direction, power, TUNING.SHOT_SPIN_BASE * (this.playRandom.next() - 0.5), 'shot');
       this.ball.lastShooter = this.player;
       this.ball.lastOwner = this.player;
       this.ball.isLoose = true;
       this.ball.owner = null;
       
+      // Lofted Shot: charged shots go up and come down again at the goal
+      if (isCharged && this.upgradeSystem.getStatBonus('dippingShot') > 0) {
+        const distToGoal = Phaser.Math.Distance.Between(this.ball.x, this.ball.y, this.fieldWidth, this.fieldHeight / 2);
+        const flightSec = distToGoal / Math.max(this.ball.getSpeed(), 1);
+        this.ball.loft(Math.min(TUNING.BALL_GRAVITY * flightSec / 2, TUNING.DIPPING_SHOT_MAX_LIFT));
+      }
+      
       // Track player team possession
       this.ball.setLastPossessingTeam('player');
       
@@ -1415,32 +1555,51 @@ export class RunScene extends Phaser.Scene {
       }
     };
     
-    this.player.onPass = (angle, passSpeed, targetPos) => {
+    this.player.onPass = (angle, passSpeed, targetPos, isAerial) => {
       this.audioSystem.playPass();
       
       // Find nearest teammate in pass direction for receive assist
-      let intendedTarget = null;
-      let bestScore = -Infinity;
-      
-      for (const t of this.teammates) {
-        const dx = t.x - this.player.x;
-        const dy = t.y - this.player.y;
-        const dist = Math.sqrt(dx * dx + dy * dy);
-        if (dist < 50 || dist > 400) continue;
-        
-        const angleToT = Math.atan2(dy, dx);
-        const angleDiff = Math.abs(Phaser.Math.Angle.Wrap(angleToT - angle));
-        
-        if (angleDiff < Math.PI / 6) {  // Within 30 degrees
-          const score = 100 - angleDiff * 50 - dist * 0.1;
-          if (score > bestScore) {
-            bestScore = score;
-            intendedTarget = t;
-          }
+      const maxPassDist = this.upgradeSystem.getEffectValue(400, 'passRange');
+      let intendedTarget = this.findPassTarget(angle, Math.PI / 6, maxPassDist);  // Within 30 degrees
+      
+      // Quarterback: nobody in the cone - swing the pass to the best teammate in a wider one
+      if (!intendedTarget && this.upgradeSystem.getStatBonus('passAutoTarget') > 0) {
+        intendedTarget = this.findPassTarget(angle, TUNING.TRAIT_AUTO_PASS_CONE, maxPassDist);
+        if (intendedTarget) {
+          angle = Math.atan2(intendedTarget.y - this.player.y, intendedTarget.x - this.player.x);
+        }
+      }
+      
+      // Show-off: pass bobbles off the stick
+      if (this.playRandom.next() * 100 < this.upgradeSystem.getStatBonus('passBobbleChance')) {
+        angle += (this.playRandom.next() * 2 - 1) * TUNING.TRAIT_PASS_BOBBLE_ANGLE;
+        passSpeed *= TUNING.TRAIT_PASS_BOBBLE_SPEED_MULT;
+        intendedTarget = null;
+        this.showFloatingText(this.player.x, this.player.y, 'BOBBLE!', '#f39c12', 16);
+      }
+      
+      // Captain's Burden: the pass goes straight to the nearest enemy
+      if (this.playRandom.next() * 100 < this.upgradeSystem.getStatBonus('passInterceptChance')) {
+        const distTo = (enemy: EnemyAI) => Phaser.Math.Distance.Between(this.player.x, this.player.y, enemy.x, enemy.y);
+        const interceptor = this.enemies.reduce<EnemyAI | undefined>((nearest, enemy) => (
+          distTo(enemy) <= maxPassDist && (!nearest || distTo(enemy) < distTo(nearest)) ? enemy : nearest
+        ), undefined);
+        if (interceptor) {
+          angle = Math.atan2(interceptor.y - this.player.y, interceptor.x - this.player.x);
+          intendedTarget = null;
+          this.showFloatingText(this.player.x, this.player.y, 'PICKED OFF!', '#e74c3c', 16);
         }
       }
       
+      // Playmaker: forwards get a burst of pace from the pass
+      if (intendedTarget?.aiConfig.role === 'forward' && this.upgradeSystem.getStatBonus('forwardPassBuff') > 0) {
+        intendedTarget.applyBuff('speed', TUNING.TRAIT_FORWARD_BUFF_MS);
+      }
+      
       // Use pass method with intended receiver for receive assist
+      if (isAerial) {
+        this.ball.applyPassEffect('scoop');
+      }
       this.ball.pass(passSpeed, angle, this.player, intendedTarget);
       
       // Track player team possession
@@ -1471,6 +1630,8 @@ export class RunScene extends Phaser.Scene {
     
     // Create ball
     this.ball = new Ball(this, this.fieldWidth / 2, this.fieldHeight / 2);
+    this.ball.setRandomSource(this.runRandom.fork('ball').next);
+    this.ball.on('rebound', (shooter: any) => this.onBallRebound(shooter));
     
     // Create teammates
     this.createTeammates(3);
@@ -1485,6 +1646,57 @@ export class RunScene extends Phaser.Scene {
     this.updateEntityReferences();
   }
   
+  /**
+   * Best teammate within `maxAngle` of the pass direction (closest to the line, then nearest)
+   */
+  private findPassTarget(angle: number, maxAngle: number, maxDist: number): TeammateAI | null {
+    let target: TeammateAI | null = null;
+    let bestScore = -Infinity;
+    
+    for (const t of this.teammates) {
+      const dx = t.x - this.player.x;
+      const dy = t.y - this.player.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (dist < 50 || dist > maxDist) continue;
+      
+      const angleToT = Math.atan2(dy, dx);
+      const angleDiff = Math.abs(Phaser.Math.Angle.Wrap(angleToT - angle));
+      
+      if (angleDiff < maxAngle) {
+        const score = 100 - angleDiff * 50 - dist * 0.1;
+        if (score > bestScore) {
+          bestScore = score;
+          target = t;
+        }
+      }
+    }
+    
+    return target;
+  }
+  
+  /**
+   * Pass Network relay: the receiver moves the ball on to the most advanced
+   * teammate (or the player) ahead of them, keeping the chain going
+   */
+  private relayPass(from: TeammateAI, relaysLeft: number): void {
+    if (this.ball.owner !== from) return;
+    
+    const candidates: any[] = [this.player, ...this.teammates.filter(t => t !== from)];
+    let target: any = null;
+    for (const c of candidates) {
+      if (c.x <= from.x) continue;
+      if (Phaser.Math.Distance.Between(from.x, from.y, c.x, c.y) > TUNING.PASS_RELAY_MAX_DIST) continue;
+      if (!target || c.x > target.x) {
+        target = c;
+      }
+    }
+    if (!target) return;
+    
+    from.relayTo(target);
+    this.ball.relaysLeft = relaysLeft;
+    this.showFloatingText(from.x, from.y, 'RELAY!', '#48dbfb', 14);
+  }
+  
   /**
    * Create enemy goalkeeper (Part C)
    */
@@ -1498,11 +1710,34 @@ export class RunScene extends Phaser.Scene {
     // Create ENEMY GK (defends right goal where player shoots)
     this.enemyGoalkeeper = new EnemyGoalkeeper(this, this.fieldWidth, this.fieldHeight);
     this.enemyGoalkeeper.setBall(this.ball);
+    this.enemyGoalkeeper.setRandomSource(this.runRandom.fork('enemyKeeper').next);
     
     // Setup collision with ball for enemy GK
     this.physics.add.overlap(this.enemyGoalkeeper, this.ball, () => {
+      // Sweeper Keeper off its line takes the ball off a carrier's stick
+      const carrier = this.ball.owner;
+      if (this.enemyGoalkeeper!.isSweeping() && carrier && this.ball.getTeamOf(carrier) === 'player') {
+        carrier.loseBall();
+        this.enemyGoalkeeper!.clearBall(this.ball);
+        this.showFloatingText(carrier.x, carrier.y - 20, 'SMOTHERED!', '#9b59b6', 16);
+        return;
+      }
+      
       if (this.ball.isLoose && this.ball.getSpeed() > 80) {
+        const shotSpeed = this.ball.getSpeed();
+        const savesBefore = this.enemyGoalkeeper!.saveCount;
         this.enemyGoalkeeper!.onBallContact(this.ball);
+        this.ball.setLastTouch('enemy');
+        
+        // First save of a player shot (the ball can overlap the GK for several frames)
+        if (this.enemyGoalkeeper!.saveCount > savesBefore) {
+          this.shootout.onKeeperSave();
+        }
+        const savedPlayerShot = this.enemyGoalkeeper!.saveCount > savesBefore && this.ball.lastShooter === this.player;
+        if (savedPlayerShot && this.ball.lastShotTime !== this.lastGkEffectShotTime) {
+          this.lastGkEffectShotTime = this.ball.lastShotTime;
+          this.applyPlayerShotOnGoalkeeper(shotSpeed);
+        }
       }
     });
     
@@ -1511,17 +1746,186 @@ export class RunScene extends Phaser.Scene {
     // === PART 4: Create PLAYER GK (defends left goal where enemy shoots) ===
     this.playerGoalkeeper = new Goalkeeper(this, this.fieldWidth, this.fieldHeight, 'player');
     this.playerGoalkeeper.setBall(this.ball);
+    this.playerGoalkeeper.setRandomSource(this.runRandom.fork('playerKeeper').next);
     
     // Setup collision with ball for player GK
     this.physics.add.overlap(this.playerGoalkeeper, this.ball, () => {
       if (this.ball.isLoose && this.ball.getSpeed() > 80) {
+        const savesBefore = this.playerGoalkeeper!.saveCount;
         this.playerGoalkeeper!.onBallContact(this.ball);
+        this.ball.setLastTouch('player');
+        if (this.playerGoalkeeper!.saveCount > savesBefore) {
+          this.shootout.onKeeperSave();
+        }
       }
     });
     
     console.log('[GK] Player goalkeeper created');
   }
   
+  /**
+   * Character effects on the enemy GK after it stops one of the player's shots:
+   * Cannon Foot knocks the keeper back, Lucky Star can turn the deflection goalward
+   */
+  private lastGkEffectShotTime: number = -1;
+  
+  private applyPlayerShotOnGoalkeeper(shotSpeed: number): void {
+    const gk = this.enemyGoalkeeper!;
+    
+    if (this.upgradeSystem.getStatBonus('shotKnockback') > 0) {
+      gk.knockBack(TUNING.TRAIT_GK_KNOCKBACK_FORCE * Math.min(1.5, shotSpeed / TUNING.SHOT_SPEED_MAX + 0.5));
+      this.showFloatingText(gk.x, gk.y, '💥 KNOCKBACK', '#e67e22', 16);
+    }
+    
+    if (this.playRandom.next() * 100 < this.upgradeSystem.getStatBonus('luckyDeflectChance')) {
+      this.sendBallAtGoal(TUNING.TRAIT_LUCKY_DEFLECT_SPEED);
+      gk.stagger(TUNING.TRAIT_GK_STAGGER_MS);
+      this.showFloatingText(this.ball.x, this.ball.y, '🍀 LUCKY!', '#2ecc71', 18);
+    }
+  }
+  
+  /**
+   * Redirect the loose ball at the enemy goal mouth
+   */
+  private sendBallAtGoal(speed: number): void {
+    const goalX = this.fieldWidth;
+    const goalY = this.fieldHeight / 2 + (this.playRandom.next() - 0.5) * this.goalHeight * 0.5;
+    const angle = Math.atan2(goalY - this.ball.y, goalX - this.ball.x);
+    this.ball.setVelocity(Math.cos(angle) * speed, Math.sin(angle) * speed);
+  }
+  
+  // ========================================
+  // REBOUNDS
+  // ========================================
+  
+  /**
+   * Ball came back off a keeper, post or defender. Perfect Rebound steers the
+   * player team's rebounds back in front of goal, Poaching Instinct puts the
+   * player where a teammate's rebound is heading.
+   */
+  private lastPoachTeleportAt: number = -Infinity;
+  
+  private onBallRebound(shooter: any): void {
+    if (this.isGoalScored || this.isInitializingMoment) return;
+    
+    const playerTeamShot = this.ball.lastShotTeam === 'player';
+    const atEnemyGoal = this.ball.x > this.fieldWidth / 2;
+    
+    if (playerTeamShot && atEnemyGoal && this.upgradeSystem.getStatBonus('guidedRebound') > 0) {
+      const targetX = Math.min(
+        this.fieldWidth - TUNING.GOAL_SENSOR_DEPTH - TUNING.GUIDED_REBOUND_DIST,
+        this.ball.x - TUNING.GUIDED_REBOUND_DIST / 2
+      );
+      const targetY = this.fieldHeight / 2 + (this.playRandom.next() - 0.5) * this.goalHeight;
+      const angle = Math.atan2(targetY - this.ball.y, targetX - this.ball.x);
+      this.ball.setVelocity(Math.cos(angle) * TUNING.GUIDED_REBOUND_SPEED, Math.sin(angle) * TUNING.GUIDED_REBOUND_SPEED);
+    }
+    
+    const now = this.time.now;
+    const teammateShot = playerTeamShot && shooter && shooter !== this.player;
+    if (
+      teammateShot &&
+      this.upgradeSystem.getStatBonus('reboundTeleport') > 0 &&
+      now - this.lastPoachTeleportAt >= TUNING.POACH_TELEPORT_COOLDOWN_MS
+    ) {
+      this.lastPoachTeleportAt = now;
+      const spot = this.ball.getPredictedPosition(TUNING.POACH_PREDICT_MS);
+      const x = Phaser.Math.Clamp(spot.x, 20, this.fieldWidth - 20);
+      const y = Phaser.Math.Clamp(spot.y, 20, this.fieldHeight - 20);
+      this.showFloatingText(this.player.x, this.player.y, '✨', '#9b59b6', 20);
+      this.player.setPosition(x, y);
+      this.showFloatingText(x, y, '✨ POACHER!', '#9b59b6', 16);
+    }
+    
+    this.upgradeSystem.emitEvent('rebound', {
+      player: this.player,
+      ball: this.ball,
+      target: shooter,
+      scene: this,
+      time: now
+    });
+  }
+  
+  /**
+   * The goal sensor is overlapping but the ball is wide of the mouth - it hit a post
+   */
+  private checkPostDeflection(isRightGoal: boolean): void {
+    const vel = this.ball.body!.velocity;
+    const towardGoal = isRightGoal ? vel.x > 0 : vel.x < 0;
+    if (!towardGoal || this.ball.getSpeed() < TUNING.POST_MIN_SPEED) return;
+    
+    // Back out of the goal and away from the mouth
+    const awayFromMouth = this.ball.y < this.fieldHeight / 2 ? -1 : 1;
+    this.ball.setVelocity(
+      -vel.x * TUNING.POST_RESTITUTION,
+      awayFromMouth * Math.abs(vel.y) * TUNING.POST_RESTITUTION
+    );
+    this.cameras.main.shake(80, 0.006);
+    this.showFloatingText(this.ball.x, this.ball.y, 'POST!', '#ecf0f1', 18);
+    console.log(`[GOALCHECK] Off the ${isRightGoal ? 'RIGHT' : 'LEFT'} post`);
+    
+    this.ball.markRebound();
+  }
+  
+  /**
+   * A defender in the way of the player's shot: Ricochets always bounces it on
+   * toward goal, Lucky Deflection sometimes does. One roll per shot.
+   * Returns true if the ball was redirected instead of trapped.
+   */
+  private lastBlockRollShotTime: number = -1;
+  
+  private tryDeflectBlockedShot(enemy: EnemyAI): boolean {
+    if (this.ball.lastShooter !== this.player || this.ball.getSpeed() < TUNING.BLOCK_MIN_SPEED) return false;
+    if (this.ball.lastShotTime === this.lastBlockRollShotTime) return false;
+    this.lastBlockRollShotTime = this.ball.lastShotTime;
+    
+    if (this.upgradeSystem.getStatBonus('shotRicochet') > 0) {
+      this.sendBallAtGoal(TUNING.RICOCHET_SPEED);
+      this.showFloatingText(enemy.x, enemy.y, '🔄 RICOCHET!', '#e67e22', 16);
+    } else if (this.playRandom.next() * 100 < this.upgradeSystem.getStatBonus('luckyDeflectChance')) {
+      this.sendBallAtGoal(TUNING.TRAIT_LUCKY_DEFLECT_SPEED);
+      this.showFloatingText(enemy.x, enemy.y, '🍀 LUCKY!', '#2ecc71', 18);
+    } else {
+      return false;
+    }
+    
+    this.ball.blockPickup(enemy, TUNING.BLOCK_PICKUP_GRACE_MS);
+    this.ball.setLastTouch('enemy');
+    this.ball.markRebound();
+    return true;
+  }
+  
+  /**
+   * Deflector: an enemy shot passing close to the player can be knocked back
+   * upfield. One roll per shot.
+   */
+  private lastDeflectRollShotTime: number = -1;
+  
+  private checkShotDeflection(): void {
+    const chance = this.upgradeSystem.getStatBonus('shotDeflectChance');
+    if (chance <= 0 || !this.ball.isLoose || !this.enemies.includes(this.ball.lastShooter)) return;
+    if (this.ball.lastShotTime === this.lastDeflectRollShotTime) return;
+    
+    const speed = this.ball.getSpeed();
+    if (speed < TUNING.BLOCK_MIN_SPEED || this.ball.isAboveShoulder()) return;
+    if (Phaser.Math.Distance.Between(this.player.x, this.player.y, this.ball.x, this.ball.y) > TUNING.DEFLECT_RADIUS) return;
+    
+    this.lastDeflectRollShotTime = this.ball.lastShotTime;
+    if (this.playRandom.next() * 100 >= chance) return;
+    
+    // Away from our goal with some spread
+    const angle = (this.playRandom.next() - 0.5) * 1.2;
+    const deflectSpeed = speed * TUNING.DEFLECT_SPEED_SCALE;
+    this.ball.setVelocity(Math.cos(angle) * deflectSpeed, Math.sin(angle) * deflectSpeed);
+    
+    const inAttackingD = this.isPointInAttackingD('player', this.player.x, this.player.y);
+    this.ball.registerTouch('player', 'player', this.player.x, this.player.y, 'deflect', inAttackingD);
+    this.ball.setLastTouch('player');
+    this.showFloatingText(this.player.x, this.player.y - 30, '🪃 DEFLECTED!', '#3498db', 16);
+    
+    this.ball.markRebound();
+  }
+  
   private createTeammates(count: number): void {
     this.teammates.forEach(t => t.destroy());
     this.teammates = [];
@@ -1529,6 +1933,7 @@ export class RunScene extends Phaser.Scene {
     const roles: ('defender' | 'midfielder' | 'forward')[] = ['defender', 'midfielder', 'forward'];
     const midX = this.fieldWidth / 2;
     const midY = this.fieldHeight / 2;
+    const teammateBoost = this.getMetaEffect('teammateBoost');
     
     // Kickoff positions - ALL in left half (player team's half)
     // Spread vertically for good coverage
@@ -1548,6 +1953,12 @@ export class RunScene extends Phaser.Scene {
         this.aiSystem  // Pass shared AISystem
       );
       
+      if (teammateBoost > 0) {
+        teammate.applyStatBoost(teammateBoost);
+      }
+      // Lone Wolf slows the team down
+      teammate.speed = this.upgradeSystem.getEffectValue(teammate.speed, 'teammateSpeed');
+      
       teammate.onShoot = (power, angle) => {
         // Record shot origin BEFORE the kick (Part B: D-circle scoring rule)
         const isInsideD = this.isPointInAttackingD('player', teammate.x, teammate.y);
@@ -1612,7 +2023,7 @@ export class RunScene extends Phaser.Scene {
     const difficulty = moment ? (moment.difficulty - 1) / 4 : 0.5;
     
     for (let i = 0; i < Math.min(count, 5); i++) {
-      const isBoss = hasBoss && i === 0;
+      const isBoss = hasBoss && i < (moment?.bossCount ?? 1);
       const enemy = new EnemyAI(
         this,
         positions[i].x,
@@ -1620,7 +2031,8 @@ export class RunScene extends Phaser.Scene {
         roles[i % 3],
         isBoss ? 'boss' : 'normal',
         difficulty,
-        this.aiSystem  // Pass shared AISystem
+        this.aiSystem,  // Pass shared AISystem
+        isBoss ? moment?.bossType : undefined
       );
       
       enemy.onShoot = (power, angle) => {
@@ -1631,8 +2043,14 @@ export class RunScene extends Phaser.Scene {
         // === REGISTER TOUCH IN D (Part A FIX) ===
         this.ball.registerTouch('enemy', `enemy_${i}`, enemy.x, enemy.y, 'shot', isInsideD);
         
+        // PC Monster: a drag flick off the corner
+        const flick = this.bossSystem.getDragFlick(enemy, this.penaltyCorners.isLive());
+        
         const direction = { x: Math.cos(angle), y: Math.sin(angle) };
-        this.ball.kick(direction, power, 0, 'shot');
+        this.ball.kick(direction, flick ? power * flick.powerMult : power, 0, 'shot');
+        if (flick) {
+          this.ball.loft(flick.lift);
+        }
         this.ball.lastShooter = enemy;
         this.ball.lastOwner = enemy;
         this.ball.isLoose = true;
@@ -1648,6 +2066,12 @@ export class RunScene extends Phaser.Scene {
         // Use pass method with intended receiver for receive assist
         this.ball.pass(passSpeed, angle, enemy, target);
         
+        // Aerial Ace: lofted over the player's team
+        const lift = this.bossSystem.getPassLift(enemy);
+        if (lift) {
+          this.ball.loft(lift.speed, lift.clears);
+        }
+        
         // Track enemy possession for steal detection
         this.ball.setLastPossessingTeam('enemy');
         
@@ -1660,6 +2084,13 @@ export class RunScene extends Phaser.Scene {
       enemy.onTackle = (target) => {
         this.attemptTackle(enemy, target);
       };
+      enemy.modifiers = this.enemyModifiers;
+      
+      // Later in the run, ordinary enemies turn up with affixes
+      if (!isBoss && moment) {
+        enemy.setAffixes(rollAffixes(this.momentSystem.getProgress().current, this.affixRandom.next));
+        enemy.onEnraged = () => this.onEnemyEnraged(enemy);
+      }
       
       this.enemies.push(enemy);
     }
@@ -1674,6 +2105,10 @@ export class RunScene extends Phaser.Scene {
       e.setReferences(this.player, this.teammates, this.enemies, this.ball);
     });
     
+    // Positional upgrade effects (open space, nearby teammates, triangles) look these up
+    this.registry.set('teammates', this.teammates);
+    this.registry.set('enemies', this.enemies);
+    
     // === PART 3: Assign defenders for each team ===
     this.aiSystem.assignDefenders(this.teammates, this.enemies);
   }
@@ -1689,39 +2124,85 @@ export class RunScene extends Phaser.Scene {
     return index >= 0 ? index : 0;
   }
   
-  private setupCollisions(): void {
-    // Ball pickup by player
-    this.physics.add.overlap(this.player, this.ball, () => {
-      // Block pickup during moment initialization
-      if (this.isInitializingMoment) return;
+  private tryPlayerPickup(): void {
+    // Block pickup during moment initialization
+    if (this.isInitializingMoment) return;
+    
+    if (this.ball.isLoose && !this.player.hasBall && !this.player.isStunned && !this.umpire.isSinBinned(this.player)) {
+      // Check no-recapture window
+      if (!this.ball.canBePickedUpBy(this.player)) return;
       
-      if (this.ball.isLoose && !this.player.hasBall && !this.player.isStunned) {
-        // Check no-recapture window
-        if (!this.ball.canBePickedUpBy(this.player)) return;
-        
-        // Track previous possession for steal detection
-        const prevTeam = this.ball.attachTo(this.player);
-        this.player.receiveBall();
-        
-        // === REGISTER TOUCH IN D (Part A FIX) ===
-        const isReceive = this.ball.intendedReceiver === this.player;
-        const isIntercept = this.ball.wasStolen(prevTeam, 'player');
-        const touchKind = isIntercept ? 'intercept' : (isReceive ? 'receive' : 'dribble');
-        const inAttackingD = this.isPointInAttackingD('player', this.player.x, this.player.y);
-        this.ball.registerTouch('player', 'player', this.player.x, this.player.y, touchKind, inAttackingD);
-        
-        // Check if this was a steal (interception)
-        if (isIntercept) {
-          console.log('[STEAL] Player intercepted ball from enemy');
-          this.momentSystem.playerStole();
-        }
-        
-        // Count as completed pass if there was an intended receiver
-        if (isReceive) {
-          this.momentStats.passesCompleted++;
-        }
+      // Wanderer: fast enemy shots can squirm through in the D
+      if (this.time.now < this.saveSlipUntil) return;
+      if (this.rollSaveSlip()) {
+        this.saveSlipUntil = this.time.now + TUNING.TRAIT_SAVE_SLIP_MS;
+        this.showFloatingText(this.player.x, this.player.y, 'SLIPPED!', '#e74c3c', 16);
+        return;
       }
-    });
+      
+      // attachTo clears the pass target and passer, so read them first
+      const isReceive = this.ball.intendedReceiver === this.player;
+      const passer = this.ball.lastOwner;
+      
+      // Track previous possession for steal detection
+      const prevTeam = this.ball.attachTo(this.player);
+      this.player.receiveBall();
+      
+      // === REGISTER TOUCH IN D (Part A FIX) ===
+      const isIntercept = this.ball.wasStolen(prevTeam, 'player');
+      const touchKind = isIntercept ? 'intercept' : (isReceive ? 'receive' : 'dribble');
+      const inAttackingD = this.isPointInAttackingD('player', this.player.x, this.player.y);
+      this.ball.registerTouch('player', 'player', this.player.x, this.player.y, touchKind, inAttackingD);
+      if (this.notePenaltyCornerTouch(this.player, 'player', inAttackingD)) return;
+      
+      // Check if this was a steal (interception)
+      if (isIntercept) {
+        console.log('[STEAL] Player intercepted ball from enemy');
+        this.momentSystem.playerStole();
+      }
+      
+      // Count as completed pass if there was an intended receiver
+      if (isReceive) {
+        this.momentStats.passesCompleted++;
+        this.events.emit('passCompleted', { passer, receiver: this.player, fromPlayer: false });
+      }
+    }
+  }
+  
+  private saveSlipUntil: number = 0;
+  
+  private rollSaveSlip(): boolean {
+    const slipChance = this.upgradeSystem.getStatBonus('saveSlipChance');
+    if (slipChance <= 0) return false;
+    
+    const isEnemyShot = this.ball.lastShotTeam === 'enemy' && this.ball.isLastShotRecent();
+    if (!isEnemyShot || this.ball.getSpeed() < TUNING.TRAIT_SAVE_SLIP_SPEED) return false;
+    
+    return this.playRandom.next() * 100 < slipChance;
+  }
+  
+  /**
+   * Extended pickup reach (Interceptor, Cat Reflexes, interception upgrades,
+   * Second Ball on rebounds).
+   * The physics overlap covers the normal reach; this only handles the extra.
+   */
+  private checkExtendedPickupReach(): void {
+    let reachBonus = this.upgradeSystem.getStatBonus('interceptRadius') + this.upgradeSystem.getStatBonus('saveRadius');
+    if (this.ball.isRebound) {
+      reachBonus += this.upgradeSystem.getStatBonus('reboundReach');
+    }
+    if (reachBonus <= 0 || !this.ball.isLoose || this.player.hasBall) return;
+    
+    const reach = TUNING.PLAYER_PICKUP_REACH * (1 + reachBonus / 100);
+    const dist = Phaser.Math.Distance.Between(this.player.x, this.player.y, this.ball.x, this.ball.y);
+    if (dist < reach) {
+      this.tryPlayerPickup();
+    }
+  }
+  
+  private setupCollisions(): void {
+    // Ball pickup by player
+    this.physics.add.overlap(this.player, this.ball, () => this.tryPlayerPickup());
     
     // Ball pickup by teammates
     this.teammates.forEach((teammate, idx) => {
@@ -1733,16 +2214,21 @@ export class RunScene extends Phaser.Scene {
           // Check no-recapture window
           if (!this.ball.canBePickedUpBy(teammate)) return;
           
+          // attachTo clears the pass target, passer and relays, so read them first
+          const isReceive = this.ball.intendedReceiver === teammate;
+          const passer = this.ball.lastOwner;
+          const relaysLeft = this.ball.relaysLeft;
+          
           // Track previous possession for steal detection
           const prevTeam = this.ball.attachTo(teammate);
           teammate.receiveBall();
           
           // === REGISTER TOUCH IN D (Part A FIX) ===
-          const isReceive = this.ball.intendedReceiver === teammate;
           const isIntercept = this.ball.wasStolen(prevTeam, 'player');
           const touchKind = isIntercept ? 'intercept' : (isReceive ? 'receive' : 'dribble');
           const inAttackingD = this.isPointInAttackingD('player', teammate.x, teammate.y);
           this.ball.registerTouch('player', `teammate_${idx}`, teammate.x, teammate.y, touchKind, inAttackingD);
+          if (this.notePenaltyCornerTouch(teammate, 'player', inAttackingD)) return;
           
           // Check if this was a steal (interception by teammate)
           if (isIntercept) {
@@ -1753,6 +2239,21 @@ export class RunScene extends Phaser.Scene {
           // Count as completed pass if intended receiver
           if (isReceive) {
             this.momentStats.passesCompleted++;
+            this.events.emit('passCompleted', { passer, receiver: teammate, fromPlayer: passer === this.player });
+            
+            if (passer === this.player) {
+              this.upgradeSystem.emitEvent('passComplete', {
+                player: this.player,
+                target: teammate,
+                scene: this,
+                time: this.time.now
+              });
+            }
+            
+            // Pass Network: play it straight on
+            if (relaysLeft > 0) {
+              this.time.delayedCall(TUNING.PASS_RELAY_DELAY_MS, () => this.relayPass(teammate, relaysLeft - 1));
+            }
           }
         }
       });
@@ -1768,6 +2269,9 @@ export class RunScene extends Phaser.Scene {
           // Check no-recapture window
           if (!this.ball.canBePickedUpBy(enemy)) return;
           
+          if (this.isUnblockableCornerShot()) return;
+          if (this.tryDeflectBlockedShot(enemy)) return;
+          
           // Track previous possession (for potential future "enemy stole" events)
           this.ball.attachTo(enemy);
           enemy.receiveBall();
@@ -1777,6 +2281,7 @@ export class RunScene extends Phaser.Scene {
           const touchKind = isReceive ? 'receive' : 'dribble';
           const inAttackingD = this.isPointInAttackingD('enemy', enemy.x, enemy.y);
           this.ball.registerTouch('enemy', `enemy_${idx}`, enemy.x, enemy.y, touchKind, inAttackingD);
+          this.notePenaltyCornerTouch(enemy, 'enemy', inAttackingD);
         }
       });
     });
@@ -1816,6 +2321,7 @@ export class RunScene extends Phaser.Scene {
   private checkGoal(isRightGoal: boolean): void {
     // Skip if already scored or on cooldown (debounce)
     if (this.isGoalScored || this.isTransitioning) return;
+    if (this.penaltyCorners.isHoldingPlay() || this.shootout.isHoldingPlay()) return;
     if (this.time.now < this.goalCooldownUntil) return;
     
     // Ball must be loose
@@ -1834,6 +2340,7 @@ export class RunScene extends Phaser.Scene {
     const betweenPosts = ballY >= goalTopY && ballY <= goalBottomY;
     
     if (!betweenPosts) {
+      this.checkPostDeflection(isRightGoal);
       return;
     }
     
@@ -1865,6 +2372,15 @@ export class RunScene extends Phaser.Scene {
       return;
     }
     
+    // Over the crossbar is over the backline
+    if (this.ball.getHeight() > TUNING.GOAL_CROSSBAR_HEIGHT) {
+      console.log(`[GOALCHECK] REJECTED - over the bar. height=${Math.round(this.ball.getHeight())}`);
+      this.lastGoalCheckDebug.awarded = 'REJECTED_OVER_BAR';
+      this.showFloatingText(this.ball.x, this.ball.y - 30, 'OVER THE BAR', '#bdc3c7', 18);
+      this.callOutOfPlay(isRightGoal ? 'rightBackline' : 'leftBackline');
+      return;
+    }
+    
     // Check minimum speed (prevents dribble-ins, but lower threshold)
     const speed = this.ball.getSpeed();
     if (speed < TUNING.GOAL_MIN_SPEED * 0.5) {  // More lenient speed check
@@ -1902,6 +2418,35 @@ export class RunScene extends Phaser.Scene {
       }
     }
     
+    // === PENALTY CORNER STOP RULE ===
+    if (!this.penaltyCorners.canScore(scoringTeam)) {
+      console.log(`[GOALCHECK] REJECTED - corner not stopped outside the D. scoringTeam=${scoringTeam}`);
+      this.lastGoalCheckDebug.awarded = 'REJECTED_PC_NOT_STOPPED';
+      this.audioSystem.playWhistle();
+      this.showFloatingText(this.ball.x, this.ball.y - 30, 'NO GOAL\nNot stopped outside the D', '#ff4444', 20);
+      this.penaltyCorners.end('notStopped');
+      if (!this.penaltyCorners.isCornerMoment()) {
+        this.callOutOfPlay(isRightGoal ? 'rightBackline' : 'leftBackline');
+      }
+      return;
+    }
+    
+    // === RESTART 5M RULE ===
+    if (!this.restarts.canScore(scoringTeam)) {
+      console.log(`[GOALCHECK] REJECTED - restart has not gone 5m. scoringTeam=${scoringTeam}`);
+      this.lastGoalCheckDebug.awarded = 'REJECTED_RESTART_5M';
+      this.showFloatingText(this.ball.x, this.ball.y - 30, 'NO GOAL\nRestart must go 5m first', '#ff4444', 20);
+      this.callOutOfPlay(isRightGoal ? 'rightBackline' : 'leftBackline');
+      return;
+    }
+    
+    // === SHOOTOUT ===
+    if (this.shootout.isSeries()) {
+      this.goalCooldownUntil = this.time.now + 1000;
+      this.scoreShootoutGoal(isRightGoal);
+      return;
+    }
+    
     // GOAL AWARDED!
     const awardedTeam = isRightGoal ? 'PLAYER' : 'ENEMY';
     console.log(`[GOALCHECK] => GOAL AWARDED: ${awardedTeam}`);
@@ -1952,11 +2497,10 @@ export class RunScene extends Phaser.Scene {
     // Brief cooldown to prevent spam
     this.goalCooldownUntil = this.time.now + 800;
     
-    // Reset ball to center (simplified reset)
+    // It went over the backline without counting, so restart from there
     this.time.delayedCall(500, () => {
-      if (!this.isGoalScored) {
-        this.ball.resetToCenter();
-        this.ball.setPosition(this.fieldWidth / 2, this.fieldHeight / 2);
+      if (!this.isGoalScored && !this.isTransitioning) {
+        this.callOutOfPlay(isRightGoal ? 'rightBackline' : 'leftBackline');
       }
     });
   }
@@ -2069,7 +2613,7 @@ export class RunScene extends Phaser.Scene {
       if (this.player.hasBall && this.player.canShoot()) {
         // Calculate aim toward enemy goal
         const goalX = this.fieldWidth - 20;
-        const goalY = this.fieldHeight / 2 + (Math.random() - 0.5) * 60;
+        const goalY = this.fieldHeight / 2 + (this.playRandom.next() - 0.5) * 60;
         const aimAngle = Math.atan2(goalY - this.player.y, goalX - this.player.x);
         
         // Perform the shot
@@ -2082,75 +2626,859 @@ export class RunScene extends Phaser.Scene {
     });
     
     // Cooldown reset events
-    this.upgradeSystem.on('cooldownReset', (cooldownType: string) => {
+    this.upgradeSystem.on('cooldownReset', (cooldownType: EffectCooldown) => {
+      this.player.resetCooldown(cooldownType);
       console.log(`[COOLDOWN_RESET] ${cooldownType}`);
     });
     
     this.upgradeSystem.on('allCooldownsReset', () => {
+      this.player.resetCooldown('all');
       console.log('[COOLDOWN_RESET] All cooldowns!');
     });
-  }
-  
-  // Flag to prevent ball pickup during moment initialization
-  private isInitializingMoment: boolean = false;
-  
-  private startMoment(): void {
-    this.isTransitioning = false;
-    this.isGoalScored = false;
-    this.goalCooldownUntil = 0;
-    this.isInitializingMoment = true;  // Prevent ball pickups during setup
-    this.resetMomentStats();
-    
-    // Reset player health/stamina at moment start (Part C)
-    this.resetPlayerHealth();
-    
-    const moment = this.momentSystem.getCurrentMoment();
-    if (!moment) return;
     
-    // Determine who starts with ball BEFORE creating entities
-    const enemyStartsWithBall = moment.objective === 'defend' || 
-                                 moment.objective === 'survive' ||
-                                 moment.objective === 'turnover' ||
-                                 moment.objective === 'pressWin';
+    // Trickster events
+    this.upgradeSystem.on('spawnDecoy', (data: { count: number; durationMs: number }) => {
+      this.spawnDecoys(data.count, data.durationMs);
+    });
     
-    // Reset all entities to kickoff positions (each team in own half)
-    this.resetToKickoffPositions(enemyStartsWithBall);
+    this.upgradeSystem.on('fakeShot', () => this.performFakeShot());
     
-    // Create teammates and enemies with proper kickoff positions
-    this.createTeammates(moment.teamSize.player - 1);
-    this.createEnemies(moment.teamSize.enemy, moment.isBoss);
+    // Press Machine: teammates join in while the player closes down the carrier
+    this.upgradeSystem.on('teammatesPress', () => {
+      const carrier = this.enemies.find(e => e.hasBall);
+      if (carrier && Phaser.Math.Distance.Between(this.player.x, this.player.y, carrier.x, carrier.y) < TUNING.PRESS_MACHINE_RANGE) {
+        this.aiSystem.pressWithTeammates(TUNING.PRESS_MACHINE_HOLD_MS);
+      }
+    });
     
-    // Recreate enemy goalkeeper for each moment (Part C)
-    this.createEnemyGoalkeeper();
+    this.upgradeSystem.on('confuseNearby', (data: { radius: number; durationMs: number }) => {
+      this.enemies.forEach(enemy => {
+        if (Phaser.Math.Distance.Between(this.player.x, this.player.y, enemy.x, enemy.y) < data.radius) {
+          enemy.applyDebuff('confuse', data.durationMs);
+        }
+      });
+    });
     
-    this.updateEntityReferences();
-    this.setupCollisions();
+    // Weather
+    this.weatherSystem.on('enemySlipped', (enemy: EnemyAI) => this.onEnemySlipped(enemy));
     
-    // Apply moment modifiers
-    moment.modifiers.forEach(mod => {
-      if (mod.effect === 'reducedControl') {
-        this.player.stats.control *= 0.8;
-      }
+    // Penalty corners
+    this.penaltyCorners.on('setup', (setup: PenaltyCornerSetup) => this.setupPenaltyCorner(setup));
+    this.penaltyCorners.on('pushOut', () => this.pushOutPenaltyCorner());
+    this.penaltyCorners.on('stopped', () => {
+      this.showFloatingText(this.ball.x, this.ball.y, 'STOPPED!', '#2ecc71', 16);
+    });
+    this.penaltyCorners.on('cornerOver', (data: { reason: PenaltyCornerEndReason; oneOff: boolean }) => {
+      this.onPenaltyCornerOver(data.reason, data.oneOff);
     });
+    this.penaltyCorners.on('exhausted', () => this.momentSystem.penaltyCornersUsed());
     
-    this.momentSystem.startMoment();
-    this.upgradeSystem.resetMoment();
+    // Bosses
+    this.bossSystem.on('phase', (phase: BossPhase, boss: EnemyAI) => {
+      this.showFloatingText(boss.x, boss.y - 40, `PHASE ${phase}!`, '#e74c3c', 24);
+      this.cameras.main.shake(200, 0.006);
+    });
+    this.bossSystem.on('pressWave', (boss: EnemyAI) => {
+      this.showFloatingText(boss.x, boss.y - 30, 'PRESS!', '#e74c3c', 18);
+    });
+    this.bossSystem.on('trapSprung', (victim: any) => this.onBossTrapSprung(victim));
+    this.bossSystem.on('cornerEarned', (carrier: EnemyAI) => {
+      if (this.penaltyCorners.isRunning()) return;
+      this.showFloatingText(carrier.x, carrier.y - 30, 'CORNER EARNED!', '#e67e22', 18);
+      this.penaltyCorners.award('defend');
+    });
+    this.bossSystem.on('comboWindup', (boss: EnemyAI) => {
+      this.showFloatingText(boss.x, boss.y - 30, 'WINDING UP...', '#f1c40f', 16);
+    });
+    this.bossSystem.on('puddleSlip', (victim: any) => this.onPuddleSlip(victim));
+    this.bossSystem.on('oneTwo', (carrier: EnemyAI) => {
+      this.showFloatingText(carrier.x, carrier.y - 30, 'ONE-TWO!', '#e67e22', 16);
+    });
     
-    // === ASSIGN BALL POSSESSION ===
-    // This MUST happen after everything else is set up
-    if (enemyStartsWithBall && this.enemies.length > 0) {
-      // Choose a midfielder or forward to carry the ball (not the defender)
-      const carrier = this.enemies.find(e => e.role === 'midfielder' || e.role === 'forward') || this.enemies[0];
-      
-      // Clear any accidental possession first
-      this.player.hasBall = false;
-      this.teammates.forEach(t => t.hasBall = false);
-      this.enemies.forEach(e => e.hasBall = false);
-      
-      // Attach ball to enemy carrier
-      this.ball.attachTo(carrier);
-      carrier.receiveBall();
-      this.ball.setLastPossessingTeam('enemy');
+    // Strokes and shootouts
+    this.shootout.on('setup', (setup: ShootoutRoundSetup) => this.setupShootoutRound(setup));
+    this.shootout.on('go', () => this.audioSystem.playWhistle());
+    this.shootout.on('roundOver', (data: { result: ShootoutResult; kind: ShootoutRoundKind; oneOff: boolean }) => {
+      this.onShootoutRoundOver(data.result, data.kind, data.oneOff);
+    });
+    this.shootout.on('decided', (winner: ShootoutWinner) => this.onShootoutDecided(winner));
+    this.momentSystem.on('shootout', () => this.startDeciderShootout());
+  }
+  
+  /**
+   * An Enraged enemy went down: its teammates close by surge
+   */
+  private onEnemyEnraged(enemy: EnemyAI): void {
+    this.showFloatingText(enemy.x, enemy.y - 30, 'ENRAGED!', '#e74c3c', 16);
+    this.enemies.forEach(ally => {
+      if (ally === enemy || Phaser.Math.Distance.Between(enemy.x, enemy.y, ally.x, ally.y) > TUNING.AFFIX_ENRAGED_RADIUS) return;
+      ally.surge(TUNING.AFFIX_ENRAGED_SPEED_MULT, TUNING.AFFIX_ENRAGED_MS);
+    });
+  }
+  
+  /**
+   * An enemy lost its footing: a carrier loses the ball as well
+   */
+  private onEnemySlipped(enemy: EnemyAI): void {
+    this.showFloatingText(enemy.x, enemy.y - 20, 'SLIP!', '#81ecec', 14);
+    if (!enemy.hasBall || this.ball.owner !== enemy) return;
+    
+    enemy.loseBall();
+    const angle = this.playRandom.next() * Math.PI * 2;
+    this.ball.kick({ x: Math.cos(angle), y: Math.sin(angle) }, TUNING.ENEMY_SLIP_BALL_SPEED, 0, 'drop');
+    this.ball.isLoose = true;
+    this.ball.owner = null;
+    this.ball.blockPickup(enemy, TUNING.ENEMY_SLIP_MS);
+  }
+  
+  /**
+   * Press Machine trap: the carrier is stunned and the ball squirts to the nearest presser
+   */
+  private onBossTrapSprung(victim: any): void {
+    if (this.ball.owner !== victim) return;
+    
+    this.showFloatingText(victim.x, victim.y - 20, 'TRAPPED!', '#e74c3c', 16);
+    victim.loseBall();
+    victim.applyStun(TUNING.PRESS_TRAP_STUN_MS);
+    
+    const presser = this.enemies.reduce<EnemyAI | undefined>((nearest, enemy) => (
+      !nearest || Phaser.Math.Distance.Between(victim.x, victim.y, enemy.x, enemy.y) < Phaser.Math.Distance.Between(victim.x, victim.y, nearest.x, nearest.y)
+        ? enemy
+        : nearest
+    ), undefined);
+    const angle = presser
+      ? Math.atan2(presser.y - victim.y, presser.x - victim.x)
+      : this.playRandom.next() * Math.PI * 2;
+    this.ball.kick({ x: Math.cos(angle), y: Math.sin(angle) }, TUNING.PRESS_TRAP_BALL_SPEED, 0, 'drop');
+    this.ball.isLoose = true;
+    this.ball.owner = null;
+    this.ball.blockPickup(victim, TUNING.PRESS_TRAP_STUN_MS);
+    this.audioSystem.playSteal();
+  }
+  
+  /**
+   * Rain Game puddle: the player's team loses its footing, and a carrier the ball
+   */
+  private onPuddleSlip(victim: any): void {
+    this.showFloatingText(victim.x, victim.y - 20, 'SLIP!', '#74b9ff', 14);
+    victim.applyStun(TUNING.RAIN_PUDDLE_SLIP_MS);
+    if (this.ball.owner !== victim) return;
+    
+    victim.loseBall();
+    const angle = this.playRandom.next() * Math.PI * 2;
+    this.ball.kick({ x: Math.cos(angle), y: Math.sin(angle) }, TUNING.ENEMY_SLIP_BALL_SPEED, 0, 'drop');
+    this.ball.isLoose = true;
+    this.ball.owner = null;
+    this.ball.blockPickup(victim, TUNING.RAIN_PUDDLE_SLIP_MS);
+  }
+  
+  /**
+   * Phantom Dodge / Mirror Image: ghosts run on from the dodge and pull nearby defenders
+   */
+  private spawnDecoys(count: number, duration: number): void {
+    const baseAngle = this.player.getFacingAngle();
+    const runDistance = TUNING.DECOY_SPEED * duration / 1000;
+    
+    for (let i = 0; i < count; i++) {
+      const angle = baseAngle + (i - (count - 1) / 2) * TUNING.DECOY_SPREAD;
+      const toX = Phaser.Math.Clamp(this.player.x + Math.cos(angle) * runDistance, 40, this.fieldWidth - 40);
+      const toY = Phaser.Math.Clamp(this.player.y + Math.sin(angle) * runDistance, 40, this.fieldHeight - 40);
+      
+      const decoy = new Decoy(this, this.player.x, this.player.y, toX, toY, this.player.texture.key, duration);
+      this.aiSystem.addDecoy(decoy);
+    }
+  }
+  
+  /**
+   * Fake Shot: a dummy shot near goal sends the enemy GK the wrong way
+   */
+  private performFakeShot(): void {
+    if (!this.player.hasBall || !this.enemyGoalkeeper) return;
+    
+    const distToGoal = Phaser.Math.Distance.Between(this.player.x, this.player.y, this.fieldWidth, this.fieldHeight / 2);
+    if (distToGoal > TUNING.FAKE_SHOT_RANGE) return;
+    
+    this.enemyGoalkeeper.commitToFake(this.player.x, this.player.y, this.player.getFacingAngle());
+    this.showFloatingText(this.player.x, this.player.y, '🎭 FAKE!', '#f1c40f', 18);
+  }
+  
+  // ========================================
+  // PENALTY CORNERS
+  // ========================================
+  
+  private pcInjector: any = null;
+  private pcStopper: any = null;
+  
+  /**
+   * Line up a corner: injector on the backline, attackers just outside the D
+   * with the stopper at the top, defenders on the goal line and the rest at halfway
+   */
+  private setupPenaltyCorner(setup: PenaltyCornerSetup): void {
+    const isAttack = setup.side === 'attack';
+    const attackers: any[] = isAttack ? this.getPlayerTeamOnPitch() : [...this.enemies];
+    const defenders: any[] = isAttack ? [...this.enemies] : this.getPlayerTeamOnPitch();
+    
+    this.isGoalScored = false;
+    this.isTransitioning = false;
+    this.goalCooldownUntil = 0;
+    this.restarts.clear();
+    
+    [...attackers, ...defenders].forEach(entity => {
+      entity.hasBall = false;
+      entity.setVelocity(0, 0);
+    });
+    this.enemyGoalkeeper?.reset();
+    this.playerGoalkeeper?.reset();
+    this.ball.resetToCenter();
+    
+    // The player stops their own corners; enemies send in a forward
+    const stopper = isAttack
+      ? attackers[0]
+      : attackers.find(e => e.role === 'forward') || attackers[1] || attackers[0];
+    const injector = attackers.find(a => a !== stopper) || null;
+    this.pcStopper = stopper;
+    this.pcInjector = injector;
+    
+    // Attacked goal and the direction out of it
+    const goalLineX = isAttack ? this.fieldWidth : 0;
+    const dCenterX = isAttack ? this.fieldWidth - 30 : 30;
+    const outward = isAttack ? -1 : 1;
+    const goalY = this.fieldHeight / 2;
+    const topOfD = TUNING.D_CIRCLE_RADIUS + TUNING.PC_TOP_OF_D_GAP;
+    
+    let arcSlot = 0;
+    attackers.forEach(attacker => {
+      if (attacker === injector) {
+        attacker.setPosition(goalLineX + outward * 12, goalY + TUNING.PC_INJECT_OFFSET);
+        return;
+      }
+      
+      // Stopper at the top of the D, the rest fanned out either side
+      let angle = 0;
+      if (attacker !== stopper) {
+        arcSlot++;
+        angle = Math.ceil(arcSlot / 2) * 0.45 * (arcSlot % 2 === 1 ? -1 : 1);
+      }
+      attacker.setPosition(dCenterX + outward * Math.cos(angle) * topOfD, goalY + Math.sin(angle) * topOfD);
+    });
+    
+    const goalLineOffsets = [-45, 45, -90, 90];
+    defenders.forEach((defender, i) => {
+      if (i < TUNING.PC_GOAL_LINE_DEFENDERS) {
+        defender.setPosition(goalLineX + outward * 45, goalY + goalLineOffsets[i % goalLineOffsets.length]);
+      } else {
+        const slot = i - TUNING.PC_GOAL_LINE_DEFENDERS;
+        defender.setPosition(this.fieldWidth / 2 - outward * 20, goalY + (slot - 1) * 120);
+      }
+    });
+    
+    // Injector holds the ball; without one the stopper starts on it
+    const carrier = injector || stopper;
+    if (!carrier) return;
+    this.ball.attachTo(carrier);
+    carrier.hasBall = true;
+    this.ball.setLastPossessingTeam(isAttack ? 'player' : 'enemy');
+    this.ball.setPosition(carrier.x + outward * 15, carrier.y);
+    
+    if (!setup.oneOff) {
+      this.uiSystem.updatePenaltyCorners(setup.attempt, setup.total, setup.side);
+    }
+    this.showFloatingText(
+      this.cameras.main.centerX,
+      this.cameras.main.centerY - 120,
+      setup.oneOff ? '🏑 PENALTY CORNER' : `🏑 PENALTY CORNER ${setup.attempt}/${setup.total}`,
+      isAttack ? '#2ecc71' : '#e67e22',
+      24
+    );
+  }
+  
+  /**
+   * Push-out: the injector plays it to the stopper and the defence runs out.
+   * PC Injector speeds up the player team's injections.
+   */
+  private pushOutPenaltyCorner(): void {
+    const team = this.penaltyCorners.getAttackingTeam();
+    const injector = this.pcInjector;
+    const stopper = this.pcStopper;
+    
+    this.audioSystem.playWhistle();
+    
+    if (!injector || this.ball.owner !== injector) {
+      this.penaltyCorners.onTouch(team, false);
+      return;
+    }
+    
+    const speed = team === 'player'
+      ? this.upgradeSystem.getEffectValue(TUNING.PC_INJECTION_SPEED, 'pcPassSpeed')
+      : TUNING.PC_INJECTION_SPEED;
+    const angle = Math.atan2(stopper.y - injector.y, stopper.x - injector.x);
+    
+    injector.loseBall();
+    this.ball.pass(speed, angle, injector, stopper);
+    this.ball.setLastPossessingTeam(team);
+    this.audioSystem.playPass();
+  }
+  
+  /**
+   * Report a trap to the corner. The attack's stop outside the D can be
+   * fumbled (PC Injector's control helps the player team); returns true if it was.
+   */
+  private notePenaltyCornerTouch(entity: any, team: 'player' | 'enemy', inAttackingD: boolean): boolean {
+    if (!this.penaltyCorners.isLive()) return false;
+    
+    const isStop = team === this.penaltyCorners.getAttackingTeam() && this.penaltyCorners.isAwaitingStop() && !inAttackingD;
+    if (isStop) {
+      const control = team === 'player' ? this.upgradeSystem.getStatBonus('pcControl') : 0;
+      const fumbleChance = Math.max(0, TUNING.PC_STOP_FUMBLE_CHANCE - control);
+      
+      if (this.playRandom.next() * 100 < fumbleChance) {
+        entity.loseBall();
+        const angle = this.playRandom.next() * Math.PI * 2;
+        this.ball.kick({ x: Math.cos(angle), y: Math.sin(angle) }, TUNING.PC_FUMBLE_BALL_SPEED, 0, 'drop');
+        this.ball.isLoose = true;
+        this.ball.owner = null;
+        this.ball.blockPickup(entity, TUNING.PC_FUMBLE_GRACE_MS);
+        this.showFloatingText(entity.x, entity.y - 20, 'FUMBLED!', '#e74c3c', 16);
+        return true;
+      }
+    }
+    
+    this.penaltyCorners.onTouch(team, inAttackingD);
+    return false;
+  }
+  
+  /** Drag Flick King: the player's corner shots go through outfield defenders */
+  private isUnblockableCornerShot(): boolean {
+    return this.penaltyCorners.isLive() &&
+           this.upgradeSystem.getStatBonus('unblockablePC') > 0 &&
+           this.ball.lastShooter === this.player &&
+           this.ball.isLastShotRecent() &&
+           this.ball.getSpeed() >= TUNING.BLOCK_MIN_SPEED;
+  }
+  
+  private onPenaltyCornerOver(reason: PenaltyCornerEndReason, oneOff: boolean): void {
+    if (oneOff) {
+      // Awarded corner: play just carries on
+      this.uiSystem.hidePenaltyCorners();
+    } else {
+      // Everyone stops where they are until the next setup
+      this.ball.setVelocity(0, 0);
+      [this.player, ...this.teammates, ...this.enemies].forEach(entity => entity.setVelocity(0, 0));
+    }
+    
+    if (reason === 'cleared') {
+      this.showFloatingText(this.ball.x, this.ball.y, 'CLEARED!', '#3498db', 20);
+    } else if (reason === 'timeout') {
+      this.showFloatingText(this.ball.x, this.ball.y, 'CORNER OVER', '#bdc3c7', 20);
+    }
+  }
+  
+  // ========================================
+  // PENALTY STROKES & SHOOTOUTS
+  // ========================================
+  
+  private shootoutTaker: any = null;
+  
+  /**
+   * One taker on the spot, everyone else waits along halfway. In keeper
+   * rounds the player steers their goalkeeper, or keeps goal themselves
+   * if there isn't one.
+   */
+  private setupShootoutRound(setup: ShootoutRoundSetup): void {
+    const isAttack = setup.kind === 'attack';
+    const goalY = this.fieldHeight / 2;
+    
+    this.isGoalScored = false;
+    this.isTransitioning = false;
+    this.goalCooldownUntil = 0;
+    this.restarts.clear();
+    
+    const playerTeam = this.getPlayerTeamOnPitch();
+    [...playerTeam, ...this.enemies].forEach(entity => {
+      entity.hasBall = false;
+      entity.setVelocity(0, 0);
+    });
+    this.enemyGoalkeeper?.reset();
+    this.playerGoalkeeper?.reset();
+    // The autopilot only plays outfield, so a simulated keeper round stays with the keeper AI
+    this.playerGoalkeeper?.setManualControl(!isAttack && !this.simulation);
+    this.ball.resetToCenter();
+    
+    playerTeam.forEach((entity, i) => entity.setPosition(this.fieldWidth / 2 - 40, TUNING.PITCH_LINE_INSET + 40 + i * 50));
+    this.enemies.forEach((entity, i) => entity.setPosition(this.fieldWidth / 2 + 40, TUNING.PITCH_LINE_INSET + 40 + i * 50));
+    
+    // Enemy rounds go to the boss, or failing that a forward
+    const taker: any = isAttack
+      ? this.player
+      : this.enemies.find(e => e.enemyType === 'boss') || this.enemies.find(e => e.role === 'forward') || this.enemies[0];
+    this.shootoutTaker = taker || null;
+    
+    if (!isAttack && !this.playerGoalkeeper) {
+      this.player.setPosition(TUNING.PITCH_LINE_INSET + 25, goalY);
+    }
+    
+    this.uiSystem.updateShootout(setup);
+    if (!taker) return;
+    
+    // Shootouts start on the 23m line, strokes on the spot
+    const backlineX = isAttack ? this.fieldWidth - TUNING.PITCH_LINE_INSET : TUNING.PITCH_LINE_INSET;
+    const outward = isAttack ? -1 : 1;
+    const spotX = backlineX + outward * (setup.format === 'stroke' ? TUNING.PENALTY_SPOT_DIST : TUNING.RESTART_23M_DIST);
+    taker.setPosition(spotX + outward * TUNING.RESTART_TAKER_OFFSET, goalY);
+    
+    // The enemy taker goes it alone: nobody to pass to or beat
+    if (taker !== this.player) {
+      taker.setReferences(this.player, [], [], this.ball);
+    }
+    
+    this.ball.attachTo(taker);
+    taker.receiveBall();
+    this.ball.setLastPossessingTeam(isAttack ? 'player' : 'enemy');
+    this.ball.setPosition(spotX, goalY);
+    this.ball.setVelocity(0, 0);
+    
+    const keeperHint = this.playerGoalkeeper ? '\nMove to cover, DODGE to dive' : '';
+    this.showFloatingText(
+      this.cameras.main.centerX,
+      this.cameras.main.centerY - 120,
+      isAttack ? '🎯 YOUR SHOT' : `🧤 KEEP IT OUT${keeperHint}`,
+      isAttack ? '#2ecc71' : '#e67e22',
+      24
+    );
+  }
+  
+  private updateShootout(delta: number, input: InputState): void {
+    const isAttack = this.shootout.getKind() === 'attack';
+    const backlineX = isAttack ? this.fieldWidth - TUNING.PITCH_LINE_INSET : TUNING.PITCH_LINE_INSET;
+    const taker = this.shootoutTaker;
+    
+    this.shootout.update(Math.abs(this.ball.x - backlineX), this.ball.getSpeed(), !!taker?.hasBall);
+    if (!this.shootout.isLive()) return;
+    
+    if (isAttack || !this.playerGoalkeeper) {
+      this.player.update(delta, input);
+    } else if (this.playerGoalkeeper.isManualControl()) {
+      this.playerGoalkeeper.steer(input.moveX, input.moveY, input.dodge);
+    }
+    if (taker && taker !== this.player) {
+      taker.update(delta);
+    }
+    
+    this.ball.update(delta);
+    this.enemyGoalkeeper?.update(delta);
+    this.playerGoalkeeper?.update(delta);
+    this.checkOutOfPlay();
+  }
+  
+  /** Shootout goals count for the series, not the moment score */
+  private scoreShootoutGoal(isRightGoal: boolean): void {
+    const attackedRight = this.shootout.getKind() === 'attack';
+    if (isRightGoal !== attackedRight) {
+      this.shootout.end('missed');
+      return;
+    }
+    
+    if (isRightGoal) {
+      this.audioSystem.playGoal();
+    } else {
+      this.audioSystem.playConcede();
+    }
+    this.shakeGoalNet(!isRightGoal);
+    this.shootout.end('goal');
+  }
+  
+  /**
+   * Series attempts freeze until the next setup. A missed or saved stroke
+   * is a 16-yard hit to the defense; a scored one went through scoreGoal.
+   */
+  private onShootoutRoundOver(result: ShootoutResult, kind: ShootoutRoundKind, oneOff: boolean): void {
+    const labels: Record<ShootoutResult, string> = {
+      goal: '⚽ SCORED!',
+      saved: '🧤 SAVED!',
+      missed: 'MISSED!',
+      timeout: '⏱️ TIME!'
+    };
+    const isGoodForPlayer = (result === 'goal') === (kind === 'attack');
+    if (!(oneOff && result === 'goal')) {
+      this.showFloatingText(this.ball.x, this.ball.y - 30, labels[result], isGoodForPlayer ? '#2ecc71' : '#e74c3c', 22);
+    }
+    
+    if (!oneOff) {
+      this.ball.setVelocity(0, 0);
+      [this.player, ...this.teammates, ...this.enemies].forEach(entity => entity.setVelocity(0, 0));
+      return;
+    }
+    
+    this.endShootoutPlay();
+    if (result !== 'goal') {
+      const line: OutOfPlayLine = kind === 'attack' ? 'rightBackline' : 'leftBackline';
+      this.takeRestart(this.restarts.award(line, kind === 'attack' ? 'player' : 'enemy', this.ball.x, this.ball.y));
+    }
+  }
+  
+  private onShootoutDecided(winner: ShootoutWinner): void {
+    this.endShootoutPlay();
+    this.showFloatingText(
+      this.cameras.main.centerX,
+      this.cameras.main.centerY - 120,
+      winner === 'player' ? '🏆 SHOOTOUT WON!' : 'SHOOTOUT LOST',
+      winner === 'player' ? '#f1c40f' : '#e74c3c',
+      30
+    );
+    this.momentSystem.shootoutDecided(winner === 'player');
+  }
+  
+  /** Level at the end of a cup decider: settle it from the spot */
+  private startDeciderShootout(): void {
+    this.penaltyCorners.stop();
+    this.uiSystem.hidePenaltyCorners();
+    this.restarts.clear();
+    this.releaseSinBin();
+    
+    this.toastManager.warning('All square - it goes to a shootout!', '🎯');
+    this.shootout.startSeries('shootout', TUNING.SHOOTOUT_DECIDER_ROUNDS);
+  }
+  
+  /** Hand the keeper back to the AI and put the teams back together */
+  private endShootoutPlay(): void {
+    this.playerGoalkeeper?.setManualControl(false);
+    this.shootoutTaker = null;
+    this.updateEntityReferences();
+    this.uiSystem.hideShootout();
+  }
+  
+  // ========================================
+  // AERIAL BALLS
+  // ========================================
+  
+  /**
+   * A lifted ball on its way down is contested by whoever is under it. The
+   * losing side can't take it until it lands; Aerial Dominance always wins.
+   */
+  private resolveAerialContest(): void {
+    if (!this.ball.isAwaitingAerialContest()) return;
+    
+    const spot = this.ball.getLandingSpot();
+    const isUnder = (e: any) => Phaser.Math.Distance.Between(e.x, e.y, spot.x, spot.y) <= TUNING.AERIAL_CONTEST_RADIUS;
+    const ours = this.getPlayerTeamOnPitch().filter(isUnder);
+    const theirs = this.enemies.filter(isUnder);
+    if (ours.length === 0 || theirs.length === 0) {
+      this.ball.awardAerial('none');
+      return;
+    }
+    
+    const chance = this.upgradeSystem.getStatBonus('winAerials') > 0
+      ? 100
+      : TUNING.AERIAL_CONTEST_CHANCE + this.upgradeSystem.getStatBonus('aerialContest');
+    const playerWins = this.playRandom.next() * 100 < chance;
+    this.ball.awardAerial(playerWins ? 'player' : 'enemy');
+    
+    console.log(`[AERIAL] Contest at (${Math.round(spot.x)}, ${Math.round(spot.y)}) won by ${playerWins ? 'player' : 'enemy'} team`);
+    this.showFloatingText(spot.x, spot.y - 30, playerWins ? '🎈 AERIAL WON' : 'AERIAL LOST', playerWins ? '#a29bfe' : '#e67e22', 16);
+  }
+  
+  // ========================================
+  // OUT OF PLAY & RESTARTS
+  // ========================================
+  
+  /**
+   * Ball over a sideline, or over a backline outside the goal mouth
+   * (goal detection and the nets handle the mouth). Returns true if play stopped.
+   */
+  private checkOutOfPlay(): boolean {
+    // Nothing is out until the restart has been played
+    if (this.isGoalScored || this.restarts.isWithTaker(this.ball.owner)) return false;
+    
+    const limit = TUNING.PITCH_LINE_INSET - TUNING.OUT_OF_PLAY_MARGIN;
+    const x = this.ball.x;
+    const y = this.ball.y;
+    
+    let line: OutOfPlayLine | null = null;
+    if (y < limit || y > this.fieldHeight - limit) {
+      line = 'sideline';
+    } else if (x < limit || x > this.fieldWidth - limit) {
+      const inGoalMouth = Math.abs(y - this.fieldHeight / 2) <= this.goalHeight / 2 + TUNING.OUT_OF_PLAY_MARGIN;
+      if (inGoalMouth) return false;
+      line = x < limit ? 'leftBackline' : 'rightBackline';
+    }
+    
+    if (!line) return false;
+    
+    this.callOutOfPlay(line);
+    return true;
+  }
+  
+  private callOutOfPlay(line: OutOfPlayLine): void {
+    this.audioSystem.playWhistle();
+    
+    // Over a line during a stroke or shootout just ends the attempt
+    if (this.shootout.isRunning()) {
+      this.shootout.end('missed');
+      return;
+    }
+    
+    // Over the line during a corner ends the corner; corner moments go to the next one
+    if (this.penaltyCorners.isLive()) {
+      this.penaltyCorners.end('cleared');
+      if (this.penaltyCorners.isCornerMoment()) return;
+    }
+    
+    const restart = this.restarts.award(line, this.ball.lastTouchTeam, this.ball.x, this.ball.y);
+    console.log(`[OUT] ${line}, last touch ${this.ball.lastTouchTeam}`);
+    this.takeRestart(restart);
+  }
+  
+  /**
+   * Nearest player of the taking team goes on the ball behind the spot,
+   * opponents inside 5m are moved back, and everyone holds for the setup
+   */
+  private takeRestart(restart: Restart): void {
+    const isPlayerTeam = restart.team === 'player';
+    const takers: any[] = isPlayerTeam ? this.getPlayerTeamOnPitch() : [...this.enemies];
+    const opponents: any[] = isPlayerTeam ? [...this.enemies] : this.getPlayerTeamOnPitch();
+    if (takers.length === 0) return;
+    
+    const distTo = (e: any) => Phaser.Math.Distance.Between(e.x, e.y, restart.x, restart.y);
+    const taker = takers.reduce((best, e) => distTo(e) < distTo(best) ? e : best);
+    
+    [...takers, ...opponents].forEach(entity => {
+      entity.hasBall = false;
+      entity.setVelocity(0, 0);
+    });
+    
+    // Taker stands behind the ball facing the goal they attack, turned into the pitch for a side-in
+    const attackDir = isPlayerTeam ? 1 : -1;
+    const inward = restart.type === 'sideIn' ? Math.sign(this.fieldHeight / 2 - restart.y) : 0;
+    const takerAngle = Math.atan2(inward, attackDir);
+    taker.setPosition(
+      restart.x - Math.cos(takerAngle) * TUNING.RESTART_TAKER_OFFSET,
+      restart.y - Math.sin(takerAngle) * TUNING.RESTART_TAKER_OFFSET
+    );
+    taker.faceTowards(restart.x, restart.y);
+    
+    // Opponents back off 5m, toward the goal they defend if they're on the spot
+    const inset = TUNING.PITCH_LINE_INSET;
+    opponents.forEach(opponent => {
+      const dist = distTo(opponent);
+      if (dist >= TUNING.RESTART_5M_DIST) return;
+      
+      const angle = dist > 1
+        ? Math.atan2(opponent.y - restart.y, opponent.x - restart.x)
+        : (isPlayerTeam ? 0 : Math.PI);
+      opponent.setPosition(
+        Phaser.Math.Clamp(restart.x + Math.cos(angle) * TUNING.RESTART_5M_DIST, inset, this.fieldWidth - inset),
+        Phaser.Math.Clamp(restart.y + Math.sin(angle) * TUNING.RESTART_5M_DIST, inset, this.fieldHeight - inset)
+      );
+    });
+    
+    this.ball.attachTo(taker);
+    taker.receiveBall();
+    this.ball.setPosition(restart.x, restart.y);
+    this.ball.setVelocity(0, 0);
+    
+    this.restarts.begin(restart, taker, this.time.now);
+    this.showFloatingText(restart.x, restart.y - 20, RESTART_NAMES[restart.type], isPlayerTeam ? '#2ecc71' : '#e67e22', 18);
+  }
+  
+  // ========================================
+  // UMPIRE
+  // ========================================
+  
+  /**
+   * Whistle a foul: card the offender if it's earned, then give the other
+   * team a free hit, or a corner for a foul in the offender's own D
+   */
+  private awardFoul(foul: Foul): void {
+    const victimTeam = foul.offenderTeam === 'player' ? 'enemy' : 'player';
+    const inOffendersD = this.isPointInDefendingD(foul.offenderTeam, foul.x, foul.y);
+    const award = this.umpire.getAward(foul, inOffendersD);
+    
+    this.audioSystem.playWhistle();
+    this.showFloatingText(foul.x, foul.y - 30, `🚩 ${FOUL_NAMES[foul.type]}`, '#f1c40f', 18);
+    console.log(`[UMPIRE] ${FOUL_NAMES[foul.type]} by ${foul.offenderTeam} -> ${award}`);
+    
+    const card = this.umpire.penalize(foul);
+    if (card) {
+      this.sendToSinBin(foul.offender, card);
+    }
+    
+    // Corner moments: a foul by the defense in the D retakes the corner, anything else ends it
+    if (this.penaltyCorners.isCornerMoment()) {
+      if (award !== 'freeHit' && foul.offenderTeam !== this.penaltyCorners.getAttackingTeam()) {
+        this.penaltyCorners.retake();
+      } else {
+        this.penaltyCorners.end('foul');
+      }
+      return;
+    }
+    
+    if (award === 'freeHit') {
+      this.penaltyCorners.end('foul');
+      this.takeRestart(this.restarts.freeHit(victimTeam, foul.x, foul.y));
+      return;
+    }
+    
+    // A carded player can't take their own stroke, so that's a corner instead
+    if (award === 'penaltyStroke' && !(victimTeam === 'player' && this.umpire.isSinBinned(this.player))) {
+      this.penaltyCorners.end('foul');
+      this.shootout.awardStroke(victimTeam === 'player' ? 'attack' : 'keeper');
+      return;
+    }
+    
+    this.penaltyCorners.award(victimTeam === 'player' ? 'attack' : 'defend');
+  }
+  
+  /** Obstruction gets a free hit for the other team; returns true if it was called */
+  private checkObstruction(delta: number): boolean {
+    const carrier = this.ball.owner;
+    const isPlayerTeam = carrier === this.player || this.teammates.includes(carrier);
+    if (!carrier || (!isPlayerTeam && !this.enemies.includes(carrier))) return false;
+    
+    const opponents: any[] = isPlayerTeam ? [...this.enemies] : this.getPlayerTeamOnPitch();
+    const foul = this.umpire.checkObstruction(carrier, isPlayerTeam ? 'player' : 'enemy', opponents, this.ball, delta);
+    if (!foul) return false;
+    
+    this.awardFoul(foul);
+    return true;
+  }
+  
+  /**
+   * Off to the bench on the halfway sideline. AI leave their team's list and
+   * the AI system benches whoever it is, so nobody passes to or marks them.
+   */
+  private sendToSinBin(entity: any, card: CardColor): void {
+    if (entity.hasBall) {
+      entity.loseBall();
+    }
+    entity.setVelocity(0, 0);
+    entity.setPosition(this.fieldWidth / 2, TUNING.PITCH_LINE_INSET / 2);
+    entity.setAlpha(0.35);
+    entity.body.enable = false;
+    this.aiSystem.setBenched(entity, true);
+    
+    const list: any[] = this.teammates.includes(entity) ? this.teammates : this.enemies;
+    const index = list.indexOf(entity);
+    if (index >= 0) {
+      list.splice(index, 1);
+      this.updateEntityReferences();
+    }
+    
+    const seconds = this.umpire.sendToSinBin(entity, card, () => this.returnFromSinBin(entity, list)) / 1000;
+    const icon = card === 'yellow' ? '🟨' : '🟩';
+    this.showFloatingText(entity.x, entity.y + 40, `${icon} ${card.toUpperCase()} CARD`, card === 'yellow' ? '#f1c40f' : '#2ecc71', 22);
+    
+    if (entity === this.player) {
+      this.toastManager.warning(`Sin-binned for ${seconds}s`, icon);
+    } else if (index >= 0 && list === this.teammates) {
+      this.toastManager.info(`Teammate sin-binned for ${seconds}s`, icon);
+    }
+  }
+  
+  /** Back on at the halfway line, on their own side */
+  private returnFromSinBin(entity: any, list: any[]): void {
+    const side = entity === this.player || list === this.teammates ? -1 : 1;
+    entity.setPosition(this.fieldWidth / 2 + side * 40, TUNING.PITCH_LINE_INSET + 30);
+    entity.setAlpha(1);
+    entity.body.enable = true;
+    this.aiSystem.setBenched(entity, false);
+    
+    if (entity !== this.player) {
+      list.push(entity);
+      this.updateEntityReferences();
+    }
+    this.showFloatingText(entity.x, entity.y + 20, 'BACK ON', '#bdc3c7', 14);
+  }
+  
+  /** New moment: the player comes back on, benched AI are cleared with their teams */
+  private releaseSinBin(): void {
+    this.umpire.resetMoment().forEach(entity => {
+      this.aiSystem.setBenched(entity, false);
+      if (entity === this.player) {
+        entity.setAlpha(1);
+        entity.body.enable = true;
+      } else {
+        entity.destroy();
+      }
+    });
+  }
+  
+  /** Player and teammates, minus a carded player */
+  private getPlayerTeamOnPitch(): any[] {
+    return this.umpire.isSinBinned(this.player) ? [...this.teammates] : [this.player, ...this.teammates];
+  }
+  
+  // Flag to prevent ball pickup during moment initialization
+  private isInitializingMoment: boolean = false;
+  
+  private startMoment(): void {
+    this.isTransitioning = false;
+    this.isGoalScored = false;
+    this.isCountingDown = false;  // A run can end mid-countdown, and the scene is reused
+    this.goalCooldownUntil = 0;
+    this.teammateTackleAt = -Infinity;
+    this.isInitializingMoment = true;  // Prevent ball pickups during setup
+    this.restarts.clear();
+    this.goalReplay.clear();
+    this.releaseSinBin();
+    this.resetMomentStats();
+    
+    // Recover health / reset stamina at moment start (Part C)
+    this.resetPlayerHealth();
+    
+    const moment = this.momentSystem.getCurrentMoment();
+    if (!moment) return;
+    
+    // Determine who starts with ball BEFORE creating entities
+    const enemyStartsWithBall = moment.objective === 'defend' || 
+                                 moment.objective === 'survive' ||
+                                 moment.objective === 'turnover' ||
+                                 moment.objective === 'pressWin';
+    
+    // Reset all entities to kickoff positions (each team in own half)
+    this.resetToKickoffPositions(enemyStartsWithBall);
+    
+    // Create teammates and enemies with proper kickoff positions
+    this.createTeammates(moment.teamSize.player - 1);
+    this.createEnemies(moment.teamSize.enemy, moment.isBoss);
+    
+    // Recreate enemy goalkeeper for each moment (Part C)
+    this.createEnemyGoalkeeper();
+    
+    this.updateEntityReferences();
+    this.setupCollisions();
+    
+    // Pitch conditions come from the moment's modifiers
+    this.weatherSystem.startMoment(moment);
+    this.player.setWeather(this.weatherSystem.getPlayerTraction(), this.weatherSystem.getStaminaDrain());
+    if (this.weatherSystem.isActive()) {
+      const weather = this.weatherSystem.getWeather();
+      this.showFloatingText(this.player.x, this.player.y - 50, `${weather.icon} ${weather.name}`, '#81ecec', 20);
+    }
+    
+    this.momentSystem.startMoment();
+    this.upgradeSystem.resetMoment();
+    this.upgradeSystem.emitEvent('momentStart', {
+      player: this.player,
+      ball: this.ball,
+      scene: this,
+      time: this.time.now
+    });
+    
+    // === ASSIGN BALL POSSESSION ===
+    // This MUST happen after everything else is set up
+    if (enemyStartsWithBall && this.enemies.length > 0) {
+      // Choose a midfielder or forward to carry the ball (not the defender)
+      const carrier = this.enemies.find(e => e.role === 'midfielder' || e.role === 'forward') || this.enemies[0];
+      
+      // Clear any accidental possession first
+      this.player.hasBall = false;
+      this.teammates.forEach(t => t.hasBall = false);
+      this.enemies.forEach(e => e.hasBall = false);
+      
+      // Attach ball to enemy carrier
+      this.ball.attachTo(carrier);
+      carrier.receiveBall();
+      this.ball.setLastPossessingTeam('enemy');
       
       // Move ball to carrier's position
       this.ball.setPosition(carrier.x + 15, carrier.y);
@@ -2188,6 +3516,34 @@ export class RunScene extends Phaser.Scene {
       console.log(`[MOMENT] Setup lock released after ${setupLockMs}ms`);
     });
     
+    // Penalty corner moments are played as a run of set pieces
+    this.penaltyCorners.start(moment);
+    if (!this.penaltyCorners.isRunning()) {
+      this.uiSystem.hidePenaltyCorners();
+    }
+    
+    // Shootout moments skip open play altogether
+    this.shootout.start(moment);
+    if (!this.shootout.isRunning()) {
+      this.uiSystem.hideShootout();
+    }
+    
+    // Moment modifiers on the enemy team (Intense Press, Star Player)
+    this.enemyModifiers.startMoment(moment, this.enemies);
+    const star = this.enemies.find(enemy => this.enemyModifiers.isStar(enemy));
+    if (star) {
+      this.showFloatingText(star.x, star.y - 30, '⭐ STAR PLAYER', '#f1c40f', 16);
+    }
+    
+    // Boss moments: the bosses are always the first enemies
+    this.bossSystem.start(moment, this.enemies.filter(enemy => enemy.enemyType === 'boss'));
+    this.enemyGoalkeeper?.setStyle(this.bossSystem.getKeeperStyle());
+    if (this.bossSystem.isActive()) {
+      this.uiSystem.showBossBar(moment.name);
+    } else {
+      this.uiSystem.hideBossBar();
+    }
+    
     this.audioSystem.playWhistle();
   }
   
@@ -2224,6 +3580,9 @@ export class RunScene extends Phaser.Scene {
     const midX = this.fieldWidth / 2;
     const midY = this.fieldHeight / 2;
     
+    this.restarts.clear();
+    this.bossSystem.clearPlay();
+    
     // Clear all possession first
     this.player.hasBall = false;
     this.teammates.forEach(t => {
@@ -2235,9 +3594,11 @@ export class RunScene extends Phaser.Scene {
       e.setVelocity(0, 0);
     });
     
-    // Reset player to center of their half
-    this.player.setPosition(midX - 100, midY);
-    this.player.setVelocity(0, 0);
+    // Reset player to center of their half (unless they're sitting out a card)
+    if (!this.umpire.isSinBinned(this.player)) {
+      this.player.setPosition(midX - 100, midY);
+      this.player.setVelocity(0, 0);
+    }
     
     // Reset teammates to their half
     const teammatePositions = [
@@ -2303,10 +3664,11 @@ export class RunScene extends Phaser.Scene {
   }
   
   /**
-   * Reset player health at moment start
+   * Moment start: health carries over and partially recovers, stamina refills
    */
   private resetPlayerHealth(): void {
-    this.player.resetHealth();
+    const recoveryPercent = TUNING.MOMENT_RECOVERY_PERCENT + this.getMetaEffect('healingRate');
+    this.player.heal(this.player.maxHealth * recoveryPercent / 100);
     this.player.resetStamina();
   }
   
@@ -2367,8 +3729,24 @@ export class RunScene extends Phaser.Scene {
     return iconMap[upgradeId] || iconMap['default'];
   }
   
+  // When a teammate last went in for a tackle (Team Sacrifice holds the player back after it)
+  private teammateTackleAt: number = -Infinity;
+  
   private attemptTackle(tackler: any, target?: any): void {
-    const tackleRange = TUNING.AI_TACKLE_DISTANCE + 10;
+    const tacklerIsPlayer = tackler === this.player;
+    if (this.teammates.includes(tackler)) {
+      this.teammateTackleAt = this.time.now;
+    } else if (tacklerIsPlayer && this.time.now - this.teammateTackleAt < this.upgradeSystem.getStatBonus('tackleDelayAfterTeammate')) {
+      this.showFloatingText(this.player.x, this.player.y - 30, '🤝 WAIT', '#95a5a6', 14);
+      return;
+    }
+    
+    let tackleRange = TUNING.AI_TACKLE_DISTANCE + 10;
+    if (tacklerIsPlayer) {
+      tackleRange = this.upgradeSystem.getEffectValue(tackleRange, 'tackleRange');
+    } else if (tackler instanceof EnemyAI) {
+      tackleRange *= tackler.getStatMultiplier('tackleRange');
+    }
     
     let carrier: any = null;
     if (target && target.hasBall) {
@@ -2380,20 +3758,43 @@ export class RunScene extends Phaser.Scene {
     
     if (!carrier) return;
     
-    // Check for recovery invulnerability (Part 2 - no chain tackles)
-    if (carrier.isInvulnerable) {
+    // Check for recovery invulnerability (Part 2 - no chain tackles) and dodge i-frames
+    if (carrier.isInvulnerable || carrier.hasIframes?.()) {
       return;
     }
     
     const dist = Phaser.Math.Distance.Between(tackler.x, tackler.y, carrier.x, carrier.y);
     
     if (dist < tackleRange) {
-      const tackleSuccess = TUNING.TACKLE_SUCCESS_BASE + (tackler.stats?.tackle || 5) * TUNING.TACKLE_SUCCESS_SCALE;
+      let tackleSuccess = TUNING.TACKLE_SUCCESS_BASE + (tackler.stats?.tackle || 5) * TUNING.TACKLE_SUCCESS_SCALE;
+      if (tackler.hasAffix?.('stickyStick')) {
+        tackleSuccess += TUNING.AFFIX_STICKY_TACKLE_BONUS;
+      }
+      
+      // Tunnel Vision: worse odds when tackling from behind the carrier
+      if (tacklerIsPlayer && this.isTackleFromBehind(tackler, carrier)) {
+        tackleSuccess = this.upgradeSystem.getEffectValue(tackleSuccess, 'backTackleSuccess');
+      }
       
       // Track if tackler is AI enemy (for AI-DEFENSE v3 stats)
       const tacklerIsAI = this.enemies.includes(tackler);
       
-      if (Math.random() < tackleSuccess) {
+      // Nutmeg / Bull Rush turn a lost ball into a failed tackle
+      const tackleWon = this.playRandom.next() < tackleSuccess && !(carrier === this.player && this.tryEvadeTackle());
+      
+      // The umpire sees every challenge; Foul Prone gives away the ones that would have won it
+      const foul = this.umpire.judgeTackle({
+        tackler,
+        tacklerTeam: tackler === this.player || this.teammates.includes(tackler) ? 'player' : 'enemy',
+        carrier,
+        fromBehind: this.isTackleFromBehind(tackler, carrier),
+        tacklerSpeed: tackler.body?.velocity.length() ?? 0,
+        extraFoulChance: tackleWon && tacklerIsPlayer ? this.upgradeSystem.getStatBonus('foulChance') : 0
+      });
+      
+      if (foul) {
+        this.callTackleFoul(foul, carrier);
+      } else if (tackleWon) {
         // === SUCCESSFUL TACKLE - VERY PUNISHING! (Part 2) ===
         
         // Record AI tackle success (Part A)
@@ -2406,23 +3807,32 @@ export class RunScene extends Phaser.Scene {
         if (carrier.applyHitstop) carrier.applyHitstop(TUNING.TACKLE_HITSTOP_MS);
         
         // 2) Carrier loses ball and gets LONG stun (PUNISHING)
+        // The Enforcer's tackles land harder; curses can make every enemy tackle stun longer
+        const tackleMult = this.bossSystem.getTackleMult(tackler);
+        const stunMult = tackler instanceof EnemyAI ? tackler.getStatMultiplier('tackleStun') : 1;
+        // Momentum Curse: losing the ball costs the player a longer stun
+        const turnoverStun = carrier === this.player && this.upgradeSystem.getStatBonus('turnoverPenalty') > 0
+          ? TUNING.CURSE_TURNOVER_STUN_MS
+          : 0;
         carrier.loseBall();
-        carrier.applyStun(TUNING.TACKLE_STUN_MS);  // 450ms - can't act!
+        carrier.applyStun(TUNING.TACKLE_STUN_MS * tackleMult * stunMult + turnoverStun);  // 450ms - can't act!
         
         // 3) Apply STRONGER knockback to carrier - push them AWAY
         const dx = carrier.x - tackler.x;
         const dy = carrier.y - tackler.y;
-        const knockbackForce = TUNING.TACKLE_KNOCKBACK_CARRIER;  // 580 now
+        // Crunch Tackle sends them further
+        const knockbackMult = tacklerIsPlayer ? this.upgradeSystem.getEffectValue(1, 'tackleKnockback') : 1;
+        const knockbackForce = TUNING.TACKLE_KNOCKBACK_CARRIER * tackleMult * knockbackMult;  // 580 now
         if (carrier.applyKnockback) {
           carrier.applyKnockback(dx, dy, knockbackForce);
-        } else if (carrier.body) {
+        } else if (carrier.body && !carrier.hasAffix?.('ironclad')) {
           const len = Math.sqrt(dx * dx + dy * dy) || 1;
           carrier.body.velocity.x += (dx / len) * knockbackForce;
           carrier.body.velocity.y += (dy / len) * knockbackForce;
         }
         
         // 4) Ball pops loose with scatter - toward advantage position
-        const scatterAngle = Math.atan2(dy, dx) + (Math.random() - 0.5) * 0.6;
+        const scatterAngle = Math.atan2(dy, dx) + (this.playRandom.next() - 0.5) * 0.6;
         const scatterDir = { x: Math.cos(scatterAngle), y: Math.sin(scatterAngle) };
         this.ball.kick(scatterDir, TUNING.TACKLE_BALL_POP + TUNING.TACKLE_BALL_SCATTER, 0, 'tackle');
         this.ball.isLoose = true;
@@ -2464,6 +3874,7 @@ export class RunScene extends Phaser.Scene {
             time: this.time.now
           });
           SaveSystem.getInstance().incrementStat('totalSteals');
+          this.events.emit('tackleWon', { tackler, carrier, byPlayer: true });
           
           // ADVANTAGE PLAY (Part D) - trigger buff after clean steal
           this.triggerAdvantagePlay();
@@ -2522,6 +3933,12 @@ export class RunScene extends Phaser.Scene {
         
         if (tackler === this.player) {
           this.momentStats.tacklesLost++;
+          
+          // Reckless: missed tackles take longer to recover from
+          const extraCooldown = TUNING.COOLDOWN_TACKLE * this.upgradeSystem.getStatBonus('missedTackleCooldown') / 100;
+          if (extraCooldown > 0) {
+            this.player.addTackleCooldown(extraCooldown);
+          }
         }
       }
       
@@ -2529,6 +3946,60 @@ export class RunScene extends Phaser.Scene {
     }
   }
   
+  /**
+   * Player slips a tackle that would have won the ball
+   */
+  private tryEvadeTackle(): boolean {
+    if (this.playRandom.next() * 100 < this.upgradeSystem.getStatBonus('tacklePhaseChance')) {
+      this.showFloatingText(this.player.x, this.player.y, '🥜 NUTMEG!', '#b388ff', 18);
+      return true;
+    }
+    
+    const isSprinting = this.player.body!.velocity.length() >= TUNING.SPRINT_THROUGH_MIN_SPEED;
+    if (isSprinting && this.playRandom.next() * 100 < this.upgradeSystem.getStatBonus('sprintThroughChance')) {
+      this.showFloatingText(this.player.x, this.player.y, '🐂 BULLDOZED!', '#e67e22', 18);
+      return true;
+    }
+    
+    return false;
+  }
+  
+  /**
+   * Tackler is coming in from behind the carrier's direction of travel
+   */
+  private isTackleFromBehind(tackler: any, carrier: any): boolean {
+    const vel = carrier.body?.velocity;
+    if (!vel || Math.abs(vel.x) + Math.abs(vel.y) < 20) return false;
+    
+    const dx = tackler.x - carrier.x;
+    const dy = tackler.y - carrier.y;
+    return dx * vel.x + dy * vel.y < 0;
+  }
+  
+  /**
+   * Tackle called as a foul: no turnover, the tackler is briefly stunned
+   * and the umpire awards the restart
+   */
+  private callTackleFoul(foul: Foul, carrier: any): void {
+    const tackler = foul.offender;
+    tackler.applyStun(TUNING.TRAIT_FOUL_STUN_MS);
+    if (this.enemies.includes(tackler)) {
+      this.aiSystem.recordTackleAttempt(false);
+      this.aiSystem.setTackleBackoff(tackler, TUNING.AI_TACKLE_BACKOFF_MS);
+    }
+    
+    // Carrier can't be tackled straight away while taking the free hit
+    carrier.isInvulnerable = true;
+    this.time.delayedCall(TUNING.TACKLE_RECOVERY_INVULN_MS, () => {
+      carrier.isInvulnerable = false;
+    });
+    
+    if (tackler === this.player) {
+      this.momentStats.tacklesLost++;
+    }
+    this.awardFoul(foul);
+  }
+  
   private scoreGoal(isPlayerGoal: boolean): void {
     this.isGoalScored = true;
     this.isTransitioning = true;
@@ -2567,13 +4038,16 @@ export class RunScene extends Phaser.Scene {
       const isRebound = this.ball.isRebound;
       const lastOwner = this.ball.lastOwner;
       const isFromAssist = lastOwner && lastOwner !== this.ball.lastShooter;
+      const scorer = this.ball.lastShooter || lastOwner;
       
       this.momentSystem.playerScored(isRebound, isFromAssist);
+      this.events.emit('goalScored', { isPlayerGoal: true, scorer, byPlayer: scorer === this.player, isRebound });
       
       this.upgradeSystem.emitEvent('goal', {
         player: this.player,
         scene: this,
-        time: this.time.now
+        time: this.time.now,
+        playerInAttackingD: scorer === this.player && this.ball.lastShotFromInsideD
       });
       
       SaveSystem.getInstance().incrementStat('totalGoals');
@@ -2589,12 +4063,42 @@ export class RunScene extends Phaser.Scene {
       this.uiSystem.showGoalNotification(false);
       this.shakeGoalNet(true);
       this.momentSystem.enemyScored();
+      this.events.emit('goalScored', { isPlayerGoal: false, scorer: this.ball.lastShooter, byPlayer: false, isRebound: false });
     }
     
-    // Reset after freeze period
+    // Corner moments go straight to the next corner instead of a kickoff
+    const isCornerMoment = this.penaltyCorners.isCornerMoment();
+    this.penaltyCorners.end('goal');
+    this.shootout.end('goal');
+    if (isCornerMoment) return;
+    
+    // Replay (if enabled) and reset after freeze period
     this.time.delayedCall(1000, () => {
+      this.showGoalReplay();
+    });
+  }
+  
+  /**
+   * Broadcast-style replay of the goal, then the kickoff. Straight to the
+   * kickoff when replays are off in settings or the goal ended the moment.
+   */
+  private showGoalReplay(): void {
+    const replaysOn = SaveSystem.getInstance().getSettings().goalReplays && !this.simulation;
+    if (!replaysOn || this.momentSystem.getCurrentState()?.isComplete) {
+      this.showKickoffCountdown();
+      return;
+    }
+    
+    const playing = this.goalReplay.play(this.ball, () => {
+      this.momentSystem.setClockHeld(false);
+      this.cameras.main.startFollow(this.player, true, 0.1, 0.1);
       this.showKickoffCountdown();
     });
+    if (playing) {
+      this.momentSystem.setClockHeld(true);
+    } else {
+      this.showKickoffCountdown();
+    }
   }
   
   /**
@@ -2728,6 +4232,7 @@ export class RunScene extends Phaser.Scene {
     
     this.isCountingDown = true;
     this.resetPositions();
+    this.goalReplay.clear();
     
     let count = 3;
     const countdownText = this.add.text(
@@ -2778,10 +4283,19 @@ export class RunScene extends Phaser.Scene {
   
   private handleMomentComplete(data: any): void {
     this.isTransitioning = true;
+    this.penaltyCorners.stop();
+    this.shootout.stop();
+    this.bossSystem.stop();
+    this.endShootoutPlay();
     
     // === DEV LOGGING ===
     console.log(`[MOMENT_RESULT] ${data.isWon ? 'WIN' : 'FAIL'}`);
     
+    if (this.simulation) {
+      this.reportSimulation(data.isWon);
+      return;
+    }
+    
     const cupState = data.cupState;
     if (cupState) {
       console.log(`[CUP_SCORE] You ${cupState.playerPoints} - ${cupState.enemyPoints} Enemy`);
@@ -2806,7 +4320,9 @@ export class RunScene extends Phaser.Scene {
     
     this.time.delayedCall(2000, () => {
       if (this.momentStats.shotsTaken > 0 || this.momentStats.tacklesWon > 0) {
-        this.uiSystem.showMomentRecap(this.momentStats, () => {
+        const recap = this.uiSystem.showMomentRecap(this.momentStats, () => this.makeChoice('recap'));
+        this.offerChoice('recap', () => {
+          recap.destroy();
           this.proceedAfterMoment(data);
         });
       } else {
@@ -2823,6 +4339,9 @@ export class RunScene extends Phaser.Scene {
       return;
     }
     
+    // Between-moment checkpoint so the run survives a closed tab
+    this.saveRunCheckpoint(!!data?.shouldTriggerComebackCurses);
+    
     // Check for Comeback Curses trigger
     if (data?.shouldTriggerComebackCurses) {
       this.showComebackCursesOverlay(() => {
@@ -2833,6 +4352,132 @@ export class RunScene extends Phaser.Scene {
     }
   }
   
+  // ========================================
+  // META UPGRADES (Store)
+  // ========================================
+  
+  /** Effect value bought in the Store for a meta upgrade (0 if not owned) */
+  private getMetaEffect(metaUpgradeId: string): number {
+    const metaUpgrade = getMetaUpgradeById(metaUpgradeId);
+    if (!metaUpgrade) return 0;
+    return getMetaUpgradeEffect(metaUpgrade, SaveSystem.getInstance().getMetaUpgradeLevel(metaUpgradeId));
+  }
+  
+  /**
+   * Starting stat bonuses (Quick Start, Soft Touch, ...). Applied to resumed runs too -
+   * they aren't part of the saved upgrade list.
+   */
+  private applyMetaStatModifiers(): void {
+    const statEffects = ['speed', 'control', 'shotPower', 'tackle', 'stamina'];
+    
+    META_UPGRADES
+      .filter(meta => statEffects.includes(meta.effect.type))
+      .forEach(meta => {
+        const value = this.getMetaEffect(meta.id);
+        if (value > 0) {
+          this.upgradeSystem.addModifier({ stat: meta.effect.type, value });
+        }
+      });
+    
+    this.player.resetStamina();  // Max stamina follows the stamina stat
+  }
+  
+  /**
+   * Head Start: free random upgrades before moment 1
+   */
+  private grantStartingUpgrades(): void {
+    const count = this.getMetaEffect('startingUpgrade');
+    if (count <= 0) return;
+    
+    const picks = getRandomUpgrades(
+      count,
+      1,
+      this.upgradeSystem.getOwnedUpgradeIds(),
+      this.runRandom.fork('headStart').next,
+      this.getMetaEffect('rarityBoost'),
+      this.getLockedUpgradeIds()
+    );
+    
+    picks.forEach(upgrade => {
+      this.upgradeSystem.pickUpgrade(upgrade.id);
+      this.toastManager.success(`HEAD START: ${upgrade.name}`, upgrade.icon);
+    });
+  }
+  
+  /**
+   * Challenge and milestone upgrades stay out of the draft until unlocked
+   */
+  private getLockedUpgradeIds(): string[] {
+    return getLockedUpgradeIds(SaveSystem.getInstance().getUnlockedUpgrades());
+  }
+  
+  // ========================================
+  // SUSPEND / RESUME
+  // ========================================
+  
+  /**
+   * Write the suspended-run record. Called after a moment completes,
+   * before the curse offer and upgrade draft for the next one.
+   */
+  private saveRunCheckpoint(pendingCurseChoice: boolean): void {
+    const snapshot = this.momentSystem.getRunSnapshot();
+    
+    // Last moment done - the run ends on nextMoment(), nothing to resume
+    if (snapshot.momentIndex + 1 >= snapshot.momentIds.length) {
+      SaveSystem.getInstance().clearSuspendedRun();
+      return;
+    }
+    
+    SaveSystem.getInstance().setSuspendedRun({
+      characterId: this.character.id,
+      seed: this.runRandom.seed,
+      ...snapshot,
+      ownedUpgradeIds: this.upgradeSystem.getOwnedUpgradeIds(),
+      playerHealth: this.player.health,
+      randomStreams: {
+        draft: this.draftRandom.getState(),
+        curses: this.curseRandom.getState(),
+        affixes: this.affixRandom.getState(),
+        play: this.playRandom.getState()
+      },
+      pendingCurseChoice,
+      savedAt: Date.now()
+    });
+    
+    console.log(`[RUN_CHECKPOINT] Saved after moment ${snapshot.momentIndex + 1}/${snapshot.momentIds.length}`);
+  }
+  
+  /**
+   * Rebuild run state from a checkpoint: moments, cup score, upgrades,
+   * active curse and player health. Returns false if it can't be restored.
+   */
+  private resumeSuspendedRun(run: SuspendedRun): boolean {
+    if (!this.momentSystem.resumeRun(run)) {
+      return false;
+    }
+    
+    run.ownedUpgradeIds.forEach(id => this.upgradeSystem.pickUpgrade(id));
+    
+    const curse = run.cupState.activeCurseId ? getCurseById(run.cupState.activeCurseId) : undefined;
+    if (curse) {
+      this.applyCurse(curse);
+      this.uiSystem.setActiveCurse(curse.name);
+    }
+    
+    this.player.health = Math.min(run.playerHealth, this.player.maxHealth);
+    
+    // Pick the seeded streams up where they left off, so offers already seen don't come round again
+    if (run.randomStreams) {
+      this.draftRandom.restore(run.randomStreams.draft);
+      this.curseRandom.restore(run.randomStreams.curses);
+      this.affixRandom.restore(run.randomStreams.affixes);
+      this.playRandom.restore(run.randomStreams.play);
+    }
+    
+    console.log(`[RUN_RESUME] Moment ${run.momentIndex + 1}/${run.momentIds.length}, ${run.ownedUpgradeIds.length} upgrades`);
+    return true;
+  }
+  
   private continueAfterCurses(): void {
     if (this.momentSystem.nextMoment()) {
       this.showUpgradeDraft();
@@ -2840,136 +4485,139 @@ export class RunScene extends Phaser.Scene {
   }
   
   private showComebackCursesOverlay(onComplete: () => void): void {
-    // Import curses dynamically to avoid circular deps
-    import('../data/curses').then(({ getRandomCurseOptions }) => {
-      const curseOptions = getRandomCurseOptions(2);
-      
-      // Create overlay
-      const overlay = this.add.rectangle(
-        this.cameras.main.centerX,
-        this.cameras.main.centerY,
-        this.cameras.main.width,
-        this.cameras.main.height,
-        0x000000, 0.85
-      );
-      overlay.setScrollFactor(0);
-      overlay.setDepth(1000);
-      
-      // Title
-      const title = this.add.text(
-        this.cameras.main.centerX,
-        this.cameras.main.centerY - 180,
-        '⚡ COMEBACK CURSES ⚡',
-        {
-          fontFamily: 'Arial, sans-serif',
-          fontSize: '36px',
-          color: '#ff6600',
-          fontStyle: 'bold',
-          stroke: '#000000',
-          strokeThickness: 4
-        }
-      );
-      title.setOrigin(0.5);
-      title.setScrollFactor(0);
-      title.setDepth(1001);
-      
-      const subtitle = this.add.text(
-        this.cameras.main.centerX,
-        this.cameras.main.centerY - 140,
-        "You're down by 2! Choose a curse to gain power...",
-        {
-          fontFamily: 'Arial, sans-serif',
-          fontSize: '18px',
-          color: '#ffcc00'
-        }
-      );
-      subtitle.setOrigin(0.5);
-      subtitle.setScrollFactor(0);
-      subtitle.setDepth(1001);
+    const curseOptions = getRandomCurseOptions(2, [], this.curseRandom.next);
+    
+    // Create overlay
+    const overlay = this.add.rectangle(
+      this.cameras.main.centerX,
+      this.cameras.main.centerY,
+      this.cameras.main.width,
+      this.cameras.main.height,
+      0x000000, 0.85
+    );
+    overlay.setScrollFactor(0);
+    overlay.setDepth(1000);
+    
+    // Title
+    const title = this.add.text(
+      this.cameras.main.centerX,
+      this.cameras.main.centerY - 180,
+      '⚡ COMEBACK CURSES ⚡',
+      {
+        fontFamily: 'Arial, sans-serif',
+        fontSize: '36px',
+        color: '#ff6600',
+        fontStyle: 'bold',
+        stroke: '#000000',
+        strokeThickness: 4
+      }
+    );
+    title.setOrigin(0.5);
+    title.setScrollFactor(0);
+    title.setDepth(1001);
+    
+    const subtitle = this.add.text(
+      this.cameras.main.centerX,
+      this.cameras.main.centerY - 140,
+      "You're down by 2! Choose a curse to gain power...",
+      {
+        fontFamily: 'Arial, sans-serif',
+        fontSize: '18px',
+        color: '#ffcc00'
+      }
+    );
+    subtitle.setOrigin(0.5);
+    subtitle.setScrollFactor(0);
+    subtitle.setDepth(1001);
+    
+    // Create curse cards
+    const cardWidth = 280;
+    const cardHeight = 200;
+    const cardSpacing = 40;
+    const startX = this.cameras.main.centerX - (cardWidth + cardSpacing / 2);
+    
+    const cards: Phaser.GameObjects.Container[] = [];
+    
+    curseOptions.forEach((curse, index) => {
+      const cardX = startX + index * (cardWidth + cardSpacing);
+      const cardY = this.cameras.main.centerY + 20;
       
-      // Create curse cards
-      const cardWidth = 280;
-      const cardHeight = 200;
-      const cardSpacing = 40;
-      const startX = this.cameras.main.centerX - (cardWidth + cardSpacing / 2);
+      const cardBg = this.add.rectangle(0, 0, cardWidth, cardHeight, 0x331111, 1);
+      cardBg.setStrokeStyle(3, 0xff4400);
       
-      const cards: Phaser.GameObjects.Container[] = [];
+      const icon = this.add.text(0, -70, curse.icon, { fontSize: '40px' });
+      icon.setOrigin(0.5);
       
-      curseOptions.forEach((curse, index) => {
-        const cardX = startX + index * (cardWidth + cardSpacing);
-        const cardY = this.cameras.main.centerY + 20;
-        
-        const cardBg = this.add.rectangle(0, 0, cardWidth, cardHeight, 0x331111, 1);
+      const name = this.add.text(0, -30, curse.name, {
+        fontFamily: 'Arial, sans-serif',
+        fontSize: '20px',
+        color: '#ffffff',
+        fontStyle: 'bold'
+      });
+      name.setOrigin(0.5);
+      
+      const boonText = this.add.text(0, 10, `✓ ${curse.boonDescription}`, {
+        fontFamily: 'Arial, sans-serif',
+        fontSize: '14px',
+        color: '#44ff44',
+        wordWrap: { width: cardWidth - 20 }
+      });
+      boonText.setOrigin(0.5);
+      
+      const curseText = this.add.text(0, 50, `✗ ${curse.curseDescription}`, {
+        fontFamily: 'Arial, sans-serif',
+        fontSize: '14px',
+        color: '#ff4444',
+        wordWrap: { width: cardWidth - 20 }
+      });
+      curseText.setOrigin(0.5);
+      
+      const container = this.add.container(cardX, cardY, [cardBg, icon, name, boonText, curseText]);
+      container.setScrollFactor(0);
+      container.setDepth(1002);
+      container.setSize(cardWidth, cardHeight);
+      container.setInteractive({ useHandCursor: true });
+      
+      container.on('pointerover', () => {
+        cardBg.setStrokeStyle(4, 0xffff00);
+        container.setScale(1.05);
+      });
+      
+      container.on('pointerout', () => {
         cardBg.setStrokeStyle(3, 0xff4400);
-        
-        const icon = this.add.text(0, -70, curse.icon, { fontSize: '40px' });
-        icon.setOrigin(0.5);
-        
-        const name = this.add.text(0, -30, curse.name, {
-          fontFamily: 'Arial, sans-serif',
-          fontSize: '20px',
-          color: '#ffffff',
-          fontStyle: 'bold'
-        });
-        name.setOrigin(0.5);
-        
-        const boonText = this.add.text(0, 10, `✓ ${curse.boonDescription}`, {
-          fontFamily: 'Arial, sans-serif',
-          fontSize: '14px',
-          color: '#44ff44',
-          wordWrap: { width: cardWidth - 20 }
-        });
-        boonText.setOrigin(0.5);
-        
-        const curseText = this.add.text(0, 50, `✗ ${curse.curseDescription}`, {
-          fontFamily: 'Arial, sans-serif',
-          fontSize: '14px',
-          color: '#ff4444',
-          wordWrap: { width: cardWidth - 20 }
-        });
-        curseText.setOrigin(0.5);
-        
-        const container = this.add.container(cardX, cardY, [cardBg, icon, name, boonText, curseText]);
-        container.setScrollFactor(0);
-        container.setDepth(1002);
-        container.setSize(cardWidth, cardHeight);
-        container.setInteractive({ useHandCursor: true });
-        
-        container.on('pointerover', () => {
-          cardBg.setStrokeStyle(4, 0xffff00);
-          container.setScale(1.05);
-        });
-        
-        container.on('pointerout', () => {
-          cardBg.setStrokeStyle(3, 0xff4400);
-          container.setScale(1.0);
-        });
-        
-        container.on('pointerdown', () => {
-          console.log(`[CURSE_PICKED] ${curse.id} - ${curse.name}`);
-          
-          // Apply the curse
-          this.momentSystem.setActiveCurse(curse.id);
-          this.applyCurse(curse);
-          
-          // Update UI to show active curse
-          this.uiSystem.setActiveCurse(curse.name);
-          
-          // Cleanup
-          overlay.destroy();
-          title.destroy();
-          subtitle.destroy();
-          cards.forEach(c => c.destroy());
-          
-          // Show toast
-          this.toastManager.success(`Comeback Curse: ${curse.name}`, curse.icon);
-          this.audioSystem.playUpgrade();
-          
-          onComplete();
-        });
-        
-        cards.push(container);
+        container.setScale(1.0);
       });
+      
+      container.on('pointerdown', () => this.makeChoice('curse', curse.id));
+      
+      cards.push(container);
+    });
+    
+    this.offerChoice('curse', (curseId) => {
+      const curse = curseOptions.find(c => c.id === curseId);
+      if (!curse) return;
+      
+      console.log(`[CURSE_PICKED] ${curse.id} - ${curse.name}`);
+      
+      // Apply the curse
+      this.momentSystem.setActiveCurse(curse.id);
+      this.applyCurse(curse);
+      
+      // Update UI to show active curse
+      this.uiSystem.setActiveCurse(curse.name);
+      this.saveRunCheckpoint(false);
+      
+      // Cleanup
+      overlay.destroy();
+      title.destroy();
+      subtitle.destroy();
+      cards.forEach(c => c.destroy());
+      
+      // Show toast
+      this.toastManager.success(`Comeback Curse: ${curse.name}`, curse.icon);
+      this.audioSystem.playUpgrade();
+      
+      onComplete();
     });
   }
   
@@ -2981,6 +4629,9 @@ export class RunScene extends Phaser.Scene {
       });
     }
     
+    // And the downsides that fall on the enemy team
+    this.enemyModifiers.applyCurse(curse);
+    
     // Register curse hooks
     if (curse.hooks) {
       curse.hooks.forEach((hook: any) => {
@@ -2998,11 +4649,14 @@ export class RunScene extends Phaser.Scene {
     const extraChoices = saveSystem.getMetaUpgradeLevel('upgradeChoices');
     const rerolls = saveSystem.getMetaUpgradeLevel('rerollCount');
     
-    new UpgradeDraftOverlay(this, {
+    const draft = new UpgradeDraftOverlay(this, {
       momentNumber: progress.current,
       ownedUpgradeIds: this.upgradeSystem.getOwnedUpgradeIds(),
       extraChoices,
       rerolls,
+      random: this.draftRandom.next,
+      rarityBonus: this.getMetaEffect('rarityBoost'),
+      lockedUpgradeIds: this.getLockedUpgradeIds(),
       onSelect: (upgrade) => {
         console.log(`[UPGRADE_PICKED] ${upgrade.id} - ${upgrade.name}`);
         console.log(`[UPGRADE_PICKED] Modifiers:`, upgrade.modifiers);
@@ -3022,16 +4676,31 @@ export class RunScene extends Phaser.Scene {
       },
       onSkip: () => {
         this.startMoment();
+      },
+      onChoice: (choice, upgradeId) => {
+        const kinds = { pick: 'draftPick', reroll: 'draftReroll', skip: 'draftSkip' } as const;
+        this.makeChoice(kinds[choice], upgradeId);
       }
     });
+    this.offerChoice('draftPick', (upgradeId) => draft.pick(upgradeId!));
+    this.offerChoice('draftReroll', () => draft.reroll());
+    this.offerChoice('draftSkip', () => draft.skip());
   }
   
   private endRun(data: any): void {
     const cupState = this.momentSystem.getCupState();
+    SaveSystem.getInstance().clearSuspendedRun();
     const curseName = this.uiSystem.getActiveCurseName();
     
     console.log(`[RUN_END] Cup: ${cupState.playerPoints} - ${cupState.enemyPoints}, Winner: ${cupState.winner}`);
     
+    // A replay stops at the final whistle - the rewards were paid out when it was recorded
+    if (this.replay) {
+      this.replay.end();
+      return;
+    }
+    const replay = this.finishRecording();
+    
     this.time.delayedCall(1000, () => {
       this.cameras.main.fadeOut(500);
       this.cameras.main.once('camerafadeoutcomplete', () => {
@@ -3040,47 +4709,166 @@ export class RunScene extends Phaser.Scene {
           reward: data.reward,
           breakdown: data.breakdown,
           upgrades: this.upgradeSystem.getOwnedUpgrades(),
+          unlockedUpgrades: this.challengeTracker.getRunUnlocks(),
           character: this.character,
           cupRun: {
             playerPoints: cupState.playerPoints,
             enemyPoints: cupState.enemyPoints,
             winner: cupState.winner
           },
-          activeCurse: curseName
+          activeCurse: curseName,
+          seed: this.runRandom.seed,
+          replay
         });
       });
     });
   }
   
   update(time: number, delta: number): void {
-    if (this.isPaused || this.isCountingDown) return;
+    // Real positions back before anything reads them, and step time over the loop's clock time
+    this.fixedStep.restore();
+    this.time.now = this.simTime;
+    
+    // Paused: menus still animate, play stays frozen (see togglePause)
+    if (this.isPaused) {
+      this.stepTweens(delta);
+      return;
+    }
+    
+    // A replay feeds its recording at its own speed; live play reads the devices
+    const input = this.replay || this.simulation || this.isCountingDown ? null : this.readFrameInput();
+    const frameTime = this.replay ? this.replay.getFrameTime(delta) : delta;
+    
+    const steps = this.fixedStep.advance(frameTime, () => this.getSimulatedObjects(), (stepMs, isFirst) => {
+      if (this.replay) {
+        this.runStep(stepMs, this.replay.takeChoices(), this.replay.nextInput());
+      } else if (this.simulation) {
+        this.runStep(stepMs, this.takePendingChoices(), this.simulation.autopilot.getInput(this.getAutopilotView()));
+      } else {
+        const stepInput = isFirst || !input ? input : InputSystem.clearPresses(input);
+        this.runStep(stepMs, this.takePendingChoices(), this.recorder!.recordStep(stepInput));
+      }
+    });
+    this.carriedInput = steps === 0 ? input : null;
     
+    const showHud = this.replay ? !this.isCountingDown : input !== null;
+    if (showHud && !this.isTransitioning) {
+      this.updateHud(delta);
+    }
+  }
+  
+  // ========================================
+  // SIMULATION
+  // ========================================
+  
+  private fixedStep!: FixedStepSystem;
+  private carriedInput: InputState | null = null;  // Presses from frames that ran no step
+  
+  private simTime: number = 0;  // Scene clock, advanced one step at a time
+  
+  /** One fixed step: choices made since the last one, the clock and tweens, physics, then play */
+  private runStep(stepMs: number, choices: ReplayChoice[], input: InputState | null): void {
+    choices.forEach(choice => this.applyChoice(choice));
+    
+    this.simTime += stepMs;
+    this.time.paused = false;
+    this.time.preUpdate(this.simTime, stepMs);
+    this.time.update(this.simTime, stepMs);
+    this.time.paused = true;
+    this.stepTweens(stepMs);
+    
+    this.physics.world.update(this.simTime, stepMs);
+    this.physics.world.postUpdate();
+    
+    // Play only runs when nothing is holding it; what it looked like is kept for goal replays
+    if (input && !this.isPaused && !this.isTransitioning && !this.isCountingDown) {
+      this.goalReplay.record(this.getSimulatedObjects(), this.ball);
+      this.simulationStep(stepMs, input);
+    }
+    this.goalReplay.step(stepMs);
+  }
+  
+  /** Advance every tween by a fixed amount, clearing the ones that finished */
+  private stepTweens(ms: number): void {
+    this.tweens.getTweens().forEach(tween => {
+      if (tween.update(ms) && (tween.isPendingRemove() || tween.isDestroyed())) {
+        this.tweens.remove(tween);
+        tween.destroy();
+      }
+    });
+  }
+  
+  /** This frame's input after the menu keys; null while play is held */
+  private readFrameInput(): InputState | null {
     const input = this.inputSystem.getState(this.player.x, this.player.y);
     
     if (input.showHelp) {
       this.uiSystem.toggleControlsOverlay();
-      return;
+      return null;
     }
     
     if (this.uiSystem.isControlsVisible()) {
       if (input.cancel) {
         this.uiSystem.hideControlsOverlay();
       }
-      return;
+      return null;
     }
     
     if (input.pause) {
       this.togglePause();
+      return null;
+    }
+    
+    if (this.isTransitioning) return null;
+    
+    return this.carriedInput ? InputSystem.carryPresses(this.carriedInput, input) : input;
+  }
+  
+  /** Everything drawn between simulation steps */
+  private getSimulatedObjects(): any[] {
+    const objects: any[] = [this.player, ...this.teammates, ...this.enemies, this.ball];
+    if (this.enemyGoalkeeper) objects.push(this.enemyGoalkeeper);
+    if (this.playerGoalkeeper) objects.push(this.playerGoalkeeper);
+    return objects;
+  }
+  
+  /** One fixed step of play: ball, players, AI decisions and keepers */
+  private simulationStep(delta: number, input: InputState): void {
+    // Strokes and shootouts: just the taker, the keepers and the ball
+    if (this.shootout.isRunning()) {
+      this.updateShootout(delta, input);
       return;
     }
     
-    if (this.isTransitioning) return;
+    // Penalty corners: everyone holds their marks until the push-out
+    const pcGoalX = this.penaltyCorners.getSide() === 'attack' ? this.fieldWidth : 0;
+    this.penaltyCorners.update(Phaser.Math.Distance.Between(this.ball.x, this.ball.y, pcGoalX, this.fieldHeight / 2));
+    if (this.penaltyCorners.isHoldingPlay()) return;
+    
+    // Restarts: hold until the taker is set and opponents are back 5m
+    if (this.restarts.isHolding(this.time.now)) return;
+    
+    // Update player (a carded player sits it out)
+    if (!this.umpire.isSinBinned(this.player)) {
+      this.player.update(delta, input);
+    }
     
-    // Update player
-    this.player.update(delta, input);
+    // Update weather, then the ball it pushes around
+    this.weatherSystem.update(delta, this.player, this.enemies);
+    this.ball.setWeather(this.weatherSystem.getBallDragScale(), this.weatherSystem.getWind());
     
     // Update ball
     this.ball.update(delta);
+    this.resolveAerialContest();
+    this.checkExtendedPickupReach();
+    this.checkShotDeflection();
+    
+    // Over a line: stop play for the restart
+    if (this.checkOutOfPlay()) return;
+    this.restarts.update(this.ball.x, this.ball.y, this.ball.owner);
+    
+    // Umpire: a carrier standing still and shielding the ball
+    if (this.checkObstruction(delta)) return;
     
     // Update AI system team states
     this.aiSystem.updateTeamStates(this.ball, this.player, this.teammates, this.enemies, delta);
@@ -3089,6 +4877,82 @@ export class RunScene extends Phaser.Scene {
     const objective = this.momentSystem.getObjectiveDescriptor();
     this.aiSystem.setObjective(objective);
     
+    // Update teammates
+    this.teammates.forEach((t) => t.update(delta));
+    
+    // Boss moves first, so a wind-up holds the boss this step
+    this.bossSystem.update(delta, {
+      ball: this.ball,
+      playerTeam: this.getPlayerTeamOnPitch(),
+      enemies: this.enemies,
+      playerGoal: { x: 0, y: this.fieldHeight / 2 },
+      isInPlayerD: (x, y) => this.isPointInAttackingD('enemy', x, y)
+    });
+    
+    // Update enemies
+    this.enemies.forEach((e) => e.update(delta));
+    
+    // Update both goalkeepers (Part C + Part 4)
+    this.enemyGoalkeeper?.update(delta);
+    this.playerGoalkeeper?.update(delta);
+    
+    // Track possession time
+    if (this.player.hasBall || this.teammates.some(t => t.hasBall)) {
+      this.momentStats.possessionTime += delta / 1000;
+      this.momentSystem.playerHeldBall(delta / 1000);
+    }
+    
+    // Adrenaline Rush's downside: slower while the enemy has the ball
+    const defendingSpeed = this.upgradeSystem.getStatBonus('speedWhenDefending');
+    if (defendingSpeed !== 0 && this.enemies.some(e => e.hasBall)) {
+      this.upgradeSystem.addTempBuff('speedWhenDefending', 'speed', defendingSpeed, 200, 'curse');
+    }
+    
+    // Trigger onTick upgrades with FULL CONTEXT
+    const playerHasBall = this.player.hasBall;
+    const playerInAttackingD = this.isPointInAttackingD('player', this.player.x, this.player.y);
+    const playerInDefendingD = this.isPointInDefendingD('player', this.player.x, this.player.y);
+    const playerCanShoot = this.player.canShoot();
+    const playerCanPass = this.player.canPass();
+    const playerIsStationary = !this.player.isMoving || (
+      Math.abs(this.player.body?.velocity?.x || 0) < 20 &&
+      Math.abs(this.player.body?.velocity?.y || 0) < 20
+    );
+    
+    // Get moment time remaining
+    const state = this.momentSystem.getCurrentState();
+    const momentTimeRemaining = state?.timeRemaining || 0;
+    
+    // Check if player is losing
+    const cupState = this.momentSystem.getCupState();
+    const isLosing = cupState.enemyPoints > cupState.playerPoints;
+    const isWinning = cupState.playerPoints > cupState.enemyPoints;
+    const isSetPiece = this.penaltyCorners.isLive();
+    
+    this.upgradeSystem.emitEvent('tick', {
+      player: this.player,
+      ball: this.ball,
+      scene: this,
+      time: this.time.now,
+      delta: delta,
+      playerHasBall,
+      playerInAttackingD,
+      playerInDefendingD,
+      playerCanShoot,
+      playerCanPass,
+      playerIsStationary,
+      momentTimeRemaining,
+      isLosing,
+      isWinning,
+      isSetPiece,
+      possessionTime: this.momentStats.possessionTime,
+      weatherActive: this.weatherSystem.isActive(),
+      slipperyTurf: this.weatherSystem.isSlippery()
+    });
+  }
+  
+  /** HUD, trails and debug overlays: once per drawn frame */
+  private updateHud(delta: number): void {
     // Update debug display if enabled
     if (this.debugDisplayEnabled) {
       this.updateDebugDisplay();
@@ -3105,16 +4969,7 @@ export class RunScene extends Phaser.Scene {
     // Update Health & Stamina HUD (Part C)
     this.uiSystem.updateHealth(this.player.health, this.player.maxHealth);
     this.uiSystem.updateStamina(this.player.stamina, this.player.maxStamina, this.player.canDash);
-    
-    // Update teammates
-    this.teammates.forEach((t) => t.update(delta));
-    
-    // Update enemies
-    this.enemies.forEach((e) => e.update(delta));
-    
-    // Update both goalkeepers (Part C + Part 4)
-    this.enemyGoalkeeper?.update(delta);
-    this.playerGoalkeeper?.update(delta);
+    this.uiSystem.updateBossBar(this.bossSystem.getHealth(), this.bossSystem.getPhase());
     
     // Update GK status marker (Part B)
     this.updateGKStatusMarker();
@@ -3153,13 +5008,9 @@ export class RunScene extends Phaser.Scene {
     const hasPlayerPossession = this.player.hasBall || this.teammates.some(t => t.hasBall);
     this.uiSystem.updatePossession(hasPlayerPossession);
     
-    // Track possession time
-    if (hasPlayerPossession) {
-      this.momentStats.possessionTime += delta / 1000;
-    }
-    
-    // Update radar
-    this.uiSystem.updateRadar(this.player, this.teammates, this.enemies, this.ball);
+    // Update radar (Shadow enemies stay off it, unless a trait sees them anyway)
+    const radarEnemies = this.upgradeSystem.getStatBonus('radarEnemies') > 0 ? this.enemies : this.enemies.filter(e => !e.hasAffix('shadow'));
+    this.uiSystem.updateRadar(this.player, this.teammates, radarEnemies, this.ball);
     
     // Update goal sensor debug if enabled
     if (this.debugGoalSensors) {
@@ -3170,41 +5021,109 @@ export class RunScene extends Phaser.Scene {
     if (this.debugAI) {
       this.updateAIDebugOverlay();
     }
+  }
+  
+  // ========================================
+  // REPLAYS
+  // ========================================
+  
+  private replay?: ReplayPlayer;
+  private recorder?: ReplayRecorder;
+  private pendingChoices: ReplayChoice[] = [];
+  private choiceHandlers: Map<ReplayChoiceKind, (value?: string) => void> = new Map();
+  
+  /** Live runs record from the first step; the save is snapshotted before the run touches it */
+  private startRecording(): void {
+    this.pendingChoices = [];
+    this.choiceHandlers.clear();
+    this.recorder = this.replay || this.simulation ? undefined : new ReplayRecorder({
+      characterId: this.character.id,
+      seed: this.runRandom.seed,
+      resume: this.pendingResume,
+      save: SaveSystem.getInstance().exportReplaySnapshot(),
+      startTime: this.simTime
+    });
+  }
+  
+  /** Keep the recording for "Watch Replay" (also kept when quitting, for bug reports) */
+  private finishRecording(): ReplayFile | undefined {
+    if (!this.recorder) return undefined;
+    
+    const file = this.recorder.finish();
+    storeLastReplay(file);
+    console.log(`[REPLAY] Recorded ${file.steps} steps, ${file.choices.length} choices`);
+    return file;
+  }
+  
+  /** What a choice does, registered when its menu or key becomes available */
+  private offerChoice(kind: ReplayChoiceKind, apply: (value?: string) => void): void {
+    this.choiceHandlers.set(kind, apply);
+  }
+  
+  /**
+   * The player picked something outside the input stream. It's applied at the
+   * start of the next step, where a replay applies it too. Replays ignore live
+   * choices - the recording makes them.
+   */
+  private makeChoice(kind: ReplayChoiceKind, value?: string): void {
+    if (this.replay) return;
     
-    // Trigger onTick upgrades with FULL CONTEXT
-    const playerHasBall = this.player.hasBall;
-    const playerInAttackingD = this.isPointInAttackingD('player', this.player.x, this.player.y);
-    const playerInDefendingD = this.isPointInDefendingD('player', this.player.x, this.player.y);
-    const playerCanShoot = this.player.canShoot();
-    const playerCanPass = this.player.canPass();
-    const playerIsStationary = !this.player.isMoving || (
-      Math.abs(this.player.body?.velocity?.x || 0) < 20 &&
-      Math.abs(this.player.body?.velocity?.y || 0) < 20
-    );
-    
-    // Get moment time remaining
-    const state = this.momentSystem.getCurrentState();
-    const momentTimeRemaining = state?.timeRemaining || 0;
-    
-    // Check if player is losing
-    const cupState = this.momentSystem.getCupState();
-    const isLosing = cupState.enemyPoints > cupState.playerPoints;
-    
-    this.upgradeSystem.emitEvent('tick', {
+    this.pendingChoices.push(this.recorder!.recordChoice(kind, value));
+  }
+  
+  private takePendingChoices(): ReplayChoice[] {
+    const choices = this.pendingChoices;
+    this.pendingChoices = [];
+    return choices;
+  }
+  
+  private applyChoice(choice: ReplayChoice): void {
+    const apply = this.choiceHandlers.get(choice.kind);
+    if (!apply) {
+      console.warn(`[REPLAY] Nothing to apply ${choice.kind} to`);
+      return;
+    }
+    apply(choice.value);
+  }
+  
+  // ========================================
+  // SIMULATION HARNESS
+  // ========================================
+  
+  private simulation?: SimulationRequest;
+  
+  private getAutopilotView(): AutopilotView {
+    return {
       player: this.player,
       ball: this.ball,
-      scene: this,
-      time: time,
-      delta: delta,
-      playerHasBall,
-      playerInAttackingD,
-      playerInDefendingD,
-      playerCanShoot,
-      playerCanPass,
-      playerIsStationary,
-      momentTimeRemaining,
-      isLosing,
-      possessionTime: this.momentStats.possessionTime
+      teammates: this.teammates,
+      enemies: this.enemies,
+      aiSystem: this.aiSystem,
+      time: this.time.now
+    };
+  }
+  
+  /** Hand the finished moment to the harness; the run goes no further */
+  private reportSimulation(isWon: boolean): void {
+    const moment = this.simulation!.moment;
+    const state = this.momentSystem.getCurrentState();
+    const tackles = this.aiSystem.getTackleStats();
+    const seconds = moment.duration - (state?.timeRemaining ?? 0);
+    // Series goals never reach momentStats, so shootout moments report the series score
+    const series = moment.shootoutRounds ? this.shootout.getSeriesScore() : undefined;
+    
+    this.simulation!.onComplete({
+      momentId: moment.id,
+      difficulty: moment.difficulty,
+      isWon,
+      timedOut: false,
+      seconds,
+      goalsFor: series?.player ?? this.momentStats.goalsScored,
+      goalsAgainst: series?.enemy ?? this.momentStats.goalsConceded,
+      playerTacklesWon: this.momentStats.tacklesWon,
+      enemyTackles: tackles.attempts,
+      enemyTacklesWon: tackles.successes,
+      possession: seconds > 0 ? Math.min(1, this.momentStats.possessionTime / seconds) : 0
     });
   }
   
@@ -3241,14 +5160,21 @@ export class RunScene extends Phaser.Scene {
     return this.isPointInAttackingD(team === 'player' ? 'enemy' : 'player', x, y);
   }
   
+  private tweensHeldByPause: Phaser.Tweens.Tween[] = [];
+  
   private togglePause(): void {
     this.isPaused = !this.isPaused;
     
+    // Tweens keep running for the menus, so the ones already in play (dodges, lunges) are held
     if (this.isPaused) {
       this.physics.pause();
+      this.tweensHeldByPause = this.tweens.getTweens().filter(tween => !tween.paused);
+      this.tweensHeldByPause.forEach(tween => tween.pause());
       this.showPauseMenu();
     } else {
       this.physics.resume();
+      this.tweensHeldByPause.forEach(tween => tween.resume());
+      this.tweensHeldByPause = [];
       this.hidePauseMenu();
     }
   }
@@ -3285,6 +5211,8 @@ export class RunScene extends Phaser.Scene {
     pauseOverlay.add(controlsBtn);
     
     const quitBtn = this.createPauseButton(width / 2, height / 2 + 120, 'QUIT RUN', () => {
+      SaveSystem.getInstance().clearSuspendedRun();
+      this.finishRecording();
       this.scene.start('MenuScene');
     });
     pauseOverlay.add(quitBtn);
@@ -1,5 +1,5 @@
 // StoreScene for Stick & Shift
-// Buy characters and meta upgrades with gems
+// Buy characters and meta upgrades with gems, and track upgrade unlocks
 
 import Phaser from 'phaser';
 import { Button } from '../ui/Button';
@@ -7,14 +7,21 @@ import { SaveSystem } from '../systems/SaveSystem';
 import { AudioSystem } from '../systems/AudioSystem';
 import { CHARACTERS, Character } from '../data/characters';
 import { META_UPGRADES, getMetaUpgradeCost, getMetaUpgradeEffect } from '../data/meta';
+import { getUpgradeById, RARITY_COLORS } from '../data/upgrades';
+import { getChallengeById } from '../data/challenges';
+import { UPGRADE_UNLOCKS, UpgradeUnlock } from '../data/unlocks';
 import { ToastManager } from '../ui/Toast';
 
+// Unlock rows that fit between the tab title and the unlocked count
+const UNLOCKS_PER_PAGE = 8;
+
 export class StoreScene extends Phaser.Scene {
   private audioSystem!: AudioSystem;
   private toastManager!: ToastManager;
   private gemText?: Phaser.GameObjects.Text;
-  private currentTab: 'characters' | 'meta' = 'characters';
+  private currentTab: 'characters' | 'meta' | 'upgrades' = 'characters';
   private contentContainer?: Phaser.GameObjects.Container;
+  private unlockPage: number = 0;
   
   constructor() {
     super({ key: 'StoreScene' });
@@ -112,7 +119,7 @@ export class StoreScene extends Phaser.Scene {
     
     // Characters tab
     new Button(this, {
-      x: this.cameras.main.centerX - 100,
+      x: this.cameras.main.centerX - 170,
       y: tabY,
       width: 150,
       height: 40,
@@ -127,7 +134,7 @@ export class StoreScene extends Phaser.Scene {
     
     // Meta upgrades tab
     new Button(this, {
-      x: this.cameras.main.centerX + 100,
+      x: this.cameras.main.centerX,
       y: tabY,
       width: 150,
       height: 40,
@@ -139,6 +146,21 @@ export class StoreScene extends Phaser.Scene {
         this.showMetaTab();
       }
     });
+    
+    // Upgrade unlocks tab
+    new Button(this, {
+      x: this.cameras.main.centerX + 170,
+      y: tabY,
+      width: 150,
+      height: 40,
+      text: 'Upgrades',
+      fontSize: 16,
+      style: this.currentTab === 'upgrades' ? 'primary' : 'secondary',
+      onClick: () => {
+        this.currentTab = 'upgrades';
+        this.showUpgradesTab();
+      }
+    });
   }
   
   private showCharactersTab(): void {
@@ -441,6 +463,148 @@ export class StoreScene extends Phaser.Scene {
     }
   }
   
+  private showUpgradesTab(): void {
+    this.clearContent();
+    
+    const unlockedUpgrades = SaveSystem.getInstance().getUnlockedUpgrades();
+    
+    // Title
+    const title = this.add.text(this.cameras.main.centerX, 160, 'Unlock Upgrades for the Draft', {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '20px',
+      color: '#bdc3c7'
+    });
+    title.setOrigin(0.5);
+    this.contentContainer?.add(title);
+    
+    // Unlock list, a page at a time
+    const startY = 205;
+    const spacing = 52;
+    const pageCount = Math.ceil(UPGRADE_UNLOCKS.length / UNLOCKS_PER_PAGE);
+    this.unlockPage = Math.min(this.unlockPage, pageCount - 1);
+    const pageStart = this.unlockPage * UNLOCKS_PER_PAGE;
+    
+    UPGRADE_UNLOCKS.slice(pageStart, pageStart + UNLOCKS_PER_PAGE).forEach((unlock, index) => {
+      this.createUpgradeUnlockRow(unlock, startY + index * spacing, unlockedUpgrades.includes(unlock.upgradeId));
+    });
+    
+    if (pageCount > 1) {
+      this.createUnlockPager(pageCount);
+    }
+    
+    // Show unlocked count
+    const unlockedCount = UPGRADE_UNLOCKS.filter(u => unlockedUpgrades.includes(u.upgradeId)).length;
+    const unlockedText = this.add.text(
+      this.cameras.main.centerX,
+      this.cameras.main.height - 50,
+      `Unlocked: ${unlockedCount} / ${UPGRADE_UNLOCKS.length}`,
+      {
+        fontFamily: 'Arial, sans-serif',
+        fontSize: '16px',
+        color: '#7f8c8d'
+      }
+    );
+    unlockedText.setOrigin(0.5);
+    this.contentContainer?.add(unlockedText);
+  }
+  
+  /** Previous/next page buttons either side of the unlocked count */
+  private createUnlockPager(pageCount: number): void {
+    const y = this.cameras.main.height - 50;
+    const turnPage = (step: number) => {
+      this.unlockPage += step;
+      this.showUpgradesTab();
+    };
+    
+    const prevBtn = new Button(this, {
+      x: this.cameras.main.centerX - 150,
+      y,
+      width: 44,
+      height: 32,
+      text: '◀',
+      fontSize: 16,
+      style: 'secondary',
+      disabled: this.unlockPage === 0,
+      onClick: () => turnPage(-1)
+    });
+    const nextBtn = new Button(this, {
+      x: this.cameras.main.centerX + 150,
+      y,
+      width: 44,
+      height: 32,
+      text: '▶',
+      fontSize: 16,
+      style: 'secondary',
+      disabled: this.unlockPage >= pageCount - 1,
+      onClick: () => turnPage(1)
+    });
+    this.contentContainer?.add([prevBtn, nextBtn]);
+  }
+  
+  private createUpgradeUnlockRow(unlock: UpgradeUnlock, y: number, isUnlocked: boolean): void {
+    const upgrade = getUpgradeById(unlock.upgradeId);
+    if (!upgrade) return;
+    
+    const row = this.add.container(this.cameras.main.centerX, y);
+    this.contentContainer?.add(row);
+    
+    // Background
+    const bg = this.add.graphics();
+    bg.fillStyle(0x2c3e50, isUnlocked ? 0.8 : 0.5);
+    bg.fillRoundedRect(-350, -22, 700, 46, 10);
+    bg.lineStyle(2, RARITY_COLORS[upgrade.rarity], isUnlocked ? 0.8 : 0.3);
+    bg.strokeRoundedRect(-350, -22, 700, 46, 10);
+    row.add(bg);
+    
+    // Icon
+    const icon = this.add.text(-320, 0, isUnlocked ? upgrade.icon : '🔒', { fontSize: '24px' });
+    icon.setOrigin(0.5);
+    row.add(icon);
+    
+    // Name
+    const name = this.add.text(-290, -10, upgrade.name, {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '15px',
+      color: isUnlocked ? '#ffffff' : '#95a5a6',
+      fontStyle: 'bold'
+    });
+    name.setOrigin(0, 0.5);
+    row.add(name);
+    
+    // Description (trimmed to leave room for the unlock condition)
+    const description = upgrade.description.length > 50 ? `${upgrade.description.slice(0, 49)}…` : upgrade.description;
+    const desc = this.add.text(-290, 10, description, {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '11px',
+      color: '#7f8c8d'
+    });
+    desc.setOrigin(0, 0.5);
+    row.add(desc);
+    
+    // Unlock condition and progress
+    const status = this.add.text(330, 0, isUnlocked ? '✅ In draft pool' : this.getUnlockStatus(unlock), {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '13px',
+      color: isUnlocked ? '#27ae60' : '#f39c12'
+    });
+    status.setOrigin(1, 0.5);
+    row.add(status);
+  }
+  
+  private getUnlockStatus(unlock: UpgradeUnlock): string {
+    const saveSystem = SaveSystem.getInstance();
+    const condition = unlock.condition;
+    
+    if (condition.type === 'challenge') {
+      const challenge = getChallengeById(condition.challengeId);
+      const current = saveSystem.getChallengeProgress(condition.challengeId)?.currentValue ?? 0;
+      return challenge ? `${unlock.description} (${current}/${challenge.target})` : unlock.description;
+    }
+    
+    const current = Math.min(saveSystem.getStatCount(condition.stat), condition.target);
+    return `${unlock.description} (${current}/${condition.target})`;
+  }
+  
   private clearContent(): void {
     this.contentContainer?.removeAll(true);
   }
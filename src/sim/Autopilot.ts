@@ -0,0 +1,185 @@
+// Autopilot for Stick & Shift
+// Plays the player's character with the teammate AI, so a moment can run AI against AI
+
+import Phaser from 'phaser';
+import { AISystem, AIDecision } from '../systems/AISystem';
+import { InputState } from '../systems/InputSystem';
+import { MomentDefinition } from '../data/moments';
+import * as TUNING from '../data/tuning';
+
+// ========================================
+// TYPES
+// ========================================
+
+/** What the autopilot reads from the run each step */
+export interface AutopilotView {
+  player: any;
+  ball: any;
+  teammates: any[];
+  enemies: any[];
+  aiSystem: AISystem;
+  time: number;
+}
+
+/** One moment for RunScene to play headless, and where the result goes */
+export interface SimulationRequest {
+  moment: MomentDefinition;
+  autopilot: Autopilot;
+  onComplete: (result: SimulationResult) => void;
+}
+
+export interface SimulationResult {
+  momentId: string;
+  difficulty: number;
+  isWon: boolean;
+  timedOut: boolean;        // Never finished; counted as a loss
+  seconds: number;          // Moment clock used
+  goalsFor: number;
+  goalsAgainst: number;
+  playerTacklesWon: number; // The autopilot's own tackles
+  enemyTackles: number;     // Enemy AI tackle attempts and how many won the ball
+  enemyTacklesWon: number;
+  possession: number;       // Share of the moment the player team had the ball (0-1)
+}
+
+// Same cadence as a mid-skill teammate
+const DECISION_INTERVAL_MS = 150;
+// Long enough that Player reads it as a shot, not a tap pass
+const SHOT_HOLD_MS = 400;
+
+// ========================================
+// AUTOPILOT CLASS
+// ========================================
+
+/**
+ * Turns the teammate AI's decision for the player's character into the
+ * InputState a person would have produced, so the character plays through
+ * Player.update like any other run.
+ */
+export class Autopilot {
+  private decision?: AIDecision;
+  private nextDecisionAt: number = 0;
+  private chargeUntil: number = 0;
+  private charging: boolean = false;
+  private aimAngle: number = 0;
+  
+  getInput(view: AutopilotView): InputState {
+    const { player } = view;
+    const input = Autopilot.emptyInput(this.aimAngle);
+    
+    // A shot in progress: hold the button, then let go
+    if (this.charging) {
+      if (!player.hasBall) {
+        this.charging = false;
+      } else if (view.time < this.chargeUntil) {
+        input.shootHeld = true;
+        return input;
+      } else {
+        this.charging = false;
+        input.shootReleased = true;
+        return input;
+      }
+    }
+    
+    // The teammate AI only presses with the teammates it assigns, so a carrier in reach is tackled here
+    const carrier = view.enemies.find(enemy => enemy.hasBall);
+    if (!player.hasBall && carrier && Phaser.Math.Distance.Between(player.x, player.y, carrier.x, carrier.y) < TUNING.AI_TACKLE_RANGE) {
+      this.steerTo(player, carrier.x, carrier.y, input);
+      input.tackle = true;
+      return input;
+    }
+    
+    if (view.time >= this.nextDecisionAt || !this.decision) {
+      this.decision = view.aiSystem.getTeammateDecision(
+        player, view.ball, player, view.teammates, view.enemies, player.hasBall
+      );
+      this.nextDecisionAt = view.time + DECISION_INTERVAL_MS;
+    }
+    const decision = this.decision;
+    
+    switch (decision.action) {
+      case 'shoot':
+        if (player.hasBall) {
+          this.aimAt(player, decision.targetX!, decision.targetY!, input);
+          input.shoot = true;
+          input.shootHeld = true;
+          this.charging = true;
+          this.chargeUntil = view.time + SHOT_HOLD_MS;
+          this.decision = undefined;
+        }
+        break;
+      
+      case 'pass':
+        if (player.hasBall && decision.targetEntity) {
+          this.aimAt(player, decision.targetEntity.x, decision.targetEntity.y, input);
+          input.pass = true;
+          this.decision = undefined;
+        }
+        break;
+      
+      case 'tackle':
+        if (decision.targetEntity) {
+          this.steerTo(player, decision.targetEntity.x, decision.targetEntity.y, input);
+          input.tackle = !player.hasBall;
+        }
+        break;
+      
+      case 'wait':
+        break;
+      
+      default:
+        // move, intercept, block and dodge all come down to getting somewhere
+        if (decision.targetX !== undefined && decision.targetY !== undefined) {
+          this.steerTo(player, decision.targetX, decision.targetY, input);
+        }
+    }
+    
+    return input;
+  }
+  
+  private steerTo(player: any, x: number, y: number, input: InputState): void {
+    const dx = x - player.x;
+    const dy = y - player.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist <= 5) return;
+    
+    input.moveX = dx / dist;
+    input.moveY = dy / dist;
+    input.isMoving = true;
+    this.aimAt(player, x, y, input);
+  }
+  
+  private aimAt(player: any, x: number, y: number, input: InputState): void {
+    this.aimAngle = Phaser.Math.Angle.Between(player.x, player.y, x, y);
+    input.aimAngle = this.aimAngle;
+    input.aimX = x;
+    input.aimY = y;
+    input.hasMouseMoved = true;
+  }
+  
+  private static emptyInput(aimAngle: number): InputState {
+    return {
+      moveX: 0,
+      moveY: 0,
+      isMoving: false,
+      shoot: false,
+      shootHeld: false,
+      shootReleased: false,
+      pass: false,
+      aerialPass: false,
+      tackle: false,
+      dodge: false,
+      callForPass: false,
+      aimAngle,
+      aimX: 0,
+      aimY: 0,
+      mouseDown: false,
+      mouseJustDown: false,
+      hasMouseMoved: true,
+      pause: false,
+      confirm: false,
+      cancel: false,
+      showHelp: false
+    };
+  }
+}
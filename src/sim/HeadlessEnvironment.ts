@@ -0,0 +1,97 @@
+// HeadlessEnvironment for Stick & Shift
+// Just enough of a browser for Phaser to boot under Node with the canvas renderer drawing nowhere
+
+// Imported before Phaser: it checks for window, document and canvas support as it loads.
+
+const noop = (): void => {};
+const SCREEN_WIDTH = 1200;
+const SCREEN_HEIGHT = 700;
+
+// Every drawing call is accepted and ignored; the few that return something get a stand-in
+const context2d = new Proxy({}, {
+  get: (_target, key) => {
+    switch (key) {
+      case 'getImageData':
+      case 'createImageData':
+        return () => ({ data: new Uint8ClampedArray(4) });
+      case 'measureText':
+        return () => ({ width: 10, actualBoundingBoxAscent: 8, actualBoundingBoxDescent: 2 });
+      case 'createLinearGradient':
+      case 'createRadialGradient':
+      case 'createPattern':
+        return () => ({ addColorStop: noop });
+      default:
+        return noop;
+    }
+  },
+  set: () => true
+});
+
+function createElement(): any {
+  return {
+    style: {},
+    appendChild: noop,
+    removeChild: noop,
+    addEventListener: noop,
+    removeEventListener: noop,
+    setAttribute: noop,
+    canPlayType: () => '',
+    getBoundingClientRect: () => ({ left: 0, top: 0, right: SCREEN_WIDTH, bottom: SCREEN_HEIGHT, width: SCREEN_WIDTH, height: SCREEN_HEIGHT })
+  };
+}
+
+function createCanvas(): any {
+  return { ...createElement(), width: 1, height: 1, getContext: () => context2d, toDataURL: () => '' };
+}
+
+/** Saves and the last-replay slot live for the length of the process */
+class MemoryStorage {
+  private items: Map<string, string> = new Map();
+  
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+  
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value));
+  }
+  
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+  
+  clear(): void {
+    this.items.clear();
+  }
+}
+
+const host = globalThis as any;
+
+host.window = globalThis;
+host.addEventListener = noop;
+host.removeEventListener = noop;
+host.focus = noop;
+host.screen = { width: SCREEN_WIDTH, height: SCREEN_HEIGHT };
+host.navigator = { userAgent: 'node', maxTouchPoints: 0 };
+host.document = {
+  createElement: (tag: string) => tag === 'canvas' ? createCanvas() : createElement(),
+  documentElement: createElement(),
+  body: createElement(),
+  addEventListener: noop,
+  removeEventListener: noop,
+  getElementById: () => null,
+  readyState: 'complete',
+  hidden: false
+};
+host.localStorage = new MemoryStorage();
+host.Image = class {
+  onload?: () => void;
+  set src(_value: string) {
+    setTimeout(() => this.onload?.(), 0);
+  }
+};
+host.HTMLCanvasElement = class {};
+host.HTMLVideoElement = class {};
+host.CanvasRenderingContext2D = class {};
+host.requestAnimationFrame = (callback: (time: number) => void) => setTimeout(() => callback(Date.now()), 16);
+host.cancelAnimationFrame = (handle: number) => clearTimeout(handle);
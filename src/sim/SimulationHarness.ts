@@ -0,0 +1,104 @@
+// SimulationHarness for Stick & Shift
+// Boots the game without a screen and plays moments through RunScene as fast as the CPU allows
+
+import Phaser from 'phaser';
+import { TextureFactory } from '../gfx/TextureFactory';
+import { RunScene } from '../scenes/RunScene';
+import { Character } from '../data/characters';
+import { MomentDefinition } from '../data/moments';
+import { Autopilot, SimulationResult } from './Autopilot';
+import * as TUNING from '../data/tuning';
+
+// Moments that never end (a stuck shootout, say) are abandoned this long after their clock
+const OVERTIME_CAP_SECONDS = 60;
+
+/** Stands in for BootScene: textures only, nothing on screen */
+class SimulationBootScene extends Phaser.Scene {
+  constructor() {
+    super({ key: 'SimulationBootScene' });
+  }
+  
+  create(): void {
+    new TextureFactory(this).generateAll();
+  }
+}
+
+/**
+ * One Phaser game, reused for every moment. The game loop is stopped and
+ * stepped by hand with a made-up clock, so a 45-second moment takes as long
+ * as its steps take to compute.
+ */
+export class SimulationHarness {
+  private game!: Phaser.Game;
+  private clock: number = 0;
+  
+  /** Create the game and wait for it to boot */
+  async start(): Promise<void> {
+    this.game = new Phaser.Game({
+      type: Phaser.CANVAS,
+      width: 1200,
+      height: 700,
+      banner: false,
+      audio: { noAudio: true },
+      physics: {
+        default: 'arcade',
+        arcade: {
+          gravity: { x: 0, y: 0 },
+          debug: false
+        }
+      },
+      scene: [SimulationBootScene, RunScene]
+    });
+    
+    await new Promise<void>(resolve => this.game.events.once(Phaser.Core.Events.READY, () => resolve()));
+    this.game.loop.stop();
+    this.stepFrame();
+  }
+  
+  /** Play one moment with the autopilot on the player's character */
+  runMoment(moment: MomentDefinition, character: Character, seed: number): SimulationResult {
+    let result: SimulationResult | undefined;
+    
+    this.game.scene.start('RunScene', {
+      character,
+      seed,
+      simulation: {
+        moment,
+        autopilot: new Autopilot(),
+        onComplete: (finished: SimulationResult) => { result = finished; }
+      }
+    });
+    
+    const maxFrames = Math.ceil((moment.duration + OVERTIME_CAP_SECONDS) * 1000 / TUNING.SIM_MAX_FRAME_MS);
+    for (let frame = 0; frame < maxFrames && !result; frame++) {
+      this.stepFrame();
+    }
+    
+    this.game.scene.stop('RunScene');
+    this.stepFrame();
+    
+    return result ?? {
+      momentId: moment.id,
+      difficulty: moment.difficulty,
+      isWon: false,
+      timedOut: true,
+      seconds: moment.duration + OVERTIME_CAP_SECONDS,
+      goalsFor: 0,
+      goalsAgainst: 0,
+      playerTacklesWon: 0,
+      enemyTackles: 0,
+      enemyTacklesWon: 0,
+      possession: 0
+    };
+  }
+  
+  destroy(): void {
+    this.game.destroy(true, true);
+  }
+  
+  /** One long frame; RunScene cuts it into fixed simulation steps */
+  private stepFrame(): void {
+    this.clock += TUNING.SIM_MAX_FRAME_MS;
+    this.game.headlessStep(this.clock, TUNING.SIM_MAX_FRAME_MS);
+  }
+}
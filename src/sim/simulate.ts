@@ -0,0 +1,196 @@
+// Balance simulation for Stick & Shift
+// `npm run sim -- [options]`: plays every moment AI against AI and prints how each one goes
+
+import './HeadlessEnvironment';
+import { SimulationHarness } from './SimulationHarness';
+import { SimulationResult } from './Autopilot';
+import { MOMENTS, MomentDefinition } from '../data/moments';
+import { CHARACTERS, getCharacterById } from '../data/characters';
+import { SeededRandom, generateSeed, formatSeed, parseSeed } from '../systems/RandomSystem';
+
+// Only what this script uses; the game itself is built against the DOM types
+declare const process: {
+  argv: string[];
+  exit(code: number): never;
+  stdout: { write(text: string): void };
+};
+
+const USAGE = `Usage: npm run sim -- [options]
+
+  --runs N            Moments played per moment and difficulty (default 20)
+  --moment ID         Only this moment (default: all of them)
+  --difficulty D      1-5, or "all" to play every moment at every difficulty
+                      (default: each moment at its own difficulty)
+  --character ID      Character the autopilot plays (default: ${CHARACTERS[0].id})
+  --seed CODE         Seed code for the whole batch (default: random)
+  --verbose           Keep the game's own logging
+`;
+
+interface SimulationOptions {
+  runs: number;
+  momentId?: string;
+  difficulties: 'own' | number[];
+  characterId: string;
+  seed: number;
+  verbose: boolean;
+}
+
+function fail(message: string): never {
+  console.error(`[SIM] ${message}\n\n${USAGE}`);
+  return process.exit(1);
+}
+
+function parseOptions(args: string[]): SimulationOptions {
+  const options: SimulationOptions = {
+    runs: 20,
+    difficulties: 'own',
+    characterId: CHARACTERS[0].id,
+    seed: generateSeed(),
+    verbose: false
+  };
+  
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    switch (args[i]) {
+      case '--runs':
+        options.runs = parseInt(value, 10);
+        if (!(options.runs > 0)) fail(`--runs needs a positive number, got "${value}"`);
+        i++;
+        break;
+      case '--moment':
+        options.momentId = value;
+        i++;
+        break;
+      case '--difficulty': {
+        const level = parseInt(value, 10);
+        if (value === 'all') {
+          options.difficulties = [1, 2, 3, 4, 5];
+        } else if (level >= 1 && level <= 5) {
+          options.difficulties = [level];
+        } else {
+          fail(`--difficulty needs 1-5 or "all", got "${value}"`);
+        }
+        i++;
+        break;
+      }
+      case '--character':
+        options.characterId = value;
+        i++;
+        break;
+      case '--seed': {
+        const seed = parseSeed(value ?? '');
+        if (seed === null) fail(`--seed needs a seed code, got "${value}"`);
+        options.seed = seed;
+        i++;
+        break;
+      }
+      case '--verbose':
+        options.verbose = true;
+        break;
+      case '--help':
+        process.stdout.write(USAGE);
+        process.exit(0);
+      default:
+        fail(`Unknown option "${args[i]}"`);
+    }
+  }
+  
+  return options;
+}
+
+/** Every moment to play, each at the difficulties asked for */
+function listMoments(options: SimulationOptions): MomentDefinition[] {
+  const moments = options.momentId ? MOMENTS.filter(m => m.id === options.momentId) : MOMENTS;
+  if (moments.length === 0) fail(`Unknown moment "${options.momentId}"`);
+  
+  if (options.difficulties === 'own') return moments;
+  const levels = options.difficulties;
+  return moments.flatMap(moment => levels.map(difficulty => ({ ...moment, difficulty: difficulty as MomentDefinition['difficulty'] })));
+}
+
+// ========================================
+// REPORT
+// ========================================
+
+const COLUMNS = ['Moment', 'Diff', 'Runs', 'Win %', 'Goals for', 'Goals agst', 'Enemy tkl', 'Tkl won %', 'Your tkl', 'Possession', 'Timeouts'];
+
+function average(results: SimulationResult[], pick: (result: SimulationResult) => number): number {
+  return results.length > 0 ? results.reduce((sum, result) => sum + pick(result), 0) / results.length : 0;
+}
+
+function summarize(moment: MomentDefinition, results: SimulationResult[]): string[] {
+  const finished = results.filter(result => !result.timedOut);
+  const wins = results.filter(result => result.isWon).length;
+  const tackles = finished.reduce((sum, result) => sum + result.enemyTackles, 0);
+  const tacklesWon = finished.reduce((sum, result) => sum + result.enemyTacklesWon, 0);
+  
+  return [
+    moment.id,
+    String(moment.difficulty),
+    String(results.length),
+    `${Math.round(wins / results.length * 100)}%`,
+    average(finished, result => result.goalsFor).toFixed(2),
+    average(finished, result => result.goalsAgainst).toFixed(2),
+    average(finished, result => result.enemyTackles).toFixed(1),
+    tackles > 0 ? `${Math.round(tacklesWon / tackles * 100)}%` : '-',
+    average(finished, result => result.playerTacklesWon).toFixed(1),
+    `${Math.round(average(finished, result => result.possession) * 100)}%`,
+    String(results.length - finished.length)
+  ];
+}
+
+function printTable(rows: string[][]): void {
+  const widths = COLUMNS.map((title, col) => Math.max(title.length, ...rows.map(row => row[col].length)));
+  const format = (cells: string[]) => cells.map((cell, col) => col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col])).join('  ');
+  
+  console.log(format(COLUMNS));
+  console.log(widths.map(width => '-'.repeat(width)).join('  '));
+  rows.forEach(row => console.log(format(row)));
+}
+
+// ========================================
+// MAIN
+// ========================================
+
+async function main(): Promise<void> {
+  const options = parseOptions(process.argv.slice(2));
+  const character = getCharacterById(options.characterId) ?? fail(`Unknown character "${options.characterId}"`);
+  const moments = listMoments(options);
+  
+  // The game logs every tackle and goal; the report is all that's wanted here
+  const log = console.log;
+  if (!options.verbose) {
+    console.log = () => {};
+    console.info = () => {};
+    console.warn = () => {};
+  }
+  
+  const harness = new SimulationHarness();
+  await harness.start();
+  
+  const seeds = new SeededRandom(options.seed);
+  const rows: string[][] = [];
+  const startedAt = Date.now();
+  
+  moments.forEach((moment, index) => {
+    const results: SimulationResult[] = [];
+    for (let run = 0; run < options.runs; run++) {
+      results.push(harness.runMoment(moment, character, seeds.int(36 ** 6)));
+    }
+    rows.push(summarize(moment, results));
+    process.stdout.write(`\r[SIM] ${index + 1}/${moments.length} moments played`);
+  });
+  
+  harness.destroy();
+  console.log = log;
+  
+  const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+  console.log(`\n\n${moments.length * options.runs} moments as ${character.name}, seed ${formatSeed(options.seed)}, ${seconds}s\n`);
+  printTable(rows);
+  process.exit(0);
+}
+
+main().catch(error => {
+  console.error('[SIM] Simulation failed:', error);
+  process.exit(1);
+});
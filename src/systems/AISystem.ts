@@ -39,6 +39,35 @@ export interface DefenseAssignment {
   commitUntil: number;
 }
 
+// Fake player that enemy defenders chase while it's active (Decoy entity)
+export interface AIDecoy {
+  x: number;
+  y: number;
+  isActive(): boolean;
+}
+
+// Utility AI: the ball carrier scores every candidate action and plays the best
+export type UtilityAction = 'shoot' | 'pass' | 'dribble' | 'hold' | 'clear';
+
+export interface UtilityConsideration {
+  name: string;
+  value: number;  // 0-1, multiplied into the score (0 rules the action out)
+}
+
+export interface UtilityCandidate {
+  action: UtilityAction;
+  label: string;  // e.g. 'pass forward' for the F9 table
+  weight: number;
+  considerations: UtilityConsideration[];
+  score: number;  // weight x every consideration
+  decision: AIDecision;
+}
+
+export interface UtilityScoreTable {
+  candidates: UtilityCandidate[];  // Best first
+  at: number;
+}
+
 export class AISystem {
   private scene: Phaser.Scene;
   
@@ -68,9 +97,15 @@ export class AISystem {
   // Decision timing
   private lastDecisionTime: Map<any, number> = new Map();
   
+  // Last utility score table per carrier (F9 debug)
+  private utilityTables: Map<any, UtilityScoreTable> = new Map();
+  
   // Failed tackle cooldown (prevents spam)
   private tackleBackoffUntil: Map<any, number> = new Map();
   
+  // Press Machine: every teammate goes after the carrier until this time
+  private teamPressUntil: number = 0;
+  
   // AI-DEFENSE v3: Tackle statistics for F9 debug
   private tackleStats = {
     attempts: 0,
@@ -99,10 +134,28 @@ export class AISystem {
   private activePlay: 'press' | 'hold' | 'counter' | null = null;
   private playExpiresAt: number = 0;
   
+  // Decoys pulling enemy defenders off the player
+  private decoys: AIDecoy[] = [];
+  
+  // Carded entities sitting out in the sin bin
+  private benched: Set<any> = new Set();
+  
+  // Jitter source - RunScene swaps in the run's seeded AI stream
+  private randomSource: () => number = Math.random;
+  
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
   }
   
+  setRandomSource(random: () => number): void {
+    this.randomSource = random;
+  }
+  
+  /** Random roll for AI decisions and aim jitter (shared by all AI entities) */
+  random(): number {
+    return this.randomSource();
+  }
+  
   // ========================================
   // OBJECTIVE & PLAY MANAGEMENT
   // ========================================
@@ -205,6 +258,7 @@ export class AISystem {
     
     // Assign roles based on team size and proximity
     const numDefenders = defenders.length;
+    const isTeamPress = isPlayerTeam && now < this.teamPressUntil;
     
     for (let i = 0; i < distanceData.length; i++) {
       const { entity, dist, currentAssignment } = distanceData[i];
@@ -223,6 +277,10 @@ export class AISystem {
         // PRIMARY PRESSER - closest defender
         role = 'PRIMARY_PRESSER';
         target = { x: carrier.x, y: carrier.y };
+      } else if (isTeamPress) {
+        // Everyone else closes down too
+        role = 'SECOND_PRESSER';
+        target = this.getSecondPresserPosition(carrier, goalX, goalY);
       } else if (i === 1 && numDefenders >= 2) {
         // SECOND PRESSER or SHOT BLOCKER
         if (isInDangerZone || numDefenders <= 2) {
@@ -437,21 +495,37 @@ export class AISystem {
     // If has ball, play it safe - pass to teammate or clear
     if (hasBall) {
       const allTeammates = isPlayerTeam ? teammates : enemies.filter(e => e !== entity);
-      const safePassTarget = allTeammates.find(t => {
-        // Find teammate that's not too far forward
-        const tDistToOwnGoal = Math.abs(t.x - ownGoalX);
-        return tDistToOwnGoal > 150;  // Not in own D
-      });
+      const opponents = isPlayerTeam ? enemies : this.getPlayerTeam(player, teammates);
+      const pressure = this.countPressure(entity, opponents);
+      const passReady = !this.isOnPassCooldown(entity);
       
-      if (safePassTarget && !this.isOnPassCooldown(entity)) {
-        console.log(`[DEFENDER] Safe clearance pass`);
+      const candidates = allTeammates.map(t => this.utilityCandidate(
+        'pass', `pass ${this.describeTarget(t)}`, TUNING.UTILITY_PASS_WEIGHT,
+        { action: 'pass', targetEntity: t, priority: 10 },
+        {
+          ready: passReady ? 1 : 0,
+          safe: Math.abs(t.x - ownGoalX) > 150 ? 1 : 0,  // Not in own D
+          lane: this.isPassLaneBlocked(entity, t, opponents) ? TUNING.UTILITY_BLOCKED_LANE : 1,
+          open: this.getOpenness(t, opponents)
+        }
+      ));
+      
+      // Carry it out of the danger zone
+      candidates.push(this.utilityCandidate(
+        'clear', 'clear', TUNING.UTILITY_CLEAR_WEIGHT,
+        { action: 'move', ...this.getClearTarget(entity, isPlayerTeam), priority: 8 },
+        {
+          danger: Math.max(0.25, this.getOwnGoalDanger(entity, isPlayerTeam)),
+          pressure: pressure > 0 ? 1 : 0.4
+        }
+      ));
+      
+      const best = this.chooseUtility(entity, candidates);
+      if (best.action === 'pass') {
+        console.log(`[DEFENDER] Safe clearance pass (score=${best.score.toFixed(2)})`);
         this.setPassCooldown(entity);
-        return { action: 'pass', targetEntity: safePassTarget, priority: 10 };
       }
-      
-      // Just dribble out of danger zone
-      const clearX = isPlayerTeam ? entity.x + 80 : entity.x - 80;
-      return { action: 'move', targetX: clearX, targetY: entity.y, priority: 8 };
+      return best.decision;
     }
     
     // Defensive line position (20-40% from own goal)
@@ -465,7 +539,7 @@ export class AISystem {
       : this.fieldWidth * 0.45;
     
     // Find most dangerous attacker (ball carrier or closest to own D)
-    const attackers = isPlayerTeam ? enemies : [player, ...teammates];
+    const attackers = isPlayerTeam ? enemies : this.getPlayerTeam(player, teammates);
     const ownDRadius = TUNING.D_CIRCLE_RADIUS;
     
     let mostDangerous = ball.owner;
@@ -518,6 +592,14 @@ export class AISystem {
     hasBall: boolean,
     slotIndex: number = 0
   ): AIDecision {
+    // Fooled by a decoy: chase it instead of the player
+    if (ball.owner === player) {
+      const decoy = this.getDecoyLure(entity);
+      if (decoy) {
+        return { action: 'move', targetX: decoy.x, targetY: decoy.y, priority: 12 };
+      }
+    }
+    
     // === PART 3: Check if this entity is the assigned defender ===
     if (this.isAssignedDefender(entity, false)) {
       // Defender uses special positioning logic
@@ -549,6 +631,39 @@ export class AISystem {
     return { action: 'move', targetX: formationPos.x, targetY: formationPos.y, priority: 3 };
   }
   
+  /** Sin bin: nobody marks, presses or passes to a benched entity until it's back on */
+  setBenched(entity: any, benched: boolean): void {
+    if (benched) {
+      this.benched.add(entity);
+    } else {
+      this.benched.delete(entity);
+    }
+  }
+  
+  addDecoy(decoy: AIDecoy): void {
+    this.decoys = this.decoys.filter(d => d.isActive());
+    this.decoys.push(decoy);
+  }
+  
+  /**
+   * Nearest active decoy close enough to pull this enemy
+   */
+  private getDecoyLure(entity: any): AIDecoy | undefined {
+    let nearest: AIDecoy | undefined;
+    let nearestDist: number = TUNING.DECOY_LURE_RADIUS;
+    
+    for (const decoy of this.decoys) {
+      if (!decoy.isActive()) continue;
+      const dist = Phaser.Math.Distance.Between(entity.x, entity.y, decoy.x, decoy.y);
+      if (dist < nearestDist) {
+        nearest = decoy;
+        nearestDist = dist;
+      }
+    }
+    
+    return nearest;
+  }
+  
   /**
    * Get decision for teammate AI
    */
@@ -604,17 +719,22 @@ export class AISystem {
     const dist = Phaser.Math.Distance.Between(entity.x, entity.y, carrier.x, carrier.y);
     const now = this.scene.time.now;
     
+    // Enemy stat modifiers (curses, moment modifiers, auras): reach and willingness to go in
+    const reach = entity.getStatMultiplier?.('tackleRange') ?? 1;
+    const tackleRange = TUNING.AI_TACKLE_RANGE * reach;
+    const willingness = Math.min(1, TUNING.AI_TACKLE_WILLINGNESS * (entity.getStatMultiplier?.('aggression') ?? 1));
+    
     switch (assignment.role) {
       case 'PRIMARY_PRESSER':
         // AI-DEFENSE v3: Aggressive tackle enforcement
         // In commit mode or within tackle range - attempt tackle with willingness check
-        if (assignment.inCommitMode || dist < TUNING.AI_TACKLE_RANGE) {
+        if (assignment.inCommitMode || dist < tackleRange) {
           // Check cooldown
           if (this.isTackleOnCooldown(entity)) {
             this.recordTackleBlocked('cooldown');
-          } else if (dist < TUNING.AI_TACKLE_RANGE_COMMIT) {
+          } else if (dist < TUNING.AI_TACKLE_RANGE_COMMIT * reach) {
             // Close range - check if VERY close (ignore angle)
-            const isVeryClose = dist < TUNING.AI_TACKLE_RANGE * TUNING.AI_TACKLE_CLOSE_RANGE_MULT;
+            const isVeryClose = dist < tackleRange * TUNING.AI_TACKLE_CLOSE_RANGE_MULT;
             
             // Calculate angle check
             const dx = carrier.x - entity.x;
@@ -626,7 +746,7 @@ export class AISystem {
             
             if (!angleOK) {
               this.recordTackleBlocked('angle');
-            } else if (Math.random() < TUNING.AI_TACKLE_WILLINGNESS) {
+            } else if (this.random() < willingness) {
               // Tackle attempt!
               return { action: 'tackle', targetEntity: carrier, priority: 10 };
             }
@@ -639,10 +759,10 @@ export class AISystem {
         
       case 'SECOND_PRESSER':
         // Also try to tackle if close - AI-DEFENSE v3
-        if (dist < TUNING.AI_TACKLE_RANGE) {
+        if (dist < tackleRange) {
           if (this.isTackleOnCooldown(entity)) {
             this.recordTackleBlocked('cooldown');
-          } else if (Math.random() < TUNING.AI_TACKLE_WILLINGNESS * 0.8) {  // Slightly less aggressive
+          } else if (this.random() < willingness * 0.8) {  // Slightly less aggressive
             return { action: 'tackle', targetEntity: carrier, priority: 9 };
           }
         }
@@ -744,7 +864,7 @@ export class AISystem {
     const goalX = isPlayerTeam ? this.fieldWidth - 30 : 30;
     const goalY = this.fieldHeight / 2;
     const goalLineX = isPlayerTeam ? this.fieldWidth - 30 : 30;
-    const defenders = isPlayerTeam ? enemies : [player, ...teammates];
+    const defenders = isPlayerTeam ? enemies : this.getPlayerTeam(player, teammates);
     const teamMates = isPlayerTeam ? teammates : enemies.filter(e => e !== entity);
     
     const distToGoal = Phaser.Math.Distance.Between(entity.x, entity.y, goalX, goalY);
@@ -752,7 +872,6 @@ export class AISystem {
     const now = this.scene.time.now;
     
     // === STRICT D-CHECK: MUST BE INSIDE D TO SHOOT ===
-    const dRadius = TUNING.D_CIRCLE_RADIUS;
     const inAttackingD = this.isInsideAttackingD(entity.x, entity.y, isPlayerTeam);
     
     // Track time in D with possession
@@ -780,14 +899,15 @@ export class AISystem {
     const stuckTooLong = (this.entityStuckCounter.get(entity) || 0) > 15;
     
     // === FINISH CONDITIONS (FORCED ACTION) ===
-    const isCloseRange = inAttackingD && distToGoalLine < TUNING.AI_FINISH_GOAL_LINE_DIST;
     const isVeryCloseRange = inAttackingD && distToGoalLine < TUNING.AI_FINISH_CLOSE_RANGE;
     const stallTimedOut = timeInD > TUNING.AI_FINISH_STALL_TIMEOUT;
     const atGoalLine = distToGoalLine < 25;
     
-    // ENTER FINISH STATE when any condition met
+    // ENTER FINISH STATE when any condition met - the shot stops being optional
     const shouldFinish = inAttackingD && (isVeryCloseRange || stallTimedOut || stuckTooLong || atGoalLine);
     
+    // The finish action joins the scored table as an override, so F9 still shows why it won
+    let finish: UtilityCandidate | undefined;
     if (shouldFinish) {
       console.log(`[AI FINISH] enter finish state - inD=${inAttackingD} closeRange=${isVeryCloseRange} stall=${stallTimedOut} stuck=${stuckTooLong} atGoalLine=${atGoalLine}`);
       
@@ -802,116 +922,139 @@ export class AISystem {
       });
       
       // Find teammates in D for potential pass
-      const teammatesInD = teamMates.filter(t => {
-        const tDistToGoal = Phaser.Math.Distance.Between(t.x, t.y, goalX, goalY);
-        return tDistToGoal < dRadius && t !== entity;
-      });
+      const teammatesInD = teamMates.filter(t => this.isInsideAttackingD(t.x, t.y, isPlayerTeam));
       
-      let reason = 'closeRange';
-      if (stallTimedOut) reason = 'stallTimeout';
-      if (stuckTooLong) reason = 'stuck';
-      if (atGoalLine) reason = 'atGoalLine';
+      // Only the conditions that triggered the finish are listed
+      const triggers: Record<string, number> = {};
+      if (isVeryCloseRange) triggers.closeRange = 1;
+      if (stallTimedOut) triggers.stall = 1;
+      if (stuckTooLong) triggers.stuck = 1;
+      if (atGoalLine) triggers.goalLine = 1;
       
-      // Decision: Pass if heavily blocked AND teammate in D, otherwise SHOOT
+      // Pass if heavily blocked AND teammate in D, otherwise SHOOT
       if (blockers.length >= 2 && teammatesInD.length > 0 && !this.isOnPassCooldown(entity)) {
-        const passTarget = teammatesInD[0];
-        console.log(`[AI FINISH] action=pass reason=${reason} blockers=${blockers.length}`);
-        this.setPassCooldown(entity);
-        return { action: 'pass', targetEntity: passTarget, priority: 15 };
-      }
-      
-      // Lateral strafe then shoot if at goal line
-      if (atGoalLine) {
-        // Strafe Y by 20-40px then shoot
-        const strafeY = entity.y + (entity.y > goalY ? -30 : 30);
-        const clampedStrafeY = Phaser.Math.Clamp(strafeY, 100, this.fieldHeight - 100);
-        console.log(`[AI FINISH] action=strafeShoot reason=${reason} strafeY=${Math.round(clampedStrafeY)}`);
-        // Small lateral move + immediate shoot target
-        return { action: 'shoot', targetX: goalX, targetY: goalY + (Math.random() - 0.5) * 50, priority: 15 };
+        console.log(`[AI FINISH] action=pass blockers=${blockers.length}`);
+        finish = this.utilityCandidate(
+          'pass', 'finish pass', TUNING.UTILITY_FINISH_WEIGHT,
+          { action: 'pass', targetEntity: teammatesInD[0], priority: 15 },
+          triggers
+        );
+      } else {
+        // Anywhere on frame from the goal line, the corners otherwise
+        const aimY = atGoalLine ? (this.random() - 0.5) * 50 : (this.random() > 0.5 ? -40 : 40);
+        console.log(`[AI FINISH] action=shoot distToGoal=${Math.round(distToGoal)}`);
+        finish = this.utilityCandidate(
+          'shoot', 'finish shoot', TUNING.UTILITY_FINISH_WEIGHT,
+          { action: 'shoot', targetX: goalX, targetY: goalY + aimY, priority: 15 },
+          triggers
+        );
       }
-      
-      // DEFAULT: Force immediate shot to corner
-      const targetY = goalY + (Math.random() > 0.5 ? -40 : 40);
-      console.log(`[AI FINISH] action=shoot reason=${reason} distToGoal=${Math.round(distToGoal)}`);
-      return { action: 'shoot', targetX: goalX, targetY: targetY, priority: 15 };
     }
     
-    // === Regular offensive logic (not in finish state) ===
-    
-    // Check pressure
-    const nearbyDefenders = defenders.filter(d =>
-      Phaser.Math.Distance.Between(entity.x, entity.y, d.x, d.y) < TUNING.AI_PRESSURE_RADIUS
-    );
-    const isPressured = nearbyDefenders.length > 0;
+    // === UTILITY SCORING: every candidate action gets a score, the best is played ===
+    const pressure = this.countPressure(entity, defenders);
+    const passReady = !this.isOnPassCooldown(entity);
+    const attackUrgency = this.getUrgency(isPlayerTeam, 'attack');
+    const holdUrgency = this.getUrgency(isPlayerTeam, 'hold');
+    const candidates: UtilityCandidate[] = [];
+    
+    // SHOOT - strict D-check: never from outside the D
+    const blockers = defenders.filter(d => {
+      const distToD = Phaser.Math.Distance.Between(entity.x, entity.y, d.x, d.y);
+      return distToD < 80 && Math.abs(d.x - goalX) < Math.abs(entity.x - goalX);
+    });
     
-    // ======================================================
-    // PART 1: STRICT D-CHECK - NO SHOOT OUTSIDE D (EVER!)
-    // ======================================================
-    if (inAttackingD && distToGoal < TUNING.AI_SHOOT_RANGE) {
-      // Inside D - can consider shooting
-      const blockers = defenders.filter(d => {
-        const distToD = Phaser.Math.Distance.Between(entity.x, entity.y, d.x, d.y);
-        return distToD < 80 && Math.abs(d.x - goalX) < Math.abs(entity.x - goalX);
-      });
-      
-      const angleToGoal = Math.atan2(goalY - entity.y, goalX - entity.x);
-      const hasGoodAngle = isPlayerTeam
-        ? Math.abs(angleToGoal) < TUNING.AI_SHOOT_ANGLE_THRESHOLD
-        : Math.abs(Math.abs(angleToGoal) - Math.PI) < TUNING.AI_SHOOT_ANGLE_THRESHOLD;
-      
-      if (blockers.length <= 1 && hasGoodAngle) {
-        console.log(`[AI] Taking shot: inside D (dist=${Math.round(distToGoal)})`);
-        return { action: 'shoot', targetX: goalX, targetY: goalY + (Math.random() - 0.5) * 60, priority: 10 };
+    const angleToGoal = Math.atan2(goalY - entity.y, goalX - entity.x);
+    const hasGoodAngle = isPlayerTeam
+      ? Math.abs(angleToGoal) < TUNING.AI_SHOOT_ANGLE_THRESHOLD
+      : Math.abs(Math.abs(angleToGoal) - Math.PI) < TUNING.AI_SHOOT_ANGLE_THRESHOLD;
+    
+    // A Sniper shoots through traffic
+    const blockersAllowed = entity.hasAffix?.('sniper') ? TUNING.AFFIX_SNIPER_BLOCKERS : 1;
+    
+    candidates.push(this.utilityCandidate(
+      'shoot', 'shoot', TUNING.UTILITY_SHOOT_WEIGHT,
+      { action: 'shoot', targetX: goalX, targetY: goalY, priority: 10 },
+      {
+        inD: inAttackingD ? 1 : 0,
+        range: distToGoal < TUNING.AI_SHOOT_RANGE ? 1 - 0.5 * distToGoal / TUNING.AI_SHOOT_RANGE : 0,
+        angle: hasGoodAngle ? 1 : TUNING.UTILITY_POOR_ANGLE,
+        traffic: blockers.length <= blockersAllowed ? 1 : TUNING.UTILITY_BLOCKED_SHOT,
+        unforced: TUNING.UTILITY_UNFORCED_SHOT
       }
-    } else if (!inAttackingD) {
-      // === OUTSIDE D - CANNOT SHOOT, MUST ENTER D OR PASS ===
-      console.log(`[AI] Shot blocked: outside D (dist=${Math.round(distToGoal)}) -> switching to PASS/DRIVE`);
-      
-      // Find teammates inside D or closer to D
-      const teammateInD = teamMates.find(t => this.isInsideAttackingD(t.x, t.y, isPlayerTeam));
-      const teammateCloserToD = teamMates.find(t => {
-        const tDistToGoal = Phaser.Math.Distance.Between(t.x, t.y, goalX, goalY);
-        return tDistToGoal < distToGoal;
-      });
+    ));
+    
+    // PASS - one candidate per teammate, best into the D
+    for (const target of teamMates) {
+      const passDist = Phaser.Math.Distance.Between(entity.x, entity.y, target.x, target.y);
+      const targetInD = this.isInsideAttackingD(target.x, target.y, isPlayerTeam);
+      const targetCloser = Phaser.Math.Distance.Between(target.x, target.y, goalX, goalY) < distToGoal;
       
-      // Option 1: Pass to teammate in D (best option)
-      if (teammateInD && !this.isOnPassCooldown(entity)) {
-        const laneBlocked = this.isPassLaneBlocked(entity, teammateInD, defenders);
-        if (!laneBlocked) {
-          console.log(`[AI] Passing into D to teammate`);
-          this.setPassCooldown(entity);
-          return { action: 'pass', targetEntity: teammateInD, priority: 11 };
+      candidates.push(this.utilityCandidate(
+        'pass', `pass ${this.describeTarget(target)}`, TUNING.UTILITY_PASS_WEIGHT,
+        { action: 'pass', targetEntity: target, priority: targetInD ? 11 : 9 },
+        {
+          ready: passReady ? 1 : 0,
+          lane: this.isPassLaneBlocked(entity, target, defenders) ? TUNING.UTILITY_BLOCKED_LANE : 1,
+          progress: targetInD ? 1 : targetCloser ? 0.7 : TUNING.UTILITY_BACK_PASS,
+          open: this.getOpenness(target, defenders),
+          range: passDist >= TUNING.AI_PASS_MIN_DIST && passDist <= TUNING.AI_PASS_MAX_DIST ? 1 : 0.5,
+          pressure: pressure > 0 ? 1 : TUNING.UTILITY_UNPRESSURED_PASS
         }
+      ));
+    }
+    
+    // DRIBBLE - drive to the D entry point, or at goal once inside
+    const dribbleTarget = inAttackingD
+      ? this.findDribbleTarget(entity, defenders, goalX, goalY)
+      : this.getDEntryPoint(entity, goalX, goalY, isPlayerTeam);
+    candidates.push(this.utilityCandidate(
+      'dribble', inAttackingD ? 'dribble goal' : 'dribble D', TUNING.UTILITY_DRIBBLE_WEIGHT,
+      { action: 'move', targetX: dribbleTarget.x, targetY: dribbleTarget.y, priority: inAttackingD ? 5 : 8 },
+      {
+        pressure: 1 / (1 + 0.5 * pressure),
+        progress: inAttackingD ? 0.5 : 1,
+        urgency: 1 - TUNING.UTILITY_URGENCY_WEIGHT * (1 - attackUrgency)
       }
-      
-      // Option 2: Pass to teammate closer to D
-      if (teammateCloserToD && isPressured && !this.isOnPassCooldown(entity)) {
-        const laneBlocked = this.isPassLaneBlocked(entity, teammateCloserToD, defenders);
-        if (!laneBlocked) {
-          console.log(`[AI] Passing to teammate closer to D`);
-          this.setPassCooldown(entity);
-          return { action: 'pass', targetEntity: teammateCloserToD, priority: 9 };
-        }
+    ));
+    
+    // HOLD - shield the ball and let the clock run
+    candidates.push(this.utilityCandidate(
+      'hold', 'hold', TUNING.UTILITY_HOLD_WEIGHT,
+      { action: 'wait', priority: 5 },
+      {
+        pressure: pressure === 0 ? 1 : 0.2,
+        patience: 0.5 + 0.5 * holdUrgency,
+        stall: inAttackingD ? 0.3 : 1
       }
-      
-      // Option 3: Drive toward D entry point (ENTER_D behavior)
-      const dEntryPoint = this.getDEntryPoint(entity, goalX, goalY, isPlayerTeam);
-      console.log(`[AI] Driving toward D entry at (${Math.round(dEntryPoint.x)}, ${Math.round(dEntryPoint.y)})`);
-      return { action: 'move', targetX: dEntryPoint.x, targetY: dEntryPoint.y, priority: 8 };
+    ));
+    
+    // CLEAR - only worth it in our own half
+    const danger = this.getOwnGoalDanger(entity, isPlayerTeam);
+    if (danger > 0) {
+      candidates.push(this.utilityCandidate(
+        'clear', 'clear', TUNING.UTILITY_CLEAR_WEIGHT,
+        { action: 'move', ...this.getClearTarget(entity, isPlayerTeam), priority: 8 },
+        {
+          danger,
+          pressure: pressure > 0 ? 1 : 0.4
+        }
+      ));
     }
     
-    // PASS if pressured (fallback)
-    if (isPressured && !this.isOnPassCooldown(entity) && teamMates.length > 0) {
-      const target = this.findBestPassTarget(entity, teamMates, defenders, isPlayerTeam);
-      if (target) {
-        this.setPassCooldown(entity);
-        return { action: 'pass', targetEntity: target, priority: 9 };
-      }
+    if (finish) {
+      candidates.push(finish);
     }
     
-    // DRIBBLE toward D (not goal line!)
-    const dEntryTarget = this.getDEntryPoint(entity, goalX, goalY, isPlayerTeam);
-    return { action: 'move', targetX: dEntryTarget.x, targetY: dEntryTarget.y, priority: 5 };
+    const best = this.chooseUtility(entity, candidates);
+    
+    if (best.action === 'pass') {
+      this.setPassCooldown(entity);
+    } else if (best.action === 'shoot' && best !== finish) {
+      return { ...best.decision, targetY: goalY + (this.random() - 0.5) * 60 };
+    }
+    
+    return best.decision;
   }
   
   /**
@@ -947,7 +1090,7 @@ export class AISystem {
     const goalY = this.fieldHeight / 2;
     
     // Check if player is calling for pass
-    if (player.isCallingForPass && !this.isOnPassCooldown(entity)) {
+    if (player.isCallingForPass && !this.benched.has(player) && !this.isOnPassCooldown(entity)) {
       const laneBlocked = this.isPassLaneBlocked(entity, player, enemies);
       if (!laneBlocked) {
         this.setPassCooldown(entity);
@@ -995,7 +1138,7 @@ export class AISystem {
       return this.getFormationDecision(entity, true, slotIndex, ball);
     }
     
-    const supportPos = this.getTriangleSupportPosition(entity, carrier, [player, ...teammates], true);
+    const supportPos = this.getTriangleSupportPosition(entity, carrier, this.getPlayerTeam(player, teammates), true);
     
     return { action: 'move', targetX: supportPos.x, targetY: supportPos.y, priority: 6 };
   }
@@ -1073,7 +1216,7 @@ export class AISystem {
       default: chaseThreshold = 280;
     }
     
-    const allTeam = isPlayerTeam ? [player, ...teammates] : enemies;
+    const allTeam = isPlayerTeam ? this.getPlayerTeam(player, teammates) : enemies;
     
     if (distToBall < chaseThreshold && this.canChaseLooseBall(entity, ball, allTeam, isPlayerTeam)) {
       const predictedPos = ball.getPredictedPosition?.(280) || { x: ball.x, y: ball.y };
@@ -1165,6 +1308,11 @@ export class AISystem {
     }
   }
   
+  /** Player and teammates still on the pitch */
+  private getPlayerTeam(player: any, teammates: any[]): any[] {
+    return [player, ...teammates].filter(e => !this.benched.has(e));
+  }
+  
   private isTeamHasBall(ball: any, player: any, teammates: any[]): boolean {
     if (!ball.owner) return false;
     return ball.owner === player || teammates.includes(ball.owner);
@@ -1190,8 +1338,15 @@ export class AISystem {
     return this.scene.time.now < backoffUntil;
   }
   
+  /** Send every teammate after the carrier for a while (Press Machine) */
+  pressWithTeammates(durationMs: number): void {
+    this.teamPressUntil = this.scene.time.now + durationMs;
+  }
+  
   setTackleBackoff(entity: any, duration: number = 800): void {
-    this.tackleBackoffUntil.set(entity, this.scene.time.now + duration);
+    // More aggressive enemies (curses, moment modifiers) are back in sooner
+    const aggression = Math.max(0.1, entity.getStatMultiplier?.('aggression') ?? 1);
+    this.tackleBackoffUntil.set(entity, this.scene.time.now + duration / aggression);
   }
   
   /**
@@ -1351,6 +1506,80 @@ export class AISystem {
     };
   }
   
+  // ========================================
+  // UTILITY SCORING
+  // ========================================
+  
+  /** Build a candidate action; its score is the weight times every consideration */
+  private utilityCandidate(
+    action: UtilityAction,
+    label: string,
+    weight: number,
+    decision: AIDecision,
+    considerations: Record<string, number>
+  ): UtilityCandidate {
+    const entries = Object.entries(considerations).map(([name, value]) => ({ name, value }));
+    const score = entries.reduce((total, c) => total * c.value, weight);
+    return { action, label, weight, considerations: entries, score, decision };
+  }
+  
+  /** Rank the candidates, keep the table for F9 and return the winner */
+  private chooseUtility(entity: any, candidates: UtilityCandidate[]): UtilityCandidate {
+    candidates.sort((a, b) => b.score - a.score);
+    this.utilityTables.set(entity, { candidates, at: this.scene.time.now });
+    return candidates[0];
+  }
+  
+  /**
+   * How hard the objective pushes this team (0-1): 'attack' when it needs a
+   * goal, 'hold' when it needs to keep the ball
+   */
+  private getUrgency(isPlayerTeam: boolean, kind: 'attack' | 'hold'): number {
+    const { type, urgency } = this.currentObjective;
+    if (kind === 'hold') {
+      return isPlayerTeam && type === 'hold_possession' ? urgency : 0;
+    }
+    const needsGoal = isPlayerTeam
+      ? type === 'score' || type === 'pc_score'
+      : type === 'defend' || type === 'survive';
+    return needsGoal ? urgency : 0;
+  }
+  
+  /** Opponents close enough to count as pressure */
+  private countPressure(entity: any, opponents: any[]): number {
+    return opponents.filter(o =>
+      Phaser.Math.Distance.Between(entity.x, entity.y, o.x, o.y) < TUNING.AI_PRESSURE_RADIUS
+    ).length;
+  }
+  
+  /** 0-1: how much room a receiver has from the nearest opponent */
+  private getOpenness(target: any, opponents: any[]): number {
+    let nearest = Infinity;
+    for (const o of opponents) {
+      nearest = Math.min(nearest, Phaser.Math.Distance.Between(target.x, target.y, o.x, o.y));
+    }
+    return Phaser.Math.Clamp(nearest / TUNING.UTILITY_OPEN_DIST, 0.2, 1);
+  }
+  
+  /** 0-1: how deep in its own half the entity is (0 past halfway) */
+  private getOwnGoalDanger(entity: any, isPlayerTeam: boolean): number {
+    const ownGoalX = isPlayerTeam ? 30 : this.fieldWidth - 30;
+    return Phaser.Math.Clamp(1 - Math.abs(entity.x - ownGoalX) / (this.fieldWidth / 2), 0, 1);
+  }
+  
+  /** Upfield and out toward the nearer sideline */
+  private getClearTarget(entity: any, isPlayerTeam: boolean): { targetX: number; targetY: number } {
+    const wide = entity.y < this.fieldHeight / 2 ? -60 : 60;
+    return {
+      targetX: entity.x + (isPlayerTeam ? TUNING.UTILITY_CLEAR_DIST : -TUNING.UTILITY_CLEAR_DIST),
+      targetY: Phaser.Math.Clamp(entity.y + wide, 100, this.fieldHeight - 100)
+    };
+  }
+  
+  private describeTarget(target: any): string {
+    return target.aiConfig?.role ?? 'player';
+  }
+  
   // ========================================
   // DEBUG GETTERS
   // ========================================
@@ -1366,6 +1595,13 @@ export class AISystem {
     };
   }
   
+  /** The carrier's last score table, while it's recent enough to explain what it did */
+  getUtilityTable(entity: any): UtilityScoreTable | undefined {
+    const table = this.utilityTables.get(entity);
+    if (!table || this.scene.time.now - table.at > TUNING.UTILITY_DEBUG_TTL_MS) return undefined;
+    return table;
+  }
+  
   // ========================================
   // STATIC CONFIGS
   // ========================================
@@ -1414,8 +1650,26 @@ export class AISystem {
     switch (bossType) {
       case 'pressMachine':
         return { role: 'midfielder', aggressiveness: 0.95, skill: 0.7, speed: 1.1, reactionTime: 150 };
+      case 'pcMonster':
+        return { role: 'forward', aggressiveness: 0.7, skill: 0.9, speed: 1.0, reactionTime: 150 };
       case 'starForward':
         return { role: 'forward', aggressiveness: 0.8, skill: 0.95, speed: 1.2, reactionTime: 100 };
+      case 'rainGame':
+        return { role: 'midfielder', aggressiveness: 0.75, skill: 0.8, speed: 1.05, reactionTime: 130 };
+      case 'strokeMaster':
+        return { role: 'forward', aggressiveness: 0.6, skill: 1.0, speed: 1.0, reactionTime: 100 };
+      case 'wall':
+        return { role: 'defender', aggressiveness: 0.7, skill: 0.85, speed: 0.95, reactionTime: 120 };
+      case 'twinStrikers':
+        return { role: 'forward', aggressiveness: 0.75, skill: 0.9, speed: 1.15, reactionTime: 110 };
+      case 'sweeperKeeper':
+        return { role: 'defender', aggressiveness: 0.8, skill: 0.8, speed: 1.05, reactionTime: 130 };
+      case 'captain':
+        return { role: 'midfielder', aggressiveness: 0.85, skill: 0.85, speed: 1.05, reactionTime: 120 };
+      case 'aerialAce':
+        return { role: 'midfielder', aggressiveness: 0.6, skill: 0.95, speed: 1.0, reactionTime: 110 };
+      case 'enforcer':
+        return { role: 'defender', aggressiveness: 1.0, skill: 0.75, speed: 1.1, reactionTime: 120 };
       default:
         return AISystem.createForwardConfig(0.8);
     }
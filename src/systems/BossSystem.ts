@@ -0,0 +1,607 @@
+// BossSystem for Stick & Shift
+// Boss encounters: each boss type's signature mechanic, escalating through phases as the moment is won
+
+import Phaser from 'phaser';
+import { MomentDefinition, BossType } from '../data/moments';
+import { EnemyAI } from '../entities/EnemyAI';
+import { KeeperStyle } from '../entities/EnemyGoalkeeper';
+import { MomentSystem } from './MomentSystem';
+import { EnemyModifierSystem } from './EnemyModifierSystem';
+import { RandomSource } from './RandomSystem';
+import * as TUNING from '../data/tuning';
+
+// ========================================
+// TYPES
+// ========================================
+
+/** What the boss needs from the player's team */
+export interface BossTarget {
+  x: number;
+  y: number;
+  isStunned: boolean;
+  hasIframes?(): boolean;
+}
+
+/** The pitch as the boss sees it each step */
+export interface BossPitch {
+  ball: { x: number; y: number; owner: any };
+  playerTeam: BossTarget[];
+  enemies: EnemyAI[];
+  playerGoal: { x: number; y: number };
+  isInPlayerD(x: number, y: number): boolean;
+}
+
+export type BossPhase = 1 | 2 | 3;
+
+/** A telegraphed circle on the pitch: a press trap or a rain puddle */
+interface Hazard {
+  x: number;
+  y: number;
+  radius: number;
+  laidAt: number;
+  armsAt: number;
+  endsAt: number;
+  sprung: boolean;
+  caught: Set<BossTarget>;
+}
+
+type ComboStage = 'idle' | 'windup' | 'dodge';
+
+// Stroke Master's encounter is the stroke showdown itself
+const ENCOUNTERS: BossType[] = [
+  'pressMachine', 'pcMonster', 'starForward', 'rainGame',
+  'wall', 'twinStrikers', 'sweeperKeeper', 'captain', 'aerialAce', 'enforcer'
+];
+
+const TRAP_COLOR = 0xe74c3c;
+const PUDDLE_COLOR = 0x74b9ff;
+const WINDUP_COLOR = 0xf1c40f;
+const AURA_COLOR = 0x9b59b6;
+
+// ========================================
+// BOSS SYSTEM CLASS
+// ========================================
+
+/**
+ * Boss health is the moment's progress run backwards: goals knock it down
+ * in moments won on goals, the clock wears it down in the rest. Each phase
+ * past the first brings the boss's moves round sooner. Anything that changes
+ * possession is emitted for RunScene to carry out; the boss itself is moved
+ * directly through its EnemyAI boss moves.
+ */
+export class BossSystem extends Phaser.Events.EventEmitter {
+  private scene: Phaser.Scene;
+  private momentSystem: MomentSystem;
+  private enemyModifiers: EnemyModifierSystem;
+  private random: RandomSource;
+  
+  private bossType?: BossType;
+  private boss?: EnemyAI;
+  private bosses: EnemyAI[] = [];
+  private health: number = 1;
+  private phase: BossPhase = 1;
+  private elapsed: number = 0;
+  private nextMoveAt: number = 0;
+  
+  // Press Machine traps and Rain Game puddles
+  private hazards: Hazard[] = [];
+  private waveAt: number = 0;
+  
+  // PC Monster
+  private dwell: number = 0;
+  private dwellCarrier?: EnemyAI;
+  
+  // Star Forward
+  private comboStage: ComboStage = 'idle';
+  private comboStageEndsAt: number = 0;
+  
+  // Twin Strikers
+  private oneTwoAt: number = 0;
+  
+  private graphics: Phaser.GameObjects.Graphics;
+  
+  constructor(scene: Phaser.Scene, momentSystem: MomentSystem, enemyModifiers: EnemyModifierSystem, random: RandomSource = Math.random) {
+    super();
+    this.scene = scene;
+    this.momentSystem = momentSystem;
+    this.enemyModifiers = enemyModifiers;
+    this.random = random;
+    
+    this.graphics = scene.add.graphics().setDepth(5);
+  }
+  
+  // ========================================
+  // MOMENT SETUP
+  // ========================================
+  
+  /** Boss moments with an encounter start it; anything else leaves the system idle */
+  start(moment: MomentDefinition, bosses: EnemyAI[]): void {
+    this.stop();
+    if (bosses.length === 0 || !moment.bossType || !ENCOUNTERS.includes(moment.bossType)) return;
+    
+    this.bossType = moment.bossType;
+    this.boss = bosses[0];
+    this.bosses = bosses;
+    this.health = 1;
+    this.phase = 1;
+    this.elapsed = 0;
+    this.nextMoveAt = this.getMoveInterval();
+    
+    console.log(`[BOSS] ${moment.name} (${moment.bossType})`);
+  }
+  
+  stop(): void {
+    this.clearPlay();
+    this.enemyModifiers.clearAuras();
+    this.boss = undefined;
+    this.bosses = [];
+    this.bossType = undefined;
+  }
+  
+  /** Play restarted from the centre: telegraphs are dropped and the next move waits a full interval */
+  clearPlay(): void {
+    this.bosses.forEach(boss => boss.release());
+    this.hazards = [];
+    this.waveAt = 0;
+    this.dwell = 0;
+    this.dwellCarrier = undefined;
+    this.comboStage = 'idle';
+    this.oneTwoAt = 0;
+    this.nextMoveAt = this.elapsed + this.getMoveInterval();
+    this.graphics.clear();
+  }
+  
+  // ========================================
+  // QUERIES
+  // ========================================
+  
+  isActive(): boolean {
+    return this.bossType !== undefined;
+  }
+  
+  /** Share of the boss's health left (0-1) */
+  getHealth(): number {
+    return this.health;
+  }
+  
+  getPhase(): BossPhase {
+    return this.phase;
+  }
+  
+  /** The PC Monster's shots in a live corner are drag flicks: harder and off the ground */
+  getDragFlick(shooter: EnemyAI, isCornerLive: boolean): { powerMult: number; lift: number } | null {
+    if (this.bossType !== 'pcMonster' || shooter !== this.boss || !isCornerLive) return null;
+    return { powerMult: TUNING.PC_MONSTER_FLICK_POWER_MULT, lift: TUNING.PC_MONSTER_FLICK_LIFT };
+  }
+  
+  /** The enemy keeper is the boss in The Wall and Sweeper Keeper */
+  getKeeperStyle(): KeeperStyle {
+    switch (this.bossType) {
+      case 'wall':
+        return 'wall';
+      case 'sweeperKeeper':
+        return 'sweeper';
+      default:
+        return 'standard';
+    }
+  }
+  
+  /** The Aerial Ace lofts its passes; from phase 2 its whole team does */
+  getPassLift(passer: EnemyAI): { speed: number; clears: number } | null {
+    if (this.bossType !== 'aerialAce') return null;
+    if (passer !== this.boss && this.phase < 2) return null;
+    return { speed: TUNING.AERIAL_PASS_LIFT_SPEED, clears: TUNING.AERIAL_ACE_CLEARS + this.phase - 1 };
+  }
+  
+  /** How much harder a tackle stuns and knocks back: the Enforcer's grow each phase */
+  getTackleMult(tackler: any): number {
+    if (this.bossType !== 'enforcer' || tackler !== this.boss) return 1;
+    return TUNING.ENFORCER_TACKLE_MULT + (this.phase - 1) * TUNING.ENFORCER_TACKLE_MULT_GROWTH;
+  }
+  
+  /** Cooldowns and wind-ups shrink with each phase */
+  private tempo(ms: number): number {
+    return ms * Math.pow(TUNING.BOSS_PHASE_TEMPO, this.phase - 1);
+  }
+  
+  private getMoveInterval(): number {
+    switch (this.bossType) {
+      case 'pressMachine':
+        return this.tempo(TUNING.PRESS_WAVE_INTERVAL_MS);
+      case 'pcMonster':
+        return 0;
+      case 'starForward':
+        return this.tempo(TUNING.STAR_COMBO_COOLDOWN_MS);
+      case 'rainGame':
+        return this.tempo(TUNING.RAIN_SURGE_INTERVAL_MS);
+      case 'twinStrikers':
+        return this.tempo(TUNING.TWIN_ONE_TWO_COOLDOWN_MS);
+      default:
+        return 0;
+    }
+  }
+  
+  // ========================================
+  // UPDATE
+  // ========================================
+  
+  update(delta: number, pitch: BossPitch): void {
+    if (!this.isActive()) return;
+    
+    this.elapsed += delta;
+    this.updateHealth();
+    
+    switch (this.bossType) {
+      case 'pressMachine':
+        this.updatePressMachine(pitch);
+        break;
+      case 'pcMonster':
+        this.updatePCMonster(delta, pitch);
+        break;
+      case 'starForward':
+        this.updateStarForward(pitch);
+        break;
+      case 'rainGame':
+        this.updateRainGame(pitch);
+        break;
+      case 'twinStrikers':
+        this.updateTwinStrikers(pitch);
+        break;
+      case 'captain':
+        this.updateCaptain(pitch);
+        break;
+    }
+    
+    this.hazards = this.hazards.filter(hazard => this.elapsed < hazard.endsAt);
+    this.draw(pitch);
+  }
+  
+  /** Health follows the moment: goals toward the target, or the clock running down */
+  private updateHealth(): void {
+    const state = this.momentSystem.getCurrentState();
+    if (!state) return;
+    
+    const clock = 1 - state.timeRemaining / state.definition.duration;
+    const progress = state.objectiveTarget > 0
+      ? Math.min(1, state.objectiveProgress / state.objectiveTarget) * (1 - TUNING.BOSS_CLOCK_SHARE) + clock * TUNING.BOSS_CLOCK_SHARE
+      : clock;
+    this.health = Phaser.Math.Clamp(1 - progress, 0, 1);
+    
+    const phase: BossPhase = this.health <= TUNING.BOSS_PHASE_3_HEALTH ? 3
+      : this.health <= TUNING.BOSS_PHASE_2_HEALTH ? 2
+      : 1;
+    if (phase > this.phase) {
+      this.phase = phase;
+      console.log(`[BOSS] Phase ${phase}`);
+      this.emit('phase', phase, this.boss);
+    }
+  }
+  
+  // ========================================
+  // PRESS MACHINE
+  // ========================================
+  
+  /**
+   * Traps are laid across the carrier's path, one per phase. When they arm the
+   * whole team presses flat out, and a carrier caught in a trap loses the ball.
+   */
+  private updatePressMachine(pitch: BossPitch): void {
+    if (this.hazards.length === 0 && this.elapsed >= this.nextMoveAt) {
+      this.layTraps(pitch);
+    }
+    
+    if (this.waveAt > 0 && this.elapsed >= this.waveAt) {
+      this.waveAt = 0;
+      pitch.enemies.forEach(enemy => enemy.surge(TUNING.PRESS_WAVE_SPEED_MULT, TUNING.PRESS_WAVE_MS));
+      this.emit('pressWave', this.boss);
+    }
+    
+    const carrier = pitch.playerTeam.find(entity => entity === pitch.ball.owner);
+    this.hazards.forEach(trap => {
+      if (trap.sprung || this.elapsed < trap.armsAt) return;
+      
+      if (carrier && !carrier.hasIframes?.() && this.isInside(carrier, trap)) {
+        trap.sprung = true;
+        trap.endsAt = this.elapsed + 200;
+        this.emit('trapSprung', carrier);
+      }
+    });
+  }
+  
+  private layTraps(pitch: BossPitch): void {
+    const { ball } = pitch;
+    const mover = pitch.playerTeam.find(entity => entity === ball.owner) as any;
+    const velocity = mover?.body?.velocity;
+    const heading = velocity && velocity.length() > 20 ? Math.atan2(velocity.y, velocity.x) : 0;
+    const spread = TUNING.PRESS_TRAP_RADIUS * 1.8;
+    
+    for (let i = 0; i < this.phase; i++) {
+      // Straight ahead first, then either side of the run
+      const side = i === 0 ? 0 : (i % 2 === 1 ? 1 : -1);
+      const jitter = (this.random() - 0.5) * TUNING.PRESS_TRAP_RADIUS * 0.5;
+      const x = ball.x + Math.cos(heading) * TUNING.PRESS_TRAP_LEAD - Math.sin(heading) * (side * spread + jitter);
+      const y = ball.y + Math.sin(heading) * TUNING.PRESS_TRAP_LEAD + Math.cos(heading) * (side * spread + jitter);
+      this.addHazard(x, y, TUNING.PRESS_TRAP_RADIUS, TUNING.PRESS_TRAP_TELEGRAPH_MS, TUNING.PRESS_WAVE_MS);
+    }
+    
+    console.log(`[BOSS] Press wave: ${this.phase} trap(s)`);
+    this.waveAt = this.elapsed + TUNING.PRESS_TRAP_TELEGRAPH_MS;
+    this.nextMoveAt = this.waveAt + TUNING.PRESS_WAVE_MS + this.getMoveInterval();
+  }
+  
+  // ========================================
+  // PC MONSTER
+  // ========================================
+  
+  /** Any enemy carrying the ball in your D for long enough wins a corner for the monster to flick */
+  private updatePCMonster(delta: number, pitch: BossPitch): void {
+    const carrier = pitch.enemies.find(enemy => enemy === pitch.ball.owner);
+    if (this.elapsed < this.nextMoveAt || !carrier || !pitch.isInPlayerD(carrier.x, carrier.y)) {
+      this.dwell = 0;
+      this.dwellCarrier = undefined;
+      return;
+    }
+    
+    this.dwell += delta;
+    this.dwellCarrier = carrier;
+    if (this.dwell >= this.tempo(TUNING.PC_MONSTER_EARN_MS)) {
+      this.dwell = 0;
+      this.dwellCarrier = undefined;
+      this.nextMoveAt = this.elapsed + this.tempo(TUNING.PC_MONSTER_CORNER_COOLDOWN_MS);
+      console.log('[BOSS] Corner earned');
+      this.emit('cornerEarned', carrier);
+    }
+  }
+  
+  // ========================================
+  // STAR FORWARD
+  // ========================================
+  
+  /**
+   * The combo: a still wind-up in range of goal (shown on the pitch, and
+   * the moment to tackle), a tackle-proof sidestep, then a power shot.
+   */
+  private updateStarForward(pitch: BossPitch): void {
+    const boss = this.boss!;
+    
+    if (this.comboStage !== 'idle' && (!boss.hasBall || boss.isStunned)) {
+      this.cancelCombo();
+      return;
+    }
+    
+    switch (this.comboStage) {
+      case 'idle': {
+        if (this.elapsed < this.nextMoveAt || !boss.hasBall || boss.isStunned) return;
+        const dist = Phaser.Math.Distance.Between(boss.x, boss.y, pitch.playerGoal.x, pitch.playerGoal.y);
+        if (dist > TUNING.STAR_COMBO_RANGE) return;
+        
+        const windup = this.tempo(TUNING.STAR_COMBO_WINDUP_MS);
+        boss.holdStill(windup);
+        this.comboStage = 'windup';
+        this.comboStageEndsAt = this.elapsed + windup;
+        console.log('[BOSS] Combo wind-up');
+        this.emit('comboWindup', boss);
+        break;
+      }
+      
+      case 'windup': {
+        if (this.elapsed < this.comboStageEndsAt) return;
+        
+        // Sidestep across the face of goal, away from the closest defender
+        const toGoal = Math.atan2(pitch.playerGoal.y - boss.y, pitch.playerGoal.x - boss.x);
+        const nearest = this.findNearest(boss, pitch.playerTeam);
+        let side = this.random() < 0.5 ? 1 : -1;
+        if (nearest) {
+          const cross = Math.cos(toGoal) * (nearest.y - boss.y) - Math.sin(toGoal) * (nearest.x - boss.x);
+          side = cross > 0 ? -1 : 1;
+        }
+        const dodgeAngle = toGoal + side * Math.PI / 2;
+        
+        boss.dodge(Math.cos(dodgeAngle), Math.sin(dodgeAngle), TUNING.STAR_COMBO_DODGE_SPEED, TUNING.STAR_COMBO_DODGE_MS);
+        this.comboStage = 'dodge';
+        this.comboStageEndsAt = this.elapsed + TUNING.STAR_COMBO_DODGE_MS;
+        break;
+      }
+      
+      case 'dodge': {
+        if (this.elapsed < this.comboStageEndsAt) return;
+        
+        // Picks a side of the goal rather than the keeper's middle
+        const postOffset = (this.random() < 0.5 ? -1 : 1) * (20 + this.random() * 25);
+        const angle = Math.atan2(pitch.playerGoal.y + postOffset - boss.y, pitch.playerGoal.x - boss.x);
+        boss.strike(angle, boss.getShotPower() * TUNING.STAR_COMBO_SHOT_MULT);
+        this.emit('comboShot', boss);
+        
+        this.comboStage = 'idle';
+        this.nextMoveAt = this.elapsed + this.getMoveInterval();
+        break;
+      }
+    }
+  }
+  
+  private cancelCombo(): void {
+    this.boss?.release();
+    this.comboStage = 'idle';
+    this.nextMoveAt = this.elapsed + this.getMoveInterval();
+  }
+  
+  private findNearest(from: { x: number; y: number }, targets: BossTarget[]): BossTarget | undefined {
+    let nearest: BossTarget | undefined;
+    let nearestDist = Infinity;
+    targets.forEach(target => {
+      const dist = Phaser.Math.Distance.Between(from.x, from.y, target.x, target.y);
+      if (dist < nearestDist) {
+        nearest = target;
+        nearestDist = dist;
+      }
+    });
+    return nearest;
+  }
+  
+  // ========================================
+  // RAIN GAME
+  // ========================================
+  
+  /**
+   * Surges of rain leave puddles around the ball, one more per phase. The
+   * player's team loses its footing in them; the boss runs through faster.
+   */
+  private updateRainGame(pitch: BossPitch): void {
+    if (this.elapsed >= this.nextMoveAt) {
+      this.layPuddles(pitch);
+    }
+    
+    const boss = this.boss!;
+    this.hazards.forEach(puddle => {
+      if (this.elapsed < puddle.armsAt) return;
+      
+      pitch.playerTeam.forEach(entity => {
+        if (puddle.caught.has(entity) || entity.isStunned || entity.hasIframes?.() || !this.isInside(entity, puddle)) return;
+        puddle.caught.add(entity);
+        this.emit('puddleSlip', entity);
+      });
+      
+      if (this.isInside(boss, puddle)) {
+        boss.surge(TUNING.RAIN_PUDDLE_SURGE_MULT, 100);
+      }
+    });
+  }
+  
+  private layPuddles(pitch: BossPitch): void {
+    const count = 1 + this.phase;
+    console.log(`[BOSS] Rain surge: ${count} puddles`);
+    for (let i = 0; i < count; i++) {
+      // The first lands on the ball; the rest scatter round it
+      const angle = this.random() * Math.PI * 2;
+      const dist = i === 0 ? 0 : TUNING.RAIN_PUDDLE_RADIUS * (1.5 + this.random() * 2);
+      this.addHazard(
+        pitch.ball.x + Math.cos(angle) * dist,
+        pitch.ball.y + Math.sin(angle) * dist,
+        TUNING.RAIN_PUDDLE_RADIUS,
+        TUNING.RAIN_PUDDLE_TELEGRAPH_MS,
+        TUNING.RAIN_PUDDLE_MS
+      );
+    }
+    
+    this.nextMoveAt = this.elapsed + this.getMoveInterval();
+  }
+  
+  // ========================================
+  // TWIN STRIKERS
+  // ========================================
+  
+  /** A twin closed down on the ball gives it to the other twin, sooner each phase */
+  private updateTwinStrikers(pitch: BossPitch): void {
+    if (this.elapsed < this.oneTwoAt) return;
+    
+    const carrier = this.bosses.find(twin => twin === pitch.ball.owner);
+    const partner = this.bosses.find(twin => twin !== carrier && !twin.isStunned);
+    if (!carrier || !partner || carrier.isStunned) return;
+    
+    const nearest = this.findNearest(carrier, pitch.playerTeam);
+    if (!nearest || Phaser.Math.Distance.Between(carrier.x, carrier.y, nearest.x, nearest.y) > TUNING.TWIN_PRESSURE_RADIUS) return;
+    
+    carrier.passTo(partner);
+    this.oneTwoAt = this.elapsed + this.getMoveInterval();
+    this.emit('oneTwo', carrier, partner);
+  }
+  
+  // ========================================
+  // CAPTAIN
+  // ========================================
+  
+  private getAuraRadius(): number {
+    return TUNING.CAPTAIN_AURA_RADIUS + (this.phase - 1) * TUNING.CAPTAIN_AURA_GROWTH;
+  }
+  
+  /** Teammates near the Captain are lifted while they stay near; the aura widens each phase */
+  private updateCaptain(pitch: BossPitch): void {
+    const captain = this.boss!;
+    const radius = this.getAuraRadius();
+    const inAura = captain.isStunned ? [] : pitch.enemies.filter(enemy => (
+      enemy !== captain && Phaser.Math.Distance.Between(captain.x, captain.y, enemy.x, enemy.y) < radius
+    ));
+    
+    this.enemyModifiers.setAura('captain', [
+      { stat: 'speed', value: TUNING.CAPTAIN_AURA_SPEED_BONUS },
+      { stat: 'aggression', value: TUNING.CAPTAIN_AURA_AGGRESSION_BONUS }
+    ], inAura);
+  }
+  
+  // ========================================
+  // HAZARDS
+  // ========================================
+  
+  private addHazard(x: number, y: number, radius: number, telegraph: number, duration: number): void {
+    const bounds = this.scene.physics.world.bounds;
+    this.hazards.push({
+      x: Phaser.Math.Clamp(x, radius, bounds.width - radius),
+      y: Phaser.Math.Clamp(y, radius, bounds.height - radius),
+      radius,
+      laidAt: this.elapsed,
+      armsAt: this.elapsed + telegraph,
+      endsAt: this.elapsed + telegraph + duration,
+      sprung: false,
+      caught: new Set()
+    });
+  }
+  
+  private isInside(entity: { x: number; y: number }, hazard: Hazard): boolean {
+    return Phaser.Math.Distance.Between(entity.x, entity.y, hazard.x, hazard.y) < hazard.radius;
+  }
+  
+  // ========================================
+  // VISUALS
+  // ========================================
+  
+  private draw(pitch: BossPitch): void {
+    this.graphics.clear();
+    
+    const color = this.bossType === 'rainGame' ? PUDDLE_COLOR : TRAP_COLOR;
+    this.hazards.forEach(hazard => {
+      if (this.elapsed < hazard.armsAt) {
+        // Telegraph: an outline that fills in as it arms
+        const charge = (this.elapsed - hazard.laidAt) / (hazard.armsAt - hazard.laidAt);
+        this.graphics.lineStyle(2, color, 0.5 + Math.sin(this.elapsed * 0.02) * 0.3);
+        this.graphics.strokeCircle(hazard.x, hazard.y, hazard.radius);
+        this.graphics.fillStyle(color, 0.08);
+        this.graphics.fillCircle(hazard.x, hazard.y, hazard.radius * charge);
+      } else {
+        this.graphics.fillStyle(color, hazard.sprung ? 0.45 : 0.22);
+        this.graphics.fillCircle(hazard.x, hazard.y, hazard.radius);
+        this.graphics.lineStyle(2, color, 0.8);
+        this.graphics.strokeCircle(hazard.x, hazard.y, hazard.radius);
+      }
+    });
+    
+    // PC Monster: a ring round the carrier closing in on the corner
+    if (this.dwellCarrier) {
+      const charge = this.dwell / this.tempo(TUNING.PC_MONSTER_EARN_MS);
+      this.graphics.lineStyle(3, TRAP_COLOR, 0.9);
+      this.graphics.beginPath();
+      this.graphics.arc(this.dwellCarrier.x, this.dwellCarrier.y, 30, -Math.PI / 2, -Math.PI / 2 + charge * Math.PI * 2);
+      this.graphics.strokePath();
+    }
+    
+    // Star Forward: the wind-up shows where the shot is going
+    if (this.comboStage === 'windup' && this.boss) {
+      const boss = this.boss;
+      const pulse = 1 + Math.sin(this.elapsed * 0.03) * 0.15;
+      this.graphics.lineStyle(3, WINDUP_COLOR, 0.9);
+      this.graphics.strokeCircle(boss.x, boss.y, 34 * pulse);
+      this.graphics.lineStyle(2, WINDUP_COLOR, 0.5);
+      this.graphics.lineBetween(boss.x, boss.y, pitch.playerGoal.x, pitch.playerGoal.y);
+    }
+    
+    // Captain: the aura's reach
+    if (this.bossType === 'captain' && this.boss && !this.boss.isStunned) {
+      this.graphics.lineStyle(2, AURA_COLOR, 0.35);
+      this.graphics.strokeCircle(this.boss.x, this.boss.y, this.getAuraRadius());
+    }
+  }
+  
+  destroy(): void {
+    this.removeAllListeners();
+    this.graphics.destroy();
+  }
+}
@@ -0,0 +1,309 @@
+// ChallengeTracker for Stick & Shift
+// Feeds challenge counters from run events, persists progress and pays out rewards and unlocks
+
+import Phaser from 'phaser';
+import { Challenge, ChallengeStat, ChallengeProgress, getChallengesByStat } from '../data/challenges';
+import { Upgrade, getUpgradeById } from '../data/upgrades';
+import { getReachedMilestones } from '../data/unlocks';
+import { MomentSystem } from './MomentSystem';
+import { UpgradeSystem } from './UpgradeSystem';
+import { SaveSystem } from './SaveSystem';
+import { AchievementPopup } from '../ui/Toast';
+import * as TUNING from '../data/tuning';
+
+// ========================================
+// RUNSCENE EVENTS
+// ========================================
+
+/** Scene event payloads RunScene emits for the tracker */
+export interface TackleWonEvent {
+  tackler: any;
+  carrier: any;
+  byPlayer: boolean;
+}
+
+export interface PassCompletedEvent {
+  passer: any;
+  receiver: any;
+  fromPlayer: boolean;
+}
+
+export interface GoalScoredEvent {
+  isPlayerGoal: boolean;
+  scorer: any;
+  byPlayer: boolean;
+  isRebound: boolean;
+}
+
+interface QueuedPopup {
+  title: string;
+  description: string;
+  icon: string;
+}
+
+// ========================================
+// CHALLENGE TRACKER CLASS
+// ========================================
+
+/**
+ * Lifetime challenges add every increment to their saved value.
+ * Match challenges keep the best single-run count, so a run that falls
+ * short still shows how close it came.
+ */
+export class ChallengeTracker {
+  private scene: Phaser.Scene;
+  private momentSystem: MomentSystem;
+  private upgradeSystem: UpgradeSystem;
+  
+  // Per-match counters, reset on runStarted and runResumed
+  private matchCounts: Map<ChallengeStat, number> = new Map();
+  
+  // Per-moment state
+  private dodgedThisMoment: boolean = false;
+  private worstDeficit: number = 0;
+  
+  // Teammate who last received a pass from the player
+  private assistCandidate: any = null;
+  private assistCandidateAt: number = 0;
+  
+  // Upgrades added to the draft pool this run
+  private runUnlocks: Upgrade[] = [];
+  
+  // Popups waiting for the previous one to clear
+  private popupQueue: QueuedPopup[] = [];
+  private popupBusyUntil: number = 0;
+  
+  constructor(scene: Phaser.Scene, momentSystem: MomentSystem, upgradeSystem: UpgradeSystem) {
+    this.scene = scene;
+    this.momentSystem = momentSystem;
+    this.upgradeSystem = upgradeSystem;
+    
+    this.subscribe();
+  }
+  
+  private subscribe(): void {
+    // MomentSystem
+    this.momentSystem.on('runStarted', () => {
+      this.resetMatch();
+      this.checkMilestones();
+    });
+    // Match counters aren't saved with a suspended run, so a resumed one counts afresh
+    this.momentSystem.on('runResumed', () => {
+      this.resetMatch();
+      this.checkMilestones();
+    });
+    this.momentSystem.on('momentStarted', () => this.resetMoment());
+    this.momentSystem.on('enemyScored', () => this.onEnemyScored());
+    this.momentSystem.on('momentComplete', (data: any) => this.onMomentComplete(data));
+    this.momentSystem.on('runComplete', () => this.checkMilestones());
+    
+    // UpgradeSystem
+    this.upgradeSystem.addHook({
+      event: 'dodge',
+      effect: () => {
+        this.dodgedThisMoment = true;
+        this.record('dodges');
+      }
+    });
+    
+    // RunScene (scene events outlive the scene, so drop them on shutdown)
+    this.scene.events.on('tackleWon', this.onTackleWon, this);
+    this.scene.events.on('passCompleted', this.onPassCompleted, this);
+    this.scene.events.on('goalScored', this.onGoalScored, this);
+    this.scene.events.once('shutdown', this.destroy, this);
+  }
+  
+  destroy(): void {
+    this.scene.events.off('tackleWon', this.onTackleWon, this);
+    this.scene.events.off('passCompleted', this.onPassCompleted, this);
+    this.scene.events.off('goalScored', this.onGoalScored, this);
+  }
+  
+  // ========================================
+  // EVENT HANDLERS
+  // ========================================
+  
+  private resetMatch(): void {
+    this.matchCounts.clear();
+    this.resetMoment();
+  }
+  
+  private resetMoment(): void {
+    this.dodgedThisMoment = false;
+    this.worstDeficit = 0;
+    this.assistCandidate = null;
+  }
+  
+  private onTackleWon(data: TackleWonEvent): void {
+    if (data.byPlayer) {
+      this.record('tackles');
+    }
+  }
+  
+  private onPassCompleted(data: PassCompletedEvent): void {
+    this.assistCandidate = data.fromPlayer ? data.receiver : null;
+    this.assistCandidateAt = this.scene.time.now;
+  }
+  
+  private onGoalScored(data: GoalScoredEvent): void {
+    if (!data.isPlayerGoal) return;
+    
+    if (data.byPlayer) {
+      this.record('goals');
+      if (data.isRebound) {
+        this.record('reboundGoals');
+      }
+    } else if (
+      data.scorer &&
+      data.scorer === this.assistCandidate &&
+      this.scene.time.now - this.assistCandidateAt <= TUNING.CHALLENGE_ASSIST_WINDOW_MS
+    ) {
+      this.record('assists');
+    }
+    
+    this.assistCandidate = null;
+  }
+  
+  private onEnemyScored(): void {
+    const state = this.momentSystem.getCurrentState();
+    if (!state) return;
+    this.worstDeficit = Math.max(this.worstDeficit, state.enemyScore - state.playerScore);
+  }
+  
+  private onMomentComplete(data: any): void {
+    if (!data.isWon) return;
+    
+    const { playerScore, enemyScore } = data.state;
+    
+    if (enemyScore === 0) {
+      this.record('cleanSheets');
+      if (playerScore >= TUNING.CHALLENGE_PERFECT_GOALS) {
+        this.record('perfectMoments');
+      }
+    }
+    if (!this.dodgedThisMoment) {
+      this.record('noDashWins');
+    }
+    if (this.worstDeficit >= TUNING.CHALLENGE_COMEBACK_DEFICIT) {
+      this.record('comebacks');
+    }
+  }
+  
+  // ========================================
+  // PROGRESS
+  // ========================================
+  
+  private record(stat: ChallengeStat, amount: number = 1): void {
+    const matchCount = (this.matchCounts.get(stat) || 0) + amount;
+    this.matchCounts.set(stat, matchCount);
+    
+    const saveSystem = SaveSystem.getInstance();
+    
+    getChallengesByStat(stat).forEach(challenge => {
+      if (saveSystem.isChallengeCompleted(challenge.id)) return;
+      
+      const progress: ChallengeProgress = saveSystem.getChallengeProgress(challenge.id) || {
+        challengeId: challenge.id,
+        currentValue: 0,
+        completed: false,
+        claimed: false
+      };
+      
+      progress.currentValue = challenge.scope === 'match'
+        ? Math.max(progress.currentValue, matchCount)
+        : progress.currentValue + amount;
+      
+      if (progress.currentValue >= challenge.target) {
+        progress.currentValue = challenge.target;
+        progress.completed = true;
+        progress.completedAt = Date.now();
+      }
+      
+      saveSystem.setChallengeProgress(progress);
+      
+      if (progress.completed) {
+        this.completeChallenge(challenge, progress);
+      }
+    });
+  }
+  
+  private completeChallenge(challenge: Challenge, progress: ChallengeProgress): void {
+    const saveSystem = SaveSystem.getInstance();
+    
+    saveSystem.completeChallenge(challenge.id);
+    saveSystem.addGems(challenge.reward.gems);
+    
+    progress.claimed = true;
+    saveSystem.setChallengeProgress(progress);
+    
+    console.log(`[CHALLENGE] Completed ${challenge.id}: +${challenge.reward.gems} gems`);
+    
+    const upgrade = challenge.reward.upgradeId ? this.unlockUpgrade(challenge.reward.upgradeId) : undefined;
+    this.queuePopup({
+      title: challenge.name,
+      description: `💎 +${challenge.reward.gems}` + (upgrade ? `  •  Unlocked ${upgrade.name}` : ''),
+      icon: challenge.icon
+    });
+  }
+  
+  // ========================================
+  // UPGRADE UNLOCKS
+  // ========================================
+  
+  /** Upgrades unlocked since the tracker was created, for the end-of-run screen */
+  getRunUnlocks(): Upgrade[] {
+    return [...this.runUnlocks];
+  }
+  
+  private checkMilestones(): void {
+    const saveSystem = SaveSystem.getInstance();
+    
+    getReachedMilestones(stat => saveSystem.getStatCount(stat))
+      .filter(unlock => !saveSystem.isUpgradeUnlocked(unlock.upgradeId))
+      .forEach(unlock => {
+        const upgrade = this.unlockUpgrade(unlock.upgradeId);
+        if (!upgrade) return;
+        
+        this.queuePopup({
+          title: 'Upgrade Unlocked',
+          description: `${upgrade.name}  •  ${unlock.description}`,
+          icon: upgrade.icon
+        });
+      });
+  }
+  
+  private unlockUpgrade(upgradeId: string): Upgrade | undefined {
+    const saveSystem = SaveSystem.getInstance();
+    const upgrade = getUpgradeById(upgradeId);
+    if (!upgrade || saveSystem.isUpgradeUnlocked(upgradeId)) return upgrade;
+    
+    saveSystem.unlockUpgrade(upgradeId);
+    this.runUnlocks.push(upgrade);
+    console.log(`[UNLOCK] ${upgradeId} added to the draft pool`);
+    return upgrade;
+  }
+  
+  // ========================================
+  // POPUPS
+  // ========================================
+  
+  private queuePopup(popup: QueuedPopup): void {
+    this.popupQueue.push(popup);
+    if (this.popupQueue.length === 1) {
+      this.scene.time.delayedCall(Math.max(0, this.popupBusyUntil - this.scene.time.now), () => this.showNextPopup());
+    }
+  }
+  
+  private showNextPopup(): void {
+    const popup = this.popupQueue[0];
+    if (!popup) return;
+    
+    new AchievementPopup(this.scene, popup.title, popup.description, popup.icon);
+    this.popupBusyUntil = this.scene.time.now + TUNING.CHALLENGE_POPUP_SPACING_MS;
+    
+    this.scene.time.delayedCall(TUNING.CHALLENGE_POPUP_SPACING_MS, () => {
+      this.popupQueue.shift();
+      this.showNextPopup();
+    });
+  }
+}
@@ -0,0 +1,284 @@
+// CharacterEffectSystem for Stick & Shift
+// Turns each character's trait and downside keys into UpgradeSystem modifiers and hooks
+
+import Phaser from 'phaser';
+import { Character, CharacterStats } from '../data/characters';
+import { UpgradeSystem, UpgradeContext } from './UpgradeSystem';
+import { RandomSource } from './RandomSystem';
+import * as TUNING from '../data/tuning';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type CharacterEffectSlot = 'trait' | 'downside';
+
+// Conditional buffs are refreshed every tick; they lapse this long after the condition stops
+const CONDITIONAL_BUFF_MS = 200;
+
+const CHARACTER_STAT_KEYS: (keyof CharacterStats)[] = [
+  'speed', 'stamina', 'control', 'shotPower', 'passPower', 'tackle', 'dodge'
+];
+
+// ========================================
+// CHARACTER EFFECT SYSTEM CLASS
+// ========================================
+
+/**
+ * Most effects only register a stat key here (e.g. 'tackleRange', 'passBobbleChance');
+ * Player and RunScene read those keys through UpgradeSystem at the point of use.
+ */
+export class CharacterEffectSystem {
+  private scene: Phaser.Scene;
+  private upgradeSystem: UpgradeSystem;
+  private character: Character;
+  private random: RandomSource;
+
+  // Active state for the build screen
+  private alwaysActive: Set<CharacterEffectSlot> = new Set();
+  private activeUntil: Record<CharacterEffectSlot, number> = { trait: 0, downside: 0 };
+
+  // Inconsistent: this moment's roll per stat, undone before the next roll
+  private varianceRolls: Map<string, number> = new Map();
+
+  constructor(scene: Phaser.Scene, upgradeSystem: UpgradeSystem, character: Character, random: RandomSource = Math.random) {
+    this.scene = scene;
+    this.upgradeSystem = upgradeSystem;
+    this.character = character;
+    this.random = random;
+  }
+
+  /** Register trait and downside. Call once per run, right after the UpgradeSystem is created */
+  apply(): void {
+    this.applyEffect(this.character.trait.effect, 'trait');
+    this.applyEffect(this.character.downside.effect, 'downside');
+    console.log(`[CHARACTER] ${this.character.name}: ${this.character.trait.name} / ${this.character.downside.name}`);
+  }
+
+  isActive(slot: CharacterEffectSlot): boolean {
+    return this.alwaysActive.has(slot) || this.scene.time.now < this.activeUntil[slot];
+  }
+
+  private applyEffect(effect: string, slot: CharacterEffectSlot): void {
+    switch (effect) {
+      // === ALWAYS ON ===
+      case 'versatile':
+        this.addModifier(slot, 'all', 5);
+        break;
+
+      case 'statCap8':
+        CHARACTER_STAT_KEYS.forEach(stat => this.upgradeSystem.setStatCap(stat, 8));
+        this.alwaysActive.add(slot);
+        break;
+
+      case 'freeSprintStamina':
+        this.addModifier(slot, 'dashCost', -100);
+        break;
+
+      case 'slowTackleRecovery':
+        this.addModifier(slot, 'stunDuration', 50);
+        break;
+
+      case 'extendedTackle':
+        this.addModifier(slot, 'tackleRange', 30);
+        break;
+
+      case 'shortDodge':
+        this.addModifier(slot, 'dodgeDistance', -20);
+        break;
+
+      case 'extendedIframes':
+        this.addModifier(slot, 'dodgeIframes', 100);
+        break;
+
+      case 'passError':
+        this.addModifier(slot, 'passBobbleChance', 10);
+        break;
+
+      case 'autoTargetPass':
+        this.addModifier(slot, 'passAutoTarget', 1);
+        break;
+
+      case 'weakShot':
+        this.addModifier(slot, 'shotPower', -25);
+        break;
+
+      case 'magnetSteal':
+        this.addModifier(slot, 'interceptRadius', 50);
+        break;
+
+      case 'longTackleCd':
+        this.addModifier(slot, 'missedTackleCooldown', 50);
+        break;
+
+      case 'knockbackShot':
+        this.addModifier(slot, 'shotKnockback', 1);
+        break;
+
+      case 'slowShot':
+        this.addModifier(slot, 'chargeTime', 20);
+        break;
+
+      case 'fastStamina':
+        this.addModifier(slot, 'staminaRegen', 100);
+        break;
+
+      case 'weakBackTackle':
+        this.addModifier(slot, 'backTackleSuccess', -15);
+        break;
+
+      case 'luckyDeflect':
+        this.addModifier(slot, 'luckyDeflectChance', 15);
+        break;
+
+      case 'foulRisk':
+        this.addModifier(slot, 'foulChance', 10);
+        break;
+
+      case 'minimap':
+        this.addModifier(slot, 'radarEnemies', 1);
+        break;
+
+      case 'longStun':
+        this.addModifier(slot, 'stunDuration', 25);
+        break;
+
+      case 'passBuff':
+        this.addModifier(slot, 'forwardPassBuff', 1);
+        break;
+
+      case 'slowTurn':
+        this.addModifier(slot, 'turnRate', -20);
+        break;
+
+      case 'doubleDodge':
+        this.addModifier(slot, 'dodgeCharges', 1);
+        break;
+
+      case 'fastStaminaDrain':
+        this.addModifier(slot, 'staminaDrain', 25);
+        break;
+
+      case 'stableShot':
+        this.addModifier(slot, 'shotKnockbackImmune', 1);
+        break;
+
+      case 'slowAccel':
+        this.addModifier(slot, 'acceleration', -25);
+        break;
+
+      case 'longPass':
+        this.addModifier(slot, 'passRange', 50);
+        break;
+
+      case 'shortTackle':
+        this.addModifier(slot, 'tackleRange', -20);
+        break;
+
+      case 'fullSpeed':
+        this.upgradeSystem.setModifierFloor('speed', 0);
+        this.alwaysActive.add(slot);
+        break;
+
+      // === CONDITIONAL (refreshed on tick while the condition holds) ===
+      case 'circleShot':
+        this.addConditionalBuff(slot, effect, 'shotPower', 40, ctx => !!ctx.playerInAttackingD);
+        break;
+
+      case 'weakOpenShot':
+        this.addConditionalBuff(slot, effect, 'shotPower', -15, ctx => !ctx.playerInAttackingD);
+        break;
+
+      case 'expandedGoal':
+        this.addConditionalBuff(slot, effect, 'saveRadius', 40, ctx => !!ctx.playerInDefendingD);
+        break;
+
+      case 'slowOutsideD':
+        this.addConditionalBuff(slot, effect, 'speed', -30, ctx => !ctx.playerInDefendingD);
+        break;
+
+      case 'weakInGoal':
+        this.addConditionalBuff(slot, effect, 'saveSlipChance', 25, ctx => !!ctx.playerInDefendingD);
+        break;
+
+      case 'pcPower':
+        this.addConditionalBuff(slot, effect, 'shotPower', 50, ctx => !!ctx.isSetPiece);
+        break;
+
+      case 'weakOpenPlay':
+        this.addConditionalBuff(slot, effect, 'all', -10, ctx => !ctx.isSetPiece);
+        break;
+
+      case 'clutchShot':
+        this.addConditionalBuff(slot, effect, 'shotPower', 30, ctx => !!ctx.isLosing);
+        break;
+
+      case 'leadDebuff':
+        this.addConditionalBuff(slot, effect, 'all', -15, ctx => !!ctx.isWinning);
+        break;
+
+      // === EVENT DRIVEN ===
+      case 'tackleSpeed':
+        this.upgradeSystem.addHook({
+          event: 'steal',
+          effect: () => {
+            this.upgradeSystem.addTempBuff('character_tackleSpeed', 'speed', 20, TUNING.TRAIT_TACKLE_SPEED_MS, 'character');
+            this.markActive(slot, TUNING.TRAIT_TACKLE_SPEED_MS);
+          }
+        });
+        break;
+
+      case 'statVariance':
+        this.upgradeSystem.addHook({ event: 'momentStart', effect: () => this.rollStatVariance() });
+        this.alwaysActive.add(slot);
+        break;
+
+      default:
+        console.warn(`[CHARACTER] Unknown effect key: ${effect}`);
+    }
+  }
+
+  // ========================================
+  // HELPERS
+  // ========================================
+
+  private addModifier(slot: CharacterEffectSlot, stat: string, value: number): void {
+    this.upgradeSystem.addModifier({ stat, value });
+    this.alwaysActive.add(slot);
+  }
+
+  private addConditionalBuff(
+    slot: CharacterEffectSlot,
+    effect: string,
+    stat: string,
+    value: number,
+    condition: (ctx: UpgradeContext) => boolean
+  ): void {
+    this.upgradeSystem.addHook({
+      event: 'tick',
+      effect: (ctx: UpgradeContext) => {
+        if (!condition(ctx)) return;
+        this.upgradeSystem.addTempBuff(`character_${effect}`, stat, value, CONDITIONAL_BUFF_MS, 'character');
+        this.markActive(slot, CONDITIONAL_BUFF_MS);
+      }
+    });
+  }
+
+  private markActive(slot: CharacterEffectSlot, duration: number): void {
+    this.activeUntil[slot] = Math.max(this.activeUntil[slot], this.scene.time.now + duration);
+  }
+
+  /** Inconsistent: re-roll a ±TRAIT_STAT_VARIANCE% swing on every stat */
+  private rollStatVariance(): void {
+    const range = TUNING.TRAIT_STAT_VARIANCE;
+
+    CHARACTER_STAT_KEYS.forEach(stat => {
+      const previous = this.varianceRolls.get(stat) || 0;
+      const roll = Math.round((this.random() * 2 - 1) * range);
+      this.upgradeSystem.addModifier({ stat, value: roll - previous });
+      this.varianceRolls.set(stat, roll);
+    });
+
+    console.log('[CHARACTER] Stat variance:', Object.fromEntries(this.varianceRolls));
+  }
+}
@@ -0,0 +1,129 @@
+// EnemyModifierSystem for Stick & Shift
+// The enemy team's counterpart to UpgradeSystem's stat modifiers
+
+import { EnemyModifier, EnemyStat } from '../data/enemyStats';
+import { CurseDefinition } from '../data/curses';
+import { MomentDefinition } from '../data/moments';
+import { EnemyAI } from '../entities/EnemyAI';
+
+// ========================================
+// TYPES
+// ========================================
+
+/** Where a set of modifiers came from; each source replaces its own set */
+export type EnemyModifierSource = `curse:${string}` | `moment:${string}` | `aura:${string}`;
+
+interface SourceEntry {
+  modifiers: EnemyModifier[];
+  targets?: Set<EnemyAI>;  // Only these enemies (auras, the star player); everyone when unset
+}
+
+// ========================================
+// ENEMY MODIFIER SYSTEM CLASS
+// ========================================
+
+/**
+ * Curses last the run, moment modifiers last their moment and boss auras are
+ * set every step for whoever is in range. EnemyAI, AISystem and RunScene read
+ * the summed percentages back as multipliers at the point of use.
+ */
+export class EnemyModifierSystem {
+  private sources: Map<EnemyModifierSource, SourceEntry> = new Map();
+  private star?: EnemyAI;
+  
+  // ========================================
+  // SOURCES
+  // ========================================
+  
+  /** A curse's enemy-side downside, for the rest of the run */
+  applyCurse(curse: CurseDefinition): void {
+    if (!curse.enemyModifiers) return;
+    this.set(`curse:${curse.id}`, curse.enemyModifiers);
+    console.log(`[ENEMY_MOD] Curse ${curse.name}: ${this.describe(curse.enemyModifiers)}`);
+  }
+  
+  /**
+   * Replace the last moment's modifiers with this one's. The star player is
+   * the moment's first forward (or first enemy) that isn't a boss.
+   */
+  startMoment(moment: MomentDefinition, enemies: EnemyAI[]): void {
+    this.sources.forEach((_, source) => {
+      if (source.startsWith('moment:') || source.startsWith('aura:')) this.sources.delete(source);
+    });
+    
+    const others = enemies.filter(enemy => enemy.enemyType !== 'boss');
+    this.star = undefined;
+    
+    moment.modifiers.forEach(mod => {
+      if (!mod.enemyModifiers) return;
+      
+      const teamMods = mod.enemyModifiers.filter(m => !m.starOnly);
+      const starMods = mod.enemyModifiers.filter(m => m.starOnly);
+      if (teamMods.length > 0) {
+        this.set(`moment:${mod.id}`, teamMods);
+      }
+      if (starMods.length > 0) {
+        this.star = this.star ?? others.find(enemy => enemy.role === 'forward') ?? others[0];
+        if (this.star) this.set(`moment:${mod.id}:star`, starMods, [this.star]);
+      }
+      console.log(`[ENEMY_MOD] ${mod.name}: ${this.describe(mod.enemyModifiers)}`);
+    });
+  }
+  
+  /** Set (or with no targets, lift) an aura's modifiers */
+  setAura(id: string, modifiers: EnemyModifier[], targets: EnemyAI[]): void {
+    if (targets.length === 0) {
+      this.sources.delete(`aura:${id}`);
+      return;
+    }
+    this.set(`aura:${id}`, modifiers, targets);
+  }
+  
+  clearAuras(): void {
+    this.sources.forEach((_, source) => {
+      if (source.startsWith('aura:')) this.sources.delete(source);
+    });
+  }
+  
+  private set(source: EnemyModifierSource, modifiers: EnemyModifier[], targets?: EnemyAI[]): void {
+    this.sources.set(source, { modifiers, targets: targets ? new Set(targets) : undefined });
+  }
+  
+  // ========================================
+  // QUERIES
+  // ========================================
+  
+  /** Summed percent bonus to one enemy's stat */
+  getBonus(enemy: EnemyAI, stat: EnemyStat): number {
+    let bonus = 0;
+    this.sources.forEach(entry => {
+      if (entry.targets && !entry.targets.has(enemy)) return;
+      entry.modifiers.forEach(mod => {
+        if (mod.stat === stat) bonus += mod.value;
+      });
+    });
+    return bonus;
+  }
+  
+  /** The bonus as a multiplier on the base value (never below zero) */
+  getMultiplier(enemy: EnemyAI, stat: EnemyStat): number {
+    return Math.max(0, 1 + this.getBonus(enemy, stat) / 100);
+  }
+  
+  isStar(enemy: EnemyAI): boolean {
+    return enemy === this.star;
+  }
+  
+  /** Sources touching this enemy, for the F9 labels */
+  getSources(enemy: EnemyAI): EnemyModifierSource[] {
+    const sources: EnemyModifierSource[] = [];
+    this.sources.forEach((entry, source) => {
+      if (!entry.targets || entry.targets.has(enemy)) sources.push(source);
+    });
+    return sources;
+  }
+  
+  private describe(modifiers: EnemyModifier[]): string {
+    return modifiers.map(mod => `${mod.stat} ${mod.value > 0 ? '+' : ''}${mod.value}%`).join(', ');
+  }
+}
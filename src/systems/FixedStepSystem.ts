@@ -0,0 +1,110 @@
+// FixedStepSystem for Stick & Shift
+// Runs the match simulation in fixed steps and smooths what's drawn between them
+
+import * as TUNING from '../data/tuning';
+
+// ========================================
+// TYPES
+// ========================================
+
+/** Anything with a position the simulation moves */
+export interface SimulatedObject {
+  x: number;
+  y: number;
+  active?: boolean;
+}
+
+interface Snapshot {
+  prevX: number;
+  prevY: number;
+  simX: number;    // Where the simulation left it
+  simY: number;
+  shownX: number;  // Where it's drawn this frame
+  shownY: number;
+}
+
+// ========================================
+// FIXED STEP SYSTEM CLASS
+// ========================================
+
+/**
+ * Frame time goes into an accumulator and the simulation runs in whole
+ * SIM_STEP_MS steps, so a 144Hz display runs the same steps as a 60Hz one.
+ * The leftover fraction of a step is used to draw objects between their
+ * last two simulated positions; restore() puts the real ones back before
+ * anything else reads them.
+ */
+export class FixedStepSystem {
+  private accumulator: number = 0;
+  private snapshots: Map<SimulatedObject, Snapshot> = new Map();
+  
+  /**
+   * Run every whole step the frame covers and interpolate the objects.
+   * Returns how many steps ran (0 on a fast frame).
+   */
+  advance(
+    delta: number,
+    getObjects: () => SimulatedObject[],
+    step: (stepMs: number, isFirst: boolean) => void
+  ): number {
+    this.accumulator += Math.min(delta, TUNING.SIM_MAX_FRAME_MS);
+    
+    let steps = 0;
+    while (this.accumulator >= TUNING.SIM_STEP_MS) {
+      this.accumulator -= TUNING.SIM_STEP_MS;
+      this.capture(getObjects());
+      step(TUNING.SIM_STEP_MS, steps === 0);
+      steps++;
+    }
+    
+    this.interpolate(this.accumulator / TUNING.SIM_STEP_MS);
+    return steps;
+  }
+  
+  /** Put simulated positions back; anything moved since it was drawn keeps its new spot */
+  restore(): void {
+    this.snapshots.forEach((snap, obj) => {
+      if (obj.x === snap.shownX && obj.y === snap.shownY) {
+        obj.x = snap.simX;
+        obj.y = snap.simY;
+      } else {
+        snap.prevX = snap.simX = obj.x;
+        snap.prevY = snap.simY = obj.y;
+      }
+      snap.shownX = snap.simX;
+      snap.shownY = snap.simY;
+    });
+  }
+  
+  /** Drop the accumulated time and snapshots (new moment, scene restart) */
+  reset(): void {
+    this.restore();
+    this.accumulator = 0;
+    this.snapshots.clear();
+  }
+  
+  private capture(objects: SimulatedObject[]): void {
+    this.snapshots.clear();
+    objects.forEach(obj => {
+      if (obj.active === false) return;
+      this.snapshots.set(obj, { prevX: obj.x, prevY: obj.y, simX: obj.x, simY: obj.y, shownX: obj.x, shownY: obj.y });
+    });
+  }
+  
+  private interpolate(alpha: number): void {
+    this.snapshots.forEach((snap, obj) => {
+      snap.simX = obj.x;
+      snap.simY = obj.y;
+      
+      // Teleports (resets, restarts) snap straight to the new spot
+      const dx = snap.simX - snap.prevX;
+      const dy = snap.simY - snap.prevY;
+      const isTeleport = dx * dx + dy * dy > TUNING.SIM_SNAP_DIST * TUNING.SIM_SNAP_DIST;
+      
+      snap.shownX = isTeleport ? snap.simX : snap.prevX + dx * alpha;
+      snap.shownY = isTeleport ? snap.simY : snap.prevY + dy * alpha;
+      obj.x = snap.shownX;
+      obj.y = snap.shownY;
+    });
+  }
+}
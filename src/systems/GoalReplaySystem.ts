@@ -0,0 +1,319 @@
+// GoalReplaySystem for Stick & Shift
+// Keeps the last few seconds of play and shows them back after a goal, broadcast style
+
+import Phaser from 'phaser';
+import { Ball } from '../entities/Ball';
+import * as TUNING from '../data/tuning';
+
+// ========================================
+// TYPES
+// ========================================
+
+interface TrackedTransform {
+  target: Phaser.GameObjects.Sprite;
+  x: number;
+  y: number;
+  rotation: number;
+  visible: boolean;
+}
+
+interface ReplayFrame {
+  transforms: TrackedTransform[];
+  ballX: number;
+  ballY: number;
+  ballHeight: number;
+}
+
+// ========================================
+// GOAL REPLAY SYSTEM CLASS
+// ========================================
+
+/**
+ * A ring buffer of every player and the ball, one frame per simulation step.
+ * Playback never touches the match: the real sprites are hidden and stand-ins
+ * are drawn from the buffer, so play picks up exactly where the goal left it.
+ * Playback advances with the simulation steps, which keeps it in a run replay.
+ */
+export class GoalReplaySystem {
+  private scene: Phaser.Scene;
+  
+  private frames: ReplayFrame[];
+  private head: number = 0;   // Next slot to write
+  private count: number = 0;
+  
+  // Playback
+  private playback: ReplayFrame[] = [];
+  private playhead: number = 0;  // Fractional frame index
+  private holdMs: number = 0;
+  private onComplete?: () => void;
+  private ball?: Ball;
+  private ghosts: Map<Phaser.GameObjects.Sprite, Phaser.GameObjects.Image> = new Map();
+  private hidden: Map<Phaser.GameObjects.GameObject, boolean> = new Map();  // Real objects and whether they were visible
+  private ghostBall?: Phaser.GameObjects.Image;
+  private ghostShadow?: Phaser.GameObjects.Ellipse;
+  private trail?: Phaser.GameObjects.Graphics;
+  private overlay: (Phaser.GameObjects.Text | Phaser.GameObjects.Rectangle)[] = [];
+  private tagTween?: Phaser.Tweens.Tween;
+  private cameraX: number = 0;
+  private cameraY: number = 0;
+  
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene;
+    this.frames = new Array(Math.round(TUNING.GOAL_REPLAY_SECONDS * TUNING.SIM_FPS));
+  }
+  
+  // ========================================
+  // RECORDING
+  // ========================================
+  
+  /** Keep this step's transforms, dropping the oldest once the buffer is full */
+  record(objects: Phaser.GameObjects.Sprite[], ball: Ball): void {
+    const transforms: TrackedTransform[] = [];
+    objects.forEach(target => {
+      if (target === ball || !target.active) return;
+      transforms.push({ target, x: target.x, y: target.y, rotation: target.rotation, visible: target.visible });
+    });
+    
+    this.frames[this.head] = { transforms, ballX: ball.x, ballY: ball.y, ballHeight: ball.getHeight() };
+    this.head = (this.head + 1) % this.frames.length;
+    this.count = Math.min(this.count + 1, this.frames.length);
+  }
+  
+  /** Forget what's buffered (new moment, kickoff) */
+  clear(): void {
+    this.head = 0;
+    this.count = 0;
+  }
+  
+  // ========================================
+  // PLAYBACK
+  // ========================================
+  
+  /**
+   * Play the buffer back, then call onComplete. Returns false (and calls
+   * nothing) if there's too little to show.
+   */
+  play(ball: Ball, onComplete: () => void): boolean {
+    if (this.count < 2 || this.isPlaying()) return false;
+    
+    const capacity = this.frames.length;
+    this.playback = [];
+    for (let i = 0; i < this.count; i++) {
+      this.playback.push(this.frames[(this.head - this.count + i + capacity) % capacity]);
+    }
+    this.clear();
+    
+    this.playhead = 0;
+    this.holdMs = TUNING.GOAL_REPLAY_HOLD_MS;
+    this.onComplete = onComplete;
+    this.ball = ball;
+    
+    this.createStandIns();
+    this.startBroadcastCamera();
+    this.createOverlay();
+    this.showFrame();
+    
+    console.log(`[GOAL_REPLAY] Playing ${this.playback.length} steps`);
+    return true;
+  }
+  
+  isPlaying(): boolean {
+    return this.onComplete !== undefined;
+  }
+  
+  /** Advance playback by one simulation step */
+  step(stepMs: number): void {
+    if (!this.isPlaying()) return;
+    
+    const last = this.playback.length - 1;
+    if (this.playhead >= last) {
+      this.holdMs -= stepMs;
+      if (this.holdMs <= 0) this.finish();
+      return;
+    }
+    
+    const slowFrom = last - TUNING.GOAL_REPLAY_SLOWMO_SECONDS * TUNING.SIM_FPS;
+    const speed = this.playhead < slowFrom ? TUNING.GOAL_REPLAY_BUILDUP_SPEED : TUNING.GOAL_REPLAY_SLOWMO_SPEED;
+    this.playhead = Math.min(last, this.playhead + speed * stepMs / TUNING.SIM_STEP_MS);
+    this.showFrame();
+  }
+  
+  /** Cut straight back to play */
+  skip(): void {
+    if (this.isPlaying()) this.finish();
+  }
+  
+  private finish(): void {
+    const onComplete = this.onComplete!;
+    
+    this.ghosts.forEach(ghost => ghost.destroy());
+    this.ghosts.clear();
+    this.ghostBall?.destroy();
+    this.ghostShadow?.destroy();
+    this.trail?.destroy();
+    this.ghostBall = undefined;
+    this.ghostShadow = undefined;
+    this.trail = undefined;
+    this.tagTween?.stop();
+    this.tagTween = undefined;
+    this.overlay.forEach(obj => obj.destroy());
+    this.overlay = [];
+    
+    this.hidden.forEach((wasVisible, obj) => {
+      if (obj.active) (obj as Phaser.GameObjects.Sprite).setVisible(wasVisible);
+    });
+    this.hidden.clear();
+    this.ball?.setReplayHidden(false);
+    this.ball = undefined;
+    
+    this.scene.cameras.main.setZoom(1);
+    
+    this.playback = [];
+    this.onComplete = undefined;
+    onComplete();
+  }
+  
+  // ========================================
+  // DRAWING
+  // ========================================
+  
+  /** A stand-in for everyone in the buffer; the real sprites and the HUD are hidden */
+  private createStandIns(): void {
+    this.playback.forEach(frame => frame.transforms.forEach(({ target }) => {
+      if (this.ghosts.has(target) || !target.active) return;
+      
+      const ghost = this.scene.add.image(target.x, target.y, target.texture.key, target.frame.name);
+      ghost.setScale(target.scaleX, target.scaleY);
+      ghost.setFlip(target.flipX, target.flipY);
+      ghost.setAlpha(target.alpha);
+      ghost.setDepth(target.depth);
+      if (target.isTinted) ghost.setTint(target.tintTopLeft);
+      this.ghosts.set(target, ghost);
+      
+      this.hidden.set(target, target.visible);
+      target.setVisible(false);
+    }));
+    
+    // The HUD would be zoomed with the field, so it sits the replay out
+    this.scene.children.list.forEach(obj => {
+      const item = obj as Phaser.GameObjects.Sprite;
+      if (item.scrollFactorX !== 0 || !item.visible || this.hidden.has(item)) return;
+      this.hidden.set(item, true);
+      item.setVisible(false);
+    });
+    
+    this.ball!.setReplayHidden(true);
+    this.trail = this.scene.add.graphics();
+    this.trail.setDepth(this.ball!.depth - 1);
+    this.ghostShadow = this.scene.add.ellipse(0, 0, 14, 6, 0x000000, 0.35);
+    this.ghostShadow.setDepth(this.ball!.depth - 2);
+    this.ghostBall = this.scene.add.image(0, 0, 'ball');
+    this.ghostBall.setDepth(this.ball!.depth + 1);
+  }
+  
+  private startBroadcastCamera(): void {
+    const camera = this.scene.cameras.main;
+    const first = this.playback[0];
+    
+    camera.stopFollow();
+    camera.setZoom(TUNING.GOAL_REPLAY_ZOOM);
+    this.cameraX = first.ballX;
+    this.cameraY = first.ballY;
+    camera.centerOn(this.cameraX, this.cameraY);
+  }
+  
+  /** Letterbox bars, the REPLAY tag and the skip hint */
+  private createOverlay(): void {
+    const camera = this.scene.cameras.main;
+    const width = camera.width;
+    const height = camera.height;
+    const barHeight = 44;
+    
+    const topBar = this.scene.add.rectangle(width / 2, barHeight / 2, width, barHeight, 0x000000, 0.85);
+    const bottomBar = this.scene.add.rectangle(width / 2, height - barHeight / 2, width, barHeight, 0x000000, 0.85);
+    
+    const tag = this.scene.add.text(24, barHeight / 2, '● REPLAY', {
+      fontFamily: 'Arial Black, Arial, sans-serif',
+      fontSize: '22px',
+      color: '#e74c3c'
+    });
+    tag.setOrigin(0, 0.5);
+    
+    const hint = this.scene.add.text(width - 24, height - barHeight / 2, 'ENTER / SPACE to skip', {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '14px',
+      color: '#bdc3c7'
+    });
+    hint.setOrigin(1, 0.5);
+    
+    this.overlay = [topBar, bottomBar, tag, hint];
+    this.overlay.forEach(obj => this.pinToScreen(obj, camera));
+    
+    this.tagTween = this.scene.tweens.add({
+      targets: tag,
+      alpha: 0.4,
+      duration: 500,
+      yoyo: true,
+      repeat: -1
+    });
+  }
+  
+  /** Zoom applies to screen-fixed objects too, so place them where they land at this zoom */
+  private pinToScreen(obj: Phaser.GameObjects.Text | Phaser.GameObjects.Rectangle, camera: Phaser.Cameras.Scene2D.Camera): void {
+    const centerX = camera.width / 2;
+    const centerY = camera.height / 2;
+    obj.setScrollFactor(0);
+    obj.setPosition(centerX + (obj.x - centerX) / camera.zoom, centerY + (obj.y - centerY) / camera.zoom);
+    obj.setScale(1 / camera.zoom);
+    obj.setDepth(2000);
+  }
+  
+  /** Draw the stand-ins at the playhead, between its two frames */
+  private showFrame(): void {
+    const index = Math.floor(this.playhead);
+    const from = this.playback[index];
+    const to = this.playback[Math.min(index + 1, this.playback.length - 1)];
+    const t = this.playhead - index;
+    
+    this.ghosts.forEach(ghost => ghost.setVisible(false));
+    to.transforms.forEach(next => {
+      const ghost = this.ghosts.get(next.target);
+      if (!ghost) return;
+      
+      const prev = from.transforms.find(transform => transform.target === next.target) ?? next;
+      ghost.setPosition(Phaser.Math.Linear(prev.x, next.x, t), Phaser.Math.Linear(prev.y, next.y, t));
+      ghost.setRotation(prev.rotation + Phaser.Math.Angle.Wrap(next.rotation - prev.rotation) * t);
+      ghost.setVisible(next.visible);
+    });
+    
+    // Ball: shadow on the turf, the ball lifted by its height
+    const ballX = Phaser.Math.Linear(from.ballX, to.ballX, t);
+    const ballY = Phaser.Math.Linear(from.ballY, to.ballY, t);
+    const ballHeight = Phaser.Math.Linear(from.ballHeight, to.ballHeight, t);
+    this.ghostBall!.setPosition(ballX, ballY - ballHeight);
+    this.ghostBall!.setScale(1 + ballHeight * TUNING.BALL_HEIGHT_SCALE);
+    this.ghostShadow!.setPosition(ballX, ballY);
+    this.ghostShadow!.setVisible(ballHeight > 0);
+    
+    this.drawTrail(index);
+    
+    // The camera trails the ball like a broadcast one
+    this.cameraX += (ballX - this.cameraX) * TUNING.GOAL_REPLAY_CAMERA_LERP;
+    this.cameraY += (ballY - this.cameraY) * TUNING.GOAL_REPLAY_CAMERA_LERP;
+    this.scene.cameras.main.centerOn(this.cameraX, this.cameraY);
+  }
+  
+  private drawTrail(index: number): void {
+    const trail = this.trail!;
+    trail.clear();
+    
+    const start = Math.max(0, index - TUNING.GOAL_REPLAY_TRAIL_STEPS);
+    for (let i = start + 1; i <= index; i++) {
+      const a = this.playback[i - 1];
+      const b = this.playback[i];
+      const fade = (i - start) / (index - start + 1);
+      trail.lineStyle(2 + fade * 4, 0xf1c40f, fade * 0.8);
+      trail.lineBetween(a.ballX, a.ballY - a.ballHeight, b.ballX, b.ballY - b.ballHeight);
+    }
+  }
+}
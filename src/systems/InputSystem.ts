@@ -15,6 +15,7 @@ export interface InputState {
   shootHeld: boolean;
   shootReleased: boolean;
   pass: boolean;
+  aerialPass: boolean;   // F key - scoop the ball over defenders
   tackle: boolean;
   dodge: boolean;
   callForPass: boolean;  // R key - request pass from teammates
@@ -34,6 +35,9 @@ export interface InputState {
   showHelp: boolean;
 }
 
+// Actions that fire only on the frame they're pressed
+const PRESS_FLAGS = ['shoot', 'shootReleased', 'pass', 'aerialPass', 'tackle', 'dodge', 'callForPass', 'mouseJustDown'] as const;
+
 export class InputSystem {
   private scene: Phaser.Scene;
   private cursors?: Phaser.Types.Input.Keyboard.CursorKeys;
@@ -44,6 +48,7 @@ export class InputSystem {
     e: Phaser.Input.Keyboard.Key;
     q: Phaser.Input.Keyboard.Key;
     r: Phaser.Input.Keyboard.Key;  // Call for pass
+    f: Phaser.Input.Keyboard.Key;  // Aerial pass
     escape: Phaser.Input.Keyboard.Key;
     enter: Phaser.Input.Keyboard.Key;
     p: Phaser.Input.Keyboard.Key;
@@ -83,6 +88,7 @@ export class InputSystem {
       e: this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.E),
       q: this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.Q),
       r: this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.R),
+      f: this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.F),
       escape: this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.ESC),
       enter: this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.ENTER),
       p: this.scene.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.P),
@@ -112,6 +118,7 @@ export class InputSystem {
       shootHeld: false,
       shootReleased: false,
       pass: false,
+      aerialPass: false,
       tackle: false,
       dodge: false,
       callForPass: false,
@@ -168,6 +175,7 @@ export class InputSystem {
       // Other actions - all on press
       state.dodge = Phaser.Input.Keyboard.JustDown(this.actionKeys.shift);
       state.pass = Phaser.Input.Keyboard.JustDown(this.actionKeys.e);
+      state.aerialPass = Phaser.Input.Keyboard.JustDown(this.actionKeys.f);
       state.tackle = Phaser.Input.Keyboard.JustDown(this.actionKeys.q);
       state.callForPass = Phaser.Input.Keyboard.JustDown(this.actionKeys.r);
       
@@ -294,6 +302,31 @@ export class InputSystem {
     }
   }
   
+  // ========================================
+  // SIMULATION STEPS
+  // ========================================
+  
+  /**
+   * A frame that ran no simulation step still owes its presses to the next
+   * one that does: fold the earlier presses into the later state
+   */
+  static carryPresses(earlier: InputState, later: InputState): InputState {
+    const merged = { ...later };
+    PRESS_FLAGS.forEach(flag => {
+      merged[flag] = earlier[flag] || later[flag];
+    });
+    return merged;
+  }
+  
+  /** Held keys and aim only: for the second and later steps of a frame */
+  static clearPresses(state: InputState): InputState {
+    const cleared = { ...state };
+    PRESS_FLAGS.forEach(flag => {
+      cleared[flag] = false;
+    });
+    return cleared;
+  }
+  
   // Clean up
   destroy(): void {
     // Keys are automatically cleaned up with the scene
@@ -2,8 +2,11 @@
 // Manages moment objectives, timing, and progression
 
 import Phaser from 'phaser';
-import { MomentDefinition, generateRunMoments, MOMENT_MODIFIERS } from '../data/moments';
-import { SaveSystem } from './SaveSystem';
+import { MomentDefinition, generateRunMoments, getMomentById, MOMENT_MODIFIERS } from '../data/moments';
+import { SaveSystem, SuspendedRun } from './SaveSystem';
+
+/** The part of a suspended run that MomentSystem owns */
+export type MomentRunSnapshot = Pick<SuspendedRun, 'momentIds' | 'momentIndex' | 'cupState' | 'runStats'>;
 
 export interface MomentState {
   definition: MomentDefinition;
@@ -15,6 +18,7 @@ export interface MomentState {
   objectiveProgress: number;
   objectiveTarget: number;
   failReason?: string;  // Why moment was lost (e.g., "Player overwhelmed")
+  inShootout?: boolean;  // Clock stopped while a shootout decides it
 }
 
 /** Simplified objective descriptor for AI to consume */
@@ -84,9 +88,14 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
     this.cupState.comebackCursesTriggered = true;
   }
   
-  // Start a new run with generated moments
-  startRun(momentCount: number = 10): void {
-    this.moments = generateRunMoments(momentCount);
+  // Start a new run with generated moments (seeded runs pass their own random source)
+  startRun(momentCount: number = 10, random: () => number = Math.random): void {
+    this.startFixedRun(generateRunMoments(momentCount, random));
+  }
+  
+  // Start a run on a given list of moments (the headless harness plays one at a time)
+  startFixedRun(moments: MomentDefinition[]): void {
+    this.moments = moments;
     this.currentMomentIndex = 0;
     
     // Reset Cup Run state
@@ -113,6 +122,37 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
     this.emit('runStarted', { totalMoments: this.moments.length, cupState: this.cupState });
   }
   
+  /**
+   * Restore a run from a between-moment checkpoint.
+   * Leaves the index on the completed moment - call nextMoment() to advance.
+   * Returns false if the saved moments no longer exist.
+   */
+  resumeRun(snapshot: MomentRunSnapshot): boolean {
+    const moments = snapshot.momentIds.map(id => getMomentById(id));
+    if (moments.some(m => !m)) {
+      console.warn('[RUN_RESUME] Saved moment list references unknown moments');
+      return false;
+    }
+    
+    this.moments = moments as MomentDefinition[];
+    this.currentMomentIndex = snapshot.momentIndex;
+    this.currentState = undefined;
+    this.cupState = { ...snapshot.cupState };
+    this.runStats = { ...snapshot.runStats };
+    
+    this.emit('runResumed', { totalMoments: this.moments.length, cupState: this.cupState });
+    return true;
+  }
+  
+  getRunSnapshot(): MomentRunSnapshot {
+    return {
+      momentIds: this.moments.map(m => m.id),
+      momentIndex: this.currentMomentIndex,
+      cupState: { ...this.cupState },
+      runStats: { ...this.runStats }
+    };
+  }
+  
   // Get current moment definition
   getCurrentMoment(): MomentDefinition | undefined {
     return this.moments[this.currentMomentIndex];
@@ -155,8 +195,12 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
         break;
       case 'penaltyCorner':
       case 'pcBattle':
+      case 'pc_score':
         type = 'pc_score';
         break;
+      case 'pc_defend':
+        type = 'defend';
+        break;
       case 'turnover':
       case 'pressWin':
         type = 'force_turnovers';
@@ -176,7 +220,7 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
     const urgency = Math.min(1, timeFraction * 0.6 + (1 - progressFraction) * 0.4);
     
     // Determine target team based on objective
-    const isDefensiveObjective = ['defend', 'survive', 'protectInjector'].includes(objective);
+    const isDefensiveObjective = ['defend', 'survive', 'protectInjector', 'pc_defend'].includes(objective);
     
     return {
       type,
@@ -211,8 +255,17 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
         objectiveTarget = 0;  // Don't concede
         break;
       case 'penaltyCorner':
+      case 'pc_score':
+      case 'pcBattle':
         objectiveTarget = moment.targetScore || 1;
         break;
+      case 'pc_defend':
+        initialPlayerScore = moment.defendScore || 1;
+        objectiveTarget = 0;  // Don't concede
+        break;
+      case 'shootout':
+        objectiveTarget = 0;  // Decided by the shootout, not goals
+        break;
       case 'turnover':
         objectiveTarget = 1;  // Get 1 steal
         break;
@@ -225,6 +278,9 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
       case 'assist':
         objectiveTarget = 1;
         break;
+      case 'possession':
+        objectiveTarget = moment.holdSeconds || 25;  // Seconds on the ball
+        break;
     }
     
     this.currentState = {
@@ -235,7 +291,8 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
       isComplete: false,
       isWon: false,
       objectiveProgress: 0,
-      objectiveTarget
+      objectiveTarget,
+      inShootout: moment.objective === 'shootout'
     };
     
     // Start timer
@@ -270,8 +327,15 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
     });
   }
   
+  /** Hold the countdown while play is stopped for something that shouldn't cost time (goal replays) */
+  setClockHeld(held: boolean): void {
+    if (this.timer) {
+      this.timer.paused = held;
+    }
+  }
+  
   private tick(): void {
-    if (!this.currentState || this.currentState.isComplete) return;
+    if (!this.currentState || this.currentState.isComplete || this.currentState.inShootout) return;
     
     this.currentState.timeRemaining--;
     
@@ -319,6 +383,8 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
         }
         break;
       case 'penaltyCorner':
+      case 'pc_score':
+      case 'pcBattle':
         this.currentState.objectiveProgress++;
         break;
     }
@@ -346,6 +412,15 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
     this.checkCompletion();
   }
   
+  /** Player team kept the ball for another slice of the moment */
+  playerHeldBall(seconds: number): void {
+    if (!this.currentState || this.currentState.isComplete) return;
+    if (this.currentState.definition.objective !== 'possession') return;
+    
+    this.currentState.objectiveProgress += seconds;
+    this.checkCompletion();
+  }
+  
   /**
    * Player team got a steal/turnover
    * Called when player or teammate takes ball from enemy via tackle or intercept
@@ -399,6 +474,7 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
       case 'score':
       case 'multiGoal':
       case 'penaltyCorner':
+      case 'pc_score':
       case 'reboundGoal':
       case 'assist':
         // Win by reaching target score
@@ -413,7 +489,23 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
         }
         break;
         
+      case 'pcBattle':
+        // Win by scoring first, lose if the enemy does
+        if (state.objectiveProgress >= state.objectiveTarget) {
+          isComplete = true;
+          isWon = true;
+        } else if (state.enemyScore > 0) {
+          isComplete = true;
+          isWon = false;
+        }
+        if (state.timeRemaining <= 0) {
+          isComplete = true;
+          isWon = state.objectiveProgress >= state.objectiveTarget;
+        }
+        break;
+        
       case 'defend':
+      case 'pc_defend':
         // Lose if enemy ties or takes lead
         if (state.enemyScore >= state.playerScore) {
           isComplete = true;
@@ -454,6 +546,21 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
         }
         break;
         
+      case 'possession':
+        // Win once enough time on the ball has built up
+        if (state.objectiveProgress >= state.objectiveTarget) {
+          isComplete = true;
+          isWon = true;
+          console.log('[MOMENT] Possession objective COMPLETED - WIN!');
+        }
+        // Lose if time runs out
+        if (state.timeRemaining <= 0) {
+          isComplete = true;
+          isWon = false;
+          console.log('[MOMENT] Possession objective FAILED - time ran out');
+        }
+        break;
+      
       case 'pressWin':
         // Win by forcing required number of turnovers
         if (state.objectiveProgress >= state.objectiveTarget) {
@@ -470,11 +577,50 @@ export class MomentSystem extends Phaser.Events.EventEmitter {
         break;
     }
     
+    // Level at the end of a Cup decider: settle it with a shootout instead
+    if (isComplete && !isWon && state.timeRemaining <= 0 &&
+        state.playerScore === state.enemyScore && this.isCupDecider()) {
+      state.inShootout = true;
+      console.log('[MOMENT] Decider level at full time - shootout');
+      this.emit('shootout');
+      return;
+    }
+    
     if (isComplete) {
       this.completeMoment(isWon);
     }
   }
   
+  /** Both sides one point from the Cup */
+  isCupDecider(): boolean {
+    const matchPoint = this.cupState.pointsToWin - 1;
+    return this.cupState.playerPoints === matchPoint && this.cupState.enemyPoints === matchPoint;
+  }
+  
+  /**
+   * Every penalty corner has been taken: the moment is decided on what
+   * happened in them rather than waiting out the clock
+   */
+  penaltyCornersUsed(): void {
+    if (!this.currentState || this.currentState.isComplete) return;
+    
+    const state = this.currentState;
+    const isWon = state.definition.objective === 'pc_defend'
+      ? state.playerScore > state.enemyScore
+      : state.objectiveProgress >= state.objectiveTarget;
+    
+    console.log(`[MOMENT] Penalty corners used - ${isWon ? 'WIN' : 'FAIL'}`);
+    this.completeMoment(isWon);
+  }
+  
+  /** A shootout (the moment's own, or a decider's) has a winner */
+  shootoutDecided(playerWon: boolean): void {
+    if (!this.currentState || this.currentState.isComplete) return;
+    
+    console.log(`[MOMENT] Shootout ${playerWon ? 'WON' : 'LOST'}`);
+    this.completeMoment(playerWon);
+  }
+  
   /**
    * Public method to force-fail a moment (e.g., player death)
    */
@@ -0,0 +1,234 @@
+// PenaltyCornerSystem for Stick & Shift
+// Runs penalty corners as set pieces (setup, push-out, stop, shot): a series for corner moments, or one for a foul
+
+import Phaser from 'phaser';
+import { MomentDefinition } from '../data/moments';
+import * as TUNING from '../data/tuning';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type PenaltyCornerSide = 'attack' | 'defend';
+export type PenaltyCornerTeam = 'player' | 'enemy';
+export type PenaltyCornerEndReason = 'goal' | 'cleared' | 'timeout' | 'notStopped' | 'foul';
+
+type PenaltyCornerPhase = 'idle' | 'setup' | 'live' | 'between' | 'over';
+
+export interface PenaltyCornerSetup {
+  attempt: number;
+  total: number;
+  side: PenaltyCornerSide;
+  oneOff: boolean;  // Awarded for a foul in open play
+}
+
+// ========================================
+// PENALTY CORNER SYSTEM CLASS
+// ========================================
+
+/**
+ * Only moments that declare pcAttempts get corners. Each corner freezes play
+ * for the setup, goes live on the push-out, and ends on a goal, a clearance,
+ * the ball leaving the area or the attempt clock. A corner awarded for a foul
+ * is a one-off: once it ends, open play carries on. The scene owns positions
+ * and geometry; this tracks the sequence and the stop rule.
+ */
+export class PenaltyCornerSystem extends Phaser.Events.EventEmitter {
+  private scene: Phaser.Scene;
+  
+  private phase: PenaltyCornerPhase = 'idle';
+  private objective: string = '';
+  private attempt: number = 0;
+  private total: number = 0;
+  private side: PenaltyCornerSide = 'attack';
+  private stopped: boolean = false;
+  private oneOff: boolean = false;
+  private liveUntil: number = 0;
+  private pending?: Phaser.Time.TimerEvent;
+  
+  constructor(scene: Phaser.Scene) {
+    super();
+    this.scene = scene;
+  }
+  
+  // ========================================
+  // SEQUENCE
+  // ========================================
+  
+  /** Start the corners for a moment; anything without pcAttempts stays in open play */
+  start(moment: MomentDefinition): void {
+    this.stop();
+    if (!moment.pcAttempts) return;
+    
+    this.objective = moment.objective;
+    this.total = moment.pcAttempts;
+    this.attempt = 0;
+    
+    console.log(`[PC] ${this.total} corners for ${moment.objective}`);
+    this.nextCorner();
+  }
+  
+  /** Drop the sequence (moment over or replaced) */
+  stop(): void {
+    this.pending?.remove();
+    this.pending = undefined;
+    this.phase = 'idle';
+    this.oneOff = false;
+  }
+  
+  /** A single corner for a foul in the D, outside any corner moment */
+  award(side: PenaltyCornerSide): void {
+    this.stop();
+    this.oneOff = true;
+    this.total = 1;
+    this.attempt = 1;
+    this.side = side;
+    
+    console.log(`[PC] Corner awarded (${side})`);
+    this.beginCorner();
+  }
+  
+  /** Defense fouled in the D during a corner: the same corner is taken again */
+  retake(): void {
+    if (this.oneOff || (this.phase !== 'live' && this.phase !== 'setup')) return;
+    
+    this.attempt--;
+    this.end('foul');
+  }
+  
+  private nextCorner(): void {
+    if (this.attempt >= this.total) {
+      this.phase = 'over';
+      console.log('[PC] All corners used');
+      this.emit('exhausted');
+      return;
+    }
+    
+    this.attempt++;
+    this.side = this.getSideFor(this.attempt);
+    
+    console.log(`[PC] Corner ${this.attempt}/${this.total} (${this.side})`);
+    this.beginCorner();
+  }
+  
+  private beginCorner(): void {
+    this.stopped = false;
+    this.phase = 'setup';
+    
+    const setup: PenaltyCornerSetup = { attempt: this.attempt, total: this.total, side: this.side, oneOff: this.oneOff };
+    this.emit('setup', setup);
+    
+    this.pending = this.scene.time.delayedCall(TUNING.PC_SETUP_MS, () => {
+      this.phase = 'live';
+      this.liveUntil = this.scene.time.now + TUNING.PC_ATTEMPT_MS;
+      this.emit('pushOut', this.side);
+    });
+  }
+  
+  /** PC Battle alternates, starting on the attack */
+  private getSideFor(attempt: number): PenaltyCornerSide {
+    if (this.objective === 'pc_defend') return 'defend';
+    if (this.objective === 'pcBattle') return attempt % 2 === 1 ? 'attack' : 'defend';
+    return 'attack';
+  }
+  
+  /** Finish the current corner and set up the next one */
+  end(reason: PenaltyCornerEndReason): void {
+    if (this.phase !== 'live' && this.phase !== 'setup') return;
+    
+    this.pending?.remove();
+    console.log(`[PC] Corner ${this.attempt} over: ${reason}`);
+    
+    if (this.oneOff) {
+      this.stop();
+      this.emit('cornerOver', { reason, side: this.side, attempt: this.attempt, oneOff: true });
+      return;
+    }
+    
+    this.phase = 'between';
+    this.emit('cornerOver', { reason, side: this.side, attempt: this.attempt, oneOff: false });
+    
+    this.pending = this.scene.time.delayedCall(TUNING.PC_RESET_DELAY_MS, () => this.nextCorner());
+  }
+  
+  // ========================================
+  // LIVE PLAY
+  // ========================================
+  
+  /** Corner ends when the attempt clock runs out or the ball gets away from the goal */
+  update(ballDistToGoal: number): void {
+    if (this.phase !== 'live') return;
+    
+    if (this.scene.time.now >= this.liveUntil) {
+      this.end('timeout');
+    } else if (ballDistToGoal > TUNING.PC_END_DISTANCE) {
+      this.end('cleared');
+    }
+  }
+  
+  /**
+   * A team trapped the loose ball. The attack needs one stop outside the D
+   * before a goal counts; a defender winning it ends the corner.
+   */
+  onTouch(team: PenaltyCornerTeam, insideD: boolean): void {
+    if (this.phase !== 'live') return;
+    
+    if (team !== this.getAttackingTeam()) {
+      this.end('cleared');
+      return;
+    }
+    
+    if (!this.stopped && !insideD) {
+      this.stopped = true;
+      this.emit('stopped');
+    }
+  }
+  
+  /** Goals only count in a live corner, for the attack, after the stop */
+  canScore(team: PenaltyCornerTeam): boolean {
+    if (this.phase === 'idle' || this.phase === 'over') return true;
+    return this.phase === 'live' && team === this.getAttackingTeam() && this.stopped;
+  }
+  
+  // ========================================
+  // QUERIES
+  // ========================================
+  
+  /** A corner is being set up or played, or a corner moment is between corners */
+  isRunning(): boolean {
+    return this.phase !== 'idle' && this.phase !== 'over';
+  }
+  
+  /** The moment itself is being played as corners (not a one-off for a foul) */
+  isCornerMoment(): boolean {
+    return this.isRunning() && !this.oneOff;
+  }
+  
+  /** A corner is in play (Drag Flick upgrades, set-piece traits) */
+  isLive(): boolean {
+    return this.phase === 'live';
+  }
+  
+  /** Everyone holds their marks during setup and between corners */
+  isHoldingPlay(): boolean {
+    return this.phase === 'setup' || this.phase === 'between';
+  }
+  
+  /** The attack still needs its stop outside the D */
+  isAwaitingStop(): boolean {
+    return this.phase === 'live' && !this.stopped;
+  }
+  
+  getSide(): PenaltyCornerSide {
+    return this.side;
+  }
+  
+  getAttackingTeam(): PenaltyCornerTeam {
+    return this.side === 'attack' ? 'player' : 'enemy';
+  }
+  
+  destroy(): void {
+    this.stop();
+    this.removeAllListeners();
+  }
+}
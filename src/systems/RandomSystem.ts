@@ -0,0 +1,87 @@
+// RandomSystem for Stick & Shift
+// Seeded RNG so a run can be replayed or shared from a short seed code
+
+/** Any function returning a float in [0, 1) - Math.random fits this shape */
+export type RandomSource = () => number;
+
+// Seed codes are base-36, upper case, padded to this length (e.g. "0K3F9Q")
+const SEED_CODE_LENGTH = 6;
+const SEED_CODE_PATTERN = /^[0-9A-Z]{1,6}$/;
+
+/**
+ * Small deterministic PRNG (mulberry32).
+ * `next` is a bound arrow so it can be handed around as a RandomSource.
+ */
+export class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  next = (): number => {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  /** Float in [min, max) */
+  between(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /** Integer in [0, max) */
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  pick<T>(items: T[]): T {
+    return items[this.int(items.length)];
+  }
+
+  /** Position in the stream, for a checkpoint to hand back to `restore` */
+  getState(): number {
+    return this.state;
+  }
+
+  restore(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /**
+   * Derive an independent stream for one consumer (moments, drafts, curses, AI).
+   * Keeps e.g. AI jitter - which depends on frame timing - from shifting the
+   * upgrade offers of a shared seed.
+   */
+  fork(label: string): SeededRandom {
+    let hash = this.seed ^ 0x9e3779b9;
+    for (let i = 0; i < label.length; i++) {
+      hash = Math.imul(hash ^ label.charCodeAt(i), 0x01000193);
+    }
+    return new SeededRandom(hash >>> 0);
+  }
+}
+
+// ========================================
+// SEED CODES
+// ========================================
+
+/** Fresh seed for a run the player didn't pin */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 36 ** SEED_CODE_LENGTH);
+}
+
+export function formatSeed(seed: number): string {
+  return seed.toString(36).toUpperCase().padStart(SEED_CODE_LENGTH, '0');
+}
+
+/** Parse a player-entered seed code; returns null if it isn't a valid code */
+export function parseSeed(code: string): number | null {
+  const cleaned = code.trim().toUpperCase();
+  if (!SEED_CODE_PATTERN.test(cleaned)) return null;
+  return parseInt(cleaned, 36);
+}
@@ -0,0 +1,323 @@
+// ReplaySystem for Stick & Shift
+// Records a run's input step by step so it can be played back exactly
+
+import { InputState } from './InputSystem';
+import { SuspendedRun } from './SaveSystem';
+import { formatSeed } from './RandomSystem';
+import * as TUNING from '../data/tuning';
+
+// ========================================
+// TYPES
+// ========================================
+
+/** Choices made outside the input stream: overlays, play calls, debug tools */
+export type ReplayChoiceKind =
+  | 'draftPick'
+  | 'draftReroll'
+  | 'draftSkip'
+  | 'curse'
+  | 'recap'
+  | 'tutorial'
+  | 'play'
+  | 'buildScreen'
+  | 'sandbox'
+  | 'goalReplaySkip';
+
+export interface ReplayChoice {
+  step: number;  // Applied just before this step runs
+  kind: ReplayChoiceKind;
+  value?: string;
+}
+
+export interface ReplayFile {
+  version: number;
+  characterId: string;
+  seed: number;
+  resume?: SuspendedRun;  // Recording started from a continued run
+  save: string;           // What the run reads from the save at the start (meta upgrades, unlocks, stats)
+  startTime: number;      // Scene clock when the first step ran
+  recordedAt: number;
+  steps: number;
+  inputs: [number, string][];  // Run-length encoded: [steps, encoded input]
+  choices: ReplayChoice[];
+}
+
+type ReplayHeader = Pick<ReplayFile, 'characterId' | 'seed' | 'resume' | 'save' | 'startTime'>;
+
+const REPLAY_VERSION = 1;
+const LAST_REPLAY_KEY = 'stick_and_shift_last_replay';
+
+// Booleans packed into one bitmask, in this order
+const FLAG_FIELDS = [
+  'isMoving', 'shoot', 'shootHeld', 'shootReleased', 'pass', 'aerialPass', 'tackle', 'dodge',
+  'callForPass', 'mouseDown', 'mouseJustDown', 'hasMouseMoved', 'pause', 'confirm', 'cancel', 'showHelp'
+] as const;
+
+// ========================================
+// INPUT ENCODING
+// ========================================
+
+/**
+ * One step as "flags,moveX,moveY,aimAngle,aimX,aimY"; a step without play
+ * input (countdown, overlays) is the empty string. Numbers are rounded, which
+ * is why live play runs on the decoded copy too.
+ */
+function encodeInput(input: InputState | null): string {
+  if (!input) return '';
+  
+  let flags = 0;
+  FLAG_FIELDS.forEach((field, i) => {
+    if (input[field]) flags |= 1 << i;
+  });
+  
+  return [
+    flags.toString(36),
+    input.moveX.toFixed(3),
+    input.moveY.toFixed(3),
+    input.aimAngle.toFixed(3),
+    input.aimX.toFixed(1),
+    input.aimY.toFixed(1)
+  ].map(part => String(Number(part))).join(',');
+}
+
+function decodeInput(encoded: string): InputState | null {
+  if (!encoded) return null;
+  
+  const [flagPart, moveX, moveY, aimAngle, aimX, aimY] = encoded.split(',');
+  const flags = parseInt(flagPart, 36);
+  
+  const input = {
+    moveX: Number(moveX),
+    moveY: Number(moveY),
+    aimAngle: Number(aimAngle),
+    aimX: Number(aimX),
+    aimY: Number(aimY)
+  } as InputState;
+  FLAG_FIELDS.forEach((field, i) => {
+    input[field] = (flags & (1 << i)) !== 0;
+  });
+  return input;
+}
+
+// ========================================
+// RECORDER
+// ========================================
+
+/**
+ * Logs every simulation step's input and every choice made between steps.
+ * The run's seed and save snapshot cover the rest, so nothing else is stored.
+ */
+export class ReplayRecorder {
+  private header: ReplayHeader;
+  private inputs: [number, string][] = [];
+  private choices: ReplayChoice[] = [];
+  private steps: number = 0;
+  
+  constructor(header: ReplayHeader) {
+    this.header = header;
+  }
+  
+  /** Log one step's input; returns it as playback will see it, so both run on the same numbers */
+  recordStep(input: InputState | null): InputState | null {
+    const encoded = encodeInput(input);
+    const last = this.inputs[this.inputs.length - 1];
+    
+    if (last && last[1] === encoded) {
+      last[0]++;
+    } else {
+      this.inputs.push([1, encoded]);
+    }
+    this.steps++;
+    
+    return decodeInput(encoded);
+  }
+  
+  /** A choice made now lands before the next step */
+  recordChoice(kind: ReplayChoiceKind, value?: string): ReplayChoice {
+    const choice: ReplayChoice = { step: this.steps, kind, value };
+    this.choices.push(choice);
+    return choice;
+  }
+  
+  finish(): ReplayFile {
+    return {
+      version: REPLAY_VERSION,
+      ...this.header,
+      recordedAt: Date.now(),
+      steps: this.steps,
+      inputs: this.inputs.map(([count, encoded]) => [count, encoded]),
+      choices: [...this.choices]
+    };
+  }
+}
+
+// ========================================
+// PLAYER
+// ========================================
+
+/**
+ * Hands a recording back one step at a time. Speed, pause and frame-step
+ * only change how much frame time reaches the fixed-step loop, so playback
+ * runs exactly the recorded steps whatever the controls do.
+ */
+export class ReplayPlayer {
+  readonly file: ReplayFile;
+  
+  private step: number = 0;
+  private runIndex: number = 0;
+  private runUsed: number = 0;
+  private choiceIndex: number = 0;
+  
+  private speed: number = 1;
+  private paused: boolean = false;
+  private queuedSteps: number = 0;
+  private ended: boolean = false;
+  
+  constructor(file: ReplayFile) {
+    this.file = file;
+  }
+  
+  /** Choices due before the next step */
+  takeChoices(): ReplayChoice[] {
+    const due: ReplayChoice[] = [];
+    while (this.choiceIndex < this.file.choices.length && this.file.choices[this.choiceIndex].step <= this.step) {
+      due.push(this.file.choices[this.choiceIndex++]);
+    }
+    return due;
+  }
+  
+  /** The next step's input (null: play was held that step) */
+  nextInput(): InputState | null {
+    const run = this.file.inputs[this.runIndex];
+    if (!run) return null;
+    
+    this.step++;
+    this.runUsed++;
+    if (this.runUsed >= run[0]) {
+      this.runIndex++;
+      this.runUsed = 0;
+    }
+    return decodeInput(run[1]);
+  }
+  
+  /** Frame time to feed the fixed-step loop this frame */
+  getFrameTime(delta: number): number {
+    if (this.isFinished()) return 0;
+    
+    if (this.paused) {
+      if (this.queuedSteps <= 0) return 0;
+      this.queuedSteps--;
+      return TUNING.SIM_STEP_MS;
+    }
+    return delta * this.speed;
+  }
+  
+  // ========================================
+  // CONTROLS
+  // ========================================
+  
+  setSpeed(speed: number): void {
+    this.speed = speed;
+  }
+  
+  getSpeed(): number {
+    return this.speed;
+  }
+  
+  togglePause(): void {
+    this.paused = !this.paused;
+    this.queuedSteps = 0;
+  }
+  
+  isPaused(): boolean {
+    return this.paused;
+  }
+  
+  /** Advance one step while paused */
+  stepOnce(): void {
+    if (this.paused) this.queuedSteps++;
+  }
+  
+  /** The run ended before the recording did (final whistle) */
+  end(): void {
+    this.ended = true;
+  }
+  
+  isFinished(): boolean {
+    return this.ended || this.step >= this.file.steps;
+  }
+  
+  getStep(): number {
+    return this.step;
+  }
+  
+  getStartTime(): number {
+    return this.file.startTime;
+  }
+}
+
+// ========================================
+// STORAGE & FILES
+// ========================================
+
+/** Keep the latest run for "Watch Replay" (best effort - a long run may not fit) */
+export function storeLastReplay(file: ReplayFile): void {
+  try {
+    localStorage.setItem(LAST_REPLAY_KEY, JSON.stringify(file));
+  } catch (e) {
+    console.warn('[REPLAY] Could not store replay:', e);
+  }
+}
+
+export function loadLastReplay(): ReplayFile | null {
+  try {
+    const saved = localStorage.getItem(LAST_REPLAY_KEY);
+    return saved ? parseReplay(saved) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Parse a replay file; returns null if it isn't one this build can play */
+export function parseReplay(text: string): ReplayFile | null {
+  try {
+    const parsed = JSON.parse(text) as ReplayFile;
+    if (parsed.version !== REPLAY_VERSION) return null;
+    if (typeof parsed.characterId !== 'string' || typeof parsed.seed !== 'number') return null;
+    if (!Array.isArray(parsed.inputs) || !Array.isArray(parsed.choices)) return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+/** Save the replay as a file the player can share or attach to a bug report */
+export function downloadReplay(file: ReplayFile): void {
+  const blob = new Blob([JSON.stringify(file)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `stick-and-shift-${formatSeed(file.seed)}-${file.recordedAt}.replay.json`;
+  link.click();
+  
+  URL.revokeObjectURL(url);
+}
+
+/** Ask the player for a replay file; resolves null if none was picked or it didn't parse */
+export function pickReplayFile(): Promise<ReplayFile | null> {
+  return new Promise(resolve => {
+    const picker = document.createElement('input');
+    picker.type = 'file';
+    picker.accept = '.json,application/json';
+    picker.onchange = () => {
+      const chosen = picker.files?.[0];
+      if (!chosen) {
+        resolve(null);
+        return;
+      }
+      chosen.text().then(text => resolve(parseReplay(text)), () => resolve(null));
+    };
+    picker.click();
+  });
+}
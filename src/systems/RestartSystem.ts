@@ -0,0 +1,154 @@
+// RestartSystem for Stick & Shift
+// Out-of-play calls and the restarts that follow: side-ins, 16-yard hits, long corners and free hits
+
+import { PossessionTeam } from '../entities/Ball';
+import * as TUNING from '../data/tuning';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type OutOfPlayLine = 'sideline' | 'leftBackline' | 'rightBackline';
+export type RestartType = 'sideIn' | 'sixteenYard' | 'longCorner' | 'freeHit';
+export type RestartTeam = 'player' | 'enemy';
+
+export interface Restart {
+  type: RestartType;
+  team: RestartTeam;  // Team taking the restart
+  x: number;
+  y: number;
+}
+
+export const RESTART_NAMES: Record<RestartType, string> = {
+  sideIn: 'SIDE-IN',
+  sixteenYard: '16-YARD HIT',
+  longCorner: 'LONG CORNER',
+  freeHit: 'FREE HIT'
+};
+
+// ========================================
+// RESTART SYSTEM CLASS
+// ========================================
+
+/**
+ * The player team attacks the right goal, so the right backline belongs to
+ * the enemy defense and the left to ours. After a restart the taking team
+ * can't score until the ball has travelled 5m or someone else has played it.
+ */
+export class RestartSystem {
+  private fieldWidth: number;
+  private fieldHeight: number;
+  
+  private current: Restart | null = null;
+  private taker: any = null;
+  private holdUntil: number = 0;
+  
+  constructor(fieldWidth: number, fieldHeight: number) {
+    this.fieldWidth = fieldWidth;
+    this.fieldHeight = fieldHeight;
+  }
+  
+  // ========================================
+  // CALLS
+  // ========================================
+  
+  /** Which restart a ball over this line earns, and where it's taken */
+  award(line: OutOfPlayLine, lastTouch: PossessionTeam, x: number, y: number): Restart {
+    const inset = TUNING.PITCH_LINE_INSET;
+    const spotY = Math.max(inset + TUNING.RESTART_LINE_GAP, Math.min(this.fieldHeight - inset - TUNING.RESTART_LINE_GAP, y));
+    
+    if (line === 'sideline') {
+      const spotX = Math.max(inset + TUNING.RESTART_LINE_GAP, Math.min(this.fieldWidth - inset - TUNING.RESTART_LINE_GAP, x));
+      return {
+        type: 'sideIn',
+        team: lastTouch === 'player' ? 'enemy' : 'player',
+        x: spotX,
+        y: y < this.fieldHeight / 2 ? inset + TUNING.RESTART_LINE_GAP : this.fieldHeight - inset - TUNING.RESTART_LINE_GAP
+      };
+    }
+    
+    // Attackers over the backline: 16-yard hit to the defense, level with where it went out
+    const isRight = line === 'rightBackline';
+    const attackers: RestartTeam = isRight ? 'player' : 'enemy';
+    const defenders: RestartTeam = isRight ? 'enemy' : 'player';
+    const backlineX = isRight ? this.fieldWidth - inset : inset;
+    const outward = isRight ? -1 : 1;
+    
+    if (lastTouch === attackers) {
+      return { type: 'sixteenYard', team: defenders, x: backlineX + outward * TUNING.RESTART_16YD_DIST, y: spotY };
+    }
+    
+    // Defenders over their own backline: long corner on the 23m line
+    return { type: 'longCorner', team: attackers, x: backlineX + outward * TUNING.RESTART_23M_DIST, y: spotY };
+  }
+  
+  /**
+   * Free hit where the foul happened. One in the attacking 23 can't be taken
+   * inside the D, so it comes back out to 5m beyond it.
+   */
+  freeHit(team: RestartTeam, x: number, y: number): Restart {
+    const inset = TUNING.PITCH_LINE_INSET + TUNING.RESTART_LINE_GAP;
+    let spotX = Math.max(inset, Math.min(this.fieldWidth - inset, x));
+    let spotY = Math.max(inset, Math.min(this.fieldHeight - inset, y));
+    
+    const dCenterX = team === 'player' ? this.fieldWidth - 30 : 30;
+    const dCenterY = this.fieldHeight / 2;
+    // Never push it back behind the D center, toward the backline
+    const dx = team === 'player' ? Math.min(0, spotX - dCenterX) : Math.max(0, spotX - dCenterX);
+    const dy = spotY - dCenterY;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist < TUNING.FREE_HIT_D_CLEARANCE) {
+      const angle = dist > 1 ? Math.atan2(dy, dx) : (team === 'player' ? Math.PI : 0);
+      spotX = dCenterX + Math.cos(angle) * TUNING.FREE_HIT_D_CLEARANCE;
+      spotY = dCenterY + Math.sin(angle) * TUNING.FREE_HIT_D_CLEARANCE;
+    }
+    
+    return { type: 'freeHit', team, x: spotX, y: spotY };
+  }
+  
+  /** The taker is on the ball; everyone holds until the restart is played */
+  begin(restart: Restart, taker: any, now: number): void {
+    this.current = restart;
+    this.taker = taker;
+    this.holdUntil = now + TUNING.RESTART_SETUP_MS;
+    console.log(`[RESTART] ${RESTART_NAMES[restart.type]} to ${restart.team} at (${Math.round(restart.x)}, ${Math.round(restart.y)})`);
+  }
+  
+  /** Forget any restart in progress (kickoff, new moment, set piece) */
+  clear(): void {
+    this.current = null;
+    this.taker = null;
+    this.holdUntil = 0;
+  }
+  
+  // ========================================
+  // LIVE PLAY
+  // ========================================
+  
+  /** The 5m rule lifts once the ball has gone 5m or anyone but the taker has it */
+  update(ballX: number, ballY: number, owner: any): void {
+    if (!this.current) return;
+    
+    const dx = ballX - this.current.x;
+    const dy = ballY - this.current.y;
+    const travelled = Math.sqrt(dx * dx + dy * dy);
+    if (travelled >= TUNING.RESTART_5M_DIST || (owner && owner !== this.taker)) {
+      this.current = null;
+      this.taker = null;
+    }
+  }
+  
+  /** The taker is still on the ball, so the restart hasn't been played yet */
+  isWithTaker(owner: any): boolean {
+    return this.current !== null && owner === this.taker;
+  }
+  
+  isHolding(now: number): boolean {
+    return now < this.holdUntil;
+  }
+  
+  /** The taking team can't score straight from its own restart */
+  canScore(team: RestartTeam): boolean {
+    return !this.current || this.current.team !== team;
+  }
+}
@@ -1,6 +1,9 @@
 // SaveSystem for Stick & Shift
 // Handles persistent data storage using localStorage
 
+import { ChallengeProgress } from '../data/challenges';
+import { UPGRADE_UNLOCKS } from '../data/unlocks';
+
 const SAVE_KEY = 'stick_and_shift_save';
 const SAVE_VERSION = 1;
 
@@ -9,10 +12,13 @@ export interface SaveData {
   gems: number;
   unlockedCharacters: string[];
   completedChallenges: string[];
+  challengeProgress: Record<string, ChallengeProgress>;
+  unlockedUpgrades: string[];  // Challenge reward upgrades now in the draft pool
   metaUpgradeLevels: Record<string, number>;
   stats: GameStats;
   settings: GameSettings;
   lastPlayedCharacter?: string;
+  suspendedRun?: SuspendedRun;
 }
 
 export interface GameStats {
@@ -41,6 +47,49 @@ export interface GameSettings {
   sfxVolume: number;
   screenShake: boolean;
   showDamageNumbers: boolean;
+  goalReplays: boolean;
+}
+
+/** Where each of the run's seeded streams had got to (see SeededRandom.getState) */
+export interface RunRandomStreams {
+  draft: number;
+  curses: number;
+  affixes: number;
+  play: number;
+}
+
+/**
+ * Between-moment checkpoint of an in-progress run.
+ * Written after each moment so a closed tab can pick the run back up.
+ */
+export interface SuspendedRun {
+  characterId: string;
+  seed: number;
+  momentIds: string[];
+  momentIndex: number;  // Index of the moment that was just completed
+  cupState: {
+    playerPoints: number;
+    enemyPoints: number;
+    pointsToWin: number;
+    isEnded: boolean;
+    winner: 'player' | 'enemy' | null;
+    comebackCursesTriggered: boolean;
+    activeCurseId: string | null;
+  };
+  runStats: {
+    momentsWon: number;
+    momentsLost: number;
+    goalsScored: number;
+    goalsConceded: number;
+    reboundGoals: number;
+    cleanSheets: number;
+    bossesBeaten: number;
+  };
+  ownedUpgradeIds: string[];
+  playerHealth: number;
+  randomStreams?: RunRandomStreams;  // Missing in checkpoints from older builds
+  pendingCurseChoice: boolean;  // Comeback curse offer was due but not yet picked
+  savedAt: number;
 }
 
 const DEFAULT_SAVE: SaveData = {
@@ -48,6 +97,8 @@ const DEFAULT_SAVE: SaveData = {
   gems: 0,
   unlockedCharacters: ['alex', 'maya'],  // Starter characters
   completedChallenges: [],
+  challengeProgress: {},
+  unlockedUpgrades: [],
   metaUpgradeLevels: {},
   stats: {
     totalRuns: 0,
@@ -73,13 +124,15 @@ const DEFAULT_SAVE: SaveData = {
     musicVolume: 0.5,
     sfxVolume: 0.7,
     screenShake: true,
-    showDamageNumbers: true
+    showDamageNumbers: true,
+    goalReplays: true
   }
 };
 
 export class SaveSystem {
   private static instance: SaveSystem;
   private data: SaveData;
+  private liveData?: SaveData;  // Parked while a replay plays on a copy
   
   private constructor() {
     this.data = this.load();
@@ -128,12 +181,16 @@ export class SaveSystem {
     return {
       ...DEFAULT_SAVE,
       ...data,
+      // Saves from before the unlock pool could draft every upgrade, so they keep them all
+      unlockedUpgrades: data.unlockedUpgrades ?? UPGRADE_UNLOCKS.map(u => u.upgradeId),
       stats: { ...DEFAULT_SAVE.stats, ...(data.stats || {}) },
       settings: { ...DEFAULT_SAVE.settings, ...(data.settings || {}) }
     };
   }
   
   save(): void {
+    if (this.liveData) return;
+    
     try {
       localStorage.setItem(SAVE_KEY, JSON.stringify(this.data));
     } catch (error) {
@@ -188,7 +245,34 @@ export class SaveSystem {
   
   completeChallenge(challengeId: string): void {
     if (!this.data.completedChallenges.includes(challengeId)) {
-      this.data.completedChallenges.push(challengeId);
+      // Copy rather than push so the shared DEFAULT_SAVE array stays empty
+      this.data.completedChallenges = [...this.data.completedChallenges, challengeId];
+      this.save();
+    }
+  }
+  
+  getChallengeProgress(challengeId: string): ChallengeProgress | undefined {
+    const progress = this.data.challengeProgress[challengeId];
+    return progress ? { ...progress } : undefined;
+  }
+  
+  setChallengeProgress(progress: ChallengeProgress): void {
+    this.data.challengeProgress = { ...this.data.challengeProgress, [progress.challengeId]: progress };
+    this.save();
+  }
+  
+  // Unlocked upgrades
+  getUnlockedUpgrades(): string[] {
+    return [...this.data.unlockedUpgrades];
+  }
+  
+  isUpgradeUnlocked(upgradeId: string): boolean {
+    return this.data.unlockedUpgrades.includes(upgradeId);
+  }
+  
+  unlockUpgrade(upgradeId: string): void {
+    if (!this.data.unlockedUpgrades.includes(upgradeId)) {
+      this.data.unlockedUpgrades = [...this.data.unlockedUpgrades, upgradeId];
       this.save();
     }
   }
@@ -212,6 +296,12 @@ export class SaveSystem {
     return this.data.stats[stat];
   }
   
+  /** A stat as a number; lists (bosses beaten, characters played) count their entries */
+  getStatCount(stat: keyof GameStats): number {
+    const value = this.data.stats[stat];
+    return Array.isArray(value) ? value.length : value;
+  }
+  
   setStat(stat: keyof GameStats, value: number): void {
     if (typeof this.data.stats[stat] === 'number') {
       (this.data.stats[stat] as number) = value;
@@ -254,12 +344,67 @@ export class SaveSystem {
     this.save();
   }
   
+  // Suspended run
+  getSuspendedRun(): SuspendedRun | undefined {
+    return this.data.suspendedRun;
+  }
+  
+  setSuspendedRun(run: SuspendedRun): void {
+    this.data.suspendedRun = run;
+    this.save();
+  }
+  
+  clearSuspendedRun(): void {
+    if (this.data.suspendedRun) {
+      delete this.data.suspendedRun;
+      this.save();
+    }
+  }
+  
   // Reset (for testing)
   reset(): void {
     this.data = { ...DEFAULT_SAVE };
     this.save();
   }
   
+  /**
+   * The parts of the save a run reads (meta upgrades, unlocks, challenge
+   * progress and stats), for a replay to play back on. Gems, characters,
+   * settings and any suspended run stay out of the file.
+   */
+  exportReplaySnapshot(): string {
+    const { metaUpgradeLevels, unlockedUpgrades, completedChallenges, challengeProgress, stats, settings } = this.data;
+    return JSON.stringify({
+      metaUpgradeLevels,
+      unlockedUpgrades,
+      completedChallenges,
+      challengeProgress,
+      stats,
+      settings: { goalReplays: settings.goalReplays }
+    });
+  }
+  
+  // Replays play on the save as it was when they were recorded; nothing they do is kept
+  beginReplay(snapshot: string): void {
+    if (this.liveData) return;
+    
+    this.liveData = this.data;
+    try {
+      this.data = this.mergeWithDefaults(JSON.parse(snapshot) as Partial<SaveData>);
+    } catch {
+      this.data = { ...DEFAULT_SAVE };
+    }
+    // Volume etc. stay the player's own; goal replays hold up play, so that one is the recording's
+    this.data.settings = { ...this.liveData.settings, goalReplays: this.data.settings.goalReplays };
+  }
+  
+  endReplay(): void {
+    if (!this.liveData) return;
+    
+    this.data = this.liveData;
+    this.liveData = undefined;
+  }
+  
   // Export/Import for backup
   exportSave(): string {
     return JSON.stringify(this.data);
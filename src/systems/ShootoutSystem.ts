@@ -0,0 +1,266 @@
+// ShootoutSystem for Stick & Shift
+// Penalty strokes and shootouts: 1v1 attempts against the keeper, one at a time or as a series
+
+import Phaser from 'phaser';
+import { MomentDefinition, ShootoutFormat } from '../data/moments';
+import * as TUNING from '../data/tuning';
+
+// ========================================
+// TYPES
+// ========================================
+
+/** Attack: the player goes at the enemy keeper. Keeper: the player keeps goal. */
+export type ShootoutRoundKind = 'attack' | 'keeper';
+export type ShootoutResult = 'goal' | 'saved' | 'missed' | 'timeout';
+export type ShootoutWinner = 'player' | 'enemy';
+
+type ShootoutPhase = 'idle' | 'setup' | 'live' | 'between' | 'over';
+
+export interface ShootoutRoundSetup {
+  format: ShootoutFormat;
+  kind: ShootoutRoundKind;
+  attempt: number;  // This side's attempt number
+  total: number;    // Attempts each side before sudden death
+  playerGoals: number;
+  enemyGoals: number;
+  oneOff: boolean;  // A stroke awarded for a foul in open play
+}
+
+// ========================================
+// SHOOTOUT SYSTEM CLASS
+// ========================================
+
+/**
+ * A series alternates attack and keeper rounds, player first, and stops as
+ * soon as one side can't be caught; level after the regulation attempts goes
+ * to sudden death in pairs. Shootout attempts allow rebounds until the clock
+ * or the ball leaves the area; a stroke is a single shot. The scene owns
+ * positions and detects goals and saves; this keeps the count.
+ */
+export class ShootoutSystem extends Phaser.Events.EventEmitter {
+  private scene: Phaser.Scene;
+  
+  private phase: ShootoutPhase = 'idle';
+  private format: ShootoutFormat = 'shootout';
+  private oneOff: boolean = false;
+  private rounds: number = 0;
+  private kind: ShootoutRoundKind = 'attack';
+  
+  private playerTaken: number = 0;
+  private enemyTaken: number = 0;
+  private playerGoals: number = 0;
+  private enemyGoals: number = 0;
+  
+  private liveUntil: number = 0;
+  private shotTaken: boolean = false;
+  private saves: number = 0;
+  private pending?: Phaser.Time.TimerEvent;
+  
+  constructor(scene: Phaser.Scene) {
+    super();
+    this.scene = scene;
+  }
+  
+  // ========================================
+  // SEQUENCE
+  // ========================================
+  
+  /** Start the series for a shootout moment; anything without shootoutRounds stays in open play */
+  start(moment: MomentDefinition): void {
+    this.stop();
+    if (!moment.shootoutRounds) return;
+    
+    this.startSeries(moment.shootoutFormat ?? 'shootout', moment.shootoutRounds);
+  }
+  
+  startSeries(format: ShootoutFormat, rounds: number): void {
+    this.stop();
+    this.format = format;
+    this.rounds = rounds;
+    this.playerTaken = 0;
+    this.enemyTaken = 0;
+    this.playerGoals = 0;
+    this.enemyGoals = 0;
+    
+    console.log(`[SHOOTOUT] ${format} series, ${rounds} each`);
+    this.nextRound();
+  }
+  
+  /** A single stroke for a foul in the D */
+  awardStroke(kind: ShootoutRoundKind): void {
+    this.stop();
+    this.oneOff = true;
+    this.format = 'stroke';
+    this.rounds = 1;
+    
+    console.log(`[SHOOTOUT] Stroke awarded (${kind})`);
+    this.beginRound(kind);
+  }
+  
+  /** Drop everything (moment over or replaced) */
+  stop(): void {
+    this.pending?.remove();
+    this.pending = undefined;
+    this.phase = 'idle';
+    this.oneOff = false;
+  }
+  
+  private nextRound(): void {
+    const winner = this.getWinner();
+    if (winner) {
+      this.phase = 'over';
+      console.log(`[SHOOTOUT] Won by ${winner} (${this.playerGoals}-${this.enemyGoals})`);
+      this.emit('decided', winner);
+      return;
+    }
+    
+    this.beginRound(this.playerTaken <= this.enemyTaken ? 'attack' : 'keeper');
+  }
+  
+  private beginRound(kind: ShootoutRoundKind): void {
+    this.kind = kind;
+    this.shotTaken = false;
+    this.saves = 0;
+    this.phase = 'setup';
+    
+    const setup: ShootoutRoundSetup = {
+      format: this.format,
+      kind,
+      attempt: (kind === 'attack' ? this.playerTaken : this.enemyTaken) + 1,
+      total: this.rounds,
+      playerGoals: this.playerGoals,
+      enemyGoals: this.enemyGoals,
+      oneOff: this.oneOff
+    };
+    this.emit('setup', setup);
+    
+    this.pending = this.scene.time.delayedCall(TUNING.SHOOTOUT_SETUP_MS, () => {
+      this.phase = 'live';
+      this.liveUntil = this.scene.time.now + (this.format === 'stroke' ? TUNING.STROKE_ROUND_MS : TUNING.SHOOTOUT_ROUND_MS);
+      this.emit('go', kind);
+    });
+  }
+  
+  /** Finish the current attempt and count it */
+  end(result: ShootoutResult): void {
+    if (this.phase !== 'live') return;
+    
+    this.pending?.remove();
+    const kind = this.kind;
+    
+    if (kind === 'attack') {
+      this.playerTaken++;
+      if (result === 'goal') this.playerGoals++;
+    } else {
+      this.enemyTaken++;
+      if (result === 'goal') this.enemyGoals++;
+    }
+    
+    console.log(`[SHOOTOUT] ${kind} attempt: ${result} (${this.playerGoals}-${this.enemyGoals})`);
+    
+    if (this.oneOff) {
+      this.stop();
+      this.emit('roundOver', { result, kind, oneOff: true });
+      return;
+    }
+    
+    this.phase = 'between';
+    this.emit('roundOver', { result, kind, oneOff: false });
+    this.pending = this.scene.time.delayedCall(TUNING.SHOOTOUT_RESET_DELAY_MS, () => this.nextRound());
+  }
+  
+  /**
+   * Decided once one side is out of reach; after regulation, only when both
+   * have had the same number of attempts
+   */
+  private getWinner(): ShootoutWinner | null {
+    if (this.playerTaken <= this.rounds && this.enemyTaken <= this.rounds) {
+      const playerLeft = this.rounds - this.playerTaken;
+      const enemyLeft = this.rounds - this.enemyTaken;
+      if (this.playerGoals > this.enemyGoals + enemyLeft) return 'player';
+      if (this.enemyGoals > this.playerGoals + playerLeft) return 'enemy';
+      if (playerLeft > 0 || enemyLeft > 0) return null;
+    }
+    
+    // Sudden death
+    if (this.playerTaken === this.enemyTaken && this.playerGoals !== this.enemyGoals) {
+      return this.playerGoals > this.enemyGoals ? 'player' : 'enemy';
+    }
+    return null;
+  }
+  
+  // ========================================
+  // LIVE PLAY
+  // ========================================
+  
+  /**
+   * Attempts end on the clock or the ball leaving the area.
+   * A stroke is over once the shot has been taken and the ball has died.
+   */
+  update(ballDistFromBackline: number, ballSpeed: number, takerHasBall: boolean): void {
+    if (this.phase !== 'live') return;
+    
+    if (this.format === 'stroke' && !takerHasBall) {
+      this.shotTaken = true;
+    }
+    
+    if (this.scene.time.now >= this.liveUntil) {
+      this.end(this.saves > 0 ? 'saved' : 'timeout');
+    } else if (ballDistFromBackline > TUNING.SHOOTOUT_AREA_DIST) {
+      this.end(this.saves > 0 ? 'saved' : 'missed');
+    } else if (this.shotTaken && ballSpeed < TUNING.STROKE_DEAD_BALL_SPEED) {
+      this.end('missed');
+    }
+  }
+  
+  /** The keeper got something on it: that's the stroke over, a shootout plays on */
+  onKeeperSave(): void {
+    if (this.phase !== 'live') return;
+    
+    this.saves++;
+    if (this.format === 'stroke') {
+      this.end('saved');
+    }
+  }
+  
+  // ========================================
+  // QUERIES
+  // ========================================
+  
+  /** A stroke or shootout is in progress */
+  isRunning(): boolean {
+    return this.phase !== 'idle' && this.phase !== 'over';
+  }
+  
+  /** A series that decides the moment (not a one-off stroke) */
+  isSeries(): boolean {
+    return this.isRunning() && !this.oneOff;
+  }
+  
+  isLive(): boolean {
+    return this.phase === 'live';
+  }
+  
+  /** Both sides hold during setup and between attempts */
+  isHoldingPlay(): boolean {
+    return this.phase === 'setup' || this.phase === 'between';
+  }
+  
+  getKind(): ShootoutRoundKind {
+    return this.kind;
+  }
+  
+  getFormat(): ShootoutFormat {
+    return this.format;
+  }
+  
+  /** Goals in the current or last series (strokes in open play count as ordinary goals) */
+  getSeriesScore(): { player: number; enemy: number } {
+    return { player: this.playerGoals, enemy: this.enemyGoals };
+  }
+  
+  destroy(): void {
+    this.stop();
+    this.removeAllListeners();
+  }
+}
@@ -4,7 +4,9 @@
 
 import Phaser from 'phaser';
 import { MomentState } from './MomentSystem';
+import { ShootoutRoundSetup } from './ShootoutSystem';
 import { Upgrade, Rarity, RARITY_COLORS } from '../data/upgrades';
+import * as TUNING from '../data/tuning';
 
 export interface MomentRecapStats {
   goalsScored: number;
@@ -36,6 +38,8 @@ export class UISystem {
   private timerBg?: Phaser.GameObjects.Graphics;
   private scoreText?: Phaser.GameObjects.Text;
   private objectiveText?: Phaser.GameObjects.Text;
+  private penaltyCornerText?: Phaser.GameObjects.Text;
+  private shootoutText?: Phaser.GameObjects.Text;
   private momentText?: Phaser.GameObjects.Text;
   private possessionIndicator?: Phaser.GameObjects.Graphics;
   private possessionText?: Phaser.GameObjects.Text;
@@ -151,6 +155,32 @@ export class UISystem {
     this.objectiveText.setOrigin(0.5);
     this.container.add(this.objectiveText);
     
+    // Penalty corner attempts (PC moments only)
+    this.penaltyCornerText = this.scene.add.text(width / 2, 122, '', {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '15px',
+      color: '#ecf0f1',
+      fontStyle: 'bold',
+      stroke: '#000000',
+      strokeThickness: 3
+    });
+    this.penaltyCornerText.setOrigin(0.5);
+    this.penaltyCornerText.setVisible(false);
+    this.container.add(this.penaltyCornerText);
+    
+    // Stroke / shootout tally (same slot - never shown alongside corners)
+    this.shootoutText = this.scene.add.text(width / 2, 122, '', {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '15px',
+      color: '#ecf0f1',
+      fontStyle: 'bold',
+      stroke: '#000000',
+      strokeThickness: 3
+    });
+    this.shootoutText.setOrigin(0.5);
+    this.shootoutText.setVisible(false);
+    this.container.add(this.shootoutText);
+    
     // Moment counter (top left)
     this.momentText = this.scene.add.text(20, 20, 'Moment 1/10', {
       fontFamily: 'Arial, sans-serif',
@@ -405,7 +435,7 @@ export class UISystem {
     
     // Panel
     const panelWidth = 450;
-    const panelHeight = 380;
+    const panelHeight = 420;
     const panel = this.scene.add.graphics();
     panel.fillStyle(0x1a1a2e, 0.95);
     panel.fillRoundedRect(width / 2 - panelWidth / 2, height / 2 - panelHeight / 2, panelWidth, panelHeight, 15);
@@ -428,6 +458,7 @@ export class UISystem {
       { key: 'WASD / Arrows', action: 'Move' },
       { key: 'SPACE / Left Click', action: 'Shoot (with ball) / Tackle intent' },
       { key: 'E', action: 'Pass to teammate' },
+      { key: 'F', action: 'Aerial pass (over defenders)' },
       { key: 'Q', action: 'Tackle (lunge to steal ball)' },
       { key: 'SHIFT', action: 'Dodge / Sidestep' },
       { key: 'Mouse', action: 'Aim direction' },
@@ -527,7 +558,7 @@ export class UISystem {
   }
   
   // Show first-run tutorial
-  showFirstRunTutorial(onDismiss: () => void): void {
+  showFirstRunTutorial(onDismiss: () => void): Phaser.GameObjects.Container {
     const width = this.scene.cameras.main.width;
     const height = this.scene.cameras.main.height;
     
@@ -636,10 +667,12 @@ export class UISystem {
         });
       }
     });
+    
+    return tutorial;
   }
   
   // Show moment recap
-  showMomentRecap(stats: MomentRecapStats, onContinue: () => void): void {
+  showMomentRecap(stats: MomentRecapStats, onContinue: () => void): Phaser.GameObjects.Container {
     const width = this.scene.cameras.main.width;
     const height = this.scene.cameras.main.height;
     
@@ -744,6 +777,8 @@ export class UISystem {
       alpha: 1,
       duration: 300
     });
+    
+    return recap;
   }
   
   // Update timer display
@@ -796,6 +831,38 @@ export class UISystem {
     this.objectiveText.setText(text);
   }
   
+  // Update penalty corner attempt counter
+  updatePenaltyCorners(attempt: number, total: number, side: 'attack' | 'defend'): void {
+    if (!this.penaltyCornerText) return;
+    
+    const label = side === 'attack' ? 'Attack' : 'Defend';
+    this.penaltyCornerText.setText(`🏑 PC ${attempt}/${total} - ${label}`);
+    this.penaltyCornerText.setColor(side === 'attack' ? '#2ecc71' : '#e67e22');
+    this.penaltyCornerText.setVisible(true);
+  }
+  
+  hidePenaltyCorners(): void {
+    this.penaltyCornerText?.setVisible(false);
+  }
+  
+  // Update stroke / shootout attempt and tally
+  updateShootout(setup: ShootoutRoundSetup): void {
+    if (!this.shootoutText) return;
+    
+    const label = setup.kind === 'attack' ? 'Shoot' : 'Keep';
+    const name = setup.format === 'stroke' ? 'STROKE' : 'SHOOTOUT';
+    const attempt = setup.attempt > setup.total ? 'Sudden death' : `${setup.attempt}/${setup.total}`;
+    this.shootoutText.setText(setup.oneOff
+      ? `🎯 PENALTY STROKE - ${label}`
+      : `🎯 ${name} ${attempt} - ${label}  (${setup.playerGoals} - ${setup.enemyGoals})`);
+    this.shootoutText.setColor(setup.kind === 'attack' ? '#2ecc71' : '#e67e22');
+    this.shootoutText.setVisible(true);
+  }
+  
+  hideShootout(): void {
+    this.shootoutText?.setVisible(false);
+  }
+  
   // Update moment counter
   updateMomentCounter(current: number, total: number, isBoss: boolean = false): void {
     if (!this.momentText) return;
@@ -1294,6 +1361,134 @@ export class UISystem {
     return this.activeCurseName;
   }
   
+  // ========================================
+  // BOSS HEALTH BAR
+  // ========================================
+  
+  private bossBarContainer?: Phaser.GameObjects.Container;
+  private bossBarFill?: Phaser.GameObjects.Graphics;
+  private bossNameText?: Phaser.GameObjects.Text;
+  private bossPhaseText?: Phaser.GameObjects.Text;
+  private bossHealth: number = 1;
+  private bossPhase: number = 1;
+  private readonly BOSS_BAR_WIDTH = 300;
+  private readonly BOSS_BAR_HEIGHT = 12;
+  
+  private createBossBar(): void {
+    const width = this.scene.cameras.main.width;
+    const barWidth = this.BOSS_BAR_WIDTH;
+    const barHeight = this.BOSS_BAR_HEIGHT;
+    
+    // Top centre, clear of the timer, objective and play banner
+    this.bossBarContainer = this.scene.add.container(width / 2, 160);
+    this.bossBarContainer.setScrollFactor(0);
+    this.bossBarContainer.setDepth(101);
+    
+    this.bossNameText = this.scene.add.text(0, 0, '', {
+      fontFamily: 'Arial Black, Arial, sans-serif',
+      fontSize: '13px',
+      color: '#e74c3c',
+      stroke: '#000000',
+      strokeThickness: 3
+    });
+    this.bossNameText.setOrigin(0.5, 0.5);
+    this.bossBarContainer.add(this.bossNameText);
+    
+    // Background
+    const bg = this.scene.add.graphics();
+    bg.fillStyle(0x1a1a2e, 0.9);
+    bg.fillRoundedRect(-barWidth / 2, 10, barWidth, barHeight, 4);
+    bg.lineStyle(1, 0xe74c3c, 0.6);
+    bg.strokeRoundedRect(-barWidth / 2, 10, barWidth, barHeight, 4);
+    this.bossBarContainer.add(bg);
+    
+    // Fill
+    this.bossBarFill = this.scene.add.graphics();
+    this.bossBarContainer.add(this.bossBarFill);
+    
+    // Phase marks where the boss steps up
+    const marks = this.scene.add.graphics();
+    marks.lineStyle(2, 0xffffff, 0.7);
+    [TUNING.BOSS_PHASE_2_HEALTH, TUNING.BOSS_PHASE_3_HEALTH].forEach(threshold => {
+      const x = -barWidth / 2 + barWidth * threshold;
+      marks.lineBetween(x, 8, x, 12 + barHeight);
+    });
+    this.bossBarContainer.add(marks);
+    
+    this.bossPhaseText = this.scene.add.text(barWidth / 2 + 8, 10 + barHeight / 2, '', {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '11px',
+      color: '#ffffff',
+      fontStyle: 'bold'
+    });
+    this.bossPhaseText.setOrigin(0, 0.5);
+    this.bossBarContainer.add(this.bossPhaseText);
+    
+    this.container.add(this.bossBarContainer);
+  }
+  
+  private drawBossBar(percent: number): void {
+    if (!this.bossBarFill) return;
+    
+    const barWidth = this.BOSS_BAR_WIDTH;
+    const barHeight = this.BOSS_BAR_HEIGHT;
+    const fillWidth = Math.max(0, (barWidth - 4) * percent);
+    
+    // Darker red each phase
+    const colors = [0xe74c3c, 0xc0392b, 0x8b0000];
+    
+    this.bossBarFill.clear();
+    this.bossBarFill.fillStyle(colors[this.bossPhase - 1] ?? colors[0], 0.9);
+    this.bossBarFill.fillRoundedRect(-barWidth / 2 + 2, 12, fillWidth, barHeight - 4, 3);
+    
+    // Highlight on top
+    this.bossBarFill.fillStyle(0xffffff, 0.2);
+    this.bossBarFill.fillRect(-barWidth / 2 + 2, 12, fillWidth, (barHeight - 4) / 3);
+  }
+  
+  showBossBar(name: string): void {
+    if (!this.bossBarContainer) {
+      this.createBossBar();
+    }
+    
+    this.bossHealth = 1;
+    this.bossPhase = 1;
+    this.bossNameText?.setText(`☠️ ${name.toUpperCase()}`);
+    this.bossPhaseText?.setText('PHASE 1');
+    this.drawBossBar(1);
+    this.bossBarContainer!.setVisible(true);
+  }
+  
+  /**
+   * Update boss health (called from RunScene)
+   */
+  updateBossBar(health: number, phase: number): void {
+    if (!this.bossBarContainer?.visible) return;
+    
+    // Animate the bar
+    this.bossHealth = Phaser.Math.Linear(this.bossHealth, health, 0.1);
+    
+    // Stepping up a phase: pulse the whole bar
+    if (phase !== this.bossPhase) {
+      this.bossPhase = phase;
+      this.bossPhaseText?.setText(`PHASE ${phase}`);
+      this.scene.tweens.add({
+        targets: this.bossBarContainer,
+        scaleX: 1.15,
+        scaleY: 1.15,
+        duration: 150,
+        yoyo: true,
+        repeat: 1
+      });
+    }
+    
+    this.drawBossBar(this.bossHealth);
+  }
+  
+  hideBossBar(): void {
+    this.bossBarContainer?.setVisible(false);
+  }
+  
   // ========================================
   // PLAY ACTIVE DISPLAY
   // ========================================
@@ -1447,6 +1642,7 @@ export class UISystem {
       case 'play': return 0x3498db;
       case 'giveAndGo': return 0x2ecc71;
       case 'curse': return 0xe74c3c;
+      case 'character': return 0x1abc9c;
       default: return 0x7f8c8d;
     }
   }
@@ -1596,8 +1792,18 @@ export class UISystem {
         objectiveText = "Don't concede!";
         break;
       case 'penaltyCorner':
+      case 'pc_score':
         objectiveText = `Score from penalty corner (${state.objectiveProgress}/${state.objectiveTarget})`;
         break;
+      case 'pc_defend':
+        objectiveText = 'Keep the corners out!';
+        break;
+      case 'pcBattle':
+        objectiveText = 'Score first in the corner duel!';
+        break;
+      case 'shootout':
+        objectiveText = 'Win the shootout!';
+        break;
       case 'turnover':
         objectiveText = 'Win the ball back!';
         break;
@@ -0,0 +1,194 @@
+// UmpireSystem for Stick & Shift
+// Judges tackles and shielding for fouls, decides the award and hands out cards
+
+import Phaser from 'phaser';
+import { RandomSource } from './RandomSystem';
+import * as TUNING from '../data/tuning';
+
+// ========================================
+// TYPES
+// ========================================
+
+export type FoulType = 'obstruction' | 'backTackle' | 'dangerousPlay' | 'hacking';
+export type FoulAward = 'freeHit' | 'penaltyCorner' | 'penaltyStroke';
+export type CardColor = 'green' | 'yellow';
+export type UmpireTeam = 'player' | 'enemy';
+
+export interface Foul {
+  type: FoulType;
+  offender: any;
+  offenderTeam: UmpireTeam;
+  x: number;  // Where it happened (the carrier's spot)
+  y: number;
+}
+
+/** What the umpire needs to know about a tackle */
+export interface TackleReview {
+  tackler: any;
+  tacklerTeam: UmpireTeam;
+  carrier: any;
+  fromBehind: boolean;
+  tacklerSpeed: number;
+  extraFoulChance: number;  // Foul Prone and similar (%)
+}
+
+export const FOUL_NAMES: Record<FoulType, string> = {
+  obstruction: 'OBSTRUCTION',
+  backTackle: 'TACKLE FROM BEHIND',
+  dangerousPlay: 'DANGEROUS PLAY',
+  hacking: 'STICK FOUL'
+};
+
+interface SinBinEntry {
+  card: CardColor;
+  timer: Phaser.Time.TimerEvent;
+}
+
+// ========================================
+// UMPIRE SYSTEM CLASS
+// ========================================
+
+/**
+ * Offenses are counted per entity for the moment. A first offense is a
+ * warning unless it was dangerous; repeats earn a green card, then yellows.
+ * Carded entities sit out in the sin bin and RunScene brings them back.
+ */
+export class UmpireSystem {
+  private scene: Phaser.Scene;
+  private random: RandomSource;
+  
+  private offenses: Map<any, number> = new Map();
+  private sinBin: Map<any, SinBinEntry> = new Map();
+  
+  // Obstruction: how long the current carrier has been shielding
+  private shieldingCarrier: any = null;
+  private shieldingMs: number = 0;
+  
+  constructor(scene: Phaser.Scene, random: RandomSource = Math.random) {
+    this.scene = scene;
+    this.random = random;
+  }
+  
+  // ========================================
+  // JUDGING
+  // ========================================
+  
+  /**
+   * A tackle that made contact. Coming in from behind and flying in at full
+   * speed are the usual calls; extraFoulChance covers anything else.
+   */
+  judgeTackle(review: TackleReview): Foul | null {
+    let type: FoulType | null = null;
+    
+    if (review.tacklerSpeed >= TUNING.UMPIRE_DANGEROUS_SPEED && this.random() * 100 < TUNING.UMPIRE_DANGEROUS_CHANCE) {
+      type = 'dangerousPlay';
+    } else if (review.fromBehind && this.random() * 100 < TUNING.UMPIRE_BACK_TACKLE_CHANCE) {
+      type = 'backTackle';
+    } else if (review.extraFoulChance > 0 && this.random() * 100 < review.extraFoulChance) {
+      type = 'hacking';
+    }
+    
+    if (!type) return null;
+    
+    return {
+      type,
+      offender: review.tackler,
+      offenderTeam: review.tacklerTeam,
+      x: review.carrier.x,
+      y: review.carrier.y
+    };
+  }
+  
+  /**
+   * A stationary carrier keeping their body between a close opponent and the
+   * ball is obstructing once they've held it long enough
+   */
+  checkObstruction(
+    carrier: any,
+    carrierTeam: UmpireTeam,
+    opponents: any[],
+    ball: { x: number; y: number },
+    delta: number
+  ): Foul | null {
+    if (carrier !== this.shieldingCarrier) {
+      this.shieldingCarrier = carrier;
+      this.shieldingMs = 0;
+    }
+    if (!carrier) return null;
+    
+    const vel = carrier.body?.velocity;
+    const isStationary = !vel || vel.length() < TUNING.UMPIRE_OBSTRUCTION_MAX_SPEED;
+    const ballDx = ball.x - carrier.x;
+    const ballDy = ball.y - carrier.y;
+    
+    const isShielding = isStationary && opponents.some(opponent => {
+      if (opponent.isStunned) return false;
+      const dx = opponent.x - carrier.x;
+      const dy = opponent.y - carrier.y;
+      if (dx * dx + dy * dy > TUNING.UMPIRE_OBSTRUCTION_RANGE * TUNING.UMPIRE_OBSTRUCTION_RANGE) return false;
+      return dx * ballDx + dy * ballDy < 0;  // Ball on the far side of the carrier
+    });
+    
+    this.shieldingMs = isShielding ? this.shieldingMs + delta : 0;
+    if (this.shieldingMs < TUNING.UMPIRE_OBSTRUCTION_MS) return null;
+    
+    this.shieldingMs = 0;
+    return { type: 'obstruction', offender: carrier, offenderTeam: carrierTeam, x: carrier.x, y: carrier.y };
+  }
+  
+  /**
+   * Free hit outside the D. Inside the offender's own D it's a penalty corner,
+   * or a stroke for dangerous play.
+   */
+  getAward(foul: Foul, inOffendersD: boolean): FoulAward {
+    if (!inOffendersD) return 'freeHit';
+    return foul.type === 'dangerousPlay' ? 'penaltyStroke' : 'penaltyCorner';
+  }
+  
+  // ========================================
+  // CARDS
+  // ========================================
+  
+  /** Record the offense and return the card it earns, if any */
+  penalize(foul: Foul): CardColor | null {
+    const count = (this.offenses.get(foul.offender) || 0) + 1;
+    this.offenses.set(foul.offender, count);
+    
+    if (count >= TUNING.UMPIRE_YELLOW_AFTER) return 'yellow';
+    if (count >= TUNING.UMPIRE_GREEN_AFTER || foul.type === 'dangerousPlay') return 'green';
+    return null;
+  }
+  
+  /** Send an entity off; onReturn runs when the time is up */
+  sendToSinBin(entity: any, card: CardColor, onReturn: () => void): number {
+    const duration = card === 'yellow' ? TUNING.UMPIRE_YELLOW_CARD_MS : TUNING.UMPIRE_GREEN_CARD_MS;
+    this.sinBin.get(entity)?.timer.remove();
+    
+    const timer = this.scene.time.delayedCall(duration, () => {
+      this.sinBin.delete(entity);
+      onReturn();
+    });
+    this.sinBin.set(entity, { card, timer });
+    
+    console.log(`[UMPIRE] ${card} card, ${duration / 1000}s in the sin bin`);
+    return duration;
+  }
+  
+  isSinBinned(entity: any): boolean {
+    return this.sinBin.has(entity);
+  }
+  
+  /**
+   * New moment: clean slate. Returns whoever was still in the sin bin
+   * so the scene can bring them back or clear them away.
+   */
+  resetMoment(): any[] {
+    const benched = [...this.sinBin.keys()];
+    this.sinBin.forEach(entry => entry.timer.remove());
+    this.sinBin.clear();
+    this.offenses.clear();
+    this.shieldingCarrier = null;
+    this.shieldingMs = 0;
+    return benched;
+  }
+}
@@ -3,8 +3,11 @@
 // Single source of truth for all upgrade effects
 
 import Phaser from 'phaser';
-import { Upgrade, UpgradeHook, SynergySet, UPGRADES, getUpgradeById, Rarity, SYNERGY_NAMES } from '../data/upgrades';
+import { Upgrade, UpgradeHook, SynergySet, UPGRADES, getUpgradeById, Rarity, SYNERGY_NAMES, UpgradeEffect, EffectAction, EffectCondition } from '../data/upgrades';
 import { CharacterStats } from '../data/characters';
+import { CurseDefinition, CURSES } from '../data/curses';
+import * as TUNING from '../data/tuning';
+import { RandomSource } from './RandomSystem';
 
 // ========================================
 // TYPES
@@ -27,9 +30,86 @@ export interface UpgradeContext {
   playerIsStationary?: boolean;
   momentTimeRemaining?: number;
   isLosing?: boolean;
+  isWinning?: boolean;
+  isSetPiece?: boolean;
   possessionTime?: number;
+  weatherActive?: boolean;
+  slipperyTurf?: boolean;
 }
 
+// Computed fields carried from the last tick into events that don't set them
+const TICK_STATE_KEYS: (keyof UpgradeContext)[] = [
+  'ball', 'playerHasBall', 'playerInAttackingD', 'playerInDefendingD', 'playerCanShoot', 'playerCanPass',
+  'playerIsStationary', 'momentTimeRemaining', 'isLosing', 'isWinning', 'isSetPiece', 'possessionTime',
+  'weatherActive', 'slipperyTurf'
+];
+
+// Stats the game reads back from upgrades (getStatBonus, getModifiedStat, getEffectValue)
+const READ_STATS = new Set<string>([
+  // Character stats, and 'all' on top of each
+  'speed', 'stamina', 'control', 'shotPower', 'passPower', 'tackle', 'dodge', 'all',
+  // Movement, stamina and cooldowns
+  'acceleration', 'turnRate', 'staminaDrain', 'staminaRegen', 'dashCost', 'chargeTime',
+  'cooldowns', 'shootCooldown', 'missedTackleCooldown',
+  'dodgeCharges', 'dodgeIframes', 'stunDuration', 'movingStunImmune', 'wetTurfImmune',
+  // Passing and give-and-go
+  'passRange', 'passSpeed', 'passAutoTarget', 'passBobbleChance', 'forwardPassBuff',
+  'giveGoWindow', 'giveGoSpeed', 'pcControl', 'pcPassSpeed', 'unblockablePC',
+  // Shooting and rebounds
+  'shotKnockback', 'shotKnockbackImmune', 'shotRicochet', 'shotDeflectChance', 'dippingShot',
+  'volleyPower', 'luckyDeflectChance', 'reboundReach', 'reboundTeleport', 'guidedRebound',
+  'aerialContest', 'winAerials',
+  // Tackling and defending
+  'tackleRange', 'tackleKnockback', 'tacklePhaseChance', 'backTackleSuccess',
+  'foulChance', 'sprintThroughChance', 'interceptRadius', 'saveRadius', 'saveSlipChance',
+  'damageReduction', 'tackleDamageReduction', 'tackleDamageTaken',
+  // Pitch and awareness
+  'enemySlipAura', 'enemySlipChance', 'slipZone', 'radarEnemies',
+  // Curse downsides
+  'shotAccuracy', 'shotWildChance', 'friction', 'teammateSpeed', 'tackleDelayAfterTeammate',
+  'passInterceptChance', 'speedWhenDefending', 'turnoverPenalty'
+]);
+
+// Stats the coded effects in createCallback buff, so validateUpgrades can check them too
+const CALLBACK_BUFF_STATS: Record<string, string[]> = {
+  homeHalfSpeed: ['speed'],
+  openSpaceSpeed: ['speed'],
+  closeRangeShotBoost: ['shotPower'],
+  timedPassBonus: ['passSpeed'],
+  ownHalfPassPower: ['passSpeed'],
+  poacherSpeed: ['speed'],
+  teammateBuff: ['all'],
+  dPoacherSpeed: ['speed'],
+  keeperNervesBurst: ['shotPower'],
+  reboundHunterProBurst: ['speed']
+};
+
+// Events RunScene subscribes to, so an emitEvent action has somewhere to go
+const HANDLED_EVENTS = new Set<string>([
+  'autoShot', 'spawnDecoy', 'fakeShot', 'confuseNearby', 'teammatesPress'
+]);
+
+/** One field at a time, so the key keeps its value's type */
+function copyContextField<K extends keyof UpgradeContext>(from: UpgradeContext, to: Partial<UpgradeContext>, key: K): void {
+  to[key] = from[key];
+}
+
+const HOOK_TO_EVENT: Record<string, string> = {
+  'onShot': 'shot',
+  'onPass': 'pass',
+  'onPassComplete': 'passComplete',
+  'onRebound': 'rebound',
+  'onTackle': 'tackle',
+  'onSteal': 'steal',
+  'onReceive': 'receive',
+  'onGoal': 'goal',
+  'onDodge': 'dodge',
+  'onTick': 'tick',
+  'onMomentStart': 'momentStart',
+  'onMomentEnd': 'momentEnd',
+  'passive': 'tick'  // Passive effects run on tick
+};
+
 // Legacy types for BuildScreenOverlay compatibility
 export interface SynergyStatus {
   synergy: SynergySet;
@@ -53,7 +133,7 @@ export interface ActiveBuff {
   stat: string;
   value: number;
   expiresAt: number;
-  source: 'upgrade' | 'synergy' | 'play' | 'giveAndGo' | 'curse';
+  source: 'upgrade' | 'synergy' | 'play' | 'giveAndGo' | 'curse' | 'character';
 }
 
 export interface ProcRecord {
@@ -66,6 +146,8 @@ export interface EventStats {
   tick: number;
   shot: number;
   pass: number;
+  passComplete: number;
+  rebound: number;
   tackle: number;
   steal: number;
   receive: number;
@@ -94,6 +176,10 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
   // Temporary buffs
   private activeBuffs: ActiveBuff[] = [];
   
+  // Character limits: absolute stat caps and minimum modifier percent per stat
+  private statCaps: Map<string, number> = new Map();
+  private modifierFloors: Map<string, number> = new Map();
+  
   // Synergies
   private synergyCounts: Map<SynergySet, number> = new Map();
   private activeSynergyTiers: Map<SynergySet, number> = new Map();
@@ -104,9 +190,9 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
   private readonly MAX_RECENT_PROCS = 10;
   
   // Debug: event counters (reset each second)
-  private eventStats: EventStats = { tick: 0, shot: 0, pass: 0, tackle: 0, steal: 0, receive: 0, goal: 0, dodge: 0, momentStart: 0, momentEnd: 0 };
+  private eventStats: EventStats = { tick: 0, shot: 0, pass: 0, passComplete: 0, rebound: 0, tackle: 0, steal: 0, receive: 0, goal: 0, dodge: 0, momentStart: 0, momentEnd: 0 };
   private lastEventStatsReset: number = 0;
-  private eventStatsPerSecond: EventStats = { tick: 0, shot: 0, pass: 0, tackle: 0, steal: 0, receive: 0, goal: 0, dodge: 0, momentStart: 0, momentEnd: 0 };
+  private eventStatsPerSecond: EventStats = { tick: 0, shot: 0, pass: 0, passComplete: 0, rebound: 0, tackle: 0, steal: 0, receive: 0, goal: 0, dodge: 0, momentStart: 0, momentEnd: 0 };
   
   // Internal cooldowns for upgrades that need them
   private upgradeCooldowns: Map<string, number> = new Map();
@@ -114,9 +200,15 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
   // Stacks for stackable effects
   private stacks: Map<string, number> = new Map();
   
+  // Computed context from the most recent tick
+  private lastTickState: Partial<UpgradeContext> = {};
+  
   // One-time effects tracker
   private oneTimeUsed: Set<string> = new Set();
   
+  // Proc rolls - RunScene swaps in the run's seeded stream
+  private randomSource: RandomSource = Math.random;
+  
   // Give-and-Go tracking
   private lastPassTime: number = 0;
   private lastPassTarget: any = null;
@@ -133,8 +225,12 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
     console.log('[UPGRADE_SYSTEM] Initialized');
   }
   
+  setRandomSource(random: RandomSource): void {
+    this.randomSource = random;
+  }
+  
   private initializeHooks(): void {
-    const eventNames = ['tick', 'shot', 'pass', 'tackle', 'steal', 'receive', 'goal', 'dodge', 'momentStart', 'momentEnd'];
+    const eventNames = ['tick', 'shot', 'pass', 'passComplete', 'rebound', 'tackle', 'steal', 'receive', 'goal', 'dodge', 'momentStart', 'momentEnd'];
     eventNames.forEach(name => this.hooks.set(name, []));
   }
   
@@ -182,43 +278,50 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
   }
   
   private registerUpgradeHooks(upgrade: Upgrade): void {
-    // Map hooks to event names
-    const hookToEvent: Record<string, string> = {
-      'onShot': 'shot',
-      'onPass': 'pass',
-      'onTackle': 'tackle',
-      'onSteal': 'steal',
-      'onReceive': 'receive',
-      'onGoal': 'goal',
-      'onDodge': 'dodge',
-      'onTick': 'tick',
-      'onMomentStart': 'momentStart',
-      'onMomentEnd': 'momentEnd',
-      'passive': 'tick'  // Passive effects run on tick
-    };
+    // Declarative effects name their own trigger
+    if (upgrade.effects) {
+      upgrade.effects.forEach((effect, index) => {
+        this.registerHook(effect.trigger, upgrade, this.createEffectCallback(upgrade, effect, index));
+      });
+      return;
+    }
+    
+    // Modifier-only passives have nothing to run
+    const callback = this.createCallback(upgrade);
+    if (!callback) return;
     
     upgrade.hooks.forEach(hook => {
-      const eventName = hookToEvent[hook];
+      const eventName = HOOK_TO_EVENT[hook];
       if (!eventName) return;
-      
-      const callback = this.createCallback(upgrade);
-      const hookArray = this.hooks.get(eventName);
-      if (hookArray) {
-        hookArray.push({
-          upgradeId: upgrade.id,
-          upgradeName: upgrade.name,
-          callback
-        });
-        console.log(`[UPGRADE_PICK] Registered hook: ${upgrade.id} -> ${eventName}`);
-      }
+      this.registerHook(eventName, upgrade, callback);
     });
   }
   
+  private registerHook(eventName: string, upgrade: Upgrade, callback: (ctx: UpgradeContext) => void): void {
+    const hookArray = this.hooks.get(eventName);
+    if (hookArray) {
+      hookArray.push({
+        upgradeId: upgrade.id,
+        upgradeName: upgrade.name,
+        callback
+      });
+      console.log(`[UPGRADE_PICK] Registered hook: ${upgrade.id} -> ${eventName}`);
+    }
+  }
+  
   // ========================================
   // EVENT EMISSION - THE CORE
   // ========================================
   
   emitEvent(eventName: string, context: UpgradeContext): void {
+    // Only the tick carries computed state; give other events the latest copy
+    if (eventName === 'tick') {
+      this.lastTickState = {};
+      TICK_STATE_KEYS.forEach(key => copyContextField(context, this.lastTickState, key));
+    } else {
+      context = { ...this.lastTickState, ...context };
+    }
+    
     // Track event stats
     if (eventName in this.eventStats) {
       (this.eventStats as any)[eventName]++;
@@ -228,7 +331,7 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
     const now = context.time || this.scene.time.now;
     if (now - this.lastEventStatsReset >= 1000) {
       this.eventStatsPerSecond = { ...this.eventStats };
-      this.eventStats = { tick: 0, shot: 0, pass: 0, tackle: 0, steal: 0, receive: 0, goal: 0, dodge: 0, momentStart: 0, momentEnd: 0 };
+      this.eventStats = { tick: 0, shot: 0, pass: 0, passComplete: 0, rebound: 0, tackle: 0, steal: 0, receive: 0, goal: 0, dodge: 0, momentStart: 0, momentEnd: 0 };
       this.lastEventStatsReset = now;
     }
     
@@ -269,52 +372,16 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
   // CALLBACK FACTORY - REAL IMPLEMENTATIONS
   // ========================================
   
-  private createCallback(upgrade: Upgrade): (ctx: UpgradeContext) => void {
+  /**
+   * Coded effects for upgrades that need more than UpgradeEffect data can express.
+   * Returns undefined when the effectId has no implementation.
+   */
+  private createCallback(upgrade: Upgrade): ((ctx: UpgradeContext) => void) | undefined {
     const effectId = upgrade.effectId;
     const upgradeId = upgrade.id;
     
     // Return the appropriate callback based on effectId
     switch (effectId) {
-      // === STAT BOOSTS (passive - handled by modifiers, but log proc) ===
-      case 'speedBoost10':
-      case 'shotPowerBoost15':
-      case 'controlBoost15':
-      case 'tackleBoost15':
-      case 'passBoost15':
-      case 'staminaBoost20':
-      case 'dodgeBoost10':
-      case 'reducedCooldowns':
-      case 'goldenBoost':
-        return () => {}; // Already applied via modifiers
-      
-      // === AUTO HIT IN D (THE KEY UPGRADE) ===
-      case 'autoHitInD':
-        return (ctx) => {
-          if (!ctx.playerHasBall || !ctx.playerInAttackingD || !ctx.playerCanShoot) return;
-          
-          // Check cooldown
-          const cooldownKey = `autoHitInD_cooldown`;
-          const lastProc = this.upgradeCooldowns.get(cooldownKey) || 0;
-          const now = ctx.time || this.scene.time.now;
-          if (now - lastProc < 700) return; // 700ms cooldown
-          
-          this.upgradeCooldowns.set(cooldownKey, now);
-          
-          // TRIGGER THE SHOT
-          console.log('[AUTO_HIT_IN_D] Triggering auto-shot!');
-          this.emit('autoShot', { source: 'autoHitInD' });
-          this.procUpgrade(upgradeId, 'Auto Hit in D', 1);
-        };
-      
-      // === CIRCLE SPECIALIST (shot power in D) ===
-      case 'circleShotBoost':
-        return (ctx) => {
-          if (ctx.playerInAttackingD) {
-            this.addTempBuff('circleShotBoost', 'shotPower', 30, 500, 'upgrade');
-            this.procUpgrade(upgradeId, upgrade.name, 0.8);
-          }
-        };
-      
       // === SPEED EFFECTS ===
       case 'homeHalfSpeed':
         return (ctx) => {
@@ -331,19 +398,6 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
           }
         };
       
-      case 'pressSpeed':
-        return (ctx) => {
-          if (ctx.player && !ctx.playerHasBall) {
-            this.addTempBuff('pressSpeed', 'speed', 5, 200, 'upgrade');
-          }
-        };
-      
-      case 'dodgeSpeedBurst':
-        return (ctx) => {
-          this.addTempBuff('dodgeSpeedBurst', 'speed', 15, 2000, 'upgrade');
-          this.procUpgrade(upgradeId, upgrade.name, 1);
-        };
-      
       // === BALL MAGNET ===
       case 'ballMagnet':
       case 'strongBallMagnet':
@@ -359,35 +413,13 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
         };
       
       // === SHOT EFFECTS ===
-      case 'reboundShotPower':
-        return (ctx) => {
-          this.addTempBuff('reboundShotPower', 'shotPower', 20, 500, 'upgrade');
-          this.procUpgrade(upgradeId, upgrade.name, 0.8);
-        };
-      
-      case 'stationaryShotBoost':
-        return (ctx) => {
-          if (ctx.playerIsStationary) {
-            this.addTempBuff('stationaryShotBoost', 'shotPower', 50, 500, 'upgrade');
-            this.procUpgrade(upgradeId, upgrade.name, 1);
-          }
-        };
-      
-      case 'enemyDShotPower':
-        return (ctx) => {
-          if (ctx.playerInAttackingD) {
-            this.addTempBuff('enemyDShotPower', 'shotPower', 20, 500, 'upgrade');
-            this.procUpgrade(upgradeId, upgrade.name, 0.8);
-          }
-        };
-      
       case 'closeRangeShotBoost':
         return (ctx) => {
           // Close range = within 150px of goal
           const goalX = ctx.player.x > 600 ? 1200 : 0;
           const distToGoal = Math.abs(ctx.player.x - goalX);
           if (distToGoal < 200) {
-            this.addTempBuff('closeRangeShotBoost', 'shotSpeed', 30, 500, 'upgrade');
+            this.addTempBuff('closeRangeShotBoost', 'shotPower', 30, 500, 'upgrade');
             this.procUpgrade(upgradeId, upgrade.name, 1);
           }
         };
@@ -398,73 +430,6 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
           this.procUpgrade(upgradeId, upgrade.name, 0.8);
         };
       
-      // === PASS EFFECTS ===
-      case 'fastPass':
-        return (ctx) => {
-          this.addTempBuff('fastPass', 'passSpeed', 30, 500, 'upgrade');
-          this.procUpgrade(upgradeId, upgrade.name, 0.6);
-        };
-      
-      case 'trianglePassBoost':
-        return (ctx) => {
-          this.addTempBuff('trianglePassBoost', 'passPower', 25, 500, 'upgrade');
-          this.procUpgrade(upgradeId, upgrade.name, 0.8);
-        };
-      
-      // === TACKLE/STEAL EFFECTS ===
-      case 'tackleStaminaRestore':
-        return (ctx) => {
-          ctx.player?.restoreStamina?.(20);
-          this.procUpgrade(upgradeId, upgrade.name, 1);
-        };
-      
-      case 'tackleReset':
-        return (ctx) => {
-          this.emit('cooldownReset', 'tackle');
-          this.procUpgrade(upgradeId, upgrade.name, 1);
-        };
-      
-      case 'stealDodgeReset':
-        return (ctx) => {
-          this.emit('cooldownReset', 'dodge');
-          this.procUpgrade(upgradeId, upgrade.name, 1);
-        };
-      
-      case 'tackleSpeed':
-        return (ctx) => {
-          this.addTempBuff('tackleSpeed', 'speed', 20, 2000, 'upgrade');
-          this.procUpgrade(upgradeId, upgrade.name, 1);
-        };
-      
-      // === RECEIVE EFFECTS ===
-      case 'receiveControl':
-        return (ctx) => {
-          this.addTempBuff('receiveControl', 'control', 20, 1000, 'upgrade');
-          this.procUpgrade(upgradeId, upgrade.name, 0.8);
-        };
-      
-      case 'receiveAccel':
-        return (ctx) => {
-          this.addTempBuff('receiveAccel', 'speed', 50, 1000, 'upgrade');
-          this.procUpgrade(upgradeId, upgrade.name, 1);
-        };
-      
-      // === GOAL EFFECTS ===
-      case 'goalSpeedStack':
-        return (ctx) => {
-          const stacks = Math.min((this.stacks.get('goalSpeed') || 0) + 1, 3);
-          this.stacks.set('goalSpeed', stacks);
-          this.addTempBuff('goalSpeedStack', 'speed', 5 * stacks, 60000, 'upgrade');
-          this.procUpgrade(upgradeId, upgrade.name, 1);
-        };
-      
-      case 'goalFullRestore':
-        return (ctx) => {
-          ctx.player?.restoreStamina?.(100);
-          this.emit('allCooldownsReset');
-          this.procUpgrade(upgradeId, upgrade.name, 1);
-        };
-      
       // === DODGE EFFECTS ===
       case 'slowMo':
         return (ctx) => {
@@ -479,51 +444,36 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
           this.procUpgrade(upgradeId, upgrade.name, 1);
         };
       
-      // === MOMENT EFFECTS ===
-      case 'warmUpBuff':
-        return (ctx) => {
-          if (ctx.momentTimeRemaining && ctx.momentTimeRemaining > 50) {
-            this.addTempBuff('warmUpBuff', 'all', 10, 200, 'upgrade');
-          }
-        };
-      
-      case 'coolDownBuff':
-        return (ctx) => {
-          if (ctx.momentTimeRemaining && ctx.momentTimeRemaining < 10) {
-            this.addTempBuff('coolDownBuff', 'all', 10, 200, 'upgrade');
-          }
-        };
-      
-      case 'finalSecondsBoost':
-        return (ctx) => {
-          if (ctx.momentTimeRemaining && ctx.momentTimeRemaining < 15) {
-            this.addTempBuff('finalSecondsBoost', 'all', 30, 200, 'upgrade');
-          }
-        };
-      
-      case 'losingBuff':
+      // === PASS EFFECTS ===
+      // 'pass' fires before the pass speed is read, so short passSpeed buffs land on this pass
+      case 'timedPassBonus':
         return (ctx) => {
-          if (ctx.isLosing) {
-            this.addTempBuff('losingBuff', 'all', 30, 200, 'upgrade');
+          // lastPassTime still holds the previous pass here (Give-and-Go tracking runs after hooks)
+          const gap = (ctx.time || this.scene.time.now) - this.lastPassTime;
+          if (Math.abs(gap - TUNING.METRONOME_BEAT_MS) <= TUNING.METRONOME_WINDOW_MS) {
+            this.addTempBuff('metronome', 'passSpeed', 50, 100, 'upgrade');
+            this.procUpgrade(upgradeId, upgrade.name, 1);
           }
         };
       
-      case 'avatarMode':
+      case 'ownHalfPassPower':
         return (ctx) => {
-          if (ctx.isLosing) {
-            this.addTempBuff('avatarMode', 'all', 100, 200, 'upgrade');
+          // World bounds are the pitch; the player's half is the left one
+          if (ctx.player && ctx.player.x < this.scene.physics.world.bounds.centerX) {
+            this.addTempBuff('clearancePower', 'passSpeed', 50, 100, 'upgrade');
             this.procUpgrade(upgradeId, upgrade.name, 0.5);
           }
         };
       
-      // === D-CIRCLE EFFECTS ===
-      case 'dCircleRush':
+      case 'autoTriangle':
         return (ctx) => {
-          if (ctx.playerInDefendingD) {
-            this.addTempBuff('dCircleRush', 'speed', 80, 200, 'upgrade');
+          if (this.hasPassingTriangle(ctx)) {
+            ctx.ball?.applyPassEffect?.('homing');
+            this.procUpgrade(upgradeId, upgrade.name, 0.8);
           }
         };
       
+      // === D-CIRCLE EFFECTS ===
       case 'poacherSpeed':
         return (ctx) => {
           if (ctx.ball && ctx.ball.isLoose && ctx.playerInAttackingD) {
@@ -531,19 +481,6 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
           }
         };
       
-      // === AUTO-BLOCK ===
-      case 'autoBlock':
-        return (ctx) => {
-          if (!this.oneTimeUsed.has('autoBlock')) {
-            // Logic would be triggered by goal threat detection
-          }
-        };
-      
-      case 'autoBlockShot':
-        return (ctx) => {
-          // Similar to autoBlock but different trigger
-        };
-      
       // === TEAMMATE EFFECTS ===
       case 'teammateBuff':
         return (ctx) => {
@@ -553,26 +490,8 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
           }
         };
       
-      case 'teamPress':
-        return (ctx) => {
-          if (!ctx.playerHasBall) {
-            this.emit('teammatesPress');
-          }
-        };
-      
       // ========== NEW UPGRADES (PART E - CRITICAL FIX PACK) ==========
       
-      // 1) slap_shot_boost - handled via modifiers (passive)
-      case 'slapShotBoost':
-        return () => {};
-      
-      // 2) quick_release - shooting reduces next shoot cooldown
-      case 'quickReleaseBuff':
-        return (ctx) => {
-          this.addTempBuff('quickRelease', 'shootCooldown', -25, 2000, 'upgrade');
-          this.procUpgrade(upgradeId, upgrade.name, 1);
-        };
-      
       // 3) curve_drive - shots curve more
       case 'curveDriveShot':
         return (ctx) => {
@@ -580,16 +499,6 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
           this.procUpgrade(upgradeId, upgrade.name, 0.9);
         };
       
-      // 4) one_touch_finish - receive in D gives shot buff
-      case 'oneTouchFinishBuff':
-        return (ctx) => {
-          // Check if this is a receive event in the D
-          if (ctx.playerInAttackingD) {
-            this.addTempBuff('oneTouchFinish', 'shotPower', 20, 1200, 'upgrade');
-            this.procUpgrade(upgradeId, upgrade.name, 1);
-          }
-        };
-      
       // 5) d_poacher - +10% speed in D with ball
       case 'dPoacherSpeed':
         return (ctx) => {
@@ -599,33 +508,6 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
           }
         };
       
-      // 6) laser_passes - handled via modifiers (passive)
-      case 'laserPasses':
-        return () => {};
-      
-      // 7) give_go_master - extended give-and-go window
-      case 'giveGoMasterBuff':
-        return (ctx) => {
-          // Extend G&G window when passing
-          this.addTempBuff('giveGoWindow', 'giveGoWindow', 50, 3000, 'upgrade');
-          this.procUpgrade(upgradeId, upgrade.name, 0.6);
-        };
-      
-      // 8) magnetic_first_touch - control buff + magnet on receive
-      case 'magneticFirstTouch':
-        return (ctx) => {
-          this.addTempBuff('magneticFirstTouch', 'control', 30, 2000, 'upgrade');
-          this.procUpgrade(upgradeId, upgrade.name, 1);
-        };
-      
-      // 9) interception_gloves - handled via modifiers (passive)
-      case 'interceptionGloves':
-        return () => {};
-      
-      // 10) crunch_tackle - handled via modifiers (passive)
-      case 'crunchTackle':
-        return () => {};
-      
       // 11) stun_stick - extra stun on tackle
       case 'stunStickExtra':
         return (ctx) => {
@@ -633,43 +515,11 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
           this.procUpgrade(upgradeId, upgrade.name, 1);
         };
       
-      // 12) second_wind_moment - restore stamina at moment start
-      case 'secondWindMoment':
-        return (ctx) => {
-          ctx.player?.restoreStamina?.(100);
-          this.procUpgrade(upgradeId, upgrade.name, 1);
-        };
-      
-      // 13) efficient_dash - handled via modifiers (passive)
-      case 'efficientDash':
-        return () => {};
-      
-      // 14) adrenaline_advantage - super advantage on steal
-      case 'adrenalineAdvantageBuff':
-        return (ctx) => {
-          this.addTempBuff('adrenalineSpeed', 'speed', 20, 3000, 'upgrade');
-          this.addTempBuff('adrenalinePass', 'passPower', 20, 3000, 'upgrade');
-          this.addTempBuff('adrenalineShot', 'shotPower', 20, 3000, 'upgrade');
-          this.procUpgrade(upgradeId, upgrade.name, 1);
-        };
-      
-      // 15) pc_drag_flick - PC shots +35% power
-      case 'pcDragFlickPower':
-        return (ctx) => {
-          // Check if in PC mode (would need additional context)
-          this.addTempBuff('pcDragFlick', 'shotPower', 35, 500, 'upgrade');
-          this.procUpgrade(upgradeId, upgrade.name, 1);
-        };
-      
-      // 16) pc_injector - handled via modifiers (passive)
-      case 'pcInjectorBuff':
-        return () => {};
-      
-      // 17) keeper_nerves - shot speed burst in D
+      // 17) keeper_nerves - shot power burst in D
       case 'keeperNervesBurst':
         return (ctx) => {
           if (ctx.playerInAttackingD) {
-            this.addTempBuff('keeperNerves', 'shotSpeed', 8, 300, 'upgrade');
+            this.addTempBuff('keeperNerves', 'shotPower', 8, 300, 'upgrade');
             this.procUpgrade(upgradeId, upgrade.name, 1);
           }
         };
@@ -683,18 +533,178 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
           }
         };
       
-      // 19) iron_body - handled via modifiers (passive)
-      case 'ironBody':
-        return () => {};
-      
-      // 20) fragile_genius - handled via modifiers (passive)
-      case 'fragileGenius':
-        return () => {};
-      
       // === DEFAULT ===
       default:
-        return () => {};
+        return undefined;
+    }
+  }
+  
+  // ========================================
+  // DECLARATIVE EFFECTS
+  // ========================================
+  
+  private createEffectCallback(upgrade: Upgrade, effect: UpgradeEffect, index: number): (ctx: UpgradeContext) => void {
+    const cooldownKey = `${upgrade.id}_effect${index}`;
+    
+    return (ctx) => {
+      if (effect.conditions && !effect.conditions.every(condition => this.checkCondition(condition, ctx))) return;
+      
+      const now = ctx.time || this.scene.time.now;
+      if (effect.cooldownMs) {
+        const lastFired = this.upgradeCooldowns.get(cooldownKey);
+        if (lastFired !== undefined && now - lastFired < effect.cooldownMs) return;
+      }
+      
+      if (effect.chance !== undefined && this.randomSource() >= effect.chance) return;
+      
+      if (effect.cooldownMs) {
+        this.upgradeCooldowns.set(cooldownKey, now);
+      }
+      
+      effect.actions.forEach(action => this.runEffectAction(upgrade, action, ctx));
+      
+      const intensity = effect.procIntensity ?? 1;
+      if (intensity > 0) {
+        this.procUpgrade(upgrade.id, upgrade.name, intensity);
+      }
+    };
+  }
+  
+  private checkCondition(condition: EffectCondition, ctx: UpgradeContext): boolean {
+    if ('flag' in condition) {
+      return !!ctx[condition.flag] === (condition.is ?? true);
     }
+    
+    const value = ctx[condition.value];
+    if (value === undefined) return false;
+    if (condition.below !== undefined && value >= condition.below) return false;
+    if (condition.above !== undefined && value <= condition.above) return false;
+    return true;
+  }
+  
+  private runEffectAction(upgrade: Upgrade, action: EffectAction, ctx: UpgradeContext): void {
+    switch (action.type) {
+      case 'tempBuff':
+        this.addTempBuff(`${upgrade.id}_${action.stat}`, action.stat, action.value, action.durationMs, 'upgrade');
+        break;
+      
+      case 'statStack': {
+        const buffId = `${upgrade.id}_${action.stat}`;
+        // Stacks fall off together once the buff lapses
+        if (!this.hasActiveBuff(buffId)) {
+          this.removeBuff(buffId);
+          this.stacks.set(buffId, 0);
+        }
+        const stacks = Math.min((this.stacks.get(buffId) || 0) + 1, action.maxStacks);
+        this.stacks.set(buffId, stacks);
+        this.addTempBuff(buffId, action.stat, action.valuePerStack * stacks, action.durationMs, 'upgrade');
+        break;
+      }
+      
+      case 'emitEvent':
+        this.emit(action.event, action.payload);
+        break;
+      
+      case 'resetCooldown':
+        if (action.cooldown === 'all') {
+          this.emit('allCooldownsReset');
+        } else {
+          this.emit('cooldownReset', action.cooldown);
+        }
+        break;
+      
+      case 'restoreStamina':
+        ctx.player?.restoreStamina?.(action.amount);
+        break;
+      
+      case 'passEffect':
+        ctx.ball?.applyPassEffect?.(action.effect);
+        break;
+    }
+  }
+  
+  // ========================================
+  // VALIDATION
+  // ========================================
+  
+  /**
+   * Find upgrades that would do nothing when picked: declarative effects with bad
+   * data, stats no code reads, or an effectId with neither a coded callback nor
+   * stat modifiers.
+   * Returns one message per problem (empty = all resolved).
+   */
+  validateUpgrades(upgrades: Upgrade[] = UPGRADES): string[] {
+    const issues: string[] = [];
+    
+    upgrades.forEach(upgrade => {
+      // Every stat an upgrade touches needs code that reads it
+      const stats = [...upgrade.modifiers.map(mod => mod.stat), ...(CALLBACK_BUFF_STATS[upgrade.effectId] ?? [])];
+      upgrade.effects?.forEach(effect => effect.actions.forEach(action => {
+        if (action.type === 'tempBuff' || action.type === 'statStack') stats.push(action.stat);
+      }));
+      stats.filter(stat => !READ_STATS.has(stat)).forEach(stat => {
+        issues.push(`${upgrade.id}: nothing reads stat '${stat}'`);
+      });
+      
+      if (upgrade.effects) {
+        if (upgrade.effects.length === 0) {
+          issues.push(`${upgrade.id}: effects list is empty`);
+        }
+        upgrade.effects.forEach((effect, index) => {
+          this.validateEffect(effect).forEach(problem => issues.push(`${upgrade.id} effect ${index}: ${problem}`));
+        });
+        return;
+      }
+      
+      if (upgrade.modifiers.length === 0 && !this.createCallback(upgrade)) {
+        issues.push(`${upgrade.id}: effectId '${upgrade.effectId}' has no implementation`);
+      }
+    });
+    
+    return issues;
+  }
+  
+  /**
+   * Same stat check for comeback curses, whose modifiers go through addModifier.
+   * Returns one message per stat nothing reads (empty = all resolved).
+   */
+  validateCurses(curses: CurseDefinition[] = CURSES): string[] {
+    return curses.flatMap(curse => (curse.modifiers || [])
+      .filter(mod => !READ_STATS.has(mod.stat))
+      .map(mod => `${curse.id}: nothing reads stat '${mod.stat}'`));
+  }
+  
+  private validateEffect(effect: UpgradeEffect): string[] {
+    const problems: string[] = [];
+    
+    if (!this.hooks.has(effect.trigger)) {
+      problems.push(`unknown trigger '${effect.trigger}'`);
+    }
+    if (effect.actions.length === 0) {
+      problems.push('no actions');
+    }
+    if (effect.chance !== undefined && (effect.chance <= 0 || effect.chance > 1)) {
+      problems.push(`chance ${effect.chance} outside (0, 1]`);
+    }
+    if (effect.cooldownMs !== undefined && effect.cooldownMs <= 0) {
+      problems.push(`cooldownMs ${effect.cooldownMs} must be positive`);
+    }
+    
+    effect.actions.forEach(action => {
+      if ((action.type === 'tempBuff' || action.type === 'statStack') && action.durationMs <= 0) {
+        problems.push(`${action.type} on ${action.stat} has no duration`);
+      }
+      if (action.type === 'statStack' && action.maxStacks < 1) {
+        problems.push(`statStack on ${action.stat} needs maxStacks >= 1`);
+      }
+      if (action.type === 'emitEvent' && !action.event) {
+        problems.push('emitEvent has no event name');
+      } else if (action.type === 'emitEvent' && !HANDLED_EVENTS.has(action.event)) {
+        problems.push(`nothing listens for event '${action.event}'`);
+      }
+    });
+    
+    return problems;
   }
   
   // ========================================
@@ -747,23 +757,65 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
     return this.activeBuffs;
   }
   
+  removeBuff(id: string): void {
+    this.activeBuffs = this.activeBuffs.filter(b => b.id !== id);
+  }
+  
+  hasActiveBuff(id: string): boolean {
+    const now = this.scene.time.now;
+    return this.activeBuffs.some(b => b.id === id && b.expiresAt > now);
+  }
+  
   // ========================================
   // STAT CALCULATION
   // ========================================
   
   getModifiedStat(baseStat: number, statName: string): number {
-    let modifier = this.statModifiers.get(statName) || 0;
-    modifier += this.statModifiers.get('all') || 0;
+    let modifier = this.getStatBonus(statName) + this.getStatBonus('all');
+    
+    const floor = this.modifierFloors.get(statName);
+    if (floor !== undefined) {
+      modifier = Math.max(modifier, floor);
+    }
+    
+    const result = baseStat * (1 + modifier / 100);
+    const cap = this.statCaps.get(statName);
+    return cap !== undefined ? Math.min(result, cap) : result;
+  }
+  
+  /**
+   * Raw summed value for one stat key (permanent + temp buffs, no 'all').
+   * Used for stats that are chances, flags or counts rather than percent scalars.
+   */
+  getStatBonus(statName: string): number {
+    let bonus = this.statModifiers.get(statName) || 0;
     
-    // Add temp buffs
     const now = this.scene.time.now;
     for (const buff of this.activeBuffs) {
-      if (buff.expiresAt > now && (buff.stat === statName || buff.stat === 'all')) {
-        modifier += buff.value;
+      if (buff.expiresAt > now && buff.stat === statName) {
+        bonus += buff.value;
       }
     }
     
-    return baseStat * (1 + modifier / 100);
+    return bonus;
+  }
+  
+  /**
+   * Scale a base value by one effect stat only (stun length, dash cost, reach...).
+   * Unlike getModifiedStat, blanket 'all' bonuses don't leak into these.
+   */
+  getEffectValue(baseValue: number, statName: string): number {
+    return baseValue * (1 + this.getStatBonus(statName) / 100);
+  }
+  
+  /** Clamp the final value of a stat (e.g. "No stat can exceed 8") */
+  setStatCap(statName: string, max: number): void {
+    this.statCaps.set(statName, max);
+  }
+  
+  /** Ignore modifiers below this percent for a stat (e.g. no speed penalties) */
+  setModifierFloor(statName: string, minPercent: number): void {
+    this.modifierFloors.set(statName, minPercent);
   }
   
   getAllModifiers(): Record<string, number> {
@@ -810,12 +862,14 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
     const bonuses: Record<string, { tier1: Record<string, number>; tier2: Record<string, number> }> = {
       press: { tier1: { tackle: 20, speed: 10 }, tier2: { tackle: 40, speed: 20 } },
       trianglePassing: { tier1: { passPower: 25, control: 15 }, tier2: { passPower: 50, control: 30 } },
+      possession: { tier1: { passSpeed: 15, control: 15 }, tier2: { passSpeed: 30, control: 30 } },
       dragFlick: { tier1: { shotPower: 25 }, tier2: { shotPower: 50 } },
       rebound: { tier1: { speed: 20 }, tier2: { speed: 40, shotPower: 20 } },
-      trickster: { tier1: { dodge: 20, control: 15 }, tier2: { dodge: 40, control: 30 } },
+      trickster: { tier1: { dodge: 20, control: 15, dodgeIframes: 30 }, tier2: { dodge: 40, control: 30, dodgeIframes: 60, dodgeCharges: 1 } },
       sweeper: { tier1: { tackle: 20 }, tier2: { tackle: 40, speed: 20 } },
       speedster: { tier1: { speed: 15 }, tier2: { speed: 30 } },
-      poacher: { tier1: { shotPower: 15 }, tier2: { shotPower: 30, speed: 15 } }
+      poacher: { tier1: { shotPower: 15 }, tier2: { shotPower: 30, speed: 15 } },
+      aerial: { tier1: { aerialContest: 15, volleyPower: 10 }, tier2: { aerialContest: 30, volleyPower: 25 } }
     };
     
     const synergyBonuses = bonuses[synergy];
@@ -866,14 +920,14 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
     const now = this.scene.time.now;
     const timeSincePass = now - this.lastPassTime;
     
-    if (timeSincePass < 3500 && this.lastPassTarget) {
+    if (timeSincePass < this.getEffectValue(TUNING.GIVE_AND_GO_WINDOW_MS, 'giveGoWindow') && this.lastPassTarget) {
       // Give-and-Go activated!
       let multiplier = 1;
       if ((this.activeSynergyTiers.get('trianglePassing') || 0) >= 2) {
         multiplier = 2;
       }
       
-      this.addTempBuff('giveAndGo', 'speed', 15 * multiplier, 2000, 'giveAndGo');
+      this.addTempBuff('giveAndGo', 'speed', this.getEffectValue(15, 'giveGoSpeed') * multiplier, 2000, 'giveAndGo');
       this.addTempBuff('giveAndGoControl', 'control', 20 * multiplier, 2000, 'giveAndGo');
       this.addTempBuff('giveAndGoShot', 'shotPower', 15 * multiplier, 2000, 'giveAndGo');
       
@@ -923,6 +977,23 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
     return true;
   }
   
+  /** Player and two teammates all within passing range of each other */
+  private hasPassingTriangle(ctx: UpgradeContext): boolean {
+    const maxSide = TUNING.PASS_TRIANGLE_MAX_SIDE;
+    const teammates: any[] = (ctx.scene.registry.get('teammates') || []).filter((t: any) =>
+      Phaser.Math.Distance.Between(ctx.player.x, ctx.player.y, t.x, t.y) <= maxSide
+    );
+    
+    for (let i = 0; i < teammates.length; i++) {
+      for (let j = i + 1; j < teammates.length; j++) {
+        if (Phaser.Math.Distance.Between(teammates[i].x, teammates[i].y, teammates[j].x, teammates[j].y) <= maxSide) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+  
   private countNearbyTeammates(ctx: UpgradeContext): number {
     const teammates = ctx.scene.registry.get('teammates') || [];
     let count = 0;
@@ -1026,6 +1097,8 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
     this.hooks.forEach(arr => arr.length = 0);
     this.statModifiers.clear();
     this.activeBuffs = [];
+    this.statCaps.clear();
+    this.modifierFloors.clear();
     this.synergyCounts.clear();
     this.activeSynergyTiers.clear();
     this.procCounts.clear();
@@ -1033,6 +1106,7 @@ export class UpgradeSystem extends Phaser.Events.EventEmitter {
     this.upgradeCooldowns.clear();
     this.stacks.clear();
     this.oneTimeUsed.clear();
+    this.lastTickState = {};
     this.lastPassTime = 0;
     this.lastPassTarget = null;
     this.activePlay = null;
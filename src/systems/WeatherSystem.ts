@@ -0,0 +1,254 @@
+// WeatherSystem for Stick & Shift
+// Pitch conditions for the current moment: ball drag and wind, player grip and stamina, enemy slips
+
+import Phaser from 'phaser';
+import { MomentDefinition } from '../data/moments';
+import { WEATHER, WeatherDefinition, WeatherType } from '../data/weather';
+import { UpgradeSystem } from './UpgradeSystem';
+import { RandomSource } from './RandomSystem';
+import * as TUNING from '../data/tuning';
+
+// ========================================
+// TYPES
+// ========================================
+
+/** What the weather needs from each enemy */
+export interface WeatherEnemy {
+  x: number;
+  y: number;
+  isStunned: boolean;
+  isSlipped(): boolean;
+  applyDebuff(type: string, duration: number): void;
+}
+
+interface Streak {
+  x: number;
+  y: number;
+}
+
+const PITCH_TINTS: Partial<Record<WeatherType, { color: number; alpha: number }>> = {
+  rain: { color: 0x2c3e50, alpha: 0.12 },
+  ice: { color: 0xd6f0ff, alpha: 0.18 },
+  heat: { color: 0xe67e22, alpha: 0.08 }
+};
+
+// ========================================
+// WEATHER SYSTEM CLASS
+// ========================================
+
+/**
+ * Weather comes from the first moment modifier that names one; the Rain Game
+ * boss turns it up past what a normal moment gets. Ball and Player are handed
+ * plain multipliers, so neither needs to know the weather exists.
+ */
+export class WeatherSystem extends Phaser.Events.EventEmitter {
+  private scene: Phaser.Scene;
+  private upgradeSystem: UpgradeSystem;
+  private random: RandomSource;
+  
+  private weather: WeatherDefinition = WEATHER.clear;
+  private intensity: number = 1;
+  private windStrength: number = 0;
+  private windAngle: number = 0;
+  private elapsed: number = 0;
+  
+  // Visuals
+  private tint: Phaser.GameObjects.Graphics;
+  private precipitation: Phaser.GameObjects.Graphics;
+  private slipZone: Phaser.GameObjects.Graphics;
+  private streaks: Streak[] = [];
+  
+  constructor(scene: Phaser.Scene, upgradeSystem: UpgradeSystem, random: RandomSource = Math.random) {
+    super();
+    this.scene = scene;
+    this.upgradeSystem = upgradeSystem;
+    this.random = random;
+    
+    this.tint = scene.add.graphics().setDepth(3);
+    this.precipitation = scene.add.graphics().setDepth(50);
+    this.slipZone = scene.add.graphics().setDepth(4);
+  }
+  
+  // ========================================
+  // MOMENT SETUP
+  // ========================================
+  
+  startMoment(moment: MomentDefinition): void {
+    const type = moment.modifiers.find(mod => mod.weather)?.weather ?? 'clear';
+    const isRainGame = moment.bossType === 'rainGame';
+    
+    this.weather = WEATHER[type];
+    this.intensity = isRainGame ? TUNING.RAIN_GAME_INTENSITY : 1;
+    this.windStrength = this.weather.windStrength + (isRainGame ? TUNING.RAIN_GAME_WIND : 0);
+    this.windAngle = this.random() * Math.PI * 2;
+    this.elapsed = 0;
+    
+    this.streaks = [];
+    if (type === 'rain' || type === 'ice' || this.windStrength > 0) {
+      const { width, height } = this.getFieldSize();
+      const count = Math.round(TUNING.WEATHER_STREAK_COUNT * this.intensity);
+      for (let i = 0; i < count; i++) {
+        this.streaks.push({ x: this.random() * width, y: this.random() * height });
+      }
+    }
+    
+    this.drawTint();
+    console.log(`[WEATHER] ${this.weather.name} x${this.intensity} (wind ${Math.round(this.windStrength)})`);
+  }
+  
+  // ========================================
+  // QUERIES
+  // ========================================
+  
+  getWeather(): WeatherDefinition {
+    return this.weather;
+  }
+  
+  /** Anything but a clear day (Storm Chaser) */
+  isActive(): boolean {
+    return this.weather.id !== 'clear';
+  }
+  
+  /** Rain or ice underfoot (Ice Skater) */
+  isSlippery(): boolean {
+    return this.weather.slippery;
+  }
+  
+  /** Scales the rolling ball's per-frame speed loss */
+  getBallDragScale(): number {
+    return Math.max(0.1, this.scale(this.weather.ballDrag));
+  }
+  
+  /** Wind push on the loose ball (px/s²) */
+  getWind(): { x: number; y: number } {
+    return {
+      x: Math.cos(this.windAngle) * this.windStrength,
+      y: Math.sin(this.windAngle) * this.windStrength
+    };
+  }
+  
+  /** Player grip; Rain Dancer keeps full grip on wet turf */
+  getPlayerTraction(): number {
+    if (this.weather.id === 'rain' && this.upgradeSystem.getStatBonus('wetTurfImmune') > 0) {
+      return 1;
+    }
+    return Phaser.Math.Clamp(this.scale(this.weather.traction), 0.2, 1);
+  }
+  
+  getStaminaDrain(): number {
+    return Math.max(1, this.scale(this.weather.staminaDrain));
+  }
+  
+  /** Move a definition value away from 1 by the current intensity */
+  private scale(value: number): number {
+    return 1 + (value - 1) * this.intensity;
+  }
+  
+  private getFieldSize(): { width: number; height: number } {
+    const bounds = this.scene.physics.world.bounds;
+    return { width: bounds.width, height: bounds.height };
+  }
+  
+  // ========================================
+  // UPDATE
+  // ========================================
+  
+  update(delta: number, player: { x: number; y: number }, enemies: WeatherEnemy[]): void {
+    const dt = delta / 1000;
+    this.elapsed += dt;
+    
+    // Wind swings back and forth rather than turning in circles
+    if (this.windStrength > 0) {
+      this.windAngle += Math.sin(this.elapsed * 0.5) * TUNING.WEATHER_WIND_DRIFT * dt;
+    }
+    
+    this.rollEnemySlips(dt, player, enemies);
+    this.drawPrecipitation(dt);
+    this.drawSlipZone(player);
+  }
+  
+  /**
+   * Each enemy gets a per-second chance to lose its footing:
+   * the weather's own chance plus Ice Turf, raised near the player by Mud Runner,
+   * and a flat extra inside Weather Master's zone.
+   */
+  private rollEnemySlips(dt: number, player: { x: number; y: number }, enemies: WeatherEnemy[]): void {
+    const baseChance = this.weather.enemySlipChance * this.intensity + this.upgradeSystem.getStatBonus('enemySlipChance');
+    const auraBonus = this.upgradeSystem.getStatBonus('enemySlipAura');
+    const hasZone = this.upgradeSystem.getStatBonus('slipZone') > 0;
+    
+    enemies.forEach(enemy => {
+      if (enemy.isStunned || enemy.isSlipped()) return;
+      
+      const dist = Phaser.Math.Distance.Between(player.x, player.y, enemy.x, enemy.y);
+      let chance = baseChance;
+      if (auraBonus > 0 && dist < TUNING.SLIP_AURA_RADIUS) {
+        chance *= 1 + auraBonus / 100;
+      }
+      if (hasZone && dist < TUNING.SLIP_ZONE_RADIUS) {
+        chance += TUNING.SLIP_ZONE_CHANCE;
+      }
+      
+      if (chance > 0 && this.random() * 100 < chance * dt) {
+        enemy.applyDebuff('slip', TUNING.ENEMY_SLIP_MS);
+        this.emit('enemySlipped', enemy);
+      }
+    });
+  }
+  
+  // ========================================
+  // VISUALS
+  // ========================================
+  
+  private drawTint(): void {
+    this.tint.clear();
+    const tint = PITCH_TINTS[this.weather.id];
+    if (!tint) return;
+    
+    const { width, height } = this.getFieldSize();
+    this.tint.fillStyle(tint.color, Math.min(0.35, tint.alpha * this.intensity));
+    this.tint.fillRect(0, 0, width, height);
+  }
+  
+  private drawPrecipitation(dt: number): void {
+    this.precipitation.clear();
+    if (this.streaks.length === 0) return;
+    
+    const { width, height } = this.getFieldSize();
+    const wind = this.getWind();
+    const fall = this.weather.id === 'rain' ? TUNING.WEATHER_RAIN_FALL_SPEED : TUNING.WEATHER_RAIN_FALL_SPEED * 0.25;
+    const vx = wind.x * 2;
+    const vy = fall + wind.y * 2;
+    const len = Math.max(1, Math.sqrt(vx * vx + vy * vy));
+    const streakLength = this.weather.id === 'rain' ? 14 : 4;
+    
+    this.precipitation.lineStyle(1, this.weather.id === 'ice' ? 0xffffff : 0xaed6f1, 0.5);
+    this.streaks.forEach(streak => {
+      streak.x = Phaser.Math.Wrap(streak.x + vx * dt, 0, width);
+      streak.y = Phaser.Math.Wrap(streak.y + vy * dt, 0, height);
+      this.precipitation.lineBetween(
+        streak.x,
+        streak.y,
+        streak.x - (vx / len) * streakLength,
+        streak.y - (vy / len) * streakLength
+      );
+    });
+  }
+  
+  private drawSlipZone(player: { x: number; y: number }): void {
+    this.slipZone.clear();
+    if (this.upgradeSystem.getStatBonus('slipZone') <= 0) return;
+    
+    this.slipZone.fillStyle(0x81ecec, 0.12);
+    this.slipZone.fillCircle(player.x, player.y, TUNING.SLIP_ZONE_RADIUS);
+    this.slipZone.lineStyle(1, 0x81ecec, 0.4);
+    this.slipZone.strokeCircle(player.x, player.y, TUNING.SLIP_ZONE_RADIUS);
+  }
+  
+  destroy(): void {
+    this.removeAllListeners();
+    this.tint.destroy();
+    this.precipitation.destroy();
+    this.slipZone.destroy();
+  }
+}
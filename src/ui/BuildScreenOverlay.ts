@@ -16,6 +16,8 @@ interface BuildScreenConfig {
   currentMoment: number;
   objectiveText: string;
   activeCurse?: { name: string; boonDescription: string; curseDescription: string } | null;
+  traitActive?: boolean;
+  downsideActive?: boolean;
   onClose: () => void;
 }
 
@@ -113,6 +115,17 @@ export class BuildScreenOverlay {
     this.container.add(divider);
   }
   
+  /** Right-aligned "ACTIVE" / "IDLE" marker next to a trait or downside name */
+  private addEffectStatus(rightX: number, y: number, active: boolean, activeColor: string): void {
+    const status = this.scene.add.text(rightX, y, active ? '● ACTIVE' : '○ IDLE', {
+      fontFamily: 'Arial, sans-serif',
+      fontSize: '11px',
+      color: active ? activeColor : '#7f8c8d'
+    });
+    status.setOrigin(1, 0);
+    this.container.add(status);
+  }
+  
   private createCharacterPanel(): void {
     const x = 30;
     const y = 130;
@@ -151,6 +164,7 @@ export class BuildScreenOverlay {
       color: '#2ecc71'
     });
     this.container.add(traitLabel);
+    this.addEffectStatus(x + panelWidth - 15, y + 70, !!this.config.traitActive, '#2ecc71');
     
     const traitText = this.scene.add.text(x + 15, y + 88, this.config.character.trait.description, {
       fontFamily: 'Arial, sans-serif',
@@ -167,6 +181,7 @@ export class BuildScreenOverlay {
       color: '#e74c3c'
     });
     this.container.add(downsideLabel);
+    this.addEffectStatus(x + panelWidth - 15, y + 120, !!this.config.downsideActive, '#e74c3c');
     
     const downsideText = this.scene.add.text(x + 15, y + 138, this.config.character.downside.description, {
       fontFamily: 'Arial, sans-serif',
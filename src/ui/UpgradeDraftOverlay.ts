@@ -5,14 +5,20 @@ import Phaser from 'phaser';
 import { Upgrade, RARITY_COLORS, SYNERGY_COLORS, SYNERGY_NAMES, getRandomUpgrades } from '../data/upgrades';
 import { Button } from './Button';
 
+export type DraftChoice = 'pick' | 'reroll' | 'skip';
+
 export interface UpgradeDraftConfig {
   momentNumber: number;
   ownedUpgradeIds: string[];
   extraChoices: number;
   rerolls: number;
   seenUpgradeIds?: string[];  // Track upgrades player has seen before
+  random?: () => number;  // Seeded draft stream (defaults to Math.random)
+  rarityBonus?: number;  // Lucky Rolls meta upgrade
+  lockedUpgradeIds?: string[];  // Challenge rewards not yet earned
   onSelect: (upgrade: Upgrade) => void;
   onSkip?: () => void;
+  onChoice?: (choice: DraftChoice, upgradeId?: string) => void;  // Takes the clicks; the owner answers with pick/reroll/skip
 }
 
 export class UpgradeDraftOverlay extends Phaser.GameObjects.Container {
@@ -86,7 +92,7 @@ export class UpgradeDraftOverlay extends Phaser.GameObjects.Container {
         text: `🔄 Reroll (${this.rerollsRemaining})`,
         fontSize: 16,
         style: 'secondary',
-        onClick: () => this.reroll()
+        onClick: () => this.choose('reroll')
       });
       this.rerollButton.setDepth(201);
       this.add(this.rerollButton);
@@ -102,10 +108,7 @@ export class UpgradeDraftOverlay extends Phaser.GameObjects.Container {
         text: 'Skip',
         fontSize: 16,
         style: 'danger',
-        onClick: () => {
-          this.hide();
-          config.onSkip!();
-        }
+        onClick: () => this.choose('skip')
       });
       this.skipButton.setDepth(201);
       this.add(this.skipButton);
@@ -123,7 +126,10 @@ export class UpgradeDraftOverlay extends Phaser.GameObjects.Container {
     this.currentUpgrades = getRandomUpgrades(
       choiceCount,
       this.config.momentNumber,
-      this.config.ownedUpgradeIds
+      this.config.ownedUpgradeIds,
+      this.config.random,
+      this.config.rarityBonus,
+      this.config.lockedUpgradeIds
     );
     
     this.displayCards();
@@ -149,7 +155,7 @@ export class UpgradeDraftOverlay extends Phaser.GameObjects.Container {
         this.scene.cameras.main.centerY,
         upgrade,
         isNew,
-        () => this.selectUpgrade(upgrade)
+        () => this.choose('pick', upgrade.id)
       );
       card.setDepth(202);
       this.cards.push(card);
@@ -173,7 +179,31 @@ export class UpgradeDraftOverlay extends Phaser.GameObjects.Container {
     });
   }
   
-  private reroll(): void {
+  private choose(choice: DraftChoice, upgradeId?: string): void {
+    if (this.config.onChoice) {
+      this.config.onChoice(choice, upgradeId);
+    } else if (choice === 'pick') {
+      this.pick(upgradeId!);
+    } else if (choice === 'reroll') {
+      this.reroll();
+    } else {
+      this.skip();
+    }
+  }
+  
+  pick(upgradeId: string): void {
+    const upgrade = this.currentUpgrades.find(u => u.id === upgradeId);
+    if (upgrade) {
+      this.selectUpgrade(upgrade);
+    }
+  }
+  
+  skip(): void {
+    this.hide();
+    this.config.onSkip?.();
+  }
+  
+  reroll(): void {
     if (this.rerollsRemaining <= 0) return;
     
     this.rerollsRemaining--;
@@ -0,0 +1,29 @@
+import { defineConfig } from 'vite';
+
+// Headless balance simulation (npm run sim)
+// Bundles src/sim/simulate.ts and the game it drives into one script for Node
+
+export default defineConfig({
+  build: {
+    ssr: 'src/sim/simulate.ts',
+    outDir: 'dist/sim',
+    emptyOutDir: true,
+    target: 'node18',
+    minify: false,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'simulate.js'
+      }
+    }
+  },
+  
+  // Phaser goes in the bundle too, so it loads after the headless environment.
+  // Its ESM build has no default export, so the UMD build is bundled instead.
+  resolve: {
+    alias: [{ find: /^phaser$/, replacement: 'phaser/dist/phaser.js' }]
+  },
+  
+  ssr: {
+    noExternal: true
+  }
+});